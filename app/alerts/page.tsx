@@ -0,0 +1,454 @@
+"use client";
+
+import { useState } from "react";
+
+import { useDataset } from "@/components/DatasetProvider";
+import DatasetSelect from "@/components/DatasetSelect";
+import { WebhookSettings } from "@/components/alerts/WebhookSettings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useNow } from "@/hooks/useNow";
+import {
+  ALERT_METRIC_LABELS,
+  EARLY_WARNING_LABELS,
+  createEmptyAlertState,
+  describeAlertCondition,
+  isAlertOpen,
+  type AlertComparator,
+  type AlertCondition,
+  type AlertMetric,
+  type AlertRule,
+  type EarlyWarningKey,
+} from "@/lib/alerts";
+import { oneWordArchetypes } from "@/src/lib/dnav/archetypes";
+import { DATASET_SYNC } from "@/lib/flags";
+import { cn } from "@/lib/utils";
+
+const LABEL_CLASSNAME = "text-[11px] font-semibold uppercase tracking-wide text-muted-foreground";
+
+const ARCHETYPE_NAMES = Object.values(oneWordArchetypes);
+
+const DEFAULT_CONDITIONS: Record<AlertCondition["kind"], AlertCondition> = {
+  rolling_mean: { kind: "rolling_mean", metric: "pressure", window: 10, comparator: ">", threshold: 1.5 },
+  archetype_streak: { kind: "archetype_streak", archetypes: ["Meltdown", "Collapse"], count: 3 },
+  stability_variance: { kind: "stability_variance", direction: "Expanding", window: 20 },
+  early_warning: { kind: "early_warning", key: "debt", window: 20 },
+};
+
+const KIND_LABELS: Record<AlertCondition["kind"], string> = {
+  rolling_mean: "Rolling mean",
+  archetype_streak: "Archetype streak",
+  stability_variance: "Stability variance",
+  early_warning: "Early warning",
+};
+
+type RuleDraft = { id: string | null; name: string; condition: AlertCondition; enabled: boolean };
+
+const emptyDraft = (): RuleDraft => ({ id: null, name: "", condition: DEFAULT_CONDITIONS.rolling_mean, enabled: true });
+
+const toCount = (value: string, fallback: number) => {
+  const parsed = Math.round(Number(value));
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback;
+};
+
+function ConditionFields({
+  condition,
+  onChange,
+}: {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+}) {
+  switch (condition.kind) {
+    case "rolling_mean":
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Last</span>
+          <Input
+            type="number"
+            min={1}
+            value={condition.window}
+            onChange={(event) => onChange({ ...condition, window: toCount(event.target.value, condition.window) })}
+            className="h-8 w-20"
+          />
+          <Select
+            value={condition.metric}
+            onValueChange={(metric) => onChange({ ...condition, metric: metric as AlertMetric })}
+          >
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map((metric) => (
+                <SelectItem key={metric} value={metric}>
+                  {ALERT_METRIC_LABELS[metric]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">mean</span>
+          <Select
+            value={condition.comparator}
+            onValueChange={(comparator) => onChange({ ...condition, comparator: comparator as AlertComparator })}
+          >
+            <SelectTrigger className="h-8 w-16 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {([">", ">=", "<", "<="] as AlertComparator[]).map((comparator) => (
+                <SelectItem key={comparator} value={comparator}>
+                  {comparator}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step={0.1}
+            value={condition.threshold}
+            onChange={(event) => onChange({ ...condition, threshold: Number(event.target.value) || 0 })}
+            className="h-8 w-24"
+          />
+        </div>
+      );
+    case "archetype_streak":
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={condition.count}
+              onChange={(event) => onChange({ ...condition, count: toCount(event.target.value, condition.count) })}
+              className="h-8 w-20"
+            />
+            <span className="text-xs text-muted-foreground">consecutive decisions in any of:</span>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {ARCHETYPE_NAMES.map((name) => {
+              const selected = condition.archetypes.includes(name);
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      ...condition,
+                      archetypes: selected
+                        ? condition.archetypes.filter((item) => item !== name)
+                        : [...condition.archetypes, name],
+                    })
+                  }
+                >
+                  <Badge variant={selected ? "default" : "outline"}>{name}</Badge>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      );
+    case "stability_variance":
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Stability variance is</span>
+          <Select
+            value={condition.direction}
+            onValueChange={(direction) =>
+              onChange({ ...condition, direction: direction as "Expanding" | "Contracting" })
+            }
+          >
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Expanding">Expanding</SelectItem>
+              <SelectItem value="Contracting">Contracting</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">over the last</span>
+          <Input
+            type="number"
+            min={4}
+            value={condition.window}
+            onChange={(event) => onChange({ ...condition, window: toCount(event.target.value, condition.window) })}
+            className="h-8 w-20"
+          />
+          <span className="text-xs text-muted-foreground">decisions</span>
+        </div>
+      );
+    case "early_warning":
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={condition.key}
+            onValueChange={(key) => onChange({ ...condition, key: key as EarlyWarningKey })}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EARLY_WARNING_LABELS) as EarlyWarningKey[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {EARLY_WARNING_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">is on over the last</span>
+          <Input
+            type="number"
+            min={4}
+            value={condition.window}
+            onChange={(event) => onChange({ ...condition, window: toCount(event.target.value, condition.window) })}
+            className="h-8 w-20"
+          />
+          <span className="text-xs text-muted-foreground">decisions</span>
+        </div>
+      );
+  }
+}
+
+export default function AlertsPage() {
+  const {
+    activeDataset,
+    alertStates,
+    saveAlertRule,
+    removeAlertRule,
+    acknowledgeAlertNotification,
+  } = useDataset();
+  const now = useNow();
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+
+  const state = (activeDataset && alertStates[activeDataset.id]) || createEmptyAlertState();
+  const activeRuleIds = new Set(state.activeRuleIds);
+
+  const handleSave = () => {
+    if (!activeDataset) return;
+    saveAlertRule(activeDataset.id, {
+      id: draft.id ?? crypto.randomUUID(),
+      name: draft.name,
+      condition: draft.condition,
+      enabled: draft.enabled,
+    });
+    setDraft(emptyDraft());
+  };
+
+  const handleToggle = (rule: AlertRule, enabled: boolean) => {
+    if (!activeDataset) return;
+    saveAlertRule(activeDataset.id, { id: rule.id, name: rule.name, condition: rule.condition, enabled });
+  };
+
+  const isDraftValid = draft.condition.kind !== "archetype_streak" || draft.condition.archetypes.length > 0;
+
+  return (
+    <div className="mx-auto grid max-w-4xl grid-cols-1 gap-4">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold">Alerts</h1>
+        <p className="text-sm text-muted-foreground">
+          Rules run against the dataset every time decisions are added or changed. A rule notifies once when it starts
+          matching and again only after it has cleared.
+        </p>
+      </div>
+
+      <DatasetSelect label="Dataset" allowRemove={false} />
+
+      {!activeDataset ? (
+        <p className="text-sm text-muted-foreground">Select a dataset to manage its alert rules.</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{draft.id ? "Edit rule" : "New rule"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={draft.name}
+                  placeholder={describeAlertCondition(draft.condition)}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                  className="max-w-sm"
+                />
+                <Select
+                  value={draft.condition.kind}
+                  onValueChange={(kind) =>
+                    setDraft((prev) => ({ ...prev, condition: DEFAULT_CONDITIONS[kind as AlertCondition["kind"]] }))
+                  }
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(KIND_LABELS) as AlertCondition["kind"][]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ConditionFields
+                condition={draft.condition}
+                onChange={(condition) => setDraft((prev) => ({ ...prev, condition }))}
+              />
+              <div className="flex items-center gap-2">
+                <Button type="button" onClick={handleSave} disabled={!isDraftValid}>
+                  {draft.id ? "Save rule" : "Add rule"}
+                </Button>
+                {draft.id ? (
+                  <Button type="button" variant="ghost" onClick={() => setDraft(emptyDraft())}>
+                    Cancel
+                  </Button>
+                ) : null}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Rules</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {state.rules.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No rules on this dataset yet.</p>
+              ) : (
+                state.rules.map((rule) => (
+                  <div key={rule.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground">{rule.name}</span>
+                        {rule.enabled && activeRuleIds.has(rule.id) ? (
+                          <Badge variant="destructive">Matching</Badge>
+                        ) : null}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{describeAlertCondition(rule.condition)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+                        aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setDraft({ id: rule.id, name: rule.name, condition: rule.condition, enabled: rule.enabled })
+                        }
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeAlertRule(activeDataset.id, rule.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Notifications</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {state.notifications.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Nothing has fired on this dataset.</p>
+              ) : (
+                state.notifications.map((notification) => {
+                  const open = isAlertOpen(notification, now);
+                  const status =
+                    notification.acknowledgedAt !== undefined
+                      ? "Acknowledged"
+                      : open
+                        ? "Open"
+                        : `Snoozed until ${new Date(notification.snoozedUntil ?? now).toLocaleString()}`;
+                  return (
+                    <div
+                      key={notification.id}
+                      className={cn(
+                        "flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3",
+                        !open && "opacity-70",
+                      )}
+                    >
+                      <div className="space-y-0.5">
+                        <p className="font-medium text-foreground">{notification.ruleName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(notification.firedAt).toLocaleString()} · {notification.message}
+                          {notification.clearedAt
+                            ? ` Cleared ${new Date(notification.clearedAt).toLocaleString()}.`
+                            : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={open ? "destructive" : "secondary"}>{status}</Badge>
+                        {notification.acknowledgedAt === undefined ? (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => acknowledgeAlertNotification(activeDataset.id, notification.id)}
+                          >
+                            Acknowledge
+                          </Button>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          {DATASET_SYNC ? <WebhookSettings datasetId={activeDataset.id} /> : null}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Rule history</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {state.history.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No rule activity yet.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className={LABEL_CLASSNAME}>
+                      <th className="py-1 text-left font-semibold">When</th>
+                      <th className="py-1 text-left font-semibold">Rule</th>
+                      <th className="py-1 text-left font-semibold">Event</th>
+                      <th className="py-1 text-left font-semibold">Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {[...state.history].reverse().map((event, index) => (
+                      <tr key={`${event.ruleId}-${event.at}-${event.type}-${index}`}>
+                        <td className="py-1.5 pr-2 whitespace-nowrap text-muted-foreground">
+                          {new Date(event.at).toLocaleString()}
+                        </td>
+                        <td className="py-1.5 pr-2 text-foreground">{event.ruleName}</td>
+                        <td className="py-1.5 pr-2 capitalize">{event.type}</td>
+                        <td className="py-1.5 text-muted-foreground">
+                          {event.detail}
+                          {event.actor ? ` · ${event.actor}` : ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { after } from "next/server";
+
+import type { DecisionEntry } from "@/lib/calculations";
+import {
+  applyDatasetDecisionChanges,
+  getDatasetStorageAdapter,
+  replaceDatasetDecisions,
+  type DatasetStoreResult,
+} from "@/lib/datasetStore";
+import { getDatasetScoringProfile } from "@/lib/scoringProfiles";
+import { dispatchWebhookTriggers, getWebhookStorageAdapter } from "@/lib/webhookStore";
+import { collectDatasetTriggers } from "@/lib/webhooks";
+
+import { requireDatasetAccess } from "../../access";
+import { patchDecisionsRequestSchema, replaceDecisionsRequestSchema } from "../../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const readBody = async (request: Request): Promise<{ ok: true; body: unknown } | { ok: false }> => {
+  try {
+    return { ok: true, body: await request.json() };
+  } catch {
+    return { ok: false };
+  }
+};
+
+const toResponse = (result: DatasetStoreResult) => {
+  if (result.ok) {
+    return Response.json({ dataset: result.dataset }, { status: 200 });
+  }
+  switch (result.reason) {
+    case "conflict":
+      return Response.json(
+        { error: "Decisions changed on the server.", conflicts: result.conflicts, dataset: result.dataset },
+        { status: 409 },
+      );
+    case "stale":
+      return Response.json({ error: "Dataset revision is out of date.", dataset: result.dataset }, { status: 409 });
+    default:
+      return Response.json({ error: "Dataset not found." }, { status: 404 });
+  }
+};
+
+// Signals raised by a successful write go out to webhooks after the response is sent.
+const scheduleWebhooks = (previous: DecisionEntry[], result: DatasetStoreResult) => {
+  if (!result.ok) return;
+  const { dataset } = result;
+  const profile = getDatasetScoringProfile(dataset.meta);
+  const triggers = collectDatasetTriggers(previous, dataset.decisions, profile);
+  if (!triggers.length) return;
+  after(() => dispatchWebhookTriggers(getWebhookStorageAdapter(), dataset.id, triggers, { profile }));
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "read");
+  if (!access.ok) return access.response;
+  const { dataset } = access;
+  return Response.json({ revision: dataset.revision, decisions: dataset.decisions }, { status: 200 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "write");
+  if (!access.ok) return access.response;
+  const read = await readBody(request);
+  const parsed = read.ok ? patchDecisionsRequestSchema.safeParse(read.body) : null;
+  if (!parsed?.success) {
+    if (parsed) console.warn("dataset decisions validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await applyDatasetDecisionChanges(getDatasetStorageAdapter(), id, parsed.data.changes);
+  scheduleWebhooks(access.dataset.decisions, result);
+  return toResponse(result);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "write");
+  if (!access.ok) return access.response;
+  const read = await readBody(request);
+  const parsed = read.ok ? replaceDecisionsRequestSchema.safeParse(read.body) : null;
+  if (!parsed?.success) {
+    if (parsed) console.warn("dataset decisions validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await replaceDatasetDecisions(
+    getDatasetStorageAdapter(),
+    id,
+    parsed.data.decisions,
+    parsed.data.baseRevision,
+  );
+  scheduleWebhooks(access.dataset.decisions, result);
+  return toResponse(result);
+}
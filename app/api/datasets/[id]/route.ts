@@ -0,0 +1,71 @@
+import { deleteDataset, getDatasetStorageAdapter, updateDataset } from "@/lib/datasetStore";
+import { getWorkspaceStorageAdapter, hasWorkspacePermission } from "@/lib/workspaceStore";
+import { hasPermission } from "@/lib/workspaces";
+import type { DatasetMeta } from "@/types/dataset";
+
+import { accessDeniedResponse, requireDatasetAccess } from "../access";
+import { updateDatasetRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "read");
+  if (!access.ok) return access.response;
+  return Response.json({ dataset: access.dataset }, { status: 200 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "write");
+  if (!access.ok) return access.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = updateDatasetRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("datasets validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  // Ownership and grants are admin-only, and moving into a workspace needs admin rights on the destination too.
+  const { workspaceId, access: grants } = parsed.data;
+  const changesWorkspace = workspaceId !== undefined && workspaceId !== access.dataset.workspaceId;
+  if ((changesWorkspace || grants) && !hasPermission(access.role, "manage")) {
+    return accessDeniedResponse("forbidden");
+  }
+  if (changesWorkspace && !(await hasWorkspacePermission(getWorkspaceStorageAdapter(), workspaceId, access.user, "manage"))) {
+    return accessDeniedResponse("forbidden");
+  }
+
+  const result = await updateDataset(getDatasetStorageAdapter(), id, {
+    label: parsed.data.label,
+    meta: parsed.data.meta as Partial<DatasetMeta> | undefined,
+    workspaceId,
+    access: grants,
+  });
+  if (!result.ok) {
+    return Response.json({ error: "Dataset not found." }, { status: 404 });
+  }
+  return Response.json({ dataset: result.dataset }, { status: 200 });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+
+  const removed = await deleteDataset(getDatasetStorageAdapter(), id);
+  if (!removed) {
+    return Response.json({ error: "Dataset not found." }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,54 @@
+import { deleteWebhookEndpoint, getWebhookStorageAdapter, updateWebhookEndpoint } from "@/lib/webhookStore";
+import { redactWebhookEndpoint, type WebhookEventType } from "@/lib/webhooks";
+
+import { requireDatasetAccess } from "../../../access";
+import { updateWebhookRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string; webhookId: string }> };
+
+const notFound = () => Response.json({ error: "Webhook not found." }, { status: 404 });
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id, webhookId } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = await updateWebhookRequestSchema.safeParseAsync(body);
+  if (!parsed.success) {
+    console.warn("webhooks validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await updateWebhookEndpoint(getWebhookStorageAdapter(), id, webhookId, {
+    ...parsed.data,
+    events: parsed.data.events as WebhookEventType[] | undefined,
+  });
+  if (!result.ok) return notFound();
+  return Response.json(
+    {
+      webhook: redactWebhookEndpoint(result.endpoint),
+      ...(parsed.data.rotateSecret ? { secret: result.endpoint.secret } : {}),
+    },
+    { status: 200 },
+  );
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id, webhookId } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+
+  const removed = await deleteWebhookEndpoint(getWebhookStorageAdapter(), id, webhookId);
+  if (!removed) return notFound();
+  return new Response(null, { status: 204 });
+}
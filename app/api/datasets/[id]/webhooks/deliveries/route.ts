@@ -0,0 +1,16 @@
+import { getWebhookStorageAdapter, listWebhookDeliveries } from "@/lib/webhookStore";
+
+import { requireDatasetAccess } from "../../../access";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+  const deliveries = await listWebhookDeliveries(getWebhookStorageAdapter(), id);
+  return Response.json({ deliveries }, { status: 200 });
+}
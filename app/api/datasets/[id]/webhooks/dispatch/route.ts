@@ -0,0 +1,46 @@
+import { after } from "next/server";
+
+import { getDatasetScoringProfile } from "@/lib/scoringProfiles";
+import { claimWebhookDispatch, dispatchWebhookTriggers, getWebhookStorageAdapter } from "@/lib/webhookStore";
+import { collectAlertRuleTrigger, getAlertDispatchKey } from "@/lib/webhooks";
+
+import { requireDatasetAccess } from "../../../access";
+import { dispatchAlertRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Alert rules run in the browser, so clients report firings here; the server re-checks, signs and delivers them.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "write");
+  if (!access.ok) return access.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = dispatchAlertRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("webhook dispatch validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const profile = getDatasetScoringProfile(access.dataset.meta);
+  const triggered = collectAlertRuleTrigger(parsed.data.rule, access.dataset.decisions, profile);
+  // The rule does not hold on the stored decisions (or the client has not synced yet): nothing to send.
+  if (!triggered) return new Response(null, { status: 204 });
+
+  // Repeats of the same firing are accepted but only the first within the cooldown is delivered.
+  const adapter = getWebhookStorageAdapter();
+  const key = getAlertDispatchKey(parsed.data.rule, triggered.decision, access.dataset.revision);
+  if (await claimWebhookDispatch(adapter, id, key)) {
+    after(() => dispatchWebhookTriggers(adapter, id, [triggered], { profile }));
+  }
+  return new Response(null, { status: 202 });
+}
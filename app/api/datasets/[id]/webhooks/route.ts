@@ -0,0 +1,46 @@
+import { createWebhookEndpoint, getWebhookStorageAdapter, listWebhookEndpoints } from "@/lib/webhookStore";
+import { redactWebhookEndpoint, type WebhookEventType } from "@/lib/webhooks";
+
+import { requireDatasetAccess } from "../../access";
+import { createWebhookRequestSchema } from "./schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Endpoints carry signing secrets, so only dataset admins can see or change them.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+  const endpoints = await listWebhookEndpoints(getWebhookStorageAdapter(), id);
+  return Response.json({ webhooks: endpoints.map(redactWebhookEndpoint) }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const access = await requireDatasetAccess(request, id, "manage");
+  if (!access.ok) return access.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = await createWebhookRequestSchema.safeParseAsync(body);
+  if (!parsed.success) {
+    console.warn("webhooks validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const endpoint = await createWebhookEndpoint(getWebhookStorageAdapter(), id, {
+    url: parsed.data.url,
+    events: parsed.data.events as WebhookEventType[],
+    enabled: parsed.data.enabled,
+  });
+  // The full secret is returned this once so the receiver can be configured.
+  return Response.json({ webhook: redactWebhookEndpoint(endpoint), secret: endpoint.secret }, { status: 201 });
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+import { checkWebhookTarget } from "@/lib/webhookDelivery";
+import { WEBHOOK_EVENT_TYPES } from "@/lib/webhooks";
+
+// Resolves the host, so requests using these schemas must be parsed with safeParseAsync.
+export const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((value) => /^https?:\/\//i.test(value), "Webhook URLs must use http or https.")
+  .refine(
+    async (value) => (await checkWebhookTarget(value)).ok,
+    "Webhook URLs must resolve to a public address (see DNAV_WEBHOOK_ALLOWED_HOSTS).",
+  );
+
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES as [string, ...string[]])).min(1);
+
+export const createWebhookRequestSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema.default(WEBHOOK_EVENT_TYPES),
+  enabled: z.boolean().optional(),
+});
+
+export const updateWebhookRequestSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  enabled: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+const windowSchema = z.number().int().min(1).max(500);
+
+const alertConditionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("rolling_mean"),
+    metric: z.enum(["return", "pressure", "stability", "dnav"]),
+    window: windowSchema,
+    comparator: z.enum([">", ">=", "<", "<="]),
+    threshold: z.number().finite(),
+  }),
+  z.object({
+    kind: z.literal("archetype_streak"),
+    archetypes: z.array(z.string().max(100)).min(1).max(20),
+    count: windowSchema,
+  }),
+  z.object({
+    kind: z.literal("stability_variance"),
+    direction: z.enum(["Expanding", "Contracting"]),
+    window: windowSchema,
+  }),
+  z.object({
+    kind: z.literal("early_warning"),
+    key: z.enum(["fragility", "debt", "drift"]),
+    window: windowSchema,
+  }),
+]);
+
+// Clients send the rule, never the message: the server evaluates the condition itself before dispatching.
+export const dispatchAlertRequestSchema = z.object({
+  rule: z.object({
+    id: z.string().min(1).max(200),
+    name: z.string().max(200),
+    condition: alertConditionSchema,
+  }),
+});
@@ -0,0 +1,37 @@
+import { getDatasetStorageAdapter } from "@/lib/datasetStore";
+import type { DatasetRecord } from "@/lib/datasetSync";
+import type { IdentityUser } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { authorizeDataset, getWorkspaceStorageAdapter, type AccessDenial } from "@/lib/workspaceStore";
+import type { WorkspacePermission, WorkspaceRole } from "@/lib/workspaces";
+
+export function accessDeniedResponse(reason: AccessDenial) {
+  switch (reason) {
+    case "unauthenticated":
+      return Response.json({ error: "Sign in to access datasets." }, { status: 401 });
+    case "forbidden":
+      return Response.json({ error: "Your role does not allow this action." }, { status: 403 });
+    default:
+      return Response.json({ error: "Dataset not found." }, { status: 404 });
+  }
+}
+
+// Every dataset route resolves the caller and their role before touching the store.
+export async function requireDatasetAccess(
+  request: Request,
+  id: string,
+  permission: WorkspacePermission,
+): Promise<
+  { ok: true; user: IdentityUser; dataset: DatasetRecord; role: WorkspaceRole } | { ok: false; response: Response }
+> {
+  const user = await resolveRequestIdentity(request);
+  if (!user) return { ok: false, response: accessDeniedResponse("unauthenticated") };
+  const access = await authorizeDataset(
+    { datasets: getDatasetStorageAdapter(), workspaces: getWorkspaceStorageAdapter() },
+    id,
+    user,
+    permission,
+  );
+  if (!access.ok) return { ok: false, response: accessDeniedResponse(access.reason) };
+  return { ok: true, user, dataset: access.dataset, role: access.role };
+}
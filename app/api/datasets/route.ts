@@ -0,0 +1,59 @@
+import { createDataset, getDatasetStorageAdapter, listDatasets } from "@/lib/datasetStore";
+import { getIdentityUserId } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { filterReadableDatasets, getWorkspaceStorageAdapter, hasWorkspacePermission } from "@/lib/workspaceStore";
+import type { DatasetMeta } from "@/types/dataset";
+
+import { accessDeniedResponse } from "./access";
+import { createDatasetRequestSchema } from "./schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  const datasets = await filterReadableDatasets(
+    getWorkspaceStorageAdapter(),
+    await listDatasets(getDatasetStorageAdapter()),
+    user,
+  );
+  return Response.json({ datasets }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = createDatasetRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("datasets validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const { workspaceId, access } = parsed.data;
+  if (workspaceId) {
+    const workspaces = getWorkspaceStorageAdapter();
+    const allowed = await hasWorkspacePermission(workspaces, workspaceId, user, access?.length ? "manage" : "write");
+    if (!allowed) return accessDeniedResponse("forbidden");
+  }
+
+  const result = await createDataset(getDatasetStorageAdapter(), {
+    ...parsed.data,
+    meta: parsed.data.meta as Partial<DatasetMeta> | undefined,
+    ownerId: getIdentityUserId(user) ?? undefined,
+  });
+  if (!result.ok) {
+    return Response.json({ error: "A dataset with this id already exists." }, { status: 409 });
+  }
+
+  return Response.json({ dataset: result.dataset }, { status: 201 });
+}
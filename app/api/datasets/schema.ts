@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+import { datasetAccessGrantSchema, datasetMetaSchema, decisionEntrySchema } from "@/lib/datasetSchema";
+
+export const createDatasetRequestSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(120)
+    .regex(/^[\w.-]+$/, "Dataset ids may only contain letters, numbers, dots, dashes and underscores.")
+    .optional(),
+  label: z.string().max(200).default(""),
+  meta: datasetMetaSchema.optional(),
+  decisions: z.array(decisionEntrySchema).optional(),
+  workspaceId: z.string().min(1).optional(),
+  access: z.array(datasetAccessGrantSchema).optional(),
+});
+
+export const updateDatasetRequestSchema = z.object({
+  label: z.string().max(200).optional(),
+  meta: datasetMetaSchema.optional(),
+  workspaceId: z.string().min(1).optional(),
+  access: z.array(datasetAccessGrantSchema).optional(),
+});
+
+export const decisionChangeSchema = z.object({
+  key: z.string().min(1),
+  previous: decisionEntrySchema.nullable(),
+  next: decisionEntrySchema.nullable(),
+});
+
+export const patchDecisionsRequestSchema = z.object({
+  changes: z.array(decisionChangeSchema),
+});
+
+export const replaceDecisionsRequestSchema = z.object({
+  baseRevision: z.number().int().min(0),
+  decisions: z.array(decisionEntrySchema),
+});
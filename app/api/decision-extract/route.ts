@@ -1,20 +1,49 @@
-import OpenAI from "openai";
+import {
+  getExtractionCache,
+  getExtractionCacheKey,
+  readCachedExtraction,
+  writeCachedExtraction,
+  type CachedExtraction,
+  type ExtractionCacheAdapter,
+} from "@/lib/extractionCache";
+import { locateQuote } from "@/lib/intake/evidenceLocation";
+import { buildExtractionChunks, type ExtractionChunk } from "@/lib/intake/extractionChunks";
+import { getLlmProvider } from "@/lib/llm/provider";
+import { EMPTY_USAGE, addUsage } from "@/lib/llm/shared";
+import type { LlmProvider, LlmUsage } from "@/lib/llm/types";
+
 import {
   decisionCandidateSchema,
   decisionExtractRequestSchema,
   decisionExtractResponseSchema,
   type DecisionCandidate,
+  type DecisionExtractChunkCoverage,
   type DecisionExtractRequest,
+  type DecisionExtractResponse,
+  type DecisionExtractStreamEvent,
 } from "./schema";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// Part of every extraction cache key: bump it whenever local extraction, the refine prompt or merging changes so
+// results cached by the previous extractor are no longer served.
+const EXTRACTOR_VERSION = "3";
 const MAX_TOTAL_CHARS = 250_000;
 const FULL_TEXT_CHAR_LIMIT = 90_000;
 const MODEL_TIMEOUT_MS = 35_000;
 const DEFAULT_MAX_CANDIDATES_PER_PAGE = 12;
-const MODEL_PREFERENCE = ["gpt-4o", "gpt-4.1-mini", "gpt-4o-mini"] as const;
+const REFINE_MIN_COUNT = 12;
+// Streaming refines in slices so each round trip stays well inside the model timeout.
+const REFINE_BATCH_SIZE = 12;
+const REFINE_FALLBACK_WARNING = "Refine unavailable — showing local results";
+// Documents over MAX_TOTAL_CHARS are cut into section-aware chunks no larger than a full-text refine handles comfortably.
+const CHUNK_CHAR_LIMIT = FULL_TEXT_CHAR_LIMIT;
+const CHUNK_CONCURRENCY = 3;
+// Every chunk is extracted locally, but refine calls are paid for, so a request makes at most this many; chunks or
+// batches past it keep their local candidates.
+const MAX_REFINE_CALLS = 8;
+const REFINE_BUDGET_WARNING = "Refine budget reached — showing local results for later sections";
 
 const REFINE_SYSTEM_PROMPT =
   "You refine existing decision candidates. Use ONLY the provided candidates and quotes; do not add new facts. Improve titles/decisions/rationales for clarity, adjust category/tags, and optionally drop obvious junk, but keep at least the minimum count requested. Evidence quotes and page numbers must stay unchanged. Output JSON with top-level 'candidates' array matching the DecisionCandidate schema.";
@@ -74,23 +103,15 @@ export async function GET() {
   return Response.json({ error: "Method not allowed." }, { status: 405 });
 }
 
-const createOpenAIClient = () =>
-  new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-
-const resolveDefaultModel = () => {
-  const envModel = process.env.OPENAI_MODEL ?? process.env.OPENAI_DEFAULT_MODEL;
-  if (envModel && envModel.trim().length > 0) return envModel.trim();
-  return MODEL_PREFERENCE[2];
-};
-
 type NormalizedRequest = {
   docName: string;
   pageCount: number;
   pages: Array<{ page: number; text: string }>;
   maxCandidatesPerPage: number;
-  model: string;
+  // Unset means the configured provider's default model.
+  model?: string;
+  stream: boolean;
+  refresh: boolean;
 };
 
 const normalizeRequest = (data: DecisionExtractRequest): NormalizedRequest => {
@@ -100,7 +121,9 @@ const normalizeRequest = (data: DecisionExtractRequest): NormalizedRequest => {
       pageCount: data.pages.length,
       pages: data.pages,
       maxCandidatesPerPage: data.options?.maxCandidatesPerPage ?? DEFAULT_MAX_CANDIDATES_PER_PAGE,
-      model: data.options?.model ?? resolveDefaultModel(),
+      model: data.options?.model,
+      stream: data.options?.stream ?? false,
+      refresh: data.options?.refresh ?? false,
     };
   }
 
@@ -109,7 +132,9 @@ const normalizeRequest = (data: DecisionExtractRequest): NormalizedRequest => {
     pageCount: data.doc.pageCount,
     pages: data.pages.map((page) => ({ page: page.page, text: page.text })),
     maxCandidatesPerPage: data.options.maxCandidatesPerPage ?? DEFAULT_MAX_CANDIDATES_PER_PAGE,
-    model: data.options.model ?? resolveDefaultModel(),
+    model: data.options.model,
+    stream: false,
+    refresh: false,
   };
 };
 
@@ -362,45 +387,43 @@ const buildDefaultConstraints = (quote: string): DecisionCandidate["constraints"
     {} as DecisionCandidate["constraints"],
   );
 
-const extractCandidatesLocal = (
-  pages: Array<{ page: number; text: string }>,
+type ScoredCandidate = DecisionCandidate & { score: number };
+
+const MAX_LOCAL_CANDIDATES = 30;
+
+const extractPageCandidatesLocal = (
+  page: { page: number; text: string },
   maxCandidatesPerPage: number,
-) => {
+): ScoredCandidate[] => {
   const perPageLimit = Math.min(8, Math.max(5, maxCandidatesPerPage));
-  const candidates: Array<DecisionCandidate & { score: number }> = [];
-
-  pages.forEach((page) => {
-    const clauses = splitIntoClauses(page.text);
-    const scoredClauses = clauses
-      .map((clause, index) => {
-        const cleaned = clause.replace(/\s+/g, " ").trim();
-        if (cleaned.length < 40) return null;
-        const normalized = normalizeText(cleaned);
-        if (!normalized) return null;
-        const { score, commitmentHits } = scoreClause(normalized);
-        if (commitmentHits === 0) return null;
-        const scoreBoost = (hasTimeAnchor(normalized) ? 2 : 0) + (hasNumberAnchor(normalized) ? 1 : 0);
-        return { clause: cleaned, index, score: score + scoreBoost };
-      })
-      .filter(Boolean) as Array<{ clause: string; index: number; score: number }>;
-
-    const topClauses = scoredClauses
-      .slice()
-      .sort((a, b) => (b.score === a.score ? a.index - b.index : b.score - a.score))
-      .slice(0, perPageLimit);
-
-    topClauses.forEach((item) => {
+  const clauses = splitIntoClauses(page.text);
+  const scoredClauses = clauses
+    .map((clause, index) => {
+      const cleaned = clause.replace(/\s+/g, " ").trim();
+      if (cleaned.length < 40) return null;
+      const normalized = normalizeText(cleaned);
+      if (!normalized) return null;
+      const { score, commitmentHits } = scoreClause(normalized);
+      if (commitmentHits === 0) return null;
+      const scoreBoost = (hasTimeAnchor(normalized) ? 2 : 0) + (hasNumberAnchor(normalized) ? 1 : 0);
+      return { clause: cleaned, index, score: score + scoreBoost };
+    })
+    .filter(Boolean) as Array<{ clause: string; index: number; score: number }>;
+
+  return scoredClauses
+    .slice()
+    .sort((a, b) => (b.score === a.score ? a.index - b.index : b.score - a.score))
+    .slice(0, perPageLimit)
+    .map((item) => {
       const normalized = normalizeText(item.clause);
       const strength = inferStrength(normalized);
       const quote = clampQuote(item.clause);
-      const title = buildTitle(quote);
-      const decision = buildDecision(quote);
-      const candidate: DecisionCandidate & { score: number } = {
+      return {
         id: `local-${page.page}-${item.index}-${hashText(quote)}`,
-        title,
+        title: buildTitle(quote),
         strength,
         category: inferCategory(quote),
-        decision,
+        decision: buildDecision(quote),
         rationale: buildRationale(strength),
         page: page.page,
         constraints: buildDefaultConstraints(quote),
@@ -408,18 +431,27 @@ const extractCandidatesLocal = (
         tags: inferTags(quote),
         score: item.score,
       };
-      candidates.push(candidate);
     });
-  });
+};
 
-  const sorted = candidates.sort((a, b) => (b.score === a.score ? a.evidence.page - b.evidence.page : b.score - a.score));
-  return sorted.slice(0, 30).map((candidate) => {
-    const { score: _score, ...rest } = candidate;
-    void _score;
-    return rest;
-  });
+const stripScore = ({ score: _score, ...candidate }: ScoredCandidate): DecisionCandidate => {
+  void _score;
+  return candidate;
 };
 
+// The document-wide cut: strongest clauses first, earlier pages winning ties.
+const selectTopCandidates = (candidates: ScoredCandidate[]) =>
+  candidates
+    .slice()
+    .sort((a, b) => (b.score === a.score ? a.evidence.page - b.evidence.page : b.score - a.score))
+    .slice(0, MAX_LOCAL_CANDIDATES)
+    .map(stripScore);
+
+const extractCandidatesLocal = (
+  pages: Array<{ page: number; text: string }>,
+  maxCandidatesPerPage: number,
+) => selectTopCandidates(pages.flatMap((page) => extractPageCandidatesLocal(page, maxCandidatesPerPage)));
+
 const extractKeyTerms = (value: string) => {
   const words = normalizeText(value).split(" ");
   return new Set(words.filter((word) => word.length > 3 && !STOP_WORDS.has(word)));
@@ -474,20 +506,24 @@ const mergeCandidates = (a: DecisionCandidate, b: DecisionCandidate) => {
   };
 };
 
+type LocateEvidence = (quote: string) => { page: number } | null;
+
+// Only evidence the model supplied is located; the fallback quote backs the candidate, not this particular score.
 const normalizeConstraint = (
   value: unknown,
   fallbackEvidence: string,
-): { score: number; evidence: string } => {
+  locate: LocateEvidence,
+): DecisionCandidate["constraints"]["impact"] => {
   if (value && typeof value === "object") {
     const candidate = value as { score?: unknown; evidence?: unknown };
     const scoreValue =
       typeof candidate.score === "number" && Number.isFinite(candidate.score) ? Math.round(candidate.score) : 5;
     const score = Math.min(10, Math.max(1, scoreValue));
-    const evidence =
-      typeof candidate.evidence === "string" && candidate.evidence.trim().length > 0
-        ? candidate.evidence.trim()
-        : fallbackEvidence;
-    return { score, evidence };
+    if (typeof candidate.evidence === "string" && candidate.evidence.trim().length > 0) {
+      const evidence = candidate.evidence.trim();
+      return { score, evidence, location: locate(evidence) ?? undefined };
+    }
+    return { score, evidence: fallbackEvidence };
   }
   return { score: 5, evidence: fallbackEvidence };
 };
@@ -511,6 +547,7 @@ const normalizeCandidate = (
   raw: unknown,
   strength: "hard" | "soft",
   index: number,
+  pages: Array<{ page: number; text: string }>,
 ): { candidate: DecisionCandidate | null; droppedReason?: string } => {
   if (!raw || typeof raw !== "object") return { candidate: null, droppedReason: "invalid" };
   const candidate = raw as Record<string, unknown>;
@@ -539,10 +576,15 @@ const normalizeCandidate = (
     : [];
 
   const fallbackEvidence = quote;
+  // Only the page is kept: the PDF viewer re-finds the quote in the rendered text, whose offsets differ.
+  const locate: LocateEvidence = (evidenceQuote) => {
+    const location = locateQuote(pages, evidenceQuote, page);
+    return location ? { page: location.page } : null;
+  };
   const constraintsSource = candidate.constraints as Record<string, unknown> | undefined;
   const constraints = SCORE_FIELDS.reduce(
     (acc, field) => {
-      acc[field] = normalizeConstraint(constraintsSource?.[field], fallbackEvidence);
+      acc[field] = normalizeConstraint(constraintsSource?.[field], fallbackEvidence, locate);
       return acc;
     },
     {} as DecisionCandidate["constraints"],
@@ -626,117 +668,425 @@ const buildRefinePrompt = (
 }`,
     `Keep at least ${minCount} candidates (unless fewer were provided).`,
     "Do not invent evidence. Keep evidence.quote and evidence.page exactly as provided.",
+    "Each constraints score's evidence must be the exact words from that candidate's evidence.quote that justify the score.",
     "Only remove obvious junk (boilerplate or irrelevant).",
     `Document name: ${docName}`,
     "Candidates JSON:",
     JSON.stringify(candidates, null, 2),
   ].join("\n");
 
-const withTimeout = async <T,>(promise: Promise<T>, timeoutMs: number) => {
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(() => {
-      const error = new Error("Model timeout");
-      error.name = "TimeoutError";
-      reject(error);
-    }, timeoutMs);
-  });
-  try {
-    return await Promise.race([promise, timeoutPromise]);
-  } finally {
-    if (timeoutId) clearTimeout(timeoutId);
-  }
+type RefineResult = {
+  candidates: DecisionCandidate[];
+  warning?: string;
+  durationMs: number;
+  rawCount: number;
+  droppedInvalid: number;
+  model?: string;
+  usage?: LlmUsage;
 };
 
 const refineCandidates = async ({
+  provider,
   docName,
   candidates,
+  pages,
   model,
   timeoutMs,
   minCount,
 }: {
+  provider: LlmProvider;
   docName: string;
   candidates: DecisionCandidate[];
-  model: string;
+  // The text the candidates came from, used to ground each score's evidence.
+  pages: Array<{ page: number; text: string }>;
+  model?: string;
   timeoutMs: number;
   minCount: number;
-}) => {
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("decision-extract missing OPENAI_API_KEY");
-    return {
-      candidates: [] as DecisionCandidate[],
-      warning: "Missing OpenAI API key",
-      durationMs: 0,
-      rawCount: 0,
-      droppedInvalid: 0,
-    };
-  }
-
-  const openai = createOpenAIClient();
+}): Promise<RefineResult> => {
   const userPrompt = buildRefinePrompt(docName, candidates, minCount);
-  const start = Date.now();
-  let completion: Awaited<ReturnType<typeof openai.chat.completions.create>>;
-  try {
-    completion = await withTimeout(
-      openai.chat.completions.create({
-        model,
-        temperature: 0.2,
-        messages: [
-          { role: "system", content: REFINE_SYSTEM_PROMPT },
-          { role: "user", content: userPrompt },
-        ],
-        response_format: { type: "json_object" },
-      }),
-      timeoutMs,
-    );
-  } catch (error) {
-    const warning = error instanceof Error && error.name === "TimeoutError" ? "Model timeout" : "Model error";
-    console.error("decision-extract model error", warning);
-    return {
-      candidates: [] as DecisionCandidate[],
-      warning,
-      durationMs: Date.now() - start,
-      rawCount: 0,
-      droppedInvalid: 0,
-    };
+  const result = await provider.chat({
+    model,
+    temperature: 0.2,
+    json: true,
+    timeoutMs,
+    messages: [
+      { role: "system", content: REFINE_SYSTEM_PROMPT },
+      { role: "user", content: userPrompt },
+    ],
+  });
+  if (!result.ok) {
+    const warning = result.reason === "timeout" ? "Model timeout" : "Model error";
+    console.error("decision-extract model error", { provider: provider.name, reason: result.reason, message: result.message });
+    return { candidates: [], warning, durationMs: result.durationMs, rawCount: 0, droppedInvalid: 0 };
   }
 
-  const content = completion.choices[0]?.message?.content ?? "[]";
+  const { durationMs, usage } = result;
   let raw: unknown;
   try {
-    raw = extractJsonArray(content);
+    raw = extractJsonArray(result.content);
   } catch (error) {
     console.error("decision-extract json parse error", error);
-    return {
-      candidates: [] as DecisionCandidate[],
-      warning: "Model response invalid JSON",
-      durationMs: Date.now() - start,
-      rawCount: 0,
-      droppedInvalid: 0,
-    };
+    return { candidates: [], warning: "Model response invalid JSON", durationMs, rawCount: 0, droppedInvalid: 0, usage };
   }
   if (!Array.isArray(raw)) {
-    return {
-      candidates: [] as DecisionCandidate[],
-      warning: "Model response not array",
-      durationMs: Date.now() - start,
-      rawCount: Array.isArray(raw) ? raw.length : 0,
-      droppedInvalid: 0,
-    };
+    return { candidates: [], warning: "Model response not array", durationMs, rawCount: 0, droppedInvalid: 0, usage };
   }
   let droppedInvalid = 0;
   const refined: DecisionCandidate[] = [];
   raw.forEach((item, index) => {
-    const result = normalizeCandidate(item, "soft", index);
-    if (result.candidate) {
-      refined.push(result.candidate);
+    const normalized = normalizeCandidate(item, "soft", index, pages);
+    if (normalized.candidate) {
+      refined.push(normalized.candidate);
     } else {
       droppedInvalid += 1;
     }
   });
-  return { candidates: refined, durationMs: Date.now() - start, rawCount: raw.length, droppedInvalid };
+  return { candidates: refined, durationMs, rawCount: raw.length, droppedInvalid, model: result.model, usage };
 };
 
+const dedupeCandidates = (candidates: DecisionCandidate[]) => {
+  const kept: DecisionCandidate[] = [];
+  for (const candidate of candidates) {
+    const existingIndex = kept.findIndex((existing) => isDuplicateCandidate(existing, candidate));
+    if (existingIndex === -1) {
+      kept.push(candidate);
+    } else {
+      kept[existingIndex] = mergeCandidates(kept[existingIndex], candidate);
+    }
+  }
+  return kept;
+};
+
+// A failed or over-eager refine keeps the local candidates it was given.
+const acceptRefined = (local: DecisionCandidate[], result: RefineResult, minCount: number, warnings: string[]) => {
+  if (result.warning) {
+    warnings.push(REFINE_FALLBACK_WARNING, result.warning);
+    return local;
+  }
+  if (result.candidates.length < minCount) {
+    warnings.push(REFINE_FALLBACK_WARNING);
+    return local;
+  }
+  return result.candidates;
+};
+
+type LlmMeta = { provider: string; model: string; usage: LlmUsage };
+
+const chunkCoverage = (
+  chunk: ExtractionChunk,
+  localCandidates: number,
+  candidates: number,
+  refined: boolean,
+  warnings: string[],
+): DecisionExtractChunkCoverage => ({
+  chunk: chunk.index + 1,
+  firstPage: chunk.pages[0].page,
+  lastPage: chunk.pages[chunk.pages.length - 1].page,
+  sections: chunk.sections,
+  chars: chunk.chars,
+  localCandidates,
+  candidates,
+  refined,
+  warnings: warnings.length ? Array.from(new Set(warnings)) : undefined,
+});
+
+// Whole-document extraction is a single chunk; only oversized documents are split.
+const planChunks = (normalized: NormalizedRequest, totalChars: number) =>
+  buildExtractionChunks(normalized.pages, totalChars > MAX_TOTAL_CHARS ? CHUNK_CHAR_LIMIT : Number.POSITIVE_INFINITY);
+
+type RefineBudget = { take: () => boolean };
+
+// Claimed in document order, so the earliest chunks are the ones refined when a document outruns the budget.
+const createRefineBudget = (limit = MAX_REFINE_CALLS): RefineBudget => {
+  let remaining = limit;
+  return {
+    take() {
+      if (remaining <= 0) return false;
+      remaining -= 1;
+      return true;
+    },
+  };
+};
+
+const buildResponseBody = (
+  normalized: NormalizedRequest,
+  totalChars: number,
+  candidates: DecisionCandidate[],
+  warnings: string[],
+  llm: LlmMeta | undefined,
+  chunks: DecisionExtractChunkCoverage[],
+) => {
+  const uniqueWarnings = Array.from(new Set(warnings));
+  const responseBody = {
+    doc: { name: normalized.docName, pageCount: normalized.pageCount },
+    candidates,
+    meta: {
+      pagesReceived: normalized.pages.length,
+      totalChars,
+      warnings: uniqueWarnings.length ? uniqueWarnings : undefined,
+      llm,
+      chunks,
+    },
+  };
+
+  const responseValidation = decisionExtractResponseSchema.safeParse(responseBody);
+  if (!responseValidation.success) {
+    console.error("decision-extract response validation failed", responseValidation.error.issues);
+    return { doc: responseBody.doc, candidates: [], meta: responseBody.meta };
+  }
+  return responseValidation.data;
+};
+
+type ChunkOutcome = {
+  candidates: DecisionCandidate[];
+  coverage: DecisionExtractChunkCoverage;
+  usage?: LlmUsage;
+  model?: string;
+};
+
+// The map step: local extraction plus one refine call, scoped to a single chunk.
+const extractChunk = async (
+  chunk: ExtractionChunk,
+  normalized: NormalizedRequest,
+  provider: LlmProvider | null,
+  budget: RefineBudget,
+): Promise<ChunkOutcome> => {
+  const localCandidates = dedupeCandidates(extractCandidatesLocal(chunk.pages, normalized.maxCandidatesPerPage));
+  const warnings: string[] = [];
+  if (!provider || localCandidates.length === 0 || !budget.take()) {
+    if (!provider) warnings.push(REFINE_FALLBACK_WARNING);
+    else if (localCandidates.length > 0) warnings.push(REFINE_BUDGET_WARNING);
+    return {
+      candidates: localCandidates,
+      coverage: chunkCoverage(chunk, localCandidates.length, localCandidates.length, false, warnings),
+    };
+  }
+
+  const minCount = Math.min(REFINE_MIN_COUNT, localCandidates.length);
+  const refineResult = await refineCandidates({
+    provider,
+    docName: normalized.docName,
+    candidates: localCandidates,
+    pages: chunk.pages,
+    model: normalized.model,
+    timeoutMs: MODEL_TIMEOUT_MS,
+    minCount,
+  });
+  const candidates = acceptRefined(localCandidates, refineResult, minCount, warnings);
+
+  console.info("decision-extract refine", {
+    provider: provider.name,
+    chunk: chunk.index + 1,
+    refineMs: refineResult.durationMs,
+    totalTokens: refineResult.usage?.totalTokens,
+    refinedCandidates: refineResult.candidates.length,
+    rawCount: refineResult.rawCount,
+    droppedInvalid: refineResult.droppedInvalid,
+  });
+
+  return {
+    candidates,
+    coverage: chunkCoverage(chunk, localCandidates.length, candidates.length, candidates !== localCandidates, warnings),
+    usage: refineResult.usage,
+    model: refineResult.model,
+  };
+};
+
+// Runs `worker` over `items` with at most `limit` calls in flight; results keep the input order.
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>) => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await worker(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+type CacheContext = { cache: ExtractionCacheAdapter; key: string; status: "miss" | "refresh" };
+
+// A hit answers for the document as uploaded now; token usage is left out because this request spent none.
+const fromCache = (entry: CachedExtraction, normalized: NormalizedRequest): DecisionExtractResponse => ({
+  ...entry.body,
+  doc: { name: normalized.docName, pageCount: normalized.pageCount },
+  meta: {
+    ...entry.body.meta,
+    llm: undefined,
+    cache: { status: "hit", key: entry.key, cachedAt: entry.cachedAt },
+  },
+});
+
+// Only bodies the refine fully produced are stored; a fallback to local candidates deserves another try next upload.
+const finishWithCache = async (
+  body: DecisionExtractResponse,
+  context: CacheContext | null,
+  cacheable: boolean,
+): Promise<DecisionExtractResponse> => {
+  if (!context) return { ...body, meta: { ...body.meta, cache: { status: "off" } } };
+  if (!cacheable) return { ...body, meta: { ...body.meta, cache: { status: context.status, key: context.key } } };
+  const cachedAt = Date.now();
+  await writeCachedExtraction(context.cache, { key: context.key, extractorVersion: EXTRACTOR_VERSION, cachedAt, body });
+  return { ...body, meta: { ...body.meta, cache: { status: context.status, key: context.key, cachedAt } } };
+};
+
+async function* streamExtraction(
+  normalized: NormalizedRequest,
+  chunks: ExtractionChunk[],
+  totalChars: number,
+  warnings: string[],
+  provider: LlmProvider | null,
+  cacheContext: CacheContext | null,
+): AsyncGenerator<DecisionExtractStreamEvent> {
+  yield {
+    type: "start",
+    doc: { name: normalized.docName, pageCount: normalized.pageCount },
+    pagesReceived: normalized.pages.length,
+    totalChars,
+  };
+
+  const localByChunk: DecisionCandidate[][] = [];
+  for (const chunk of chunks) {
+    const scored: ScoredCandidate[] = [];
+    for (const page of chunk.pages) {
+      const pageCandidates = extractPageCandidatesLocal(page, normalized.maxCandidatesPerPage);
+      scored.push(...pageCandidates);
+      if (pageCandidates.length > 0) {
+        yield { type: "page", page: page.page, candidates: pageCandidates.map(stripScore) };
+      }
+    }
+    localByChunk.push(dedupeCandidates(selectTopCandidates(scored)));
+  }
+
+  const chunkWarnings = chunks.map((): string[] => []);
+  const refinedByChunk = provider ? chunks.map((): DecisionCandidate[] => []) : localByChunk;
+  const refinedChunks = new Set<number>();
+  let llm: LlmMeta | undefined;
+  if (provider) {
+    const batches = localByChunk.flatMap((localCandidates, chunkIndex) => {
+      const minCount = Math.min(REFINE_MIN_COUNT, localCandidates.length);
+      return Array.from({ length: Math.ceil(localCandidates.length / REFINE_BATCH_SIZE) }, (_, batch) => {
+        const slice = localCandidates.slice(batch * REFINE_BATCH_SIZE, (batch + 1) * REFINE_BATCH_SIZE);
+        // Each batch owes its share of the chunk-wide minimum the non-streaming path enforces.
+        return { chunkIndex, slice, minCount: Math.ceil((minCount * slice.length) / localCandidates.length) };
+      });
+    });
+    const budget = createRefineBudget();
+    let usage = EMPTY_USAGE;
+    // Batches are refined CHUNK_CONCURRENCY at a time and reported in document order once each window settles.
+    for (let start = 0; start < batches.length; start += CHUNK_CONCURRENCY) {
+      const window = batches.slice(start, start + CHUNK_CONCURRENCY);
+      const results = await Promise.all(
+        window.map(({ chunkIndex, slice, minCount }) =>
+          budget.take()
+            ? refineCandidates({
+                provider,
+                docName: normalized.docName,
+                candidates: slice,
+                pages: chunks[chunkIndex].pages,
+                model: normalized.model,
+                timeoutMs: MODEL_TIMEOUT_MS,
+                minCount,
+              })
+            : null,
+        ),
+      );
+      for (const [offset, { chunkIndex, slice, minCount }] of window.entries()) {
+        const refineResult = results[offset];
+        if (refineResult?.usage) {
+          usage = addUsage(usage, refineResult.usage);
+          llm = { provider: provider.name, model: refineResult.model ?? normalized.model ?? provider.model, usage };
+        }
+        const fallbackWarning = refineResult ? REFINE_FALLBACK_WARNING : REFINE_BUDGET_WARNING;
+        if (!refineResult) chunkWarnings[chunkIndex].push(fallbackWarning);
+        const accepted = refineResult ? acceptRefined(slice, refineResult, minCount, chunkWarnings[chunkIndex]) : slice;
+        if (accepted !== slice) refinedChunks.add(chunkIndex);
+        refinedByChunk[chunkIndex].push(...accepted);
+        yield {
+          type: "refine",
+          batch: start + offset + 1,
+          batchCount: batches.length,
+          replaces: slice.map((candidate) => candidate.id),
+          candidates: accepted,
+          warning: accepted === slice ? (refineResult?.warning ?? fallbackWarning) : undefined,
+        };
+      }
+    }
+  } else {
+    chunkWarnings.forEach((list) => list.push(REFINE_FALLBACK_WARNING));
+  }
+
+  const coverage = chunks.map((chunk, index) =>
+    chunkCoverage(
+      chunk,
+      localByChunk[index].length,
+      refinedByChunk[index].length,
+      refinedChunks.has(index),
+      chunkWarnings[index],
+    ),
+  );
+  warnings.push(...chunkWarnings.flat());
+  const mergedCandidates = dedupeCandidates(refinedByChunk.flat());
+  console.info("decision-extract stream summary", {
+    chunks: chunks.length,
+    localCandidates: localByChunk.flat().length,
+    mergedCandidates: mergedCandidates.length,
+  });
+  const responseBody = buildResponseBody(normalized, totalChars, mergedCandidates, warnings, llm, coverage);
+  const cacheable = !provider || coverage.every((chunk) => chunk.refined || chunk.localCandidates === 0);
+  yield { type: "merged", ...(await finishWithCache(responseBody, cacheContext, cacheable)) };
+}
+
+// A cached body still arrives as a stream so streaming clients need no second code path.
+async function* streamCachedExtraction(body: DecisionExtractResponse): AsyncGenerator<DecisionExtractStreamEvent> {
+  yield {
+    type: "start",
+    doc: body.doc,
+    pagesReceived: body.meta.pagesReceived,
+    totalChars: body.meta.totalChars,
+  };
+  yield { type: "merged", ...body };
+}
+
+// Pull-driven so each event is flushed before the next page or batch is worked on, and a disconnect stops the work.
+const toNdjsonStream = (events: AsyncGenerator<DecisionExtractStreamEvent>) => {
+  const encoder = new TextEncoder();
+  const encode = (event: DecisionExtractStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await events.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(next.value));
+      } catch (error) {
+        console.error("decision-extract stream error", error);
+        controller.enqueue(encode({ type: "error", error: "Extraction failed." }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+};
+
+const ndjsonResponse = (events: AsyncGenerator<DecisionExtractStreamEvent>) =>
+  new Response(toNdjsonStream(events), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+      // Stops reverse proxies from holding events back until the body completes.
+      "X-Accel-Buffering": "no",
+    },
+  });
+
 export async function POST(request: Request) {
   let body: unknown;
   try {
@@ -756,98 +1106,71 @@ export async function POST(request: Request) {
   console.info("decision-extract POST", {
     docName: normalized.docName,
     pages: normalized.pages.length,
+    stream: normalized.stream,
   });
   const totalChars = normalized.pages.reduce((total, page) => total + page.text.length, 0);
+  const chunks = planChunks(normalized, totalChars);
   const warnings: string[] = [];
-  if (totalChars > MAX_TOTAL_CHARS) {
-    warnings.push("Input too large; extracting locally from full text.");
-  }
-  if (totalChars > FULL_TEXT_CHAR_LIMIT) {
+  if (chunks.length > 1) {
+    warnings.push(`Input too large; extracted in ${chunks.length} section-aware chunks.`);
+  } else if (totalChars > FULL_TEXT_CHAR_LIMIT) {
     warnings.push("Large document; refine may be slower.");
   }
 
-  const localCandidatesRaw = extractCandidatesLocal(normalized.pages, normalized.maxCandidatesPerPage);
-  const localCandidates: DecisionCandidate[] = [];
-  for (const candidate of localCandidatesRaw) {
-    const existingIndex = localCandidates.findIndex((existing) => isDuplicateCandidate(existing, candidate));
-    if (existingIndex === -1) {
-      localCandidates.push(candidate);
-    } else {
-      localCandidates[existingIndex] = mergeCandidates(localCandidates[existingIndex], candidate);
-    }
-  }
-
-  console.info("decision-extract local", {
-    totalChars,
-    pages: normalized.pages.length,
-    localCandidates: localCandidates.length,
-  });
-
-  let refinedCandidates = localCandidates;
-  let droppedInvalid = 0;
-  if (process.env.OPENAI_API_KEY && localCandidates.length > 0) {
-    const minCount = Math.min(12, localCandidates.length);
-    const refineResult = await refineCandidates({
-      docName: normalized.docName,
-      candidates: localCandidates,
-      model: normalized.model,
-      timeoutMs: MODEL_TIMEOUT_MS,
-      minCount,
+  const provider = getLlmProvider();
+  const cache = getExtractionCache();
+  let cacheContext: CacheContext | null = null;
+  if (cache) {
+    const key = getExtractionCacheKey({
+      extractorVersion: EXTRACTOR_VERSION,
+      pages: normalized.pages,
+      maxCandidatesPerPage: normalized.maxCandidatesPerPage,
+      provider: provider?.name ?? "none",
+      model: provider ? (normalized.model ?? provider.model) : "none",
     });
-    droppedInvalid = refineResult.droppedInvalid;
-    if (refineResult.warning) {
-      warnings.push("Refine unavailable — showing local results");
-      warnings.push(refineResult.warning);
-    } else if (refineResult.candidates.length < minCount) {
-      warnings.push("Refine unavailable — showing local results");
-    } else {
-      refinedCandidates = refineResult.candidates;
+    const cached = normalized.refresh ? null : await readCachedExtraction(cache, key, EXTRACTOR_VERSION);
+    if (cached) {
+      console.info("decision-extract cache hit", { key, cachedAt: cached.cachedAt });
+      const body = fromCache(cached, normalized);
+      return normalized.stream ? ndjsonResponse(streamCachedExtraction(body)) : Response.json(body, { status: 200 });
     }
-
-    console.info("decision-extract refine", {
-      refineMs: refineResult.durationMs,
-      refinedCandidates: refineResult.candidates.length,
-      rawCount: refineResult.rawCount,
-      droppedInvalid,
-    });
-  } else if (!process.env.OPENAI_API_KEY) {
-    warnings.push("Refine unavailable — showing local results");
+    cacheContext = { cache, key, status: normalized.refresh ? "refresh" : "miss" };
   }
 
-  const mergedCandidates: DecisionCandidate[] = [];
-  for (const candidate of refinedCandidates) {
-    const existingIndex = mergedCandidates.findIndex((existing) => isDuplicateCandidate(existing, candidate));
-    if (existingIndex === -1) {
-      mergedCandidates.push(candidate);
-    } else {
-      mergedCandidates[existingIndex] = mergeCandidates(mergedCandidates[existingIndex], candidate);
-    }
+  if (normalized.stream) {
+    return ndjsonResponse(streamExtraction(normalized, chunks, totalChars, warnings, provider, cacheContext));
   }
 
+  const budget = createRefineBudget();
+  const outcomes = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk) =>
+    extractChunk(chunk, normalized, provider, budget),
+  );
+
+  // The reduce step: chunk results in document order, with duplicates that straddle chunks merged.
+  const refinedCandidates = outcomes.flatMap((outcome) => outcome.candidates);
+  const mergedCandidates = dedupeCandidates(refinedCandidates);
+  outcomes.forEach((outcome) => warnings.push(...(outcome.coverage.warnings ?? [])));
+
+  const usages = outcomes.flatMap((outcome) => (outcome.usage ? [outcome.usage] : []));
+  const llm: LlmMeta | undefined =
+    provider && usages.length > 0
+      ? {
+          provider: provider.name,
+          model: outcomes.find((outcome) => outcome.model)?.model ?? normalized.model ?? provider.model,
+          usage: usages.reduce(addUsage, EMPTY_USAGE),
+        }
+      : undefined;
+
   console.info("decision-extract summary", {
-    localCandidates: localCandidates.length,
+    chunks: chunks.length,
+    localCandidates: outcomes.reduce((total, outcome) => total + outcome.coverage.localCandidates, 0),
     refinedCandidates: refinedCandidates.length,
     mergedCandidates: mergedCandidates.length,
-    droppedInvalid,
     sampleTitles: mergedCandidates.slice(0, 2).map((candidate) => candidate.title),
   });
 
-  const uniqueWarnings = Array.from(new Set(warnings));
-  const responseBody = {
-    doc: { name: normalized.docName, pageCount: normalized.pageCount },
-    candidates: mergedCandidates,
-    meta: {
-      pagesReceived: normalized.pages.length,
-      totalChars,
-      warnings: uniqueWarnings.length ? uniqueWarnings : undefined,
-    },
-  };
-
-  const responseValidation = decisionExtractResponseSchema.safeParse(responseBody);
-  if (!responseValidation.success) {
-    console.error("decision-extract response validation failed", responseValidation.error.issues);
-    return Response.json({ doc: responseBody.doc, candidates: [], meta: responseBody.meta }, { status: 200 });
-  }
-
-  return Response.json(responseValidation.data, { status: 200 });
+  const coverage = outcomes.map((outcome) => outcome.coverage);
+  const responseBody = buildResponseBody(normalized, totalChars, mergedCandidates, warnings, llm, coverage);
+  const cacheable = !provider || coverage.every((chunk) => chunk.refined || chunk.localCandidates === 0);
+  return Response.json(await finishWithCache(responseBody, cacheContext, cacheable), { status: 200 });
 }
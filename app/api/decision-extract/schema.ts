@@ -16,6 +16,9 @@ export const categorySchema = z.enum([
 const scoreSchema = z.object({
   score: z.number().int().min(1).max(10),
   evidence: z.string().min(1),
+  // The page where the model's evidence was found in the uploaded text. Absent for default scores and for quotes that
+  // could not be found verbatim, which the intake UI flags as unsupported.
+  location: z.object({ page: z.number().int().positive() }).optional(),
 });
 
 export const decisionCandidateSchema = z.object({
@@ -51,6 +54,43 @@ export const decisionExtractResponseSchema = z.object({
     pagesReceived: z.number().int().min(0),
     totalChars: z.number().int().min(0),
     warnings: z.array(z.string()).optional(),
+    // Which backend refined the candidates and what it cost, when one was used.
+    llm: z
+      .object({
+        provider: z.string(),
+        model: z.string(),
+        usage: z.object({
+          promptTokens: z.number().int().min(0),
+          completionTokens: z.number().int().min(0),
+          totalTokens: z.number().int().min(0),
+          estimated: z.boolean(),
+        }),
+      })
+      .optional(),
+    // What each section-aware chunk covered and produced; large documents are extracted chunk by chunk.
+    chunks: z
+      .array(
+        z.object({
+          chunk: z.number().int().positive(),
+          firstPage: z.number().int().positive(),
+          lastPage: z.number().int().positive(),
+          sections: z.array(z.string()),
+          chars: z.number().int().min(0),
+          localCandidates: z.number().int().min(0),
+          candidates: z.number().int().min(0),
+          refined: z.boolean(),
+          warnings: z.array(z.string()).optional(),
+        }),
+      )
+      .optional(),
+    // Whether this body came from the extraction cache; `cachedAt` is set once the body is stored.
+    cache: z
+      .object({
+        status: z.enum(["hit", "miss", "refresh", "off"]),
+        key: z.string().optional(),
+        cachedAt: z.number().int().optional(),
+      })
+      .optional(),
   }),
 });
 
@@ -79,6 +119,10 @@ const requestOptionsSchema = z
   .object({
     maxCandidatesPerPage: z.number().int().positive().optional(),
     model: z.string().min(1).optional(),
+    // Answer with NDJSON progress events instead of one JSON body.
+    stream: z.boolean().optional(),
+    // Skip the cached result for this document and extract again.
+    refresh: z.boolean().optional(),
   })
   .optional();
 
@@ -97,6 +141,37 @@ const newRequestSchema = z.object({
 
 export const decisionExtractRequestSchema = z.union([legacyRequestSchema, newRequestSchema]);
 
+// One line of the streaming response: per-page local hits, then refine batches, then the merged result.
+export const decisionExtractStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("start"),
+    doc: decisionExtractResponseSchema.shape.doc,
+    pagesReceived: z.number().int().min(0),
+    totalChars: z.number().int().min(0),
+  }),
+  z.object({
+    type: z.literal("page"),
+    page: z.number().int().positive(),
+    candidates: z.array(decisionCandidateSchema),
+  }),
+  z.object({
+    type: z.literal("refine"),
+    batch: z.number().int().positive(),
+    batchCount: z.number().int().positive(),
+    // Ids of earlier candidates this batch supersedes.
+    replaces: z.array(z.string()),
+    candidates: z.array(decisionCandidateSchema),
+    warning: z.string().optional(),
+  }),
+  decisionExtractResponseSchema.extend({ type: z.literal("merged") }),
+  z.object({
+    type: z.literal("error"),
+    error: z.string(),
+  }),
+]);
+
 export type DecisionCandidate = z.infer<typeof decisionCandidateSchema>;
 export type DecisionExtractResponse = z.infer<typeof decisionExtractResponseSchema>;
 export type DecisionExtractRequest = z.infer<typeof decisionExtractRequestSchema>;
+export type DecisionExtractStreamEvent = z.infer<typeof decisionExtractStreamEventSchema>;
+export type DecisionExtractChunkCoverage = NonNullable<DecisionExtractResponse["meta"]["chunks"]>[number];
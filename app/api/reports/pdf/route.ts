@@ -0,0 +1,44 @@
+import { buildExecutiveReportForDataset } from "@/lib/executiveReport";
+import { renderExecutiveReportPdf } from "@/lib/executiveReportPdf";
+
+import { requireDatasetAccess } from "../../datasets/access";
+import { reportPdfQuerySchema } from "./schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toFileName = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "dataset";
+
+// GET /api/reports/pdf?dataset=<id>&window=7|30|90|all renders the executive readout on the server.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = reportPdfQuerySchema.safeParse({
+    dataset: searchParams.get("dataset") ?? undefined,
+    window: searchParams.get("window") ?? undefined,
+  });
+  if (!parsed.success) {
+    console.warn("report pdf validation issues", parsed.error.issues);
+    return Response.json({ error: "Request query failed validation." }, { status: 400 });
+  }
+
+  const access = await requireDatasetAccess(request, parsed.data.dataset, "read");
+  if (!access.ok) return access.response;
+
+  const { dataset } = access;
+  const report = buildExecutiveReportForDataset(dataset, parsed.data.window);
+  // Stamping the dataset's last write rather than the request time keeps the bytes stable per revision.
+  const pdf = await renderExecutiveReportPdf(report, { generatedAt: dataset.updatedAt });
+
+  return new Response(Buffer.from(pdf), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${toFileName(dataset.label)}-executive-report-${parsed.data.window}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+import { TIMEFRAMES, type TimeframeValue } from "@/lib/reportTimeframes";
+
+export const reportPdfQuerySchema = z.object({
+  dataset: z.string().min(1).max(200),
+  window: z.enum(TIMEFRAMES.map(({ value }) => value) as [TimeframeValue, ...TimeframeValue[]]).default("all"),
+});
@@ -0,0 +1,49 @@
+import { randomUUID } from "node:crypto";
+
+import { getIdentityUserId } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { getReviewSessionStore, updateReviewSession } from "@/lib/reviewSessionStore";
+import { joinReviewSession } from "@/lib/reviewSessions";
+
+import { joinReviewSessionRequestSchema } from "../../schema";
+import { buildSessionView, sessionNotFound } from "../../view";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Anyone with the session link can join; the returned id is their only credential for scoring.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = joinReviewSessionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const participantId = randomUUID();
+  // Guest ids are namespaced so a browser cannot claim a signed-in user's rating history.
+  const raterId =
+    getIdentityUserId(await resolveRequestIdentity(request)) ?? `guest:${parsed.data.raterId ?? randomUUID()}`;
+  const result = await updateReviewSession(getReviewSessionStore(), id, (session) =>
+    joinReviewSession(session, { id: participantId, raterId, name: parsed.data.name }, Date.now()),
+  );
+  if (!result.ok) {
+    if (result.reason === "full") {
+      return Response.json({ error: "This session has reached its participant limit." }, { status: 409 });
+    }
+    return sessionNotFound();
+  }
+
+  return Response.json(
+    { participantId, session: await buildSessionView(request, result.session, participantId) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,59 @@
+import { getIdentityUserId } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { getReviewSessionStore, updateReviewSession } from "@/lib/reviewSessionStore";
+import { setReviewSessionStatus } from "@/lib/reviewSessions";
+
+import { accessDeniedResponse } from "../../datasets/access";
+import { updateReviewSessionRequestSchema } from "../schema";
+import { buildSessionView, sessionNotFound } from "../view";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Clients poll with ?since=<revision>; an unchanged session answers 204 so polling stays cheap.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const session = await getReviewSessionStore().get(id);
+  if (!session) return sessionNotFound();
+
+  const since = Number(new URL(request.url).searchParams.get("since"));
+  if (Number.isFinite(since) && since > 0 && since === session.revision) {
+    return new Response(null, { status: 204 });
+  }
+  return Response.json({ session: await buildSessionView(request, session) }, { status: 200 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const facilitatorId = getIdentityUserId(await resolveRequestIdentity(request));
+  if (!facilitatorId) return accessDeniedResponse("unauthenticated");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = updateReviewSessionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await updateReviewSession(getReviewSessionStore(), id, (session) =>
+    setReviewSessionStatus(session, facilitatorId, parsed.data.status, Date.now()),
+  );
+  if (!result.ok) {
+    switch (result.reason) {
+      case "forbidden":
+        return accessDeniedResponse("forbidden");
+      case "too_few_scores":
+        return Response.json({ error: "At least two participants need to score before reveal." }, { status: 409 });
+      default:
+        return sessionNotFound();
+    }
+  }
+  return Response.json({ session: await buildSessionView(request, result.session) }, { status: 200 });
+}
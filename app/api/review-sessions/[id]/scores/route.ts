@@ -0,0 +1,41 @@
+import { getReviewSessionStore, updateReviewSession } from "@/lib/reviewSessionStore";
+import { submitReviewScore } from "@/lib/reviewSessions";
+
+import { submitReviewScoreRequestSchema } from "../../schema";
+import { buildSessionView, sessionNotFound } from "../../view";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = submitReviewScoreRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const { participantId, ...vars } = parsed.data;
+  const result = await updateReviewSession(getReviewSessionStore(), id, (session) =>
+    submitReviewScore(session, participantId, vars, Date.now()),
+  );
+  if (!result.ok) {
+    switch (result.reason) {
+      case "closed":
+        return Response.json({ error: "Scores are already revealed." }, { status: 409 });
+      case "not_participant":
+        return Response.json({ error: "Join the session before scoring." }, { status: 403 });
+      default:
+        return sessionNotFound();
+    }
+  }
+  return Response.json({ session: await buildSessionView(request, result.session, participantId) }, { status: 200 });
+}
@@ -0,0 +1,43 @@
+import { randomUUID } from "node:crypto";
+
+import { getIdentityUserId } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { getReviewSessionStore } from "@/lib/reviewSessionStore";
+import { createReviewSession } from "@/lib/reviewSessions";
+import { getWorkspaceStorageAdapter, hasWorkspacePermission } from "@/lib/workspaceStore";
+
+import { accessDeniedResponse } from "../datasets/access";
+import { createReviewSessionRequestSchema } from "./schema";
+import { buildSessionView } from "./view";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Opening a session takes a signed-in facilitator; inside a workspace it takes the facilitator role there.
+export async function POST(request: Request) {
+  const user = await resolveRequestIdentity(request);
+  const facilitatorId = getIdentityUserId(user);
+  if (!user || !facilitatorId) return accessDeniedResponse("unauthenticated");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = createReviewSessionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("review session validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const { workspaceId } = parsed.data;
+  if (workspaceId && !(await hasWorkspacePermission(getWorkspaceStorageAdapter(), workspaceId, user, "facilitate"))) {
+    return accessDeniedResponse("forbidden");
+  }
+
+  const session = createReviewSession(parsed.data, facilitatorId, randomUUID(), Date.now());
+  await getReviewSessionStore().put(session);
+  return Response.json({ session: await buildSessionView(request, session) }, { status: 201 });
+}
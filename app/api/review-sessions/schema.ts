@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+const score = z.number().min(1).max(10);
+
+export const createReviewSessionRequestSchema = z.object({
+  title: z.string().max(300).default(""),
+  detail: z.string().max(4000).optional(),
+  category: z.string().max(120).optional(),
+  workspaceId: z.string().min(1).optional(),
+  scoringProfileId: z.string().min(1).optional(),
+});
+
+export const joinReviewSessionRequestSchema = z.object({
+  name: z.string().max(120).default(""),
+  // Guest rater id the browser keeps between sessions; ignored for signed-in users.
+  raterId: z.string().uuid().optional(),
+});
+
+export const submitReviewScoreRequestSchema = z.object({
+  participantId: z.string().min(1),
+  impact: score,
+  cost: score,
+  risk: score,
+  urgency: score,
+  confidence: score,
+});
+
+export const updateReviewSessionRequestSchema = z.object({
+  status: z.enum(["scoring", "revealed"]),
+});
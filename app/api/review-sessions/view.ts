@@ -0,0 +1,21 @@
+import { getIdentityUserId } from "@/lib/identity";
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { toReviewSessionView, type ReviewSession } from "@/lib/reviewSessions";
+import { getScoringProfile } from "@/lib/scoringProfiles";
+
+// Participants prove who they are with the id they were handed on join; facilitators with their identity.
+export const REVIEW_PARTICIPANT_HEADER = "x-review-participant";
+
+export const sessionNotFound = () => Response.json({ error: "Session not found." }, { status: 404 });
+
+export async function buildSessionView(request: Request, session: ReviewSession, participantId?: string | null) {
+  const user = await resolveRequestIdentity(request);
+  return toReviewSessionView(
+    session,
+    {
+      participantId: participantId ?? request.headers.get(REVIEW_PARTICIPANT_HEADER),
+      userId: getIdentityUserId(user),
+    },
+    getScoringProfile(session.scoringProfileId),
+  );
+}
@@ -0,0 +1,11 @@
+import { buildCompareReport } from "@/lib/publicApi";
+
+import { handlePublicApiRequest } from "../handler";
+import { compareRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return handlePublicApiRequest(request, compareRequestSchema, buildCompareReport, "v1 compare");
+}
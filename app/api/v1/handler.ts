@@ -0,0 +1,27 @@
+import type { z } from "zod/v4";
+
+import { runPublicApiRequest, type PublicApiRequest } from "@/lib/publicApi";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+
+// Shared POST body for the v1 routes: parse, validate, then run the handler over one item or a batch.
+export async function handlePublicApiRequest<Item extends object, Result>(
+  request: Request,
+  schema: z.ZodType<PublicApiRequest<Item>>,
+  build: (item: Item, profile: ScoringProfile) => Result,
+  label: string,
+) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    console.warn(`${label} validation issues`, parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  return Response.json(runPublicApiRequest(parsed.data, build));
+}
@@ -0,0 +1,11 @@
+import { buildMetricsReport } from "@/lib/publicApi";
+
+import { handlePublicApiRequest } from "../handler";
+import { metricsRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return handlePublicApiRequest(request, metricsRequestSchema, buildMetricsReport, "v1 metrics");
+}
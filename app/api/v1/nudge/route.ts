@@ -0,0 +1,11 @@
+import { buildNudgeReport } from "@/lib/publicApi";
+
+import { handlePublicApiRequest } from "../handler";
+import { nudgeRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return handlePublicApiRequest(request, nudgeRequestSchema, buildNudgeReport, "v1 nudge");
+}
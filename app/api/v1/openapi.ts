@@ -0,0 +1,82 @@
+import { z } from "zod/v4";
+
+import { MAX_BATCH_ITEMS, PUBLIC_API_VERSION } from "@/lib/publicApi";
+
+import { v1Registry } from "./schema";
+
+type Endpoint = { path: string; summary: string; description: string; request: string; response: string };
+
+const ENDPOINTS: Endpoint[] = [
+  {
+    path: "/api/v1/metrics",
+    summary: "Compute metrics",
+    description: "Return, Stability, Pressure, Merit, Energy and D-NAV, with archetype, energy tier, judgment signal and readout.",
+    request: "MetricsRequest",
+    response: "Metrics",
+  },
+  {
+    path: "/api/v1/compare",
+    summary: "Compare two decisions",
+    description: "Metric deltas from baseline to candidate and the variables that drive them.",
+    request: "CompareRequest",
+    response: "Compare",
+  },
+  {
+    path: "/api/v1/nudge",
+    summary: "Find the best nudge",
+    description: "The smallest one- or two-step variable change that meets the goal within the constraints.",
+    request: "NudgeRequest",
+    response: "Nudge",
+  },
+];
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const jsonContent = (schema: object) => ({ "application/json": { schema } });
+
+// Components come straight from the zod schemas the routes validate with, so the document cannot drift from them.
+export function buildOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(v1Registry, { io: "input", uri: (id) => `#/components/schemas/${id}` });
+  const components = Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const component = { ...schema };
+      delete component.$schema;
+      delete component.$id;
+      return [id, component];
+    }),
+  );
+
+  const paths = Object.fromEntries(
+    ENDPOINTS.map((endpoint) => [
+      endpoint.path,
+      {
+        post: {
+          summary: endpoint.summary,
+          description: `${endpoint.description} Send one item, or up to ${MAX_BATCH_ITEMS} as \`items\` for a batch.`,
+          requestBody: {
+            required: true,
+            content: jsonContent({ oneOf: [ref(endpoint.request), ref(`${endpoint.request}Batch`)] }),
+          },
+          responses: {
+            "200": {
+              description: "Computed result, or `results` in request order for a batch.",
+              content: jsonContent({ oneOf: [ref(`${endpoint.response}Response`), ref(`${endpoint.response}BatchResponse`)] }),
+            },
+            "400": { description: "The request body failed validation.", content: jsonContent(ref("Error")) },
+          },
+        },
+      },
+    ]),
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "D-NAV API",
+      version: PUBLIC_API_VERSION,
+      description: "Stateless D-NAV calculations for other tools. Nothing sent here is stored.",
+    },
+    paths,
+    components: { schemas: components },
+  };
+}
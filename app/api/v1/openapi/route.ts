@@ -0,0 +1,8 @@
+import { buildOpenApiDocument } from "../openapi";
+
+export const runtime = "nodejs";
+export const dynamic = "force-static";
+
+export async function GET() {
+  return Response.json(buildOpenApiDocument());
+}
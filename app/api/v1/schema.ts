@@ -0,0 +1,172 @@
+// The v1 schemas use zod's v4 API so the OpenAPI document can be generated from them with `z.toJSONSchema`.
+import { z } from "zod/v4";
+
+import { MAX_BATCH_ITEMS } from "@/lib/publicApi";
+import { SCORING_PROFILES } from "@/lib/scoringProfiles";
+
+// Named schemas become OpenAPI components; everything else is inlined where it is used.
+export const v1Registry = z.registry<{ id: string; description?: string }>();
+
+const scaleSchema = z.number().min(1).max(10);
+
+export const varsSchema = z
+  .object({
+    impact: scaleSchema,
+    cost: scaleSchema,
+    risk: scaleSchema,
+    urgency: scaleSchema,
+    confidence: scaleSchema,
+  })
+  .register(v1Registry, { id: "DecisionVars", description: "The five D-NAV variables, each on a 1–10 scale." });
+
+const profileIdSchema = z
+  .enum(SCORING_PROFILES.map((profile) => profile.id) as [string, ...string[]])
+  .optional()
+  .describe("Scoring profile to compute with. Defaults to the standard profile.");
+
+const itemIdSchema = z.string().min(1).max(200).optional().describe("Echoed back so batch results can be matched.");
+
+// Each endpoint accepts one item, or `{ items }` for a batch; `profileId` applies to the whole request.
+const batchOf = <T extends z.ZodObject>(item: T, id: string) =>
+  z
+    .object({ profileId: profileIdSchema, items: z.array(item).min(1).max(MAX_BATCH_ITEMS) })
+    .register(v1Registry, { id: `${id}Batch` });
+
+const withBatchResponse = <T extends z.ZodObject>(result: T, id: string) =>
+  z.union([
+    z.object({ profileId: z.string(), result }).register(v1Registry, { id: `${id}Response` }),
+    z.object({ profileId: z.string(), results: z.array(result) }).register(v1Registry, { id: `${id}BatchResponse` }),
+  ]);
+
+export const metricsItemSchema = z.object({ id: itemIdSchema, vars: varsSchema });
+
+export const metricsRequestSchema = z.union([
+  batchOf(metricsItemSchema, "MetricsRequest"),
+  metricsItemSchema.extend({ profileId: profileIdSchema }).register(v1Registry, { id: "MetricsRequest" }),
+]);
+
+const decisionMetricsSchema = z
+  .object({
+    return: z.number(),
+    stability: z.number(),
+    pressure: z.number(),
+    merit: z.number(),
+    energy: z.number(),
+    dnav: z.number(),
+  })
+  .register(v1Registry, { id: "DecisionMetrics" });
+
+const metricsReportSchema = z
+  .object({
+    id: z.string().optional(),
+    vars: varsSchema,
+    metrics: decisionMetricsSchema,
+    archetype: z.object({
+      name: z.string(),
+      description: z.string(),
+      pressureType: z.string(),
+      stabilityType: z.string(),
+      returnType: z.string(),
+    }),
+    energyTier: z.object({ e: z.number(), name: z.string(), short: z.string() }),
+    judgmentSignal: z
+      .object({ key: z.string(), label: z.string(), explanation: z.string(), correctiveMove: z.string() })
+      .nullable(),
+    readout: z.object({ condition: z.string(), meaning: z.string(), action: z.string() }),
+  })
+  .register(v1Registry, { id: "MetricsReport" });
+
+export const metricsResponseSchema = withBatchResponse(metricsReportSchema, "Metrics");
+
+const compareSideSchema = z.object({ label: z.string().min(1).max(200).optional(), vars: varsSchema });
+
+export const compareItemSchema = z.object({
+  id: itemIdSchema,
+  baseline: compareSideSchema,
+  candidate: compareSideSchema,
+});
+
+export const compareRequestSchema = z.union([
+  batchOf(compareItemSchema, "CompareRequest"),
+  compareItemSchema.extend({ profileId: profileIdSchema }).register(v1Registry, { id: "CompareRequest" }),
+]);
+
+const decisionSchema = z.object({
+  id: z.string().optional(),
+  label: z.string(),
+  source: z.enum(["manual", "log"]),
+  vars: varsSchema,
+  metrics: decisionMetricsSchema,
+});
+
+const deltaSchema = z.object({ from: z.number(), to: z.number(), delta: z.number() });
+
+const compareReportSchema = z
+  .object({
+    id: z.string().optional(),
+    baseline: decisionSchema,
+    candidate: decisionSchema,
+    deltas: z.array(deltaSchema.extend({ metric: z.string() })),
+    drivers: z.array(deltaSchema.extend({ key: z.string() })),
+  })
+  .register(v1Registry, { id: "CompareReport" });
+
+export const compareResponseSchema = withBatchResponse(compareReportSchema, "Compare");
+
+export const nudgeItemSchema = z.object({
+  id: itemIdSchema,
+  vars: varsSchema,
+  goal: z.enum(["increase-dnav", "increase-return", "reduce-pressure", "increase-stability"]),
+  minGoalImprovement: z.number().min(0).optional(),
+  constraints: z
+    .object({
+      preventPressureIncrease: z.boolean().optional(),
+      preventReturnDecrease: z.boolean().optional(),
+      preventStabilityDecrease: z.boolean().optional(),
+      minDnav: z.number().optional(),
+    })
+    .optional(),
+  allowUrgencyIncrease: z.boolean().optional(),
+});
+
+export const nudgeRequestSchema = z.union([
+  batchOf(nudgeItemSchema, "NudgeRequest"),
+  nudgeItemSchema.extend({ profileId: profileIdSchema }).register(v1Registry, { id: "NudgeRequest" }),
+]);
+
+const nudgeStepSchema = z.object({ key: z.string(), delta: z.number(), from: z.number(), to: z.number() });
+
+const nudgeReportSchema = z
+  .object({
+    id: z.string().optional(),
+    nudge: z
+      .object({
+        steps: z.array(nudgeStepSchema),
+        beforeMetrics: decisionMetricsSchema,
+        afterMetrics: decisionMetricsSchema,
+        deltas: z.object({ dnav: z.number(), return: z.number(), pressure: z.number(), stability: z.number() }),
+        goalImprovement: z.number(),
+        usedTwoSteps: z.boolean(),
+        rationale: z.array(z.string()),
+      })
+      .nullable()
+      .describe("Null when no one- or two-step move meets the goal within the constraints."),
+    copy: z
+      .object({
+        title: z.string(),
+        steps: z.array(z.string()),
+        effects: z.string(),
+        rationale: z.string(),
+        caution: z.string().optional(),
+      })
+      .nullable(),
+  })
+  .register(v1Registry, { id: "NudgeReport" });
+
+export const nudgeResponseSchema = withBatchResponse(nudgeReportSchema, "Nudge");
+
+export const errorResponseSchema = z.object({ error: z.string() }).register(v1Registry, { id: "Error" });
+
+export type MetricsRequest = z.infer<typeof metricsRequestSchema>;
+export type CompareRequest = z.infer<typeof compareRequestSchema>;
+export type NudgeRequest = z.infer<typeof nudgeRequestSchema>;
@@ -0,0 +1,59 @@
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { getWorkspaceStorageAdapter, updateWorkspace } from "@/lib/workspaceStore";
+import { getWorkspaceRole } from "@/lib/workspaces";
+
+import { accessDeniedResponse } from "../../datasets/access";
+import { updateWorkspaceRequestSchema } from "../schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () => Response.json({ error: "Workspace not found." }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  const workspace = await getWorkspaceStorageAdapter().get(id);
+  const role = getWorkspaceRole(workspace, user);
+  if (!workspace || !role) return notFound();
+  return Response.json({ workspace: { ...workspace, role } }, { status: 200 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = updateWorkspaceRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("workspaces validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await updateWorkspace(getWorkspaceStorageAdapter(), id, parsed.data, user);
+  if (!result.ok) {
+    switch (result.reason) {
+      case "no_admin":
+        return Response.json({ error: "A workspace needs at least one admin." }, { status: 400 });
+      case "forbidden": {
+        // Members who cannot manage still learn the workspace exists; outsiders do not.
+        const workspace = await getWorkspaceStorageAdapter().get(id);
+        return getWorkspaceRole(workspace, user) ? accessDeniedResponse("forbidden") : notFound();
+      }
+      default:
+        return notFound();
+    }
+  }
+  return Response.json({ workspace: { ...result.workspace, role: getWorkspaceRole(result.workspace, user) } }, { status: 200 });
+}
@@ -0,0 +1,42 @@
+import { resolveRequestIdentity } from "@/lib/requestIdentity";
+import { createWorkspace, getWorkspaceStorageAdapter, listWorkspacesForUser } from "@/lib/workspaceStore";
+
+import { accessDeniedResponse } from "../datasets/access";
+import { createWorkspaceRequestSchema } from "./schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  const workspaces = await listWorkspacesForUser(getWorkspaceStorageAdapter(), user);
+  return Response.json({ workspaces }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  const user = await resolveRequestIdentity(request);
+  if (!user) return accessDeniedResponse("unauthenticated");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const parsed = createWorkspaceRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn("workspaces validation issues", parsed.error.issues);
+    return Response.json({ error: "Request body failed validation." }, { status: 400 });
+  }
+
+  const result = await createWorkspace(getWorkspaceStorageAdapter(), parsed.data, user);
+  if (!result.ok) {
+    return result.reason === "exists"
+      ? Response.json({ error: "A workspace with this id already exists." }, { status: 409 })
+      : accessDeniedResponse("forbidden");
+  }
+  return Response.json({ workspace: { ...result.workspace, role: "admin" } }, { status: 201 });
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+import { WORKSPACE_ROLES } from "@/lib/workspaces";
+
+export const workspaceMemberSchema = z.object({
+  userId: z.string().min(1).max(320),
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+export const createWorkspaceRequestSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(120)
+    .regex(/^[\w.-]+$/, "Workspace ids may only contain letters, numbers, dots, dashes and underscores.")
+    .optional(),
+  name: z.string().max(200).default(""),
+});
+
+export const updateWorkspaceRequestSchema = z.object({
+  name: z.string().max(200).optional(),
+  members: z.array(workspaceMemberSchema).optional(),
+});
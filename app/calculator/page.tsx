@@ -3,11 +3,13 @@
 import { InfoTooltip } from "@/components/InfoTooltip";
 import { useDataset } from "@/components/DatasetProvider";
 import DatasetPickerRow from "@/components/datasets/DatasetPickerRow";
+import { ReliabilityCurve } from "@/components/reports/ReliabilityCurve";
 import StressTestCalculator from "@/components/stress-test/StressTestCalculator";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import {
   Select,
@@ -18,10 +20,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { getArchetype } from "@/lib/calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { getDecisionLogAsOf, getHistoryStart, parseAsOfDate } from "@/lib/decisionHistory";
 import { CompanyPeriodSnapshot, generateFullInterpretation } from "@/lib/dnavSummaryEngine";
 import { getCategoryActionInsight } from "@/lib/categoryActionInsight";
-import { useNetlifyIdentity } from "@/hooks/use-netlify-identity";
+import { useIdentity } from "@/hooks/use-identity";
 import {
   Download,
   FileText,
@@ -112,6 +115,22 @@ const TOOLTIP_COPY: Record<string, string> = {
     "Average number of decisions it takes to recover to your previous performance level after a loss.",
   "Win rate": "Percentage of decisions with a positive Return.",
   "Decision debt": "Percentage of decisions in this window with negative Return.",
+  "Resolved decisions": "Decisions with a recorded outcome after their resolution window.",
+  "Realized win rate": "Percentage of resolved decisions whose realized Return (Impact − Cost) was positive.",
+  "Return forecast bias":
+    "Average realized Return minus forecast Return. Negative means outcomes landed below what was scored.",
+  "Return forecast error": "Average absolute gap between forecast and realized Return.",
+  "Realized return debt":
+    "Cumulative realized Return lost to negative outcomes that later wins have not yet paid back.",
+  "Brier score":
+    "Mean squared gap between the probability implied by Confidence and whether realized Stability held. Lower is better.",
+  "Calibration error": "Average gap between implied and observed hold rates, weighted by how many decisions sit in each Confidence bin.",
+  "Confidence gap":
+    "Implied hold rate minus observed hold rate. Positive means Confidence runs ahead of outcomes.",
+  "Overconfidence": "Average Confidence drop on decisions that were re-scored with less Confidence than first logged.",
+  "Underconfidence": "Average Confidence gain on decisions that were re-scored with more Confidence than first logged.",
+  "Risk under-called": "Average Risk increase on decisions whose re-score found more Risk than first logged.",
+  "Risk over-called": "Average Risk decrease on decisions whose re-score found less Risk than first logged.",
   "Total decisions": "Number of logged decisions in the selected time window.",
   "Avg D-NAV": "Average D-NAV across all decisions in this time window.",
   "Avg Return (R)": "Average outcome of your decisions. Positive = beneficial, Negative = costly.",
@@ -478,15 +497,18 @@ const getStatsReportSections = (current: DashboardStats, cadenceLabel: string) =
 
 export default function TheDNavPage() {
   const [timeWindow, setTimeWindow] = useState("0");
+  const [asOfDate, setAsOfDate] = useState("");
   const [isGeneratingStatsPdf, setIsGeneratingStatsPdf] = useState(false);
   const statsContainerRef = useRef<HTMLDivElement>(null);
-  const { isLoggedIn, openLogin } = useNetlifyIdentity();
+  const { isLoggedIn, openLogin } = useIdentity();
   const {
     activeDatasetId: datasetId,
     meta,
     decisions,
     isDatasetLoading,
     loadError,
+    scoringProfile,
+    decisionHistory,
   } = useDataset();
   const [categorySort, setCategorySort] = useState<{ key: CategorySortKey; direction: "asc" | "desc" }>(
     { key: "decisionCount", direction: "desc" },
@@ -518,14 +540,25 @@ export default function TheDNavPage() {
     return Number.isNaN(parsed) ? null : parsed;
   }, [timeWindow]);
 
+  // "As of" rebuilds the log from its change history as it stood at the end of the chosen day. Days before the
+  // retained history are refused and the current log stays up.
+  const asOfLog = useMemo(() => {
+    const asOf = parseAsOfDate(asOfDate);
+    if (asOf === null || !datasetId) return null;
+    return getDecisionLogAsOf(decisions, decisionHistory, { scope: datasetId, asOf, profile: scoringProfile });
+  }, [asOfDate, datasetId, decisionHistory, decisions, scoringProfile]);
+  const loggedDecisions = asOfLog ?? decisions;
+  const asOfBeforeHistory =
+    datasetId && parseAsOfDate(asOfDate) !== null && !asOfLog ? getHistoryStart(decisionHistory, datasetId) : null;
+
   const filteredDecisions = useMemo(
-    () => filterDecisionsByTimeframe(decisions, timeframeDays),
-    [decisions, timeframeDays],
+    () => filterDecisionsByTimeframe(loggedDecisions, timeframeDays),
+    [loggedDecisions, timeframeDays],
   );
 
   const previousWindowDecisions = useMemo(
-    () => filterPreviousDecisionsByTimeframe(decisions, timeframeDays),
-    [decisions, timeframeDays],
+    () => filterPreviousDecisionsByTimeframe(loggedDecisions, timeframeDays),
+    [loggedDecisions, timeframeDays],
   );
 
   const observedSpanDays = useMemo(() => {
@@ -543,12 +576,12 @@ export default function TheDNavPage() {
   }, [observedSpanDays, timeframeDays]);
 
   const stats = useMemo<DashboardStats>(() => {
-    return computeDashboardStats(decisions, { timeframeDays });
-  }, [decisions, timeframeDays]);
+    return computeDashboardStats(loggedDecisions, { timeframeDays, scoringProfile });
+  }, [loggedDecisions, scoringProfile, timeframeDays]);
 
   const judgment = useMemo(
-    () => buildJudgmentDashboard(filteredDecisions, companyContext ?? undefined),
-    [companyContext, filteredDecisions],
+    () => buildJudgmentDashboard(filteredDecisions, companyContext ?? undefined, scoringProfile),
+    [companyContext, filteredDecisions, scoringProfile],
   );
 
   const previousNormalized = useMemo(
@@ -556,7 +589,7 @@ export default function TheDNavPage() {
     [previousWindowDecisions],
   );
 
-  const { learning, hygiene, categories, archetypes, normalized } = {
+  const { learning, hygiene, categories, archetypes, normalized, forecast, calibration, drift } = {
     ...judgment,
   };
 
@@ -1200,6 +1233,26 @@ export default function TheDNavPage() {
                           </SelectGroup>
                         </SelectContent>
                       </Select>
+                      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                        As of
+                        <Input
+                          type="date"
+                          value={asOfDate}
+                          onChange={(event) => setAsOfDate(event.target.value)}
+                          className="w-40"
+                        />
+                      </label>
+                      {asOfDate ? (
+                        <Button variant="ghost" size="sm" onClick={() => setAsOfDate("")}>
+                          Today
+                        </Button>
+                      ) : null}
+                      {asOfBeforeHistory !== null ? (
+                        <p className="text-xs text-amber-600">
+                          History is only kept from {new Date(asOfBeforeHistory).toLocaleDateString()}; showing the
+                          current log.
+                        </p>
+                      ) : null}
                     </div>
                     <div className="flex gap-2">
                       <Button
@@ -1309,9 +1362,215 @@ export default function TheDNavPage() {
                               tooltip={TOOLTIP_COPY["Decision debt"]}
                             />
                           </div>
+                          {learning.resolvedCount > 0 ? (
+                            <div className="space-y-3">
+                              <h3 className="text-sm font-semibold text-foreground">Forecast vs actual</h3>
+                              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                                <CompactMetric
+                                  label="Resolved decisions"
+                                  value={learning.resolvedCount}
+                                  tooltip={TOOLTIP_COPY["Resolved decisions"]}
+                                />
+                                <CompactMetric
+                                  label="Realized win rate"
+                                  value={`${formatValue(learning.realizedWinRate ?? 0)}%`}
+                                  tooltip={TOOLTIP_COPY["Realized win rate"]}
+                                />
+                                <CompactMetric
+                                  label="Return forecast bias"
+                                  value={formatValue(learning.returnForecastBias ?? 0, 1)}
+                                  tooltip={TOOLTIP_COPY["Return forecast bias"]}
+                                />
+                                <CompactMetric
+                                  label="Return forecast error"
+                                  value={formatValue(learning.returnForecastMae ?? 0, 1)}
+                                  tooltip={TOOLTIP_COPY["Return forecast error"]}
+                                />
+                                <CompactMetric
+                                  label="Realized return debt"
+                                  value={formatValue(hygiene.realizedReturnDebt ?? 0, 1)}
+                                  tooltip={TOOLTIP_COPY["Realized return debt"]}
+                                />
+                              </div>
+                              <div className="grid gap-3 md:grid-cols-2">
+                                <div className="rounded-lg border bg-muted/30 p-3 text-xs">
+                                  <p className="mb-2 font-semibold uppercase tracking-wide text-muted-foreground">
+                                    Error by variable (realized − forecast)
+                                  </p>
+                                  <div className="space-y-1">
+                                    {forecast.variables.map((stat) => (
+                                      <div key={stat.key} className="flex items-center justify-between">
+                                        <span className="text-foreground">{stat.label}</span>
+                                        <span className="text-muted-foreground">
+                                          bias {formatValue(stat.bias, 1)} · MAE {formatValue(stat.mae, 1)}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                                <div className="rounded-lg border bg-muted/30 p-3 text-xs">
+                                  <p className="mb-2 font-semibold uppercase tracking-wide text-muted-foreground">
+                                    Return error by archetype
+                                  </p>
+                                  <div className="space-y-1">
+                                    {forecast.archetypes.slice(0, 6).map((row) => (
+                                      <div key={row.archetype} className="flex items-center justify-between">
+                                        <span className="text-foreground">
+                                          {row.archetype} <span className="text-muted-foreground">({row.count})</span>
+                                        </span>
+                                        <span className="text-muted-foreground">
+                                          bias {formatValue(row.bias.return, 1)} · MAE {formatValue(row.mae, 1)}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              </div>
+                            </div>
+                          ) : null}
                         </CardContent>
                       </Card>
 
+                    <Card>
+                      <CardHeader className="pb-3 space-y-2">
+                        <CardTitle className="text-xl font-semibold">Confidence Calibration</CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          {calibration.resolvedCount > 0
+                            ? `Across ${calibration.resolvedCount} resolved decisions, Confidence reads as ${calibration.classification.toLowerCase()} against realized Stability.`
+                            : "Record outcomes in the log to see how well Confidence predicts realized Stability."}
+                        </p>
+                      </CardHeader>
+                      {calibration.resolvedCount > 0 ? (
+                        <CardContent className="space-y-6">
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <CompactMetric label="Calibration" value={calibration.classification} />
+                            <CompactMetric
+                              label="Brier score"
+                              value={formatValue(calibration.brierScore ?? 0, 2)}
+                              tooltip={TOOLTIP_COPY["Brier score"]}
+                            />
+                            <CompactMetric
+                              label="Calibration error"
+                              value={`${formatValue((calibration.expectedCalibrationError ?? 0) * 100)}%`}
+                              tooltip={TOOLTIP_COPY["Calibration error"]}
+                            />
+                            <CompactMetric
+                              label="Confidence gap"
+                              value={`${formatValue((calibration.gap ?? 0) * 100)} pts`}
+                              tooltip={TOOLTIP_COPY["Confidence gap"]}
+                            />
+                          </div>
+                          <div className="grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+                            <div className="space-y-2">
+                              <p className="text-xs text-muted-foreground">
+                                Reliability curve: share of decisions whose realized Stability held (solid) vs the rate
+                                implied by entered Confidence (dashed).
+                              </p>
+                              <ReliabilityCurve bins={calibration.bins} />
+                            </div>
+                            <div className="space-y-3 text-xs">
+                              {[
+                                { title: "By category", rows: calibration.byCategory },
+                                { title: "By archetype", rows: calibration.byArchetype },
+                              ].map(({ title, rows }) => (
+                                <div key={title} className="rounded-lg border bg-muted/30 p-3">
+                                  <p className="mb-2 font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+                                  <div className="space-y-1">
+                                    {rows.slice(0, 5).map((row) => (
+                                      <div key={row.label} className="flex items-center justify-between gap-2">
+                                        <span className="truncate text-foreground">
+                                          {row.label} <span className="text-muted-foreground">({row.count})</span>
+                                        </span>
+                                        <span className="whitespace-nowrap text-muted-foreground">
+                                          {row.classification} · Brier {formatValue(row.brierScore, 2)}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        </CardContent>
+                      ) : null}
+                    </Card>
+
+                    <Card>
+                      <CardHeader className="pb-3 space-y-2">
+                        <CardTitle className="text-xl font-semibold">Judgment Drift</CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          {drift.hasData
+                            ? "How re-scored decisions moved from their original sliders (latest re-score − original)."
+                            : "Re-score logged decisions to see how your read on them drifts over time."}
+                        </p>
+                      </CardHeader>
+                      {drift.hasData ? (
+                        <CardContent className="space-y-6">
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <CompactMetric
+                              label="Overconfidence"
+                              value={formatValue(drift.biasIndices.overconfidence, 1)}
+                              tooltip={TOOLTIP_COPY["Overconfidence"]}
+                            />
+                            <CompactMetric
+                              label="Underconfidence"
+                              value={formatValue(drift.biasIndices.underconfidence, 1)}
+                              tooltip={TOOLTIP_COPY["Underconfidence"]}
+                            />
+                            <CompactMetric
+                              label="Risk under-called"
+                              value={formatValue(drift.biasIndices.riskUnder, 1)}
+                              tooltip={TOOLTIP_COPY["Risk under-called"]}
+                            />
+                            <CompactMetric
+                              label="Risk over-called"
+                              value={formatValue(drift.biasIndices.riskOver, 1)}
+                              tooltip={TOOLTIP_COPY["Risk over-called"]}
+                            />
+                          </div>
+                          <div className="grid gap-3 md:grid-cols-2">
+                            <div className="rounded-lg border bg-muted/30 p-3 text-xs">
+                              <p className="mb-2 font-semibold uppercase tracking-wide text-muted-foreground">
+                                Average drift by variable
+                              </p>
+                              <div className="space-y-1">
+                                {drift.variableDrifts.map((row) => (
+                                  <div key={row.label} className="flex items-center justify-between">
+                                    <span className="text-foreground">{row.label}</span>
+                                    <span className="text-muted-foreground">
+                                      {row.value > 0 ? "+" : ""}
+                                      {formatValue(row.value, 1)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                            <div className="space-y-3 text-xs">
+                              {[
+                                { title: "Return improved on re-score", rows: drift.positiveDrifts },
+                                { title: "Return slipped on re-score", rows: drift.negativeDrifts },
+                              ].map(({ title, rows }) => (
+                                <div key={title} className="rounded-lg border bg-muted/30 p-3">
+                                  <p className="mb-2 font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+                                  {rows.length ? (
+                                    <div className="space-y-1">
+                                      {rows.map((name) => (
+                                        <p key={name} className="truncate text-foreground">
+                                          {name}
+                                        </p>
+                                      ))}
+                                    </div>
+                                  ) : (
+                                    <p className="text-muted-foreground">None yet.</p>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        </CardContent>
+                      ) : null}
+                    </Card>
+
                     <Card>
                       <CardHeader className="pb-3 space-y-2">
                         <CardTitle className="text-xl font-semibold">Decision Category Profile</CardTitle>
@@ -7,7 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
-import { oneWordArchetypes } from "@/lib/calculations";
+import { oneWordArchetypes } from "@/src/lib/dnav/archetypes";
 import {
   AlertTriangle,
   ArrowRight,
@@ -1,6 +1,7 @@
 import ConditionalLayout from "@/components/layout/ConditionalLayout";
 import { DatasetProvider } from "@/components/DatasetProvider";
 import { ThemeProvider } from "@/components/theme-provider";
+import { IDENTITY_PROVIDER } from "@/lib/identity";
 import type { Metadata } from "next";
 import Script from "next/script";
 import "./globals.css";
@@ -23,40 +24,44 @@ export default function RootLayout({
           src="https://www.googletagmanager.com/gtag/js?id=G-2NBF5E84J2"
           strategy="afterInteractive"
         />
-        <Script
-          src="https://identity.netlify.com/v1/netlify-identity-widget.js"
-          strategy="afterInteractive"
-        />
-        <Script id="netlify-identity-init" strategy="afterInteractive">
-          {`
-            (function () {
-              function initializeIdentity() {
-                const identity = window.netlifyIdentity;
-                if (!identity) {
-                  return false;
-                }
+        {IDENTITY_PROVIDER === "netlify" ? (
+          <>
+            <Script
+              src="https://identity.netlify.com/v1/netlify-identity-widget.js"
+              strategy="afterInteractive"
+            />
+            <Script id="netlify-identity-init" strategy="afterInteractive">
+              {`
+                (function () {
+                  function initializeIdentity() {
+                    const identity = window.netlifyIdentity;
+                    if (!identity) {
+                      return false;
+                    }
 
-                identity.on("init", (user) => {
-                  if (!user) {
-                    identity.on("login", () => {
-                      document.location.reload();
+                    identity.on("init", (user) => {
+                      if (!user) {
+                        identity.on("login", () => {
+                          document.location.reload();
+                        });
+                      }
                     });
-                  }
-                });
 
-                return true;
-              }
+                    return true;
+                  }
 
-              if (!initializeIdentity()) {
-                const interval = window.setInterval(() => {
-                  if (initializeIdentity()) {
-                    window.clearInterval(interval);
+                  if (!initializeIdentity()) {
+                    const interval = window.setInterval(() => {
+                      if (initializeIdentity()) {
+                        window.clearInterval(interval);
+                      }
+                    }, 500);
                   }
-                }, 500);
-              }
-            })();
-          `}
-        </Script>
+                })();
+              `}
+            </Script>
+          </>
+        ) : null}
         <Script id="google-analytics" strategy="afterInteractive">
           {`
             window.dataLayer = window.dataLayer || [];
@@ -2,6 +2,12 @@
 
 import DatasetSelect from "@/components/DatasetSelect";
 import { useDataset } from "@/components/DatasetProvider";
+import { DecisionHistoryDialog } from "@/components/history/DecisionHistoryDialog";
+import { BundleImportDialog, type BundleRestoreOptions } from "@/components/log/BundleImportDialog";
+import { ImportMappingWizard } from "@/components/log/ImportMappingWizard";
+import { RescoreDecisionDialog } from "@/components/log/RescoreDecisionDialog";
+import { ScoringProfileDialog } from "@/components/log/ScoringProfileDialog";
+import { ResolveOutcomeDialog } from "@/components/log/ResolveOutcomeDialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,8 +22,42 @@ import {
 } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
-import { DecisionEntry, computeMetrics, parseCSV } from "@/lib/calculations";
+import {
+  applyBundleImport,
+  createBundle,
+  decodeBundle,
+  encodeBundle,
+  getBundleFileName,
+  parseBundle,
+  readSessionDecisions,
+  type DnavBundle,
+} from "@/lib/bundle";
+import { DecisionEntry, parseCSV } from "@/lib/calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import { getHistoryStart, getRecordTimeline } from "@/lib/decisionHistory";
+import { getDecisionKey } from "@/lib/datasetSync";
+import { toSheetPreview, type DecisionRow, type SheetPreview } from "@/lib/importMapping";
+import { summarizeMigrationReport } from "@/lib/migrations";
+import {
+  clearDecisionOutcome,
+  getDueResolutions,
+  getResolutionDueAt,
+  resolveDecisionOutcome,
+  type OutcomeInput,
+} from "@/lib/outcomes";
 import { getDatasetDisplayLabel } from "@/lib/reportDatasets";
+import { clearDecisionRescores, getLatestRescore, rescoreDecision, type RescoreInput } from "@/lib/rescore";
+import { registerScoringProfile, SCORING_PROFILES, type ScoringProfile } from "@/lib/scoringProfiles";
+import {
+  loadArchetypeSummaries,
+  loadCompanyContext,
+  loadCompanySummary,
+  loadStressTestSession,
+  saveArchetypeSummaries,
+  saveCompanyContext,
+  saveCompanySummary,
+  saveStressTestSession,
+} from "@/lib/storage";
 import { type CompanyContext } from "@/types/company";
 import { datasetMetaToCompanyContext, type DatasetMeta } from "@/types/dataset";
 import {
@@ -25,9 +65,13 @@ import {
   ArrowDown,
   ArrowUp,
   ArrowUpDown,
+  CheckCircle2,
+  Clock,
+  Archive,
   Download,
   FileSpreadsheet,
   FileText,
+  History,
   Trash2,
   Upload,
 } from "lucide-react";
@@ -35,16 +79,7 @@ import { type ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import * as XLSX from "xlsx";
 
-export interface DecisionRow {
-  date: string;
-  decisionName: string;
-  category: string;
-  impact: number;
-  cost: number;
-  risk: number;
-  urgency: number;
-  confidence: number;
-}
+export type { DecisionRow };
 
 type QuickEntry = {
   name: string;
@@ -54,14 +89,11 @@ type QuickEntry = {
   risk: number;
   urgency: number;
   confidence: number;
+  resolutionWindow: string;
 };
 
 type QuickMetricKey = "impact" | "cost" | "risk" | "urgency" | "confidence";
 
-type ParsedRecord =
-  Partial<Record<keyof DecisionRow, string | number | null>> &
-  Record<string, unknown>;
-
 export default function LogContent() {
   const searchParams = useSearchParams();
   const [isCompact, setIsCompact] = useState(false);
@@ -76,6 +108,7 @@ export default function LogContent() {
     risk: 5,
     urgency: 5,
     confidence: 5,
+    resolutionWindow: "",
   });
   const [companyContext, setCompanyContext] = useState<CompanyContext>({
     companyName: "",
@@ -87,6 +120,7 @@ export default function LogContent() {
     activeDatasetId: datasetId,
     activeDataset,
     meta,
+    scoringProfile,
     decisions,
     setDecisions,
     addDataset,
@@ -95,8 +129,24 @@ export default function LogContent() {
     setDatasetMeta,
     isDatasetLoading,
     loadError,
+    syncError,
+    dismissSyncError,
+    migrationReport,
+    dismissMigrationReport,
+    replaceDatasets,
+    decisionHistory,
+    revertDecision,
   } = useDataset();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBundle, setPendingBundle] = useState<DnavBundle | null>(null);
+  const [mappingImport, setMappingImport] = useState<{ preview: SheetPreview; fileName: string } | null>(null);
+  const [resolvingDecision, setResolvingDecision] = useState<DecisionEntry | null>(null);
+  const [rescoringDecision, setRescoringDecision] = useState<DecisionEntry | null>(null);
+  // A decision opens its own timeline; "dataset" lists every recorded change, including deletions.
+  const [historyTarget, setHistoryTarget] = useState<DecisionEntry | "dataset" | null>(null);
+  const [profileDraftBase, setProfileDraftBase] = useState<ScoringProfile | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     setCompanyContext(datasetMetaToCompanyContext(meta));
@@ -113,6 +163,38 @@ export default function LogContent() {
     }
   };
 
+  const handleResolveOutcome = (target: DecisionEntry, outcome: OutcomeInput) => {
+    const resolvedAt = Date.now();
+    setDecisions((prev) =>
+      prev.map((decision) =>
+        decision.ts === target.ts ? resolveDecisionOutcome(decision, outcome, resolvedAt) : decision,
+      ),
+    );
+    setNow(resolvedAt);
+    setResolvingDecision(null);
+  };
+
+  const handleClearOutcome = (target: DecisionEntry) => {
+    setDecisions((prev) =>
+      prev.map((decision) => (decision.ts === target.ts ? clearDecisionOutcome(decision) : decision)),
+    );
+    setResolvingDecision(null);
+  };
+
+  const handleRescore = (target: DecisionEntry, input: RescoreInput) => {
+    setDecisions((prev) =>
+      prev.map((decision) => (decision.ts === target.ts ? rescoreDecision(decision, input) : decision)),
+    );
+    setRescoringDecision(null);
+  };
+
+  const handleClearRescores = (target: DecisionEntry) => {
+    setDecisions((prev) =>
+      prev.map((decision) => (decision.ts === target.ts ? clearDecisionRescores(decision) : decision)),
+    );
+    setRescoringDecision(null);
+  };
+
   const handleClearAll = () => {
     if (confirm("Are you sure you want to clear all decisions? This action cannot be undone.")) {
       setDecisions([]);
@@ -176,14 +258,18 @@ export default function LogContent() {
       return;
     }
 
-    const metrics = computeMetrics({
-      impact: quickEntry.impact,
-      cost: quickEntry.cost,
-      risk: quickEntry.risk,
-      urgency: quickEntry.urgency,
-      confidence: quickEntry.confidence,
-    });
+    const metrics = computeMetrics(
+      {
+        impact: quickEntry.impact,
+        cost: quickEntry.cost,
+        risk: quickEntry.risk,
+        urgency: quickEntry.urgency,
+        confidence: quickEntry.confidence,
+      },
+      scoringProfile,
+    );
 
+    const resolutionDays = Number(quickEntry.resolutionWindow);
     const entry: DecisionEntry = {
       ts: Date.now(),
       name: quickEntry.name.trim(),
@@ -194,6 +280,7 @@ export default function LogContent() {
       urgency: quickEntry.urgency,
       confidence: quickEntry.confidence,
       ...metrics,
+      ...(resolutionDays > 0 ? { resolutionWindow: resolutionDays } : {}),
     };
 
     setDecisions((prev) => [entry, ...prev]);
@@ -231,6 +318,18 @@ export default function LogContent() {
     setDatasetMeta(datasetId, { judgmentUnitLabel: value });
   };
 
+  const handleScoringProfileChange = (value: string) => {
+    if (!datasetId) return;
+    setDatasetMeta(datasetId, { scoringProfileId: value });
+  };
+
+  const handleSaveScoringProfile = (profile: ScoringProfile) => {
+    setProfileDraftBase(null);
+    if (!datasetId) return;
+    const { id, profiles } = registerScoringProfile(meta.scoringProfiles ?? [], profile);
+    setDatasetMeta(datasetId, { scoringProfiles: profiles, scoringProfileId: id });
+  };
+
   const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -242,48 +341,72 @@ export default function LogContent() {
     URL.revokeObjectURL(url);
   };
 
-  const handleParsingError = (error: unknown, fallback: string) => {
-    console.error(fallback, error);
-    const message = error instanceof Error ? error.message : fallback;
-    setImportError(message);
-    setImportStatus(null);
+  const handleExportBundle = async (compress: boolean) => {
+    const bundle = createBundle({
+      activeDatasetId: datasetId,
+      datasets,
+      companyContext: loadCompanyContext(),
+      companySummary: loadCompanySummary(),
+      archetypeSummaries: loadArchetypeSummaries(),
+      stressTestSession: readSessionDecisions(loadStressTestSession()),
+    });
+    try {
+      downloadBlob(await encodeBundle(bundle, { compress }), getBundleFileName(bundle, compress));
+    } catch (error) {
+      console.error("Failed to export bundle", error);
+      setImportError("The bundle could not be created in this browser.");
+    }
   };
 
-  const REQUIRED_HEADERS: Record<string, keyof DecisionRow> = {
-    date: "date",
-    "decision name": "decisionName",
-    category: "category",
-    impact: "impact",
-    cost: "cost",
-    risk: "risk",
-    urgency: "urgency",
-    confidence: "confidence",
+  const handleBundleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) return;
+
+    setImportStatus(null);
+    setImportError(null);
+    try {
+      const result = parseBundle(await decodeBundle(file));
+      if (!result.ok) {
+        setImportError(result.error);
+        return;
+      }
+      setPendingBundle(result.bundle);
+    } catch (error) {
+      handleParsingError(error, "The bundle file could not be read.");
+    }
   };
 
-  const OPTIONAL_HEADERS = new Set([
-    "return",
-    "pressure",
-    "stability",
-    "r",
-    "p",
-    "s",
-    "merit",
-    "energy",
-    "d-nav",
-    "dnav",
-    "notes",
-    "ticker",
-    "year",
-  ]);
-
-  const normalizeHeader = (key: string = "") => key.trim().toLowerCase();
-
-  const validateHeaders = (headers: string[]) => {
-    const normalized = headers.map(normalizeHeader);
-    const missing = Object.keys(REQUIRED_HEADERS).filter((required) => !normalized.includes(required));
-    if (missing.length) {
-      throw new Error(`Missing required column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  const handleRestoreBundle = (bundle: DnavBundle, options: BundleRestoreOptions) => {
+    const result = applyBundleImport(datasets, bundle, options.modes);
+    replaceDatasets(result.datasets);
+
+    const restored = [...result.summary];
+    if (options.restoreContext && bundle.companyContext) {
+      saveCompanyContext(bundle.companyContext);
+      restored.push("Restored company context.");
+    }
+    if (options.restoreSummaries) {
+      if (bundle.companySummary) saveCompanySummary(bundle.companySummary);
+      saveArchetypeSummaries(bundle.archetypeSummaries);
+      restored.push("Restored cached summaries.");
     }
+    if (options.restoreSession) {
+      saveStressTestSession(bundle.stressTestSession);
+      restored.push(`Restored ${bundle.stressTestSession.length} stress-test decisions.`);
+    }
+
+    setPendingBundle(null);
+    setImportError(null);
+    setImportStatus(restored.length ? restored.join(" ") : "Nothing was restored from the bundle.");
+  };
+
+  const handleParsingError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    const message = error instanceof Error ? error.message : fallback;
+    setImportError(message);
+    setImportStatus(null);
   };
 
   const handleExportSpreadsheet = () => {
@@ -306,7 +429,18 @@ export default function LogContent() {
       "Pressure",
       "Merit",
       "Energy",
-      "D-NAV"
+      "D-NAV",
+      "Resolution Window",
+      "Resolved At",
+      "Realized Impact",
+      "Realized Cost",
+      "Realized Risk",
+      "Re-scored At",
+      "Re-scored Impact",
+      "Re-scored Cost",
+      "Re-scored Risk",
+      "Re-scored Urgency",
+      "Re-scored Confidence",
     ];
 
     const rows = decisions.map((decision) => ({
@@ -324,11 +458,37 @@ export default function LogContent() {
       Merit: Number(decision.merit.toFixed(2)),
       Energy: Number(decision.energy.toFixed(2)),
       "D-NAV": Number(decision.dnav.toFixed(2)),
+      "Resolution Window": decision.resolutionWindow ?? "",
+      "Resolved At": decision.resolvedAt ? new Date(decision.resolvedAt).toLocaleDateString() : "",
+      "Realized Impact": decision.outcome?.impact ?? "",
+      "Realized Cost": decision.outcome?.cost ?? "",
+      "Realized Risk": decision.outcome?.risk ?? "",
+      "Re-scored At": decision.rescores?.length
+        ? new Date(decision.rescores[decision.rescores.length - 1].recordedAt).toLocaleDateString()
+        : "",
+      "Re-scored Impact": decision.impact1 ?? "",
+      "Re-scored Cost": decision.cost1 ?? "",
+      "Re-scored Risk": decision.risk1 ?? "",
+      "Re-scored Urgency": decision.urgency1 ?? "",
+      "Re-scored Confidence": decision.confidence1 ?? "",
     }));
 
+    const { coefficients, deadBands } = scoringProfile;
+    const profileRows = [
+      { Setting: "Profile", Value: `${scoringProfile.name} (${scoringProfile.id})` },
+      { Setting: "Impact coefficient", Value: coefficients.impact },
+      { Setting: "Cost coefficient", Value: coefficients.cost },
+      { Setting: "Risk coefficient", Value: coefficients.risk },
+      { Setting: "Energy coefficient", Value: coefficients.energy },
+      { Setting: "Return dead-band", Value: deadBands.return },
+      { Setting: "Pressure dead-band", Value: deadBands.pressure },
+      { Setting: "Stability dead-band", Value: deadBands.stability },
+    ];
+
     const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers });
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, "Decisions");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(profileRows), "Scoring Profile");
     const excelBuffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
     const blob = new Blob([excelBuffer], {
       type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
@@ -336,111 +496,6 @@ export default function LogContent() {
     downloadBlob(blob, `dnav-decisions-${new Date().toISOString().split("T")[0]}.xlsx`);
   };
 
-  const parseNumeric = (value: unknown): number => {
-    let numeric: number | null = null;
-    if (typeof value === "number" && Number.isFinite(value)) {
-      numeric = value;
-    } else if (typeof value === "string") {
-      const cleaned = value.replace(/[^0-9.-]/g, "");
-      const parsed = parseFloat(cleaned);
-      if (Number.isFinite(parsed)) {
-        numeric = parsed;
-      }
-    }
-
-    if (numeric === null) {
-      return 1;
-    }
-
-    return Math.min(10, Math.max(1, numeric));
-  };
-
-  const parseTimestamp = (value: unknown, index: number, fallbackBase: number): number => {
-    if (value === undefined || value === null || value === "") {
-      return fallbackBase - index;
-    }
-
-    if (value instanceof Date) {
-      const time = value.getTime();
-      if (!Number.isNaN(time)) {
-        return time;
-      }
-    }
-
-    if (typeof value === "number" && !Number.isNaN(value)) {
-      if (value > 1e12) return Math.round(value);
-      if (value > 1e9) return Math.round(value * 1000);
-      const excelDate = XLSX.SSF.parse_date_code(value);
-      if (excelDate) {
-        return Date.UTC(
-          excelDate.y,
-          excelDate.m - 1,
-          excelDate.d,
-          excelDate.H,
-          excelDate.M,
-          Math.round(excelDate.S || 0)
-        );
-      }
-    }
-
-    if (typeof value === "string") {
-      const trimmed = value.trim();
-      if (!trimmed) return fallbackBase - index;
-      const numeric = Number(trimmed);
-      if (!Number.isNaN(numeric)) {
-        return parseTimestamp(numeric, index, fallbackBase);
-      }
-      const parsed = new Date(trimmed);
-      if (!Number.isNaN(parsed.getTime())) {
-        return parsed.getTime();
-      }
-    }
-
-    return fallbackBase - index;
-  };
-
-  const mapRecordToDecision = (
-    record: ParsedRecord,
-    index: number,
-    fallbackBase: number
-  ): DecisionEntry | null => {
-    const name = String(record.decisionName ?? "").trim();
-    if (!name) return null;
-
-    const category = String(record.category ?? "General").trim() || "General";
-    const impact = parseNumeric(record.impact);
-    const cost = parseNumeric(record.cost);
-    const risk = parseNumeric(record.risk);
-    const urgency = parseNumeric(record.urgency);
-    const confidence = parseNumeric(record.confidence);
-
-    const metrics = computeMetrics({ impact, cost, risk, urgency, confidence });
-    const ts = parseTimestamp(
-      record.date,
-      index,
-      fallbackBase
-    );
-
-    return {
-      ts,
-      name,
-      category,
-      impact,
-      cost,
-      risk,
-      urgency,
-      confidence,
-      ...metrics,
-    };
-  };
-
-  const recordsToDecisions = (records: ParsedRecord[]): DecisionEntry[] => {
-    const fallbackBase = Date.now();
-    return records
-      .map((record, index) => mapRecordToDecision(record, index, fallbackBase))
-      .filter((decision): decision is DecisionEntry => Boolean(decision));
-  };
-
   type SortKey = "category" | "return" | "stability" | "pressure" | "dnav";
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: "asc" | "desc" } | null>(null);
 
@@ -509,57 +564,6 @@ export default function LogContent() {
     );
   };
 
-  const parseCsvRecords = (rows: string[][]): ParsedRecord[] => {
-    if (rows.length === 0) return [];
-    validateHeaders(rows[0]);
-    const headerMap = rows[0].map((header) => {
-      const normalized = normalizeHeader(header);
-      if (REQUIRED_HEADERS[normalized]) {
-        return REQUIRED_HEADERS[normalized];
-      }
-      if (OPTIONAL_HEADERS.has(normalized)) {
-        return null;
-      }
-      return null;
-    });
-    return rows
-      .slice(1)
-      .filter((row) => row.some((cell) => String(cell || "").trim().length > 0))
-      .map((row) => {
-        const record: ParsedRecord = {};
-        row.forEach((cell, idx) => {
-          const key = headerMap[idx];
-          if (key) {
-            record[key] = cell;
-          }
-        });
-        return record;
-      });
-  };
-
-  const parseSheetRecords = (sheet: XLSX.Sheet): ParsedRecord[] => {
-    const headerRow = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 }) as unknown as string[][];
-    const headers = (headerRow[0] || []).map(String);
-    validateHeaders(headers);
-
-    const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
-    if (!raw.length) return [];
-
-    return raw.map((row) => {
-      const record: ParsedRecord = {};
-      Object.entries(row).forEach(([key, value]) => {
-        const normalized = normalizeHeader(key);
-        const mappedKey = REQUIRED_HEADERS[normalized];
-        if (mappedKey) {
-          const normalizedValue =
-            typeof value === "number" || typeof value === "string" ? value : null;
-          record[mappedKey] = normalizedValue;
-        }
-      });
-      return record;
-    });
-  };
-
   const buildDecisionKey = (entry: Pick<DecisionEntry, "name" | "ts">) => {
     const decisionText = entry.name?.trim();
     if (!decisionText) return null;
@@ -611,6 +615,16 @@ export default function LogContent() {
     setImportStatus(`${unique.length} decision${unique.length === 1 ? "" : "s"} imported${duplicateNote}.`);
   };
 
+  const openMappingWizard = (preview: SheetPreview, fileName: string) => {
+    if (preview.headers.length === 0 || preview.rows.length === 0) {
+      setImportError("No rows found in the uploaded file.");
+      setImportStatus(null);
+      return;
+    }
+    setImportStatus(null);
+    setMappingImport({ preview, fileName });
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -631,12 +645,9 @@ export default function LogContent() {
       reader.onload = (loadEvent) => {
         try {
           const text = String(loadEvent.target?.result || "");
-          const rows = parseCSV(text);
-          const records = parseCsvRecords(rows);
-          const decisions = recordsToDecisions(records);
-          processImportedDecisions(decisions);
+          openMappingWizard(toSheetPreview(parseCSV(text)), file.name);
         } catch (error) {
-          handleParsingError(error, "The CSV file could not be parsed. Please verify the template format.");
+          handleParsingError(error, "The CSV file could not be parsed.");
         } finally {
           input.value = "";
         }
@@ -655,11 +666,10 @@ export default function LogContent() {
           if (!sheet) {
             throw new Error("Workbook does not contain a readable sheet.");
           }
-          const records = parseSheetRecords(sheet);
-          const decisions = recordsToDecisions(records);
-          processImportedDecisions(decisions);
+          const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+          openMappingWizard(toSheetPreview(table), file.name);
         } catch (error) {
-          handleParsingError(error, "The Excel file could not be parsed. Please verify the template format.");
+          handleParsingError(error, "The Excel file could not be parsed.");
         } finally {
           input.value = "";
         }
@@ -783,6 +793,21 @@ export default function LogContent() {
     return "text-yellow-600";
   };
 
+  const renderRescoreLabel = (decision: DecisionEntry) => {
+    const latest = getLatestRescore(decision);
+    if (!latest) return <span className="text-muted-foreground">Re-score</span>;
+    const delta = latest.return - ((decision.impact0 ?? decision.impact) - (decision.cost0 ?? decision.cost));
+    return (
+      <span className={`font-medium ${getValueColor(delta, "return")}`}>
+        ΔR {delta > 0 ? "+" : ""}
+        {delta.toFixed(1)}
+        <span className="ml-1 text-muted-foreground">×{decision.rescores?.length}</span>
+      </span>
+    );
+  };
+
+  const dueResolutions = useMemo(() => getDueResolutions(decisions, now), [decisions, now]);
+
   const categorySuggestions = useMemo(() => {
     const categorySet = new Set(decisions.map((decision) => decision.category));
     if (categoryParam) categorySet.add(categoryParam);
@@ -815,6 +840,30 @@ export default function LogContent() {
             Loading dataset…
           </div>
         ) : null}
+        {migrationReport ? (
+          <div className="flex items-start justify-between gap-2 rounded-md border border-muted/60 bg-muted/20 px-3 py-2 text-xs text-muted-foreground">
+            <div className="space-y-1">
+              <p className="font-medium text-foreground">
+                Stored data upgraded from v{migrationReport.fromVersion} to v{migrationReport.toVersion}. A backup of
+                the previous data was kept in this browser.
+              </p>
+              {summarizeMigrationReport(migrationReport).map((change) => (
+                <p key={change}>{change}</p>
+              ))}
+            </div>
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={dismissMigrationReport}>
+              Dismiss
+            </Button>
+          </div>
+        ) : null}
+        {syncError ? (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-300">
+            <span>{syncError}</span>
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={dismissSyncError}>
+              Dismiss
+            </Button>
+          </div>
+        ) : null}
       </div>
       <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
         <div className="w-full space-y-2 sm:max-w-md">
@@ -884,6 +933,28 @@ export default function LogContent() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Scoring profile</label>
+            <Select value={scoringProfile.id} onValueChange={handleScoringProfileChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...SCORING_PROFILES, ...(meta.scoringProfiles ?? [])].map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {scoringProfile.description} Changing the profile rescores every decision in this dataset.
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={() => setProfileDraftBase(scoringProfile)}>
+              Customize weights
+            </Button>
+          </div>
+
           <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Type</label>
@@ -1030,6 +1101,22 @@ export default function LogContent() {
               <Download className="h-4 w-4 mr-2" />
               Download Spreadsheet
             </Button>
+            <Button variant="secondary" onClick={() => void handleExportBundle(false)}>
+              <Archive className="h-4 w-4 mr-2" />
+              Backup All
+            </Button>
+            <Button variant="ghost" onClick={() => void handleExportBundle(true)}>
+              <Archive className="h-4 w-4 mr-2" />
+              Backup (.gz)
+            </Button>
+            <Button variant="ghost" onClick={() => bundleInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Restore Bundle
+            </Button>
+            <Button variant="secondary" onClick={() => setHistoryTarget("dataset")} disabled={!datasetId}>
+              <History className="h-4 w-4 mr-2" />
+              Change History
+            </Button>
             <Button variant="destructive" onClick={handleClearAll} disabled={decisions.length === 0}>
               <Trash2 className="h-4 w-4 mr-2" />
               Clear All
@@ -1043,6 +1130,13 @@ export default function LogContent() {
           className="hidden"
           onChange={handleFileChange}
         />
+        <input
+          ref={bundleInputRef}
+          type="file"
+          accept=".json,.gz,application/json,application/gzip"
+          className="hidden"
+          onChange={(event) => void handleBundleFileChange(event)}
+        />
         <CardContent>
           {(importStatus || importError) && (
             <div className="mb-4 space-y-1 text-sm">
@@ -1050,6 +1144,40 @@ export default function LogContent() {
               {importError && <p className="text-destructive">{importError}</p>}
             </div>
           )}
+          {dueResolutions.length > 0 && (
+            <div className="mb-4 rounded-lg border border-amber-300/60 bg-amber-50/60 p-3 dark:border-amber-500/40 dark:bg-amber-500/10">
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-amber-600" />
+                <p className="text-xs font-semibold uppercase text-amber-700 dark:text-amber-200">
+                  {dueResolutions.length} decision{dueResolutions.length === 1 ? "" : "s"} ready to resolve
+                </p>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                The resolution window has passed. Record what actually happened so calibration reflects real outcomes.
+              </p>
+              <div className="mt-3 space-y-2">
+                {dueResolutions.slice(0, 5).map((decision) => {
+                  const dueAt = getResolutionDueAt(decision);
+                  return (
+                    <div key={decision.ts} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium text-foreground">{decision.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Due {dueAt ? new Date(dueAt).toLocaleDateString() : "—"} · {decision.category}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => setResolvingDecision(decision)}>
+                        Record outcome
+                      </Button>
+                    </div>
+                  );
+                })}
+                {dueResolutions.length > 5 && (
+                  <p className="text-xs text-muted-foreground">+{dueResolutions.length - 5} more in the table below.</p>
+                )}
+              </div>
+            </div>
+          )}
           <div className="mb-4 rounded-lg border border-muted/50 bg-muted/20 p-3">
             <div className="flex flex-wrap items-center justify-between gap-2">
               <p className="text-xs font-semibold uppercase text-muted-foreground">Quick Log</p>
@@ -1089,7 +1217,7 @@ export default function LogContent() {
                 </datalist>
               </div>
             </div>
-            <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-5">
+            <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-6">
               {([
                 { key: "impact", label: "Impact" },
                 { key: "cost", label: "Cost" },
@@ -1111,6 +1239,21 @@ export default function LogContent() {
                   />
                 </div>
               ))}
+              <div className="space-y-1">
+                <label className="text-[11px] font-medium text-muted-foreground" htmlFor="quick-resolutionWindow">
+                  Resolve in (days)
+                </label>
+                <Input
+                  id="quick-resolutionWindow"
+                  type="number"
+                  min={1}
+                  placeholder="Optional"
+                  value={quickEntry.resolutionWindow}
+                  onChange={(event) =>
+                    setQuickEntry((prev) => ({ ...prev, resolutionWindow: event.target.value }))
+                  }
+                />
+              </div>
             </div>
           </div>
           <Table>
@@ -1136,13 +1279,16 @@ export default function LogContent() {
                 <TableHead className="text-right">
                   <div className="flex justify-end">{renderSortButton("D-NAV", "dnav", true)}</div>
                 </TableHead>
+                <TableHead className="text-center">Re-score</TableHead>
+                <TableHead className="text-center">Outcome</TableHead>
+                <TableHead className="text-center">History</TableHead>
                 <TableHead className="text-center">✕</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {sortedDecisions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={13} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={16} className="text-center py-8 text-muted-foreground">
                     <div className="flex flex-col items-center gap-2">
                       <AlertTriangle className="h-8 w-8" />
                       <p>No decisions saved yet</p>
@@ -1177,6 +1323,49 @@ export default function LogContent() {
                     <TableCell className="text-right font-bold text-lg">
                       {decision.dnav.toFixed(1)}
                     </TableCell>
+                    <TableCell className="text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRescoringDecision(decision)}
+                        className="h-8 px-2 text-xs"
+                      >
+                        {renderRescoreLabel(decision)}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setResolvingDecision(decision)}
+                        className="h-8 px-2 text-xs"
+                      >
+                        {decision.outcome ? (
+                          <span
+                            className={`inline-flex items-center gap-1 font-medium ${getValueColor(
+                              decision.outcome.impact - decision.outcome.cost,
+                              "return",
+                            )}`}
+                          >
+                            <CheckCircle2 className="h-3.5 w-3.5" />
+                            R {(decision.outcome.impact - decision.outcome.cost).toFixed(1)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Resolve</span>
+                        )}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryTarget(decision)}
+                        className="h-8 w-8 p-0"
+                        aria-label={`History for ${decision.name}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
                     <TableCell className="text-center">
                       <Button
                         variant="ghost"
@@ -1194,6 +1383,66 @@ export default function LogContent() {
           </Table>
         </CardContent>
       </Card>
+      <DecisionHistoryDialog
+        open={historyTarget !== null}
+        title={historyTarget === "dataset" || !historyTarget ? "Change history" : `History — ${historyTarget.name}`}
+        description={
+          historyTarget === "dataset"
+            ? "Every recorded change to this dataset, newest first. Restore a deleted decision or roll one back."
+            : "Each edit is kept as its own event. Reverting records a new edit rather than erasing the old ones."
+        }
+        events={
+          !historyTarget || !datasetId
+            ? []
+            : historyTarget === "dataset"
+              ? decisionHistory.events.filter((event) => event.scope === datasetId)
+              : getRecordTimeline(decisionHistory.events, datasetId, getDecisionKey(historyTarget))
+        }
+        historyStart={datasetId ? getHistoryStart(decisionHistory, datasetId) : null}
+        showLabels={historyTarget === "dataset"}
+        onClose={() => setHistoryTarget(null)}
+        onRevert={(recordKey, asOf) => {
+          if (!datasetId) return;
+          revertDecision(datasetId, recordKey, asOf);
+          setHistoryTarget(null);
+        }}
+      />
+      <ScoringProfileDialog
+        key={profileDraftBase ? `profile-${profileDraftBase.id}` : "profile-none"}
+        base={profileDraftBase}
+        onClose={() => setProfileDraftBase(null)}
+        onSave={handleSaveScoringProfile}
+      />
+      <RescoreDecisionDialog
+        key={rescoringDecision ? `rescore-${rescoringDecision.ts}` : "rescore-none"}
+        decision={rescoringDecision}
+        onClose={() => setRescoringDecision(null)}
+        onSubmit={handleRescore}
+        onClear={handleClearRescores}
+      />
+      <ResolveOutcomeDialog
+        decision={resolvingDecision}
+        onClose={() => setResolvingDecision(null)}
+        onSubmit={handleResolveOutcome}
+        onClear={handleClearOutcome}
+      />
+      <ImportMappingWizard
+        key={mappingImport ? `${mappingImport.fileName}-${mappingImport.preview.rows.length}` : "none"}
+        preview={mappingImport?.preview ?? null}
+        fileName={mappingImport?.fileName ?? ""}
+        onClose={() => setMappingImport(null)}
+        onImport={(entries) => {
+          setMappingImport(null);
+          processImportedDecisions(entries);
+        }}
+      />
+      <BundleImportDialog
+        key={pendingBundle?.exportedAt ?? "none"}
+        bundle={pendingBundle}
+        datasets={datasets}
+        onClose={() => setPendingBundle(null)}
+        onConfirm={handleRestoreBundle}
+      />
     </div>
   );
 }
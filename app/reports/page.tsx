@@ -7,11 +7,11 @@ import { useRouter, useSearchParams } from "next/navigation";
 import DatasetSelect from "@/components/DatasetSelect";
 import SystemComparePanel from "@/components/SystemComparePanel";
 import { AdaptationPanel } from "@/components/compare/AdaptationPanel";
-import { MetricDistribution } from "@/components/reports/MetricDistribution";
-import { ArchetypeRpsChips } from "@/components/reports/ArchetypeRpsChips";
-import { Callout } from "@/components/ui/Callout";
+import OnePageReport from "@/components/reports/OnePageReport";
+import { RaterDisagreementPanel } from "@/components/reports/RaterDisagreementPanel";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -23,23 +23,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import {
   buildCompanyPeriodSnapshot,
   CompanyPeriodSnapshot,
-  FullInterpretation,
   generateFullInterpretation,
 } from "@/lib/dnavSummaryEngine";
+import { fetchExecutiveReportPdf } from "@/lib/datasetApi";
 import { getDatasetDisplayName } from "@/lib/datasetDisplay";
+import { parseAsOfDate } from "@/lib/decisionHistory";
+import { analyzeRaterDisagreement } from "@/lib/judgment/raterDisagreement";
 import { loadDecisionsForDataset } from "@/lib/reportSnapshot";
 import { useDataset } from "@/components/DatasetProvider";
 import { type DatasetId, type DatasetState } from "@/types/dataset";
-import { useNetlifyIdentity } from "@/hooks/use-netlify-identity";
-import {
-  TIMEFRAMES,
-  timeframeDescriptions,
-  type TimeframeValue,
-  useReportsData,
-  mapTimeframeToDays,
-} from "@/hooks/useReportsData";
+import { useIdentity } from "@/hooks/use-identity";
+import { useReportsData } from "@/hooks/useReportsData";
+import { TIMEFRAMES, timeframeDescriptions, mapTimeframeToDays, type TimeframeValue } from "@/lib/reportTimeframes";
 import { type DecisionEntry } from "@/lib/storage";
-import { type CategoryActionInsightResult, getCategoryActionInsight } from "@/lib/categoryActionInsight";
+import { getCategoryActionInsight } from "@/lib/categoryActionInsight";
+import { DATASET_SYNC } from "@/lib/flags";
 import { cn } from "@/lib/utils";
 import { buildCohortSummary, runCompare } from "@/lib/compare/engine";
 import {
@@ -165,6 +163,7 @@ function ReportsPageContent() {
   const defaultDatasetAId = datasets[0]?.id ?? null;
   const defaultDatasetBId = datasets.at(1)?.id ?? null;
   const [selectedTimeframe, setSelectedTimeframe] = useState<TimeframeValue>(resolvedTimeframe);
+  const [asOfDate, setAsOfDate] = useState(() => searchParams.get("asOf") ?? "");
   const [datasetAId, setDatasetAId] = useState<DatasetId | null>(defaultDatasetAId);
   const [datasetBId, setDatasetBId] = useState<DatasetId | null>(defaultDatasetBId);
   const [adaptationDatasetId, setAdaptationDatasetId] = useState<DatasetId | null>(defaultDatasetAId);
@@ -174,7 +173,7 @@ function ReportsPageContent() {
   const [compareMode, setCompareMode] = useState<CompareMode>("entity");
   const [compareResult, setCompareResult] = useState<CompareResult | null>(null);
   const [compareWarning, setCompareWarning] = useState<string | null>(null);
-  const { isLoggedIn, openLogin } = useNetlifyIdentity();
+  const { isLoggedIn, openLogin } = useIdentity();
 
   const datasetOptions = useMemo(
     () =>
@@ -319,7 +318,9 @@ function ReportsPageContent() {
     stats,
     allDecisions,
     filteredDecisions,
-  } = useReportsData({ timeframe: selectedTimeframe, datasetId });
+    judgmentDashboard,
+    asOfBeforeHistory,
+  } = useReportsData({ timeframe: selectedTimeframe, datasetId, asOf: parseAsOfDate(asOfDate) });
 
   const timeframeConfig = useMemo(
     () => TIMEFRAMES.find((timeframe) => timeframe.value === selectedTimeframe) ?? TIMEFRAMES[0],
@@ -393,6 +394,11 @@ function ReportsPageContent() {
 
   const archetypeProfile = useMemo(() => archetypes, [archetypes]);
 
+  const raterDisagreement = useMemo(
+    () => analyzeRaterDisagreement(filteredDecisions, judgmentDashboard.scoringProfile),
+    [filteredDecisions, judgmentDashboard.scoringProfile],
+  );
+
   const learningStats = useMemo(
     () => ({
       lci: learning.lci ?? 0,
@@ -498,12 +504,27 @@ function ReportsPageContent() {
 
     const params = new URLSearchParams(searchParams.toString());
     params.set("window", selectedTimeframe);
+    if (parseAsOfDate(asOfDate) !== null) {
+      params.set("asOf", asOfDate);
+    } else {
+      params.delete("asOf");
+    }
     if (datasetId) {
       params.set("dataset", datasetId);
     }
     window.open(`/reports/print?${params.toString()}`, "_blank", "noopener,noreferrer");
   };
 
+  const handleServerPdf = async () => {
+    if (!datasetId) return;
+    try {
+      const blob = await fetchExecutiveReportPdf(datasetId, selectedTimeframe);
+      downloadBlob(blob, `dnav-executive-report-${slugify(timeframeConfig.label)}.pdf`);
+    } catch (error) {
+      console.error("Unable to render the report on the server", error);
+    }
+  };
+
   return (
     <TooltipProvider>
       <div className="dn-reports-root flex flex-col gap-8">
@@ -545,6 +566,16 @@ function ReportsPageContent() {
                 <FileDown className="mr-2 h-4 w-4" />
                 Download report
               </Button>
+              {DATASET_SYNC && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleServerPdf}
+                  disabled={!isLoggedIn || !hasData || !datasetId}
+                >
+                  Server PDF
+                </Button>
+              )}
             </div>
             <div className="print:hidden text-xs text-muted-foreground">
               For best results, enable “Background Graphics” in the print dialog.
@@ -573,6 +604,20 @@ function ReportsPageContent() {
                   {label}
                 </Button>
               ))}
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                As of
+                <Input
+                  type="date"
+                  value={asOfDate}
+                  onChange={(event) => setAsOfDate(event.target.value)}
+                  className="h-8 w-36 text-xs"
+                />
+              </label>
+              {asOfBeforeHistory !== null ? (
+                <p className="text-xs text-amber-600">
+                  History is only kept from {new Date(asOfBeforeHistory).toLocaleDateString()}; showing the current log.
+                </p>
+              ) : null}
             </div>
           </div>
         </section>
@@ -610,9 +655,28 @@ function ReportsPageContent() {
                 topCategories={topCategories}
                 sortedArchetypes={sortedArchetypes}
                 learningStats={learningStats}
+                calibration={judgmentDashboard.calibration}
+                scoringProfile={judgmentDashboard.scoringProfile}
               />
             </div>
 
+            {/* Multi-rater disagreement */}
+            <div className="no-print print:hidden">
+              {raterDisagreement.ratedDecisionCount > 0 ? (
+                <RaterDisagreementPanel report={raterDisagreement} />
+              ) : (
+                <section className="rounded-2xl border bg-card/70 p-5 shadow-sm space-y-1">
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+                    Rater disagreement
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    No decisions in this window have scores from two or more raters. Log a facilitated review to the
+                    dataset to start comparing raters.
+                  </p>
+                </section>
+              )}
+            </div>
+
             {/* System-level compare */}
             <section className="no-print mt-10 space-y-4 print:hidden">
               <div className="flex flex-wrap items-center justify-between gap-3">
@@ -784,38 +848,6 @@ function ReportsPageContent() {
   );
 }
 
-type BaselineDistribution = {
-  positive: number;
-  neutral: number;
-  negative: number;
-};
-
-type BaselineDistributions = {
-  returnDistribution: BaselineDistribution;
-  pressureDistribution: BaselineDistribution;
-  stabilityDistribution: BaselineDistribution;
-};
-
-type TopCategory = {
-  name: string;
-  decisionCount: number;
-  share: number;
-  avgDnav: number;
-  avgR: number;
-  avgP: number;
-  avgS: number;
-  dominantFactor: string | null;
-  insight: CategoryActionInsightResult;
-};
-
-type ArchetypeSummary = {
-  archetype: string;
-  avgR: number;
-  avgP: number;
-  avgS: number;
-  count: number;
-};
-
 async function buildCohortSummaryFromDataset({
   dataset,
   label,
@@ -878,320 +910,6 @@ async function buildCohortSummaryFromDataset({
   return { summary, decisions: filtered };
 }
 
-type LearningStats = {
-  lci: number;
-  decisionsToRecover: number;
-  winRate: number;
-  decisionDebt: number;
-};
-
-type OnePageReportProps = {
-  snapshot: CompanyPeriodSnapshot;
-  interpretation: FullInterpretation;
-  baselineDistributions: BaselineDistributions;
-  topCategories: TopCategory[];
-  sortedArchetypes: ArchetypeSummary[];
-  learningStats: LearningStats;
-};
-
-const formatPct = (value: number) => `${value.toFixed(1)}%`;
-
-function OnePageReport({
-  snapshot,
-  interpretation,
-  baselineDistributions,
-  topCategories,
-  sortedArchetypes,
-  learningStats,
-}: OnePageReportProps) {
-  const { companyName, periodLabel, rpsBaseline } = snapshot;
-  const { returnDistribution, pressureDistribution, stabilityDistribution } = baselineDistributions;
-  const signalToneStyles = {
-    strong: "bg-emerald-100 text-emerald-700",
-    medium: "bg-amber-100 text-amber-700",
-    weak: "bg-muted text-neutral-600",
-  };
-
-  const primaryArchetype = sortedArchetypes[0];
-  const secondaryArchetype = sortedArchetypes[1];
-  const archetypeRows = sortedArchetypes.slice(0, 4);
-  const neutralStatPillClass =
-    "rounded-full px-2 py-0.5 text-[10px] font-medium bg-muted/40 text-muted-foreground border border-muted/60";
-
-  const getArchetypeShare = (count: number) =>
-    rpsBaseline.totalDecisions > 0 ? ((count / rpsBaseline.totalDecisions) * 100).toFixed(1) : "0.0";
-
-  const systemDirectiveCopy = [
-    "This decision system is operating with stable footing and low overall pressure, favoring repeatable execution over high-variance bets.",
-    "The one thing the dataset must protect right now is Stability — improve results by increasing Impact selectively, without adding stress that weakens the base.",
-    "Most upside will come from concentration, not acceleration.",
-  ];
-
-  return (
-    <div className="report-page space-y-6">
-      <div
-        className="report-print-page mx-auto max-w-6xl space-y-5 rounded-2xl border border-black/10 bg-white p-6 text-black shadow-none print:max-w-none print:border-none print:bg-white"
-        style={{ colorScheme: "light" }}
-      >
-        <header className="flex flex-col gap-2 border-b border-black/10 pb-4 sm:flex-row sm:items-baseline sm:justify-between">
-          <div>
-            <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">D-NAV Executive Readout</p>
-            <h1 className="text-xl font-semibold tracking-tight">
-              {companyName} · Decision Orbit {periodLabel}
-            </h1>
-            <p className="text-[13px] leading-[1.45] text-neutral-900">
-              System-level RPS profile across {rpsBaseline.totalDecisions} logged decisions
-            </p>
-          </div>
-          <div className="text-[13px] leading-[1.45] text-neutral-900 sm:text-right">
-            <p className="font-semibold text-neutral-900">R · P · S baseline · Learning · Terrain · Archetypes</p>
-            <p>Executive decision intelligence view</p>
-          </div>
-        </header>
-
-        <section className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1.1fr)] print:grid-cols-[minmax(0,2fr)_minmax(0,1.1fr)]">
-          <div className="report-card rounded-2xl border border-black/10 bg-white p-5">
-            <div className="space-y-2">
-              <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">Executive Overview</p>
-              <h2 className="text-lg font-semibold tracking-tight text-neutral-900">
-                {companyName} · Decision Orbit {periodLabel}
-              </h2>
-              <p className="text-[13px] leading-[1.45] text-neutral-900">
-                System-level RPS profile across {rpsBaseline.totalDecisions} logged decisions
-              </p>
-            </div>
-
-            <div className="mt-4 space-y-3 text-[13px] leading-[1.45] text-neutral-900">
-              <div className="space-y-1">
-                <h3 className="text-[13px] font-semibold text-neutral-900">RPS Baseline — Calm, repeatable execution</h3>
-                <p>{interpretation.rpsSummary}</p>
-              </div>
-              <div className="space-y-1">
-                <h3 className="text-[13px] font-semibold text-neutral-900">
-                  Category Profile — Where judgment actually lives
-                </h3>
-                <p>{interpretation.categorySummary}</p>
-              </div>
-              <div className="space-y-1">
-                <h3 className="text-[13px] font-semibold text-neutral-900">
-                  Archetype Profile — Behavioral fingerprint
-                </h3>
-                <p>{interpretation.archetypeSummary}</p>
-              </div>
-              <div className="space-y-1">
-                <h3 className="text-[13px] font-semibold text-neutral-900">
-                  Learning &amp; Recovery — Decision debt &amp; correction
-                </h3>
-                <p>{interpretation.learningSummary}</p>
-              </div>
-            </div>
-
-          </div>
-
-          <div className="space-y-4">
-            <div className="report-card rounded-2xl border border-black/10 bg-white p-4">
-              <div className="flex flex-wrap items-start justify-between gap-2">
-                <div>
-                  <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
-                    Key Metrics Snapshot
-                  </p>
-                  <p className="text-[11px] text-neutral-900">Period: {periodLabel}</p>
-                </div>
-                <span className="text-[11px] text-neutral-900">R · P · S averages</span>
-              </div>
-              <div className="mt-3 grid grid-cols-2 gap-3 text-[13px] leading-[1.45]">
-                <div>
-                  <p className="text-[11px] uppercase text-neutral-900">Average D-NAV</p>
-                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgDnav.toFixed(1)}</p>
-                  <p className="text-[11px] leading-[1.45] text-neutral-900">
-                    Average judgment quality in this window after cost.
-                  </p>
-                </div>
-                <div>
-                  <p className="text-[11px] uppercase text-neutral-900">Avg Return (R)</p>
-                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgReturn.toFixed(1)}</p>
-                  <p className="text-[11px] leading-[1.45] text-neutral-900">Net value creation per decision.</p>
-                </div>
-                <div>
-                  <p className="text-[11px] uppercase text-neutral-900">Avg Pressure (P)</p>
-                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgPressure.toFixed(1)}</p>
-                  <p className="text-[11px] leading-[1.45] text-neutral-900">Execution stress posture.</p>
-                </div>
-                <div>
-                  <p className="text-[11px] uppercase text-neutral-900">Avg Stability (S)</p>
-                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgStability.toFixed(1)}</p>
-                  <p className="text-[11px] leading-[1.45] text-neutral-900">
-                    How safe decisions leave the system.
-                  </p>
-                </div>
-                <div>
-                  <p className="text-[11px] uppercase text-neutral-900">Learning Curve Index</p>
-                  <p className="text-base font-semibold text-neutral-900">{learningStats.lci.toFixed(1)}</p>
-                  <p className="text-[11px] leading-[1.45] text-neutral-900">Recovery efficiency after dips.</p>
-                </div>
-              </div>
-            </div>
-
-            <div className="report-card rounded-2xl border border-black/10 bg-white p-4">
-              <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
-                Distributions (Return / Pressure / Stability)
-              </p>
-              <div className="mt-3 space-y-3 text-[13px] leading-[1.45]">
-                <MetricDistribution
-                  metricLabel="Return"
-                  segments={[
-                    { label: "Positive", value: returnDistribution.positive, colorClass: "bg-emerald-500" },
-                    { label: "Neutral", value: returnDistribution.neutral, colorClass: "bg-muted" },
-                    { label: "Negative", value: returnDistribution.negative, colorClass: "bg-rose-500" },
-                  ]}
-                />
-                <MetricDistribution
-                  metricLabel="Pressure"
-                  segments={[
-                    { label: "Pressured", value: pressureDistribution.positive, colorClass: "bg-amber-500" },
-                    { label: "Neutral", value: pressureDistribution.neutral, colorClass: "bg-muted" },
-                    { label: "Calm", value: pressureDistribution.negative, colorClass: "bg-sky-500" },
-                  ]}
-                />
-                <MetricDistribution
-                  metricLabel="Stability"
-                  segments={[
-                    { label: "Stable", value: stabilityDistribution.positive, colorClass: "bg-emerald-600" },
-                    { label: "Neutral", value: stabilityDistribution.neutral, colorClass: "bg-muted" },
-                    { label: "Fragile", value: stabilityDistribution.negative, colorClass: "bg-rose-500" },
-                  ]}
-                />
-              </div>
-            </div>
-          </div>
-        </section>
-
-        <section className="report-card rounded-2xl border border-black/10 bg-white p-5">
-          <Callout label="SYSTEM DIRECTIVE" className="mb-4">
-            <div className="space-y-2">
-              {systemDirectiveCopy.map((paragraph) => (
-                <p key={paragraph}>{paragraph}</p>
-              ))}
-            </div>
-            <p className="mt-2 text-[11px] text-neutral-600">
-              Apply this by logging new decisions in the categories below.
-            </p>
-          </Callout>
-          <div className="flex items-start justify-between gap-2">
-            <div className="space-y-0.5">
-              <h3 className="text-[16px] font-bold text-neutral-900">
-                DECISION TERRAIN — TOP JUDGMENT ARENAS
-              </h3>
-              <p className="text-[10px] text-neutral-400">Where judgment volume concentrates</p>
-            </div>
-            <span className="text-[11px] text-neutral-900">Top 3 categories</span>
-          </div>
-          <div className="mt-4 space-y-4">
-            {topCategories.map((category) => (
-              <div key={category.name} className="rounded-2xl border border-black/10 bg-white p-3">
-                <div className="space-y-3">
-                  <div className="flex flex-wrap items-start gap-3">
-                    <div className="flex flex-wrap items-center gap-2 text-[13px] font-semibold">
-                      <span>{category.name}</span>
-                      <span className="text-[11px] text-neutral-900">{category.decisionCount} decisions</span>
-                    </div>
-                    <div className="ml-auto flex flex-wrap items-center justify-end gap-2">
-                      <Badge variant="secondary" className={neutralStatPillClass}>
-                        Volume: {formatPct(category.share)}
-                      </Badge>
-                      <Badge variant="secondary" className={neutralStatPillClass}>
-                        Avg D-NAV: {category.avgDnav.toFixed(1)}
-                      </Badge>
-                      <Badge variant="secondary" className={neutralStatPillClass}>
-                        R / P / S: {category.avgR.toFixed(1)} / {category.avgP.toFixed(1)} / {category.avgS.toFixed(1)}
-                      </Badge>
-                      <Badge variant="secondary" className={neutralStatPillClass}>
-                        Dominant: {category.dominantFactor ?? "Balanced"}
-                      </Badge>
-                    </div>
-                  </div>
-
-                  <div className="dnav-dark-glass-surface dnav-insight-callout rounded-2xl border border-orange-100 border-l-4 border-l-orange-500 bg-orange-50/70 px-4 py-3">
-                    <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-wide text-neutral-600 dark:text-muted-foreground">
-                      <span>Category Action Insight</span>
-                      <Badge
-                        variant="secondary"
-                        className={cn("text-[10px] font-semibold", signalToneStyles[category.insight.signalStrength])}
-                      >
-                        {category.insight.signalStrength === "strong"
-                          ? "Strong signal"
-                          : category.insight.signalStrength === "medium"
-                            ? "Medium signal"
-                            : "Weak signal"}
-                      </Badge>
-                    </div>
-                    <p className="mt-1 text-[13px] leading-[1.45] text-neutral-900 dark:text-foreground">
-                      {category.insight.insightText}
-                    </p>
-                    {category.insight.logMoreHint && (
-                      <p className="mt-2 text-[11px] text-neutral-600 dark:text-muted-foreground">
-                        {category.insight.logMoreHint}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <section className="report-card report-archetypes rounded-2xl border border-black/10 bg-white p-5">
-          <div className="space-y-1">
-            <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
-              Archetype Fingerprint — {periodLabel}
-            </p>
-            <p className="text-[13px] leading-[1.45] text-neutral-900">
-              <span className="inline-flex flex-wrap items-center gap-2">
-                <span>Primary:</span>
-                <span className="inline-flex flex-wrap items-center gap-2">
-                  <span>{primaryArchetype?.archetype ?? "N/A"}</span>
-                  {primaryArchetype && <ArchetypeRpsChips archetype={primaryArchetype.archetype} />}
-                </span>
-                <span>· Secondary:</span>
-                <span className="inline-flex flex-wrap items-center gap-2">
-                  <span>{secondaryArchetype?.archetype ?? "N/A"}</span>
-                  {secondaryArchetype && <ArchetypeRpsChips archetype={secondaryArchetype.archetype} />}
-                </span>
-              </span>
-            </p>
-          </div>
-
-          <div className="mt-4 overflow-hidden rounded-2xl border border-black/10">
-            <table className="w-full text-[13px] leading-[1.45]">
-              <thead className="bg-black/[0.04] text-[11px] uppercase tracking-wide text-neutral-900">
-                <tr>
-                  <th className="px-3 py-2 text-left font-semibold">Archetype</th>
-                  <th className="px-3 py-2 text-right font-semibold">Decisions</th>
-                  <th className="px-3 py-2 text-right font-semibold">Share</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-black/10 bg-white">
-                {archetypeRows.map((entry) => (
-                  <tr key={entry.archetype}>
-                    <td className="px-3 py-2 font-medium text-neutral-900">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span>{entry.archetype}</span>
-                        <ArchetypeRpsChips archetype={entry.archetype} />
-                      </div>
-                    </td>
-                    <td className="px-3 py-2 text-right text-neutral-900">{entry.count}</td>
-                    <td className="px-3 py-2 text-right text-neutral-900">{getArchetypeShare(entry.count)}%</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </section>
-      </div>
-    </div>
-  );
-}
-
 export default function ReportsPage() {
   return (
     <Suspense fallback={<div>Loading reports…</div>}>
@@ -1,5 +1,6 @@
 "use client";
 
+import { useDataset } from "@/components/DatasetProvider";
 import StressTestCalculator, {
   StressTestCalculatorHandle,
   type StressTestDecisionSnapshot,
@@ -10,14 +11,29 @@ import { AccentSliver } from "@/components/ui/AccentSliver";
 import { Callout } from "@/components/ui/Callout";
 import { MetricDistribution, type MetricDistributionSegment } from "@/components/reports/MetricDistribution";
 import { getSessionActionInsight } from "@/lib/sessionActionInsight";
+import { loadStressTestHistory, saveStressTestHistory, STRESS_TEST_SESSION_KEY } from "@/lib/storage";
+import { DecisionHistoryDialog } from "@/components/history/DecisionHistoryDialog";
+import { getIdentityDisplayName, useIdentity } from "@/hooks/use-identity";
+import {
+  appendHistoryEvents,
+  buildHistoryEvents,
+  EMPTY_DECISION_HISTORY,
+  getHistoryStart,
+  getRecordTimeline,
+  getSessionDecisionKey,
+  revertRecord,
+  SESSION_DECISION_DERIVED_FIELDS,
+  SESSION_HISTORY_SCOPE,
+  type DecisionHistoryLog,
+} from "@/lib/decisionHistory";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Input } from "@/components/ui/input";
 import PdfDecisionIntake, { type PdfDecisionIntakeHandle } from "@/components/decision-intake/PdfDecisionIntake";
 import { DECISION_CATEGORIES, type DecisionCandidate, type DecisionCategory } from "@/lib/intake/decisionExtractLocal";
-import { computeRpsDnav } from "@/lib/intake/decisionMetrics";
 import {
   buildSessionDecisionFromCandidate,
+  getSessionMetrics,
   getCandidateIdFromSessionDecision,
   syncSessionDecisionsFromCandidate,
   type SessionDecision,
@@ -25,8 +41,6 @@ import {
 import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-const SESSION_DECISIONS_KEY = "dnav:stressTest:sessionDecisions";
-
 const INPUT_BASE_CLASSNAME =
   "file:text-foreground placeholder:text-muted-foreground selection:bg-primary selection:text-primary-foreground dark:bg-input/30 border-input h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none file:inline-flex file:h-7 file:border-0 file:bg-transparent file:text-sm file:font-medium disabled:pointer-events-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive";
 
@@ -53,7 +67,7 @@ export default function StressTestPage() {
   const [sessionDecisions, setSessionDecisions] = useState<SessionDecision[]>(() => {
     if (typeof window === "undefined") return [];
     try {
-      const stored = window.sessionStorage.getItem(SESSION_DECISIONS_KEY);
+      const stored = window.sessionStorage.getItem(STRESS_TEST_SESSION_KEY);
       const parsed = stored ? JSON.parse(stored) : null;
       return Array.isArray(parsed) ? parsed.filter(isSessionDecisionSnapshot) : [];
     } catch (error) {
@@ -61,6 +75,13 @@ export default function StressTestPage() {
       return [];
     }
   });
+  const [sessionHistory, setSessionHistory] = useState<DecisionHistoryLog>(() => loadStressTestHistory());
+  const [historyDecisionId, setHistoryDecisionId] = useState<string | null>(null);
+  const previousSessionDecisionsRef = useRef(sessionDecisions);
+  const pendingRevertRef = useRef<number | undefined>(undefined);
+  const { currentUser } = useIdentity();
+  const { scoringProfile } = useDataset();
+  const historyActor = getIdentityDisplayName(currentUser);
   const calculatorRef = useRef<StressTestCalculatorHandle>(null);
   const intakeRef = useRef<PdfDecisionIntakeHandle>(null);
   const [isSessionAnalysisOpen, setIsSessionAnalysisOpen] = useState(false);
@@ -89,15 +110,59 @@ export default function StressTestPage() {
     if (typeof window === "undefined") return;
     try {
       if (sessionDecisions.length === 0) {
-        window.sessionStorage.removeItem(SESSION_DECISIONS_KEY);
+        window.sessionStorage.removeItem(STRESS_TEST_SESSION_KEY);
       } else {
-        window.sessionStorage.setItem(SESSION_DECISIONS_KEY, JSON.stringify(sessionDecisions));
+        window.sessionStorage.setItem(STRESS_TEST_SESSION_KEY, JSON.stringify(sessionDecisions));
       }
     } catch (error) {
       console.error("Failed to persist stress test session decisions.", error);
     }
   }, [sessionDecisions]);
 
+  // Every path that changes the session goes through setSessionDecisions, so history is diffed here once.
+  useEffect(() => {
+    const previous = previousSessionDecisionsRef.current;
+    previousSessionDecisionsRef.current = sessionDecisions;
+    if (previous === sessionDecisions) return;
+    const revertedTo = pendingRevertRef.current;
+    pendingRevertRef.current = undefined;
+    const events = buildHistoryEvents(previous, sessionDecisions, {
+      scope: SESSION_HISTORY_SCOPE,
+      at: Date.now(),
+      actor: historyActor,
+      getKey: getSessionDecisionKey,
+      getLabel: (decision) => decision.decisionTitle,
+      ignoreFields: SESSION_DECISION_DERIVED_FIELDS,
+      revertedTo,
+    });
+    if (events.length) setSessionHistory((prev) => appendHistoryEvents(prev, events));
+  }, [historyActor, sessionDecisions]);
+
+  useEffect(() => {
+    saveStressTestHistory(sessionHistory);
+  }, [sessionHistory]);
+
+  const handleRevertSessionDecision = useCallback(
+    (recordKey: string, asOf: number) => {
+      pendingRevertRef.current = asOf;
+      setSessionDecisions((prev) =>
+        revertRecord(prev, sessionHistory.events, {
+          scope: SESSION_HISTORY_SCOPE,
+          asOf,
+          getKey: getSessionDecisionKey,
+          recordKey,
+        }).map((decision) => {
+          if (getSessionDecisionKey(decision) !== recordKey) return decision;
+          return { ...decision, ...getSessionMetrics(decision, scoringProfile) };
+        }),
+      );
+      setEditingDecision(null);
+      setEditDraft(null);
+      setHistoryDecisionId(null);
+    },
+    [scoringProfile, sessionHistory],
+  );
+
   const handleSaveSessionDecision = useCallback((decision: StressTestDecisionSnapshot) => {
     const title = decision.name?.trim() || "Untitled decision";
     const sessionDecision: SessionDecision = {
@@ -314,10 +379,11 @@ export default function StressTestPage() {
     if (typeof window === "undefined") return;
     if (!window.confirm("Clear saved session decisions?")) return;
     setSessionDecisions([]);
+    setSessionHistory(EMPTY_DECISION_HISTORY);
     setIsSessionAnalysisOpen(false);
     calculatorRef.current?.resetSavedState();
     try {
-      window.sessionStorage.removeItem(SESSION_DECISIONS_KEY);
+      window.sessionStorage.removeItem(STRESS_TEST_SESSION_KEY);
     } catch (error) {
       console.error("Failed to clear stress test session decisions.", error);
     }
@@ -391,11 +457,11 @@ export default function StressTestPage() {
           nextTotal = prev.length;
           return prev.map((decision) =>
             decision.id === decisionId
-              ? buildSessionDecisionFromCandidate(candidate, sourceFileName, decision)
+              ? buildSessionDecisionFromCandidate(candidate, sourceFileName, decision, scoringProfile)
               : decision,
           );
         }
-        const sessionDecision = buildSessionDecisionFromCandidate(candidate, sourceFileName);
+        const sessionDecision = buildSessionDecisionFromCandidate(candidate, sourceFileName, undefined, scoringProfile);
         added = true;
         nextTotal = prev.length + 1;
         return [sessionDecision, ...prev];
@@ -408,7 +474,7 @@ export default function StressTestPage() {
         });
       }
     },
-    [scrollToDecision],
+    [scoringProfile, scrollToDecision],
   );
 
   const handleAddMultiple = useCallback(
@@ -424,7 +490,7 @@ export default function StressTestPage() {
         candidates.forEach((candidate) => {
           const id = `extract-${candidate.id}`;
           const existing = prev.find((decision) => decision.id === id);
-          const nextDecision = buildSessionDecisionFromCandidate(candidate, sourceFileName, existing);
+          const nextDecision = buildSessionDecisionFromCandidate(candidate, sourceFileName, existing, scoringProfile);
           if (existingIds.has(nextDecision.id)) {
             updates.push(nextDecision);
           } else {
@@ -448,12 +514,12 @@ export default function StressTestPage() {
         });
       }
     },
-    [scrollToDecision],
+    [scoringProfile, scrollToDecision],
   );
 
   const handleCandidateUpdate = useCallback((candidate: DecisionCandidate) => {
-    setSessionDecisions((prev) => syncSessionDecisionsFromCandidate(prev, candidate));
-  }, []);
+    setSessionDecisions((prev) => syncSessionDecisionsFromCandidate(prev, candidate, undefined, scoringProfile));
+  }, [scoringProfile]);
 
   const handleOpenEditDialog = useCallback((decision: SessionDecision) => {
     setEditingDecision(decision);
@@ -471,13 +537,16 @@ export default function StressTestPage() {
 
   const handleSaveEdit = useCallback(() => {
     if (!editDraft) return;
-    const metrics = computeRpsDnav({
-      impact: editDraft.impact,
-      cost: editDraft.cost,
-      risk: editDraft.risk,
-      urgency: editDraft.urgency,
-      confidence: editDraft.confidence,
-    });
+    const metrics = getSessionMetrics(
+      {
+        impact: editDraft.impact,
+        cost: editDraft.cost,
+        risk: editDraft.risk,
+        urgency: editDraft.urgency,
+        confidence: editDraft.confidence,
+      },
+      scoringProfile,
+    );
     setSessionDecisions((prev) =>
       prev.map((decision) =>
         decision.id === editDraft.id
@@ -517,7 +586,7 @@ export default function StressTestPage() {
     }
     setEditingDecision(null);
     setEditDraft(null);
-  }, [editDraft, editingDecision]);
+  }, [editDraft, editingDecision, scoringProfile]);
 
   return (
     <TooltipProvider>
@@ -541,6 +610,9 @@ export default function StressTestPage() {
                     >
                       Definitions
                     </Button>
+                    <Button asChild size="sm" variant="outline" className="font-semibold">
+                      <Link href="/stress-test/review">Facilitated review</Link>
+                    </Button>
                   </div>
                 </div>
               </div>
@@ -927,6 +999,13 @@ export default function StressTestPage() {
                   </div>
                 ) : null}
                 <DialogFooter className="gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setHistoryDecisionId(editingDecision?.id ?? null)}
+                  >
+                    History
+                  </Button>
                   <Button
                     type="button"
                     variant="ghost"
@@ -944,6 +1023,18 @@ export default function StressTestPage() {
               </DialogContent>
             </Dialog>
 
+            <DecisionHistoryDialog
+              open={Boolean(historyDecisionId)}
+              title="Decision history"
+              description="Edits made to this decision during the session."
+              events={
+                historyDecisionId ? getRecordTimeline(sessionHistory.events, SESSION_HISTORY_SCOPE, historyDecisionId) : []
+              }
+              historyStart={getHistoryStart(sessionHistory, SESSION_HISTORY_SCOPE)}
+              onClose={() => setHistoryDecisionId(null)}
+              onRevert={handleRevertSessionDecision}
+            />
+
           </div>
         </section>
       </main>
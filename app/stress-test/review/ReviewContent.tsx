@@ -0,0 +1,335 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+import { useDataset } from "@/components/DatasetProvider";
+import SliderRow from "@/components/SliderRow";
+import { ReviewResults } from "@/components/review/ReviewResults";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Callout } from "@/components/ui/Callout";
+import { GlassCard } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useIdentity } from "@/hooks/use-identity";
+import { useReviewSession } from "@/hooks/useReviewSession";
+import type { DecisionEntry } from "@/lib/calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { RESCORE_VARIABLES } from "@/lib/rescore";
+import {
+  createRemoteReviewSession,
+  joinRemoteReviewSession,
+  setRemoteReviewStatus,
+  submitRemoteReviewScore,
+} from "@/lib/reviewSessionApi";
+import { MIN_SCORES_TO_REVEAL, type ReviewSessionView } from "@/lib/reviewSessions";
+
+const LABEL_CLASSNAME = "text-[11px] font-semibold uppercase tracking-wide text-muted-foreground";
+
+const DEFAULT_SCORE: DecisionVars = { impact: 5, cost: 5, risk: 5, urgency: 5, confidence: 5 };
+
+function OpenSessionForm({ onOpened }: { onOpened: (session: ReviewSessionView) => void }) {
+  const { isLoggedIn, openLogin } = useIdentity();
+  const [draft, setDraft] = useState({ title: "", detail: "", category: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isLoggedIn) {
+    return (
+      <Callout label="Facilitators sign in">
+        <p className="mb-2">Sign in to open a review session. Participants join from the link without an account.</p>
+        <Button type="button" size="sm" onClick={openLogin}>
+          Sign in
+        </Button>
+      </Callout>
+    );
+  }
+
+  const handleOpen = async () => {
+    try {
+      onOpened(await createRemoteReviewSession(draft));
+    } catch (openError) {
+      console.error(openError);
+      setError("Unable to open the session.");
+    }
+  };
+
+  return (
+    <GlassCard className="space-y-3 p-5 text-sm">
+      <p className={LABEL_CLASSNAME}>Decision under review</p>
+      <Input
+        value={draft.title}
+        placeholder="What is being decided?"
+        onChange={(event) => setDraft((prev) => ({ ...prev, title: event.target.value }))}
+      />
+      <Textarea
+        rows={3}
+        value={draft.detail}
+        placeholder="Context every participant should read before scoring"
+        onChange={(event) => setDraft((prev) => ({ ...prev, detail: event.target.value }))}
+      />
+      <Input
+        value={draft.category}
+        placeholder="Category (optional)"
+        onChange={(event) => setDraft((prev) => ({ ...prev, category: event.target.value }))}
+        className="max-w-xs"
+      />
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+      <Button type="button" onClick={handleOpen} disabled={!draft.title.trim()}>
+        Open session
+      </Button>
+    </GlassCard>
+  );
+}
+
+// Remounted per revision of the participant's own score so the sliders start from what they last submitted.
+function ScorePanel({
+  session,
+  participantId,
+  onSubmitted,
+}: {
+  session: ReviewSessionView;
+  participantId: string;
+  onSubmitted: (session: ReviewSessionView) => void;
+}) {
+  const [draft, setDraft] = useState<DecisionVars>(() => {
+    const own = session.ownScore;
+    return own
+      ? { impact: own.impact, cost: own.cost, risk: own.risk, urgency: own.urgency, confidence: own.confidence }
+      : DEFAULT_SCORE;
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    try {
+      onSubmitted(await submitRemoteReviewScore(session.id, participantId, draft));
+      setError(null);
+    } catch (submitError) {
+      console.error(submitError);
+      setError("Unable to submit your score.");
+    }
+  };
+
+  return (
+    <GlassCard className="space-y-2 p-5 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className={LABEL_CLASSNAME}>Your score</p>
+        {session.ownScore ? <Badge variant="secondary">Submitted</Badge> : null}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Nobody sees individual scores until the facilitator reveals them. You can resubmit until then.
+      </p>
+      {RESCORE_VARIABLES.map((field) => (
+        <SliderRow
+          key={field.key}
+          id={`review-${field.key}`}
+          label={field.label}
+          value={draft[field.key]}
+          onChange={(value) => setDraft((prev) => ({ ...prev, [field.key]: value }))}
+          compact
+        />
+      ))}
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+      <Button type="button" onClick={handleSubmit}>
+        {session.ownScore ? "Update score" : "Submit score"}
+      </Button>
+    </GlassCard>
+  );
+}
+
+function JoinPanel({ sessionId, onJoined }: { sessionId: string; onJoined: (session: ReviewSessionView) => void }) {
+  const { currentUser } = useIdentity();
+  const [name, setName] = useState(() => currentUser?.user_metadata?.full_name ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    try {
+      onJoined(await joinRemoteReviewSession(sessionId, name));
+    } catch (joinError) {
+      console.error(joinError);
+      setError("Unable to join the session.");
+    }
+  };
+
+  return (
+    <GlassCard className="flex flex-wrap items-center gap-2 p-5 text-sm">
+      <Input value={name} placeholder="Your name" onChange={(event) => setName(event.target.value)} className="max-w-xs" />
+      <Button type="button" onClick={handleJoin}>
+        Join and score
+      </Button>
+      {error ? <p className="w-full text-xs text-destructive">{error}</p> : null}
+    </GlassCard>
+  );
+}
+
+// Revealed sessions land in the active dataset as one decision scored at the consensus, keeping every rater's sliders.
+function LogToDatasetButton({ session }: { session: ReviewSessionView }) {
+  const { activeDataset, scoringProfile, setDecisions } = useDataset();
+  const [loggedRevision, setLoggedRevision] = useState<number | null>(null);
+  const analysis = session.analysis;
+  if (!analysis || !activeDataset) return null;
+
+  const handleLog = () => {
+    const entryId = `review-${session.id}`;
+    const now = Date.now();
+    const vars: DecisionVars = {
+      impact: Math.round(analysis.consensus.impact),
+      cost: Math.round(analysis.consensus.cost),
+      risk: Math.round(analysis.consensus.risk),
+      urgency: Math.round(analysis.consensus.urgency),
+      confidence: Math.round(analysis.consensus.confidence),
+    };
+    const entry: DecisionEntry = {
+      ts: now,
+      id: entryId,
+      name: session.title,
+      category: session.category,
+      ...vars,
+      ...computeMetrics(vars, scoringProfile),
+      ratings: analysis.participants.map((participant) => ({
+        rater: participant.name,
+        raterId: participant.raterId,
+        ratedAt: participant.submittedAt,
+        impact: participant.impact,
+        cost: participant.cost,
+        risk: participant.risk,
+        urgency: participant.urgency,
+        confidence: participant.confidence,
+      })),
+    };
+    setDecisions((prev) => [entry, ...prev.filter((decision) => decision.id !== entryId)]);
+    setLoggedRevision(session.revision);
+  };
+
+  return (
+    <Button type="button" size="sm" variant="outline" onClick={handleLog}>
+      {loggedRevision === session.revision ? `Logged to ${activeDataset.label}` : "Log to dataset"}
+    </Button>
+  );
+}
+
+export default function ReviewContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const sessionId = searchParams.get("session");
+  const { session, participantId, error, applySession, handleJoined } = useReviewSession(sessionId);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const submittedCount = session?.participants.filter((participant) => participant.submitted).length ?? 0;
+
+  const handleStatus = async (status: "scoring" | "revealed") => {
+    if (!session) return;
+    try {
+      applySession(await setRemoteReviewStatus(session.id, participantId, status));
+      setActionError(null);
+    } catch (statusError) {
+      console.error(statusError);
+      setActionError(
+        status === "revealed"
+          ? `At least ${MIN_SCORES_TO_REVEAL} participants need to score before reveal.`
+          : "Unable to reopen scoring.",
+      );
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      console.error(copyError);
+    }
+  };
+
+  return (
+    <main className="mx-auto grid max-w-4xl grid-cols-1 gap-4 p-4">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold">Facilitated review</h1>
+        <p className="text-sm text-muted-foreground">
+          Everyone scores the same decision on their own. The facilitator reveals the spread once the room has scored.
+        </p>
+      </div>
+
+      {!sessionId ? (
+        <OpenSessionForm onOpened={(opened) => router.push(`/stress-test/review?session=${opened.id}`)} />
+      ) : !session ? (
+        <p className="text-sm text-muted-foreground">{error ?? "Connecting to the session…"}</p>
+      ) : (
+        <>
+          <GlassCard className="space-y-3 p-5 text-sm">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1">
+                <p className="text-lg font-semibold text-foreground">{session.title}</p>
+                {session.category ? <Badge variant="outline">{session.category}</Badge> : null}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={session.status === "revealed" ? "default" : "secondary"}>
+                  {session.status === "revealed" ? "Revealed" : "Scoring"}
+                </Badge>
+                <Button type="button" variant="outline" size="sm" onClick={handleCopyLink}>
+                  {copied ? "Link copied" : "Copy invite link"}
+                </Button>
+              </div>
+            </div>
+            {session.detail ? <p className="whitespace-pre-wrap text-muted-foreground">{session.detail}</p> : null}
+            <div className="flex flex-wrap gap-2">
+              {session.participants.map((participant, index) => (
+                <Badge key={`${participant.name}-${index}`} variant={participant.submitted ? "secondary" : "outline"}>
+                  {participant.name}
+                  {participant.isYou ? " (you)" : ""}
+                  {participant.submitted ? " ✓" : ""}
+                </Badge>
+              ))}
+              {session.participants.length === 0 ? (
+                <span className="text-xs text-muted-foreground">Waiting for participants to join.</span>
+              ) : null}
+            </div>
+            {session.isFacilitator ? (
+              <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+                <span className="text-xs text-muted-foreground">
+                  {submittedCount} of {session.participants.length} scored
+                </span>
+                {session.status === "scoring" ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={submittedCount < MIN_SCORES_TO_REVEAL}
+                    onClick={() => handleStatus("revealed")}
+                  >
+                    Reveal scores
+                  </Button>
+                ) : (
+                  <>
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleStatus("scoring")}>
+                      Reopen scoring
+                    </Button>
+                    <LogToDatasetButton session={session} />
+                  </>
+                )}
+              </div>
+            ) : null}
+            {actionError || error ? <p className="text-xs text-destructive">{actionError ?? error}</p> : null}
+          </GlassCard>
+
+          {session.status === "scoring" ? (
+            participantId ? (
+              <ScorePanel
+                key={`${session.id}:${session.ownScore?.submittedAt ?? "new"}`}
+                session={session}
+                participantId={participantId}
+                onSubmitted={applySession}
+              />
+            ) : (
+              <JoinPanel sessionId={session.id} onJoined={handleJoined} />
+            )
+          ) : session.analysis ? (
+            <ReviewResults analysis={session.analysis} />
+          ) : null}
+        </>
+      )}
+    </main>
+  );
+}
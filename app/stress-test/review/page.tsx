@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+
+import ReviewContent from "./ReviewContent";
+
+export default function ReviewSessionPage() {
+  return (
+    <Suspense fallback={<div style={{ padding: 16 }}>Loading…</div>}>
+      <ReviewContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { useDataset } from "@/components/DatasetProvider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Callout } from "@/components/ui/Callout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useIdentity } from "@/hooks/use-identity";
+import { updateRemoteDataset } from "@/lib/datasetApi";
+import { getDatasetDisplayName } from "@/lib/datasetDisplay";
+import { DATASET_SYNC } from "@/lib/flags";
+import { createRemoteWorkspace, fetchWorkspaces, updateRemoteWorkspace, type WorkspaceWithRole } from "@/lib/workspaceApi";
+import {
+  hasPermission,
+  WORKSPACE_ROLE_LABELS,
+  WORKSPACE_ROLES,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "@/lib/workspaces";
+
+const UNASSIGNED = "__none__";
+
+function RoleSelect({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: WorkspaceRole;
+  disabled?: boolean;
+  onChange: (role: WorkspaceRole) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as WorkspaceRole)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-36 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORKSPACE_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {WORKSPACE_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Member edits stay local until saved so an admin can restructure roles without tripping the last-admin guard midway.
+function WorkspaceCard({
+  workspace,
+  onSave,
+}: {
+  workspace: WorkspaceWithRole;
+  onSave: (members: WorkspaceMember[]) => Promise<void>;
+}) {
+  const [members, setMembers] = useState(workspace.members);
+  const [newMember, setNewMember] = useState("");
+  const [saving, setSaving] = useState(false);
+  const canManage = hasPermission(workspace.role, "manage");
+  const isDirty = JSON.stringify(members) !== JSON.stringify(workspace.members);
+
+  const handleAdd = () => {
+    const userId = newMember.trim().toLowerCase();
+    if (!userId || members.some((member) => member.userId === userId)) return;
+    setMembers((prev) => [...prev, { userId, role: "viewer" }]);
+    setNewMember("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(members);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <CardTitle className="text-base">{workspace.name}</CardTitle>
+        <Badge variant="outline">{WORKSPACE_ROLE_LABELS[workspace.role]}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.userId} className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-foreground">{member.userId}</span>
+              <div className="flex items-center gap-2">
+                <RoleSelect
+                  value={member.role}
+                  disabled={!canManage}
+                  onChange={(role) =>
+                    setMembers((prev) => prev.map((item) => (item.userId === member.userId ? { ...item, role } : item)))
+                  }
+                />
+                {canManage ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setMembers((prev) => prev.filter((item) => item.userId !== member.userId))}
+                  >
+                    Remove
+                  </Button>
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {canManage ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="email"
+              value={newMember}
+              placeholder="teammate@example.com"
+              onChange={(event) => setNewMember(event.target.value)}
+              className="h-8 max-w-xs text-sm"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+              Add member
+            </Button>
+            <Button type="button" size="sm" disabled={!isDirty || saving} onClick={handleSave}>
+              Save members
+            </Button>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkspacesPage() {
+  const { isLoggedIn, openLogin } = useIdentity();
+  const { datasets } = useDataset();
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+
+  const loadWorkspaces = useCallback(() => {
+    fetchWorkspaces()
+      .then(setWorkspaces)
+      .catch((loadError) => {
+        console.error(loadError);
+        setError("Unable to load workspaces.");
+      });
+  }, []);
+
+  useEffect(() => {
+    if (DATASET_SYNC && isLoggedIn) loadWorkspaces();
+  }, [isLoggedIn, loadWorkspaces]);
+
+  const handleCreate = async () => {
+    try {
+      const workspace = await createRemoteWorkspace(workspaceName);
+      setWorkspaces((prev) => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+      setWorkspaceName("");
+      setError(null);
+    } catch (createError) {
+      console.error(createError);
+      setError("Unable to create the workspace.");
+    }
+  };
+
+  const handleSaveMembers = async (id: string, members: WorkspaceMember[]) => {
+    try {
+      const updated = await updateRemoteWorkspace(id, { members });
+      setWorkspaces((prev) => prev.map((workspace) => (workspace.id === id ? updated : workspace)));
+      setError(null);
+    } catch (saveError) {
+      console.error(saveError);
+      setError("Unable to save members. A workspace needs at least one admin.");
+    }
+  };
+
+  const handleAssign = async (datasetId: string, workspaceId: string) => {
+    try {
+      await updateRemoteDataset(datasetId, { workspaceId });
+      setAssignments((prev) => ({ ...prev, [datasetId]: workspaceId }));
+      setError(null);
+    } catch (assignError) {
+      console.error(assignError);
+      setError("Unable to move the dataset. You need admin rights on the dataset and the workspace.");
+    }
+  };
+
+  const manageableWorkspaces = workspaces.filter((workspace) => hasPermission(workspace.role, "manage"));
+
+  return (
+    <div className="mx-auto grid max-w-4xl grid-cols-1 gap-4">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold">Workspaces</h1>
+        <p className="text-sm text-muted-foreground">
+          Share datasets with your team. Viewers can read, contributors can log and edit decisions, facilitators can run
+          sessions, and admins manage members and dataset ownership.
+        </p>
+      </div>
+
+      {!DATASET_SYNC ? (
+        <Callout label="Server sync is off">
+          Workspaces need the shared dataset server. Set NEXT_PUBLIC_DATASET_SYNC=server to enable them.
+        </Callout>
+      ) : !isLoggedIn ? (
+        <Callout label="Sign in required">
+          <Button type="button" size="sm" onClick={openLogin}>
+            Sign in to manage workspaces
+          </Button>
+        </Callout>
+      ) : (
+        <>
+          {error ? (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={workspaceName}
+              placeholder="Workspace name"
+              onChange={(event) => setWorkspaceName(event.target.value)}
+              className="h-9 max-w-xs"
+            />
+            <Button type="button" onClick={handleCreate} disabled={!workspaceName.trim()}>
+              Create workspace
+            </Button>
+          </div>
+
+          {workspaces.map((workspace) => (
+            <WorkspaceCard
+              key={`${workspace.id}:${workspace.updatedAt}`}
+              workspace={workspace}
+              onSave={(members) => handleSaveMembers(workspace.id, members)}
+            />
+          ))}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Dataset ownership</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {datasets.map((dataset) => {
+                const workspaceId = assignments[dataset.id] ?? dataset.workspaceId;
+                return (
+                  <div key={dataset.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-foreground">{getDatasetDisplayName(dataset)}</span>
+                    <Select
+                      value={workspaceId ?? UNASSIGNED}
+                      onValueChange={(next) => (next !== UNASSIGNED ? handleAssign(dataset.id, next) : undefined)}
+                      disabled={manageableWorkspaces.length === 0}
+                    >
+                      <SelectTrigger className="h-8 w-56 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED} disabled>
+                          No workspace
+                        </SelectItem>
+                        {workspaces.map((workspace) => (
+                          <SelectItem
+                            key={workspace.id}
+                            value={workspace.id}
+                            disabled={!hasPermission(workspace.role, "manage")}
+                          >
+                            {workspace.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
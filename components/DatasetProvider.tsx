@@ -6,15 +6,56 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
   type ReactElement,
   type ReactNode,
   type SetStateAction,
 } from "react";
 
-import { computeMetrics, type DecisionEntry } from "@/lib/calculations";
+import { getIdentityDisplayName, useIdentity } from "@/hooks/use-identity";
+import { useDatasetSync, type DatasetSyncStatus } from "@/hooks/useDatasetSync";
+import {
+  acknowledgeAlert,
+  createEmptyAlertState,
+  deleteAlertRule,
+  evaluateAlertRules,
+  snoozeAlert,
+  upsertAlertRule,
+  type AlertCondition,
+  type DatasetAlertState,
+} from "@/lib/alerts";
+import { rescoreDecisions, type DecisionEntry } from "@/lib/calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import {
+  DECISION_ENTRY_DERIVED_FIELDS,
+  appendHistoryEvents,
+  buildHistoryEvents,
+  revertRecord,
+  type DecisionHistoryLog,
+} from "@/lib/decisionHistory";
+import { getDecisionKey, mergeHydratedDatasets } from "@/lib/datasetSync";
+import { DATASET_SYNC } from "@/lib/flags";
+import { DATASETS_SCHEMA_VERSION, migrateStoredDatasets, type MigrationReport } from "@/lib/migrations";
 import { getDatasetDisplayLabel } from "@/lib/reportDatasets";
-import { getEmptyDatasetMeta, type DatasetId, type DatasetMeta, type DatasetState } from "@/types/dataset";
+import { dispatchRemoteAlert } from "@/lib/webhookApi";
+import { getDatasetScoringProfile, isDefaultScoringProfile, type ScoringProfile } from "@/lib/scoringProfiles";
+import {
+  LOG_STORAGE_KEY,
+  loadAlertStates,
+  loadDecisionHistory,
+  loadLog,
+  saveAlertStates,
+  saveDecisionHistory,
+  saveMigrationBackup,
+} from "@/lib/storage";
+import { createDatasetId, getEmptyDatasetMeta, type DatasetId, type DatasetMeta, type DatasetState } from "@/types/dataset";
+
+// Writes are recorded in the decision history unless they only mirror data that already exists elsewhere.
+export interface DecisionWriteOptions {
+  track?: boolean;
+  revertedTo?: number;
+}
 
 interface DatasetContextValue {
   datasets: DatasetState[];
@@ -22,50 +63,82 @@ interface DatasetContextValue {
   activeDataset: DatasetState | null;
   setActiveDatasetId: (id: DatasetId | null) => void;
   meta: DatasetMeta;
+  scoringProfile: ScoringProfile;
   decisions: DecisionEntry[];
   setDecisions: (entries: SetStateAction<DecisionEntry[]>) => void;
-  setDecisionsForDataset: (id: DatasetId, entries: SetStateAction<DecisionEntry[]>) => void;
+  setDecisionsForDataset: (
+    id: DatasetId,
+    entries: SetStateAction<DecisionEntry[]>,
+    options?: DecisionWriteOptions,
+  ) => void;
+  decisionHistory: DecisionHistoryLog;
+  revertDecision: (id: DatasetId, recordKey: string, asOf: number) => void;
+  alertStates: Record<DatasetId, DatasetAlertState>;
+  saveAlertRule: (
+    id: DatasetId,
+    draft: { id: string; name: string; condition: AlertCondition; enabled: boolean },
+  ) => void;
+  removeAlertRule: (id: DatasetId, ruleId: string) => void;
+  acknowledgeAlertNotification: (id: DatasetId, notificationId: string) => void;
+  snoozeAlertNotification: (id: DatasetId, notificationId: string, durationMs: number) => void;
   addDataset: () => DatasetId;
   deleteDataset: (id: DatasetId) => void;
   setDatasetLabel: (id: DatasetId, label: string) => void;
   setDatasetMeta: (id: DatasetId, metaPatch: Partial<DatasetMeta>) => void;
   clearDatasetDecisions: (id: DatasetId) => void;
   clearAllDatasets: () => void;
+  replaceDatasets: (datasets: DatasetState[]) => void;
   getDatasetById: (id: DatasetId | null) => DatasetState | undefined;
   isDatasetLoading: boolean;
   loadError: string | null;
+  syncStatus: DatasetSyncStatus;
+  syncError: string | null;
+  dismissSyncError: () => void;
+  migrationReport: MigrationReport | null;
+  dismissMigrationReport: () => void;
 }
 
 interface StoredDatasetState {
+  schemaVersion?: number;
   datasets: DatasetState[];
   activeDatasetId: DatasetId | null;
 }
 
+interface LoadedDatasetState extends StoredDatasetState {
+  migrationReport: MigrationReport | null;
+}
+
 const STORAGE_KEY = "dnav_datasets_state_v2";
 
-const hydrateDecision = (decision: {
-  ts: number;
-  name: string;
-  category: string;
-  impact: number;
-  cost: number;
-  risk: number;
-  urgency: number;
-  confidence: number;
-}): DecisionEntry => {
-  const metrics = computeMetrics({
-    impact: decision.impact,
-    cost: decision.cost,
-    risk: decision.risk,
-    urgency: decision.urgency,
-    confidence: decision.confidence,
-  });
+const hydrateDecision = (
+  decision: {
+    ts: number;
+    name: string;
+    category: string;
+    impact: number;
+    cost: number;
+    risk: number;
+    urgency: number;
+    confidence: number;
+  },
+  profile: ScoringProfile,
+): DecisionEntry => {
+  const metrics = computeMetrics(
+    {
+      impact: decision.impact,
+      cost: decision.cost,
+      risk: decision.risk,
+      urgency: decision.urgency,
+      confidence: decision.confidence,
+    },
+    profile,
+  );
 
   return { ...decision, ...metrics };
 };
 
 const createInitialDataset = (): DatasetState => ({
-  id: "dataset-1",
+  id: createDatasetId(),
   label: "Dataset 1",
   meta: getEmptyDatasetMeta(),
   decisions: [],
@@ -75,33 +148,45 @@ function normalizeDatasets(raw: DatasetState[] | undefined): DatasetState[] {
   if (!raw || raw.length === 0) return [createInitialDataset()];
 
   return raw.map((dataset, index) => ({
-    id: dataset.id || `dataset-${index + 1}`,
+    id: dataset.id || createDatasetId(),
     label: dataset.label || getDatasetDisplayLabel(index),
     meta: { ...getEmptyDatasetMeta(), ...dataset.meta },
     decisions: dataset.decisions ?? [],
   }));
 }
 
-function loadStoredState(): StoredDatasetState {
+function loadStoredState(): LoadedDatasetState {
   if (typeof window === "undefined") {
     const initial = createInitialDataset();
-    return { datasets: [initial], activeDatasetId: initial.id };
+    return { datasets: [initial], activeDatasetId: initial.id, migrationReport: null };
   }
 
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
-      const parsed = JSON.parse(raw) as StoredDatasetState;
-      const datasets = normalizeDatasets(parsed.datasets);
-      const activeDatasetId = datasets.find((dataset) => dataset.id === parsed.activeDatasetId)?.id ?? datasets[0]?.id ?? null;
-      return { datasets, activeDatasetId };
+    const { state, report } = migrateStoredDatasets({
+      datasetsState: raw ? JSON.parse(raw) : null,
+      legacyLog: loadLog(),
+    });
+
+    if (report) {
+      saveMigrationBackup({
+        fromVersion: report.fromVersion,
+        backedUpAt: report.migratedAt,
+        payloads: { [STORAGE_KEY]: raw, [LOG_STORAGE_KEY]: localStorage.getItem(LOG_STORAGE_KEY) },
+      });
+    }
+
+    if (state) {
+      const datasets = normalizeDatasets(state.datasets);
+      const activeDatasetId = datasets.find((dataset) => dataset.id === state.activeDatasetId)?.id ?? datasets[0]?.id ?? null;
+      return { datasets, activeDatasetId, migrationReport: report };
     }
   } catch (error) {
     console.error("Failed to load dataset state", error);
   }
 
   const initial = createInitialDataset();
-  return { datasets: [initial], activeDatasetId: initial.id };
+  return { datasets: [initial], activeDatasetId: initial.id, migrationReport: null };
 }
 
 const DatasetContext = createContext<DatasetContextValue | undefined>(undefined);
@@ -112,10 +197,49 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
   const [activeDatasetId, setActiveDatasetId] = useState<DatasetId | null>(initialState.activeDatasetId);
   const [loadingMap, setLoadingMap] = useState<Record<DatasetId, boolean>>({});
   const [loadErrors, setLoadErrors] = useState<Record<DatasetId, string | null>>({});
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(initialState.migrationReport);
+  const [decisionHistory, setDecisionHistory] = useState<DecisionHistoryLog>(() => loadDecisionHistory());
+  const [alertStates, setAlertStates] = useState<Record<DatasetId, DatasetAlertState>>(() => loadAlertStates());
+  const { currentUser } = useIdentity();
+  const actor = getIdentityDisplayName(currentUser);
+  // Decision writes diff against the latest datasets synchronously, ahead of the next render.
+  const datasetsRef = useRef(datasets);
+
+  useEffect(() => {
+    datasetsRef.current = datasets;
+  }, [datasets]);
+
+  useEffect(() => {
+    saveDecisionHistory(decisionHistory);
+  }, [decisionHistory]);
+
+  useEffect(() => {
+    saveAlertStates(alertStates);
+  }, [alertStates]);
+
+  // Notifications already on record when the app loads were forwarded by the session that raised them.
+  const forwardedAlertIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    const all = Object.entries(alertStates).flatMap(([id, state]) =>
+      state.notifications.map((notification) => ({ id, state, notification })),
+    );
+    if (!forwardedAlertIdsRef.current) {
+      forwardedAlertIdsRef.current = new Set(all.map(({ notification }) => notification.id));
+      return;
+    }
+    const forwarded = forwardedAlertIdsRef.current;
+    all.forEach(({ id, state, notification }) => {
+      if (forwarded.has(notification.id)) return;
+      forwarded.add(notification.id);
+      const rule = state.rules.find((item) => item.id === notification.ruleId);
+      if (!DATASET_SYNC || !rule) return;
+      dispatchRemoteAlert(id, rule).catch((error) => console.error("Unable to forward alert to webhooks:", error));
+    });
+  }, [alertStates]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const state: StoredDatasetState = { datasets, activeDatasetId };
+    const state: StoredDatasetState = { schemaVersion: DATASETS_SCHEMA_VERSION, datasets, activeDatasetId };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
   }, [activeDatasetId, datasets]);
 
@@ -126,14 +250,98 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
   );
 
   const setDecisionsForDataset = useCallback(
-    (id: DatasetId, entries: SetStateAction<DecisionEntry[]>) => {
-      setDatasets((prev) =>
-        prev.map((dataset) =>
-          dataset.id === id ? { ...dataset, decisions: resolveDecisionsUpdate(entries, dataset.decisions) } : dataset,
-        ),
+    (id: DatasetId, entries: SetStateAction<DecisionEntry[]>, options: DecisionWriteOptions = {}) => {
+      const dataset = datasetsRef.current.find((item) => item.id === id);
+      if (!dataset) return;
+      const resolved = resolveDecisionsUpdate(entries, dataset.decisions);
+      // New entries are scored with the default formula by their callers, so non-default datasets rescore on write.
+      const profile = getDatasetScoringProfile(dataset.meta);
+      const decisions = isDefaultScoringProfile(profile) ? resolved : rescoreDecisions(resolved, profile);
+      const replaceDecisions = (items: DatasetState[]) =>
+        items.map((item) => (item.id === id ? { ...item, decisions } : item));
+
+      datasetsRef.current = replaceDecisions(datasetsRef.current);
+      setDatasets(replaceDecisions);
+      // Alert rules watch every write, including synced and loaded decisions, not just edits made here.
+      setAlertStates((prev) =>
+        prev[id]?.rules.length
+          ? { ...prev, [id]: evaluateAlertRules(prev[id], decisions, { now: Date.now(), profile }) }
+          : prev,
       );
+
+      if (options.track === false) return;
+      const events = buildHistoryEvents(dataset.decisions, decisions, {
+        scope: id,
+        at: Date.now(),
+        actor,
+        getKey: getDecisionKey,
+        getLabel: (decision) => decision.name,
+        ignoreFields: DECISION_ENTRY_DERIVED_FIELDS,
+        revertedTo: options.revertedTo,
+      });
+      if (events.length > 0) setDecisionHistory((prev) => appendHistoryEvents(prev, events));
     },
-    [resolveDecisionsUpdate],
+    [actor, resolveDecisionsUpdate],
+  );
+
+  const revertDecision = useCallback(
+    (id: DatasetId, recordKey: string, asOf: number) => {
+      const profile = getDatasetScoringProfile(datasetsRef.current.find((item) => item.id === id)?.meta);
+      setDecisionsForDataset(
+        id,
+        (current) =>
+          rescoreDecisions(
+            revertRecord(current, decisionHistory.events, { scope: id, asOf, getKey: getDecisionKey, recordKey }),
+            profile,
+          ),
+        { revertedTo: asOf },
+      );
+    },
+    [decisionHistory, setDecisionsForDataset],
+  );
+
+  const updateAlertState = useCallback(
+    (id: DatasetId, update: (state: DatasetAlertState) => DatasetAlertState) =>
+      setAlertStates((prev) => ({ ...prev, [id]: update(prev[id] ?? createEmptyAlertState()) })),
+    [],
+  );
+
+  // A saved rule is checked straight away so it does not wait for the next decision to report a breach.
+  const saveAlertRule = useCallback(
+    (id: DatasetId, draft: { id: string; name: string; condition: AlertCondition; enabled: boolean }) => {
+      const dataset = datasetsRef.current.find((item) => item.id === id);
+      const now = Date.now();
+      updateAlertState(id, (state) =>
+        evaluateAlertRules(upsertAlertRule(state, draft, { now, actor }), dataset?.decisions ?? [], {
+          now,
+          profile: getDatasetScoringProfile(dataset?.meta),
+        }),
+      );
+    },
+    [actor, updateAlertState],
+  );
+
+  const removeAlertRule = useCallback(
+    (id: DatasetId, ruleId: string) =>
+      updateAlertState(id, (state) => deleteAlertRule(state, ruleId, { now: Date.now(), actor })),
+    [actor, updateAlertState],
+  );
+
+  const acknowledgeAlertNotification = useCallback(
+    (id: DatasetId, notificationId: string) =>
+      updateAlertState(id, (state) => acknowledgeAlert(state, notificationId, { now: Date.now(), actor })),
+    [actor, updateAlertState],
+  );
+
+  const snoozeAlertNotification = useCallback(
+    (id: DatasetId, notificationId: string, durationMs: number) =>
+      updateAlertState(id, (state) => snoozeAlert(state, notificationId, { now: Date.now(), durationMs, actor })),
+    [actor, updateAlertState],
+  );
+
+  const rebaseDecisions = useCallback(
+    (id: DatasetId, entries: SetStateAction<DecisionEntry[]>) => setDecisionsForDataset(id, entries, { track: false }),
+    [setDecisionsForDataset],
   );
 
   const setDecisions = useCallback(
@@ -146,7 +354,7 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
 
   const addDataset = useCallback((): DatasetId => {
     const nextIndex = datasets.length + 1;
-    const id = `dataset-${nextIndex}`;
+    const id = createDatasetId();
     const label = getDatasetDisplayLabel(nextIndex - 1);
     const meta: DatasetMeta = { ...getEmptyDatasetMeta() };
     const nextDataset: DatasetState = { id, label, meta, decisions: [] };
@@ -190,9 +398,13 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
 
   const setDatasetMeta = useCallback((id: DatasetId, metaPatch: Partial<DatasetMeta>) => {
     setDatasets((prev) =>
-      prev.map((dataset) =>
-        dataset.id === id ? { ...dataset, meta: { ...dataset.meta, ...metaPatch } } : dataset,
-      ),
+      prev.map((dataset) => {
+        if (dataset.id !== id) return dataset;
+        const meta = { ...dataset.meta, ...metaPatch };
+        const profile = getDatasetScoringProfile(meta);
+        if (profile === getDatasetScoringProfile(dataset.meta)) return { ...dataset, meta };
+        return { ...dataset, meta, decisions: rescoreDecisions(dataset.decisions, profile) };
+      }),
     );
   }, []);
 
@@ -211,6 +423,45 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
     [datasets],
   );
 
+  const dismissMigrationReport = useCallback(() => setMigrationReport(null), []);
+
+  const replaceDatasets = useCallback((raw: DatasetState[]) => {
+    const next = normalizeDatasets(raw);
+    setDatasets(next);
+    setActiveDatasetId((current) =>
+      next.some((dataset) => dataset.id === current) ? current : next[0]?.id ?? null,
+    );
+  }, []);
+
+  const hydrateDatasets = useCallback((remote: DatasetState[], snapshots: Map<DatasetId, DatasetState>) => {
+    const { datasets: merged, renamed, conflicts } = mergeHydratedDatasets(datasetsRef.current, remote, snapshots);
+    const next = normalizeDatasets(merged);
+    setDatasets(next);
+    setActiveDatasetId((current) => {
+      const resolved = (current && renamed.get(current)) ?? current;
+      return next.some((dataset) => dataset.id === resolved) ? resolved : next[0]?.id ?? null;
+    });
+    if (renamed.size === 0) return conflicts;
+    setAlertStates((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([id, state]) => [renamed.get(id) ?? id, state])),
+    );
+    setDecisionHistory((prev) => ({
+      events: prev.events.map((event) => {
+        const scope = renamed.get(event.scope);
+        return scope ? { ...event, scope } : event;
+      }),
+      startsAt: Object.fromEntries(Object.entries(prev.startsAt).map(([id, at]) => [renamed.get(id) ?? id, at])),
+    }));
+    return conflicts;
+  }, []);
+
+  const { syncStatus, syncError, dismissSyncError } = useDatasetSync({
+    enabled: DATASET_SYNC,
+    datasets,
+    onHydrate: hydrateDatasets,
+    onRebase: rebaseDecisions,
+  });
+
   useEffect(() => {
     datasets.forEach((dataset) => {
       if (!dataset.meta.path || dataset.decisions.length > 0 || loadingMap[dataset.id]) return;
@@ -234,8 +485,9 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
             urgency: number;
             confidence: number;
           }>;
-          const hydrated = raw.map(hydrateDecision).sort((a, b) => b.ts - a.ts);
-          setDecisionsForDataset(dataset.id, hydrated);
+          const profile = getDatasetScoringProfile(dataset.meta);
+          const hydrated = raw.map((decision) => hydrateDecision(decision, profile)).sort((a, b) => b.ts - a.ts);
+          setDecisionsForDataset(dataset.id, hydrated, { track: false });
         })
         .catch((error) => {
           console.error("Unable to load decisions for dataset", dataset.id, error);
@@ -250,6 +502,7 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
   const activeDataset = useMemo(() => getDatasetById(activeDatasetId) ?? null, [activeDatasetId, getDatasetById]);
 
   const meta = useMemo(() => activeDataset?.meta ?? getEmptyDatasetMeta(), [activeDataset]);
+  const scoringProfile = useMemo(() => getDatasetScoringProfile(meta), [meta]);
   const decisions = useMemo(() => activeDataset?.decisions ?? [], [activeDataset]);
   const isDatasetLoading = activeDatasetId ? Boolean(loadingMap[activeDatasetId]) : false;
   const loadError = activeDatasetId ? loadErrors[activeDatasetId] ?? null : null;
@@ -261,36 +514,64 @@ export function DatasetProvider({ children }: { children: ReactNode }): ReactEle
       activeDataset,
       setActiveDatasetId,
       meta,
+      scoringProfile,
       decisions,
       setDecisions,
       setDecisionsForDataset,
+      decisionHistory,
+      revertDecision,
+      alertStates,
+      saveAlertRule,
+      removeAlertRule,
+      acknowledgeAlertNotification,
+      snoozeAlertNotification,
       addDataset,
       deleteDataset,
       setDatasetLabel,
       setDatasetMeta,
       clearDatasetDecisions,
       clearAllDatasets,
+      replaceDatasets,
       getDatasetById,
       isDatasetLoading,
       loadError,
+      syncStatus,
+      syncError,
+      dismissSyncError,
+      migrationReport,
+      dismissMigrationReport,
     }),
     [
+      acknowledgeAlertNotification,
       activeDataset,
       activeDatasetId,
       addDataset,
+      alertStates,
       clearAllDatasets,
       clearDatasetDecisions,
+      decisionHistory,
       decisions,
       deleteDataset,
       datasets,
+      dismissMigrationReport,
+      dismissSyncError,
       getDatasetById,
       isDatasetLoading,
       loadError,
       meta,
+      migrationReport,
+      removeAlertRule,
+      replaceDatasets,
+      revertDecision,
+      saveAlertRule,
+      scoringProfile,
       setDatasetLabel,
       setDatasetMeta,
       setDecisions,
       setDecisionsForDataset,
+      snoozeAlertNotification,
+      syncError,
+      syncStatus,
     ],
   );
 
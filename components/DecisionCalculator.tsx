@@ -2,18 +2,22 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { DecisionMetrics, DecisionVariables, computeMetrics } from "@/lib/calculations";
+import { useDataset } from "@/components/DatasetProvider";
+import SensitivityPanel from "@/components/sensitivity/SensitivityPanel";
+import UncertaintyPanel from "@/components/uncertainty/UncertaintyPanel";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionMetrics, DecisionVars } from "@/src/lib/dnav/types";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import SliderRow from "./SliderRow";
 import StatCard from "./StatCard";
 import SummaryCard from "./SummaryCard";
 
 interface DecisionCalculatorProps {
-  onDataChange?: (variables: DecisionVariables, metrics: DecisionMetrics) => void;
+  onDataChange?: (variables: DecisionVars, metrics: DecisionMetrics) => void;
 }
 
 export default function DecisionCalculator({ onDataChange }: DecisionCalculatorProps) {
-  const [variables, setVariables] = useState<DecisionVariables>({
+  const [variables, setVariables] = useState<DecisionVars>({
     impact: 1,
     cost: 1,
     risk: 1,
@@ -21,8 +25,9 @@ export default function DecisionCalculator({ onDataChange }: DecisionCalculatorP
     confidence: 1,
   });
 
-  const metrics = useMemo(() => computeMetrics(variables), [variables]);
-  const updateVariable = useCallback((key: keyof DecisionVariables, value: number) => {
+  const { scoringProfile } = useDataset();
+  const metrics = useMemo(() => computeMetrics(variables, scoringProfile), [scoringProfile, variables]);
+  const updateVariable = useCallback((key: keyof DecisionVars, value: number) => {
     setVariables((prev) => ({ ...prev, [key]: value }));
   }, []);
 
@@ -148,6 +153,9 @@ export default function DecisionCalculator({ onDataChange }: DecisionCalculatorP
           </CardContent>
         </Card>
       </div>
+
+      <SensitivityPanel variables={variables} profile={scoringProfile} />
+      <UncertaintyPanel variables={variables} profile={scoringProfile} />
     </div>
   );
 }
@@ -1,6 +1,9 @@
 'use client';
 
-import { DecisionMetrics, JudgmentSignal, getArchetype, getReadoutLines } from "@/lib/calculations";
+import { useDataset } from "@/components/DatasetProvider";
+import { JudgmentSignal, getReadoutLines } from "@/lib/calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import type { DecisionMetrics } from "@/src/lib/dnav/types";
 import { AccentSliver } from "@/components/ui/AccentSliver";
 import Term from "@/components/ui/Term";
 import { cn } from "@/lib/utils";
@@ -23,7 +26,8 @@ export default function SummaryCard({
   showMagnitudeCue = true,
   judgmentSignal,
 }: SummaryCardProps) {
-  const archetype = getArchetype(metrics);
+  const { scoringProfile } = useDataset();
+  const archetype = getArchetype(metrics, scoringProfile);
   const readoutLines = getReadoutLines(metrics, judgmentSignal);
   const hasJudgmentSignal = Boolean(judgmentSignal);
   const summaryText = useMemo(
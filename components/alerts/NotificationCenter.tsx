@@ -0,0 +1,94 @@
+"use client";
+
+import { Bell } from "lucide-react";
+import Link from "next/link";
+
+import { useDataset } from "@/components/DatasetProvider";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNow } from "@/hooks/useNow";
+import { ALERT_SNOOZE_OPTIONS, isAlertOpen } from "@/lib/alerts";
+import { getDatasetDisplayName } from "@/lib/datasetDisplay";
+
+export function NotificationCenter() {
+  const { datasets, alertStates, acknowledgeAlertNotification, snoozeAlertNotification } = useDataset();
+  const now = useNow();
+
+  const open = datasets
+    .flatMap((dataset) =>
+      (alertStates[dataset.id]?.notifications ?? [])
+        .filter((notification) => isAlertOpen(notification, now))
+        .map((notification) => ({ notification, dataset })),
+    )
+    .sort((a, b) => b.notification.firedAt - a.notification.firedAt);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Alerts (${open.length} open)`}>
+          <Bell className="h-4 w-4" />
+          {open.length > 0 ? (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+              {open.length}
+            </span>
+          ) : null}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Alerts</p>
+          <Link href="/alerts" className="text-xs text-primary hover:underline">
+            Manage rules
+          </Link>
+        </div>
+        {open.length === 0 ? (
+          <p className="px-3 py-4 text-xs text-muted-foreground">No open alerts.</p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto">
+            {open.map(({ notification, dataset }) => (
+              <li key={notification.id} className="space-y-1.5 px-3 py-2 text-xs">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-semibold text-foreground">{notification.ruleName}</span>
+                  <span className="shrink-0 text-[11px] text-muted-foreground">
+                    {new Date(notification.firedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-muted-foreground">
+                  {getDatasetDisplayName(dataset)} · {notification.message}
+                  {notification.clearedAt ? " Since cleared." : ""}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => acknowledgeAlertNotification(dataset.id, notification.id)}
+                  >
+                    Acknowledge
+                  </Button>
+                  <Select
+                    value=""
+                    onValueChange={(value) => snoozeAlertNotification(dataset.id, notification.id, Number(value))}
+                  >
+                    <SelectTrigger className="h-7 w-28 text-xs">
+                      <SelectValue placeholder="Snooze" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_SNOOZE_OPTIONS.map((option) => (
+                        <SelectItem key={option.ms} value={String(option.ms)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Callout } from "@/components/ui/Callout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  createRemoteWebhook,
+  deleteRemoteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  updateRemoteWebhook,
+} from "@/lib/webhookApi";
+import { WEBHOOK_EVENT_TYPES, type WebhookDelivery, type WebhookEndpointView, type WebhookEventType } from "@/lib/webhooks";
+import type { DatasetId } from "@/types/dataset";
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  judgment_signal: "Judgment signals",
+  early_warning: "Early warnings",
+  alert_rule: "Alert rules",
+};
+
+const DELIVERY_STATUS_BADGES: Record<
+  WebhookDelivery["status"],
+  { label: string; variant: "secondary" | "outline" | "destructive" }
+> = {
+  pending: { label: "Pending", variant: "outline" },
+  delivered: { label: "Delivered", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+type Loaded = { datasetId: DatasetId; webhooks: WebhookEndpointView[]; deliveries: WebhookDelivery[] };
+
+export function WebhookSettings({ datasetId }: { datasetId: DatasetId }) {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>(WEBHOOK_EVENT_TYPES);
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    Promise.all([fetchWebhooks(datasetId), fetchWebhookDeliveries(datasetId)])
+      .then(([webhooks, deliveries]) => setLoaded({ datasetId, webhooks, deliveries }))
+      .catch((loadError) => {
+        console.error(loadError);
+        setError("Unable to load webhooks. Only dataset admins can manage them.");
+      });
+  }, [datasetId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Ignore results still on screen from the previously selected dataset.
+  const current = loaded?.datasetId === datasetId ? loaded : null;
+
+  const handleCreate = async () => {
+    try {
+      const created = await createRemoteWebhook(datasetId, { url: url.trim(), events });
+      setRevealedSecret({ webhookId: created.webhook.id, secret: created.secret });
+      setUrl("");
+      setError(null);
+      load();
+    } catch (createError) {
+      console.error(createError);
+      setError("Unable to add the webhook. Check that the URL starts with http:// or https://.");
+    }
+  };
+
+  const handleUpdate = async (
+    webhookId: string,
+    patch: { enabled?: boolean; events?: WebhookEventType[]; rotateSecret?: boolean },
+  ) => {
+    try {
+      const updated = await updateRemoteWebhook(datasetId, webhookId, patch);
+      if (updated.secret) setRevealedSecret({ webhookId, secret: updated.secret });
+      setError(null);
+      load();
+    } catch (updateError) {
+      console.error(updateError);
+      setError("Unable to update the webhook.");
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    try {
+      await deleteRemoteWebhook(datasetId, webhookId);
+      setError(null);
+      load();
+    } catch (deleteError) {
+      console.error(deleteError);
+      setError("Unable to delete the webhook.");
+    }
+  };
+
+  const toggleEvent = (list: WebhookEventType[], event: WebhookEventType) =>
+    list.includes(event) ? list.filter((item) => item !== event) : [...list, event];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Webhooks</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-xs text-muted-foreground">
+          Each delivery is a signed JSON POST with the decision, its metrics, archetype and the rule that fired. Verify
+          the <code>x-dnav-signature</code> header as an HMAC-SHA256 of <code>{"{x-dnav-timestamp}.{body}"}</code>{" "}
+          with the endpoint secret. Failed deliveries retry with backoff.
+        </p>
+
+        <div className="space-y-2">
+          <Input value={url} placeholder="https://example.com/hooks/dnav" onChange={(event) => setUrl(event.target.value)} />
+          <div className="flex flex-wrap items-center gap-1.5">
+            {WEBHOOK_EVENT_TYPES.map((event) => (
+              <button key={event} type="button" onClick={() => setEvents((prev) => toggleEvent(prev, event))}>
+                <Badge variant={events.includes(event) ? "default" : "outline"}>{EVENT_LABELS[event]}</Badge>
+              </button>
+            ))}
+            <Button type="button" size="sm" onClick={handleCreate} disabled={!url.trim() || events.length === 0}>
+              Add webhook
+            </Button>
+          </div>
+        </div>
+
+        {revealedSecret ? (
+          <Callout label="Signing secret">
+            <p className="mb-1">Copy this now. It will not be shown again.</p>
+            <code className="break-all text-xs">{revealedSecret.secret}</code>
+          </Callout>
+        ) : null}
+        {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+        {current?.webhooks.map((webhook) => (
+          <div key={webhook.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0 space-y-0.5">
+                <p className="truncate font-medium text-foreground">{webhook.url}</p>
+                <p className="text-xs text-muted-foreground">Secret {webhook.secretHint}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={webhook.enabled}
+                  onCheckedChange={(enabled) => handleUpdate(webhook.id, { enabled })}
+                  aria-label={webhook.enabled ? "Disable webhook" : "Enable webhook"}
+                />
+                <Button type="button" size="sm" variant="outline" onClick={() => handleUpdate(webhook.id, { rotateSecret: true })}>
+                  Rotate secret
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => handleDelete(webhook.id)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {WEBHOOK_EVENT_TYPES.map((event) => {
+                const next = toggleEvent(webhook.events, event);
+                return (
+                  <button
+                    key={event}
+                    type="button"
+                    disabled={next.length === 0}
+                    onClick={() => handleUpdate(webhook.id, { events: next })}
+                  >
+                    <Badge variant={webhook.events.includes(event) ? "secondary" : "outline"}>{EVENT_LABELS[event]}</Badge>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Delivery log</p>
+          {!current || current.deliveries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody className="divide-y">
+                {current.deliveries.map((delivery) => {
+                  const last = delivery.attempts.at(-1);
+                  return (
+                    <tr key={delivery.id}>
+                      <td className="py-1.5 pr-2 whitespace-nowrap text-muted-foreground">
+                        {new Date(delivery.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-1.5 pr-2 text-foreground">{delivery.trigger.label}</td>
+                      <td className="py-1.5 pr-2 truncate text-muted-foreground">{delivery.url}</td>
+                      <td className="py-1.5 pr-2 text-right">
+                        <Badge variant={DELIVERY_STATUS_BADGES[delivery.status].variant}>
+                          {DELIVERY_STATUS_BADGES[delivery.status].label}
+                        </Badge>
+                      </td>
+                      <td className="py-1.5 text-right text-muted-foreground">
+                        {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? "" : "s"}
+                        {last ? ` · ${last.statusCode ?? last.error ?? "no response"}` : ""}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
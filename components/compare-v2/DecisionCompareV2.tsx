@@ -32,6 +32,7 @@ import { type Selection, useCompareParams } from "@/src/hooks/useCompareParams";
 import { cn } from "@/lib/utils";
 import type { DecisionEntry } from "@/lib/calculations";
 import NudgeControls, { type NudgeUISettings } from "./NudgeControls";
+import PortfolioOptimizer from "./PortfolioOptimizer";
 import { computeBestNudge } from "@/src/lib/dnav/nudges/engine";
 import { buildNudgeCopy } from "@/src/lib/dnav/nudges/copy";
 import type { NudgeSettings } from "@/src/lib/dnav/nudges/types";
@@ -384,7 +385,7 @@ function SelectionPanel({
 }
 
 export default function DecisionCompareV2() {
-  const { decisions, isDatasetLoading } = useDataset();
+  const { decisions, isDatasetLoading, scoringProfile } = useDataset();
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -426,10 +427,11 @@ export default function DecisionCompareV2() {
       policy: {
         allowUrgencyIncrease: nudgeSettings.allowUrgencyIncrease,
       },
+      profile: scoringProfile,
     };
 
     return computeBestNudge(decisionA.vars, decisionB.vars, engineSettings);
-  }, [decisionA, decisionB, nudgeSettings]);
+  }, [decisionA, decisionB, nudgeSettings, scoringProfile]);
 
   const nudgeCopy = useMemo(() => {
     if (!bestNudge || !decisionA || !decisionB) return null;
@@ -563,6 +565,8 @@ export default function DecisionCompareV2() {
           )}
         </CardContent>
       </Card>
+
+      <PortfolioOptimizer decisions={decisions} profile={scoringProfile} />
     </div>
   );
 }
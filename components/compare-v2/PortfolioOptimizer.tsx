@@ -0,0 +1,251 @@
+import { useMemo, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DecisionEntry } from "@/lib/calculations";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+import { buildPortfolioPlan } from "@/src/lib/dnav/nudges/portfolio";
+import type { PortfolioBudgetKind, PortfolioGoal, PortfolioSettings } from "@/src/lib/dnav/nudges/types";
+
+type Props = {
+  decisions: DecisionEntry[];
+  profile: ScoringProfile;
+};
+
+const GOAL_OPTIONS: { value: PortfolioGoal; label: string }[] = [
+  { value: "increase-dnav", label: "Maximize total D-NAV" },
+  { value: "reduce-pressure", label: "Minimize total Pressure" },
+];
+
+const BUDGET_OPTIONS: { value: PortfolioBudgetKind; label: string; hint: string }[] = [
+  { value: "urgency", label: "Urgency points", hint: "Extra urgency the team can absorb across all decisions." },
+  { value: "cost", label: "Cost points", hint: "Cost points the team can move, cuts included, across all decisions." },
+];
+
+const VAR_LABELS: Record<string, string> = {
+  impact: "Impact",
+  cost: "Cost",
+  risk: "Risk",
+  urgency: "Urgency",
+  confidence: "Confidence",
+};
+
+const DEFAULT_PORTFOLIO_SETTINGS: PortfolioSettings = {
+  goal: "increase-dnav",
+  minGoalImprovement: 1,
+  constraints: {
+    preventPressureIncrease: true,
+    preventReturnDecrease: true,
+    preventStabilityDecrease: false,
+  },
+  policy: {
+    allowUrgencyIncrease: false,
+  },
+  budget: { kind: "urgency", limit: 3 },
+};
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1));
+const formatDelta = (value: number) => (value > 0 ? `+${formatNumber(value)}` : formatNumber(value));
+
+export default function PortfolioOptimizer({ decisions, profile }: Props) {
+  const [settings, setSettings] = useState<PortfolioSettings>(DEFAULT_PORTFOLIO_SETTINGS);
+
+  const plan = useMemo(
+    () => (decisions.length ? buildPortfolioPlan(decisions, { ...settings, profile }) : null),
+    [decisions, profile, settings],
+  );
+  const goalMetric = settings.goal === "reduce-pressure" ? "Pressure" : "D-NAV";
+  const budgetHint = BUDGET_OPTIONS.find((option) => option.value === settings.budget.kind)?.hint;
+
+  const updateConstraint = (key: "preventPressureIncrease" | "preventReturnDecrease" | "preventStabilityDecrease", value: boolean) => {
+    setSettings((prev) => ({ ...prev, constraints: { ...prev.constraints, [key]: value } }));
+  };
+
+  const handleNumberChange = (value: string, apply: (parsed: number) => void) => {
+    const parsed = Number(value);
+    if (value !== "" && Number.isFinite(parsed)) apply(parsed);
+  };
+
+  const summaryRows = plan
+    ? [
+        { label: "Avg D-NAV", before: plan.before.avgDnav, after: plan.after.avgDnav, delta: plan.deltas.avgDnav },
+        { label: "Avg Return", before: plan.before.avgReturn, after: plan.after.avgReturn, delta: plan.deltas.avgReturn },
+        { label: "Avg Pressure", before: plan.before.avgPressure, after: plan.after.avgPressure, delta: plan.deltas.avgPressure },
+        { label: "Avg Stability", before: plan.before.avgStability, after: plan.after.avgStability, delta: plan.deltas.avgStability },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg font-semibold text-foreground">Portfolio optimizer</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Spread a shared budget across the logged decisions and pick at most one nudge per decision.
+          </p>
+        </div>
+        {plan && plan.items.length > 0 && <Badge variant="outline">{plan.items.length} adjustments</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 rounded-lg border border-border/60 bg-muted/40 p-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Objective</p>
+            <Select
+              value={settings.goal}
+              onValueChange={(value) => setSettings((prev) => ({ ...prev, goal: value as PortfolioGoal }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Per decision, improve by at least</p>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={settings.minGoalImprovement}
+              onChange={(event) =>
+                handleNumberChange(event.target.value, (parsed) =>
+                  setSettings((prev) => ({ ...prev, minGoalImprovement: parsed })),
+                )
+              }
+              min={0}
+              step="0.5"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Shared budget</p>
+            <Select
+              value={settings.budget.kind}
+              onValueChange={(value) =>
+                setSettings((prev) => ({ ...prev, budget: { ...prev.budget, kind: value as PortfolioBudgetKind } }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUDGET_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              inputMode="numeric"
+              value={settings.budget.limit}
+              onChange={(event) =>
+                handleNumberChange(event.target.value, (parsed) =>
+                  setSettings((prev) => ({ ...prev, budget: { ...prev.budget, limit: Math.max(0, Math.floor(parsed)) } })),
+                )
+              }
+              min={0}
+              step="1"
+            />
+            {budgetHint && <p className="text-xs text-muted-foreground">{budgetHint}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Constraints</p>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={settings.constraints.preventPressureIncrease}
+                onCheckedChange={(checked) => updateConstraint("preventPressureIncrease", Boolean(checked))}
+              />
+              Don&apos;t increase Pressure
+            </label>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={settings.constraints.preventReturnDecrease}
+                onCheckedChange={(checked) => updateConstraint("preventReturnDecrease", Boolean(checked))}
+              />
+              Don&apos;t decrease Return
+            </label>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={settings.constraints.preventStabilityDecrease}
+                onCheckedChange={(checked) => updateConstraint("preventStabilityDecrease", Boolean(checked))}
+              />
+              Don&apos;t decrease Stability
+            </label>
+          </div>
+        </div>
+
+        {!plan ? (
+          <p className="text-sm text-muted-foreground">Log decisions to build a portfolio plan.</p>
+        ) : (
+          <>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+              {summaryRows.map((row) => (
+                <div key={row.label} className="rounded-lg border border-border/60 p-3">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{row.label}</p>
+                  <p className="text-sm text-foreground">
+                    {formatNumber(row.before)} → {formatNumber(row.after)}
+                  </p>
+                  <p className="text-xs font-medium text-muted-foreground">{formatDelta(row.delta)}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Budget used: {plan.budgetUsed} of {plan.budget.limit} {plan.budget.kind} points · total D-NAV{" "}
+              {formatDelta(plan.deltas.totalDnav)} · total Pressure {formatDelta(plan.deltas.totalPressure)} ·{" "}
+              {plan.untouchedDecisions} decisions left as logged
+            </p>
+
+            {plan.items.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border/80 p-4 text-sm text-muted-foreground">
+                No decision has a nudge that fits the budget and constraints. Raise the budget or relax a constraint.
+              </div>
+            ) : (
+              <ol className="space-y-2">
+                {plan.items.map((item) => (
+                  <li key={item.decisionKey} className="rounded-lg border border-border/60 p-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="font-medium text-foreground">
+                        {item.rank}. {item.name}
+                        <span className="ml-2 text-xs text-muted-foreground">{item.category}</span>
+                      </p>
+                      <div className="flex items-center gap-2">
+                        {item.spend > 0 && <Badge variant="outline">Spends {item.spend}</Badge>}
+                        <Badge>
+                          {goalMetric} {formatDelta(plan.goal === "reduce-pressure" ? -item.goalImprovement : item.goalImprovement)}
+                        </Badge>
+                      </div>
+                    </div>
+                    <p className="mt-1 text-muted-foreground">
+                      {item.steps
+                        .map((step) => `${VAR_LABELS[step.key]} ${formatNumber(step.from)} → ${formatNumber(step.to)}`)
+                        .join(" · ")}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      D-NAV {formatDelta(item.deltas.dnav)} · Return {formatDelta(item.deltas.return)} · Pressure{" "}
+                      {formatDelta(item.deltas.pressure)} · Stability {formatDelta(item.deltas.stability)}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
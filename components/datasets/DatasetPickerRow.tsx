@@ -4,11 +4,11 @@ import DatasetSelect from "@/components/DatasetSelect";
 import { useDataset } from "@/components/DatasetProvider";
 import { useDefinitionsPanel } from "@/components/definitions/DefinitionsPanelProvider";
 import { Button } from "@/components/ui/button";
-import { useNetlifyIdentity } from "@/hooks/use-netlify-identity";
+import { useIdentity } from "@/hooks/use-identity";
 
 export default function DatasetPickerRow() {
   const { openDefinitions } = useDefinitionsPanel();
-  const { isLoggedIn, logout } = useNetlifyIdentity();
+  const { isLoggedIn, logout } = useIdentity();
   const { addDataset } = useDataset();
 
   return (
@@ -5,6 +5,7 @@ import { cn } from "@/lib/utils";
 import type { DecisionCandidate } from "@/lib/intake/decisionExtractLocal";
 import { Button } from "@/components/ui/button";
 import MetricStepperPill from "@/components/decision-intake/MetricStepperPill";
+import type { EvidenceFocus } from "@/components/decision-intake/PdfEvidenceViewer";
 
 const METRICS = [
   { key: "impact", label: "Impact" },
@@ -24,6 +25,7 @@ interface KeyDecisionRowProps {
   onDismiss: (id: string) => void;
   onMetricChange: (id: string, key: MetricKey, value: number) => void;
   onDecisionChange: (id: string, value: string) => void;
+  onShowEvidence?: (focus: EvidenceFocus) => void;
 }
 
 export default function KeyDecisionRow({
@@ -34,6 +36,7 @@ export default function KeyDecisionRow({
   onDismiss,
   onMetricChange,
   onDecisionChange,
+  onShowEvidence,
 }: KeyDecisionRowProps) {
   const [useTextarea, setUseTextarea] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
@@ -59,6 +62,7 @@ export default function KeyDecisionRow({
   const timeframe = findTimeframe(candidate.evidence.full ?? candidate.decision);
   const metadata = [pageLabel, timeframe].filter(Boolean).join(" · ");
   const decisionText = candidate.decision;
+  const unsupportedCount = METRICS.filter((metric) => !candidate.scoreEvidence?.[metric.key]).length;
   const handleDecisionChange = useCallback(
     (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
       onDecisionChange(candidate.id, event.target.value);
@@ -167,6 +171,46 @@ export default function KeyDecisionRow({
               ))}
             </div>
           </div>
+          <details className="mt-3 group">
+            <summary className="cursor-pointer select-none text-[10px] font-semibold uppercase tracking-wide text-muted-foreground hover:text-foreground">
+              Score evidence
+              {unsupportedCount > 0 ? (
+                <span className="ml-2 normal-case tracking-normal text-amber-600 dark:text-amber-400">
+                  {unsupportedCount} of {METRICS.length} without a supporting quote
+                </span>
+              ) : null}
+            </summary>
+            <ul className="mt-2 space-y-1.5">
+              {METRICS.map((metric) => {
+                const evidence = candidate.scoreEvidence?.[metric.key];
+                const label = `${metric.label} ${candidate.sliders[metric.key]}`;
+                return (
+                  <li key={metric.key} className="flex items-start gap-2">
+                    <span className="w-24 shrink-0 font-semibold text-foreground/80">{label}</span>
+                    {evidence ? (
+                      onShowEvidence ? (
+                        <button
+                          type="button"
+                          className="min-w-0 text-left text-foreground/80 hover:text-primary hover:underline"
+                          onClick={() => onShowEvidence({ label, page: evidence.page, quote: evidence.quote })}
+                        >
+                          “{evidence.quote}” <span className="text-muted-foreground">· p{evidence.page}</span>
+                        </button>
+                      ) : (
+                        <span className="min-w-0 text-foreground/80">
+                          “{evidence.quote}” <span className="text-muted-foreground">· p{evidence.page}</span>
+                        </span>
+                      )
+                    ) : (
+                      <span className="rounded-full border border-amber-500/40 bg-amber-500/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-600 dark:text-amber-400">
+                        No supporting quote
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </details>
         </div>
       </div>
     </div>
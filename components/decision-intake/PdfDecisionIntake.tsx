@@ -1,11 +1,14 @@
 "use client";
 
-import { type ChangeEvent, forwardRef, useCallback, useImperativeHandle, useMemo, useState } from "react";
+import { type ChangeEvent, forwardRef, useCallback, useImperativeHandle, useMemo, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 import { extractPdfText } from "@/lib/pdf/extractPdfText";
 import { extractDecisionCandidatesLocal, type DecisionCandidate } from "@/lib/intake/decisionExtractLocal";
+import { applyStreamEvent, streamDecisionExtraction } from "@/lib/intake/decisionExtractStream";
+import { SERVER_EXTRACTION } from "@/lib/flags";
 import type { LocalSummary } from "@/lib/intake/summaryLocal";
 import KeyDecisionRow from "@/components/decision-intake/KeyDecisionRow";
+import PdfEvidenceViewer, { type EvidenceFocus } from "@/components/decision-intake/PdfEvidenceViewer";
 
 interface PdfDecisionIntakeProps {
   onAddDecision: (candidate: DecisionCandidate, sourceFileName?: string) => void;
@@ -30,13 +33,18 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
   const [isReading, setIsReading] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractError, setExtractError] = useState<string | null>(null);
+  const [extractProgress, setExtractProgress] = useState<string | null>(null);
   const [summary, setSummary] = useState<LocalSummary | null>(null);
   const [candidates, setCandidates] = useState<DecisionCandidate[]>([]);
   const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
   const [addedIds, setAddedIds] = useState<Set<string>>(new Set());
   const [showAll, setShowAll] = useState(false);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [evidenceFocus, setEvidenceFocus] = useState<EvidenceFocus | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const resetState = useCallback(() => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
     setPagesRead(0);
     setPageCount(0);
     setTotalChars(0);
@@ -46,6 +54,8 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
     setAddedIds(new Set());
     setShowAll(false);
     setExtractError(null);
+    setExtractProgress(null);
+    setEvidenceFocus(null);
     setPdfUrl((prev) => {
       if (prev) URL.revokeObjectURL(prev);
       return null;
@@ -82,15 +92,41 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
       setTotalChars(result.pages.reduce((acc, page) => acc + page.charCount, 0));
       setIsExtracting(true);
 
-      const extraction = extractDecisionCandidatesLocal(
-        result.pages.map((page) => ({ page: page.page, text: page.text })),
-        { maxPerPage: 6, minScore: 4 },
-        result.docName,
-      );
+      const pages = result.pages.map((page) => ({ page: page.page, text: page.text }));
+      const extraction = extractDecisionCandidatesLocal(pages, { maxPerPage: 6, minScore: 4 }, result.docName);
 
       setSummary(extraction.summary);
-      setCandidates(extraction.candidates);
-      if (extraction.candidates.length === 0) {
+      let found = extraction.candidates.length;
+      if (SERVER_EXTRACTION) {
+        // Large reports stream from the server so candidates appear page by page instead of after one long wait.
+        const controller = new AbortController();
+        streamAbortRef.current = controller;
+        try {
+          const merged = await streamDecisionExtraction(
+            { docName: result.docName, pages },
+            (event) => {
+              setCandidates((prev) => applyStreamEvent(prev, event));
+              if (event.type === "page") {
+                setExtractProgress(`Extracting decisions… page ${event.page} of ${result.pageCount}`);
+              } else if (event.type === "refine") {
+                setExtractProgress(`Refining decisions… batch ${event.batch} of ${event.batchCount}`);
+              }
+            },
+            { signal: controller.signal },
+          );
+          found = merged.candidates.length;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error("Server extraction failed; using local candidates.", error);
+          setCandidates(extraction.candidates);
+        } finally {
+          if (streamAbortRef.current === controller) streamAbortRef.current = null;
+          setExtractProgress(null);
+        }
+      } else {
+        setCandidates(extraction.candidates);
+      }
+      if (found === 0) {
         setExtractError("No clear decisions detected. Try a different PDF.");
       }
     } catch (error) {
@@ -245,7 +281,9 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
           </div>
           <div className="mt-3 flex flex-wrap items-center gap-3 text-[11px] text-muted-foreground">
             {isReading ? <span className="font-semibold text-foreground">Reading PDF…</span> : null}
-            {isExtracting ? <span className="font-semibold text-foreground">Extracting decisions…</span> : null}
+            {isExtracting ? (
+              <span className="font-semibold text-foreground">{extractProgress ?? "Extracting decisions…"}</span>
+            ) : null}
           </div>
           <details className="mt-2 text-[11px] text-muted-foreground">
             <summary className="cursor-pointer text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
@@ -337,6 +375,10 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
           </div>
         </div>
 
+        {pdfUrl && evidenceFocus ? (
+          <PdfEvidenceViewer pdfUrl={pdfUrl} focus={evidenceFocus} onClose={() => setEvidenceFocus(null)} />
+        ) : null}
+
         {visibleCandidates.length === 0 ? (
           <div className="rounded-lg border border-dashed border-border/60 bg-muted/10 px-4 py-4 text-[11px] text-muted-foreground">
             Upload a PDF to see key decision candidates.
@@ -357,6 +399,7 @@ const PdfDecisionIntake = forwardRef<PdfDecisionIntakeHandle, PdfDecisionIntakeP
                   onDismiss={handleDismiss}
                   onMetricChange={(id, key, value) => updateSlider(id, key, value)}
                   onDecisionChange={updateDecisionText}
+                  onShowEvidence={pdfUrl ? setEvidenceFocus : undefined}
                 />
               );
             })}
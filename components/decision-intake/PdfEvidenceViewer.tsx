@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { findQuoteSpan, itemsInSpan } from "@/lib/intake/evidenceLocation";
+import { loadPdfjs } from "@/lib/pdf/loadPdfjs";
+
+export interface EvidenceFocus {
+  // What the quote supports, e.g. "Risk 7".
+  label: string;
+  page: number;
+  quote: string;
+}
+
+interface PdfEvidenceViewerProps {
+  pdfUrl: string;
+  focus: EvidenceFocus;
+  onClose: () => void;
+}
+
+type HighlightRect = { left: number; top: number; width: number; height: number };
+
+type ViewerStatus = "loading" | "found" | "missing" | "error";
+
+export default function PdfEvidenceViewer({ pdfUrl, focus, onClose }: PdfEvidenceViewerProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const highlightRef = useRef<HTMLDivElement | null>(null);
+  const documentRef = useRef<{ url: string; promise: Promise<PDFDocumentProxy> } | null>(null);
+  const [status, setStatus] = useState<ViewerStatus>("loading");
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const render = async () => {
+      setStatus("loading");
+      setHighlights([]);
+      if (documentRef.current?.url !== pdfUrl) {
+        documentRef.current = { url: pdfUrl, promise: loadPdfjs().then((pdfjsLib) => pdfjsLib.getDocument(pdfUrl).promise) };
+      }
+      const pdf = await documentRef.current.promise;
+      const page = await pdf.getPage(Math.min(Math.max(focus.page, 1), pdf.numPages));
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+      if (cancelled || !canvas || !context) return;
+
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: (containerRef.current?.clientWidth || unscaled.width) / unscaled.width });
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0],
+      });
+      await renderTask.promise;
+
+      // Quote matching folds whitespace, so joining items with spaces lines up with the extracted page text.
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => "str" in item);
+      const span = findQuoteSpan(items.map((item) => item.str).join(" "), focus.quote);
+      if (cancelled) return;
+      if (!span) {
+        setStatus("missing");
+        return;
+      }
+      const rects = itemsInSpan(
+        items.map((item) => item.str),
+        span,
+      ).map(({ index, from, to }) => {
+        const item = items[index];
+        const [, , , fontHeight, x, y] = item.transform;
+        const height = item.height || Math.abs(fontHeight);
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+          x + item.width * from,
+          y,
+          x + item.width * to,
+          y + height,
+        ]);
+        return {
+          left: Math.min(x1, x2),
+          top: Math.min(y1, y2),
+          width: Math.abs(x2 - x1),
+          height: Math.abs(y2 - y1),
+        };
+      });
+      setHighlights(rects);
+      setStatus("found");
+    };
+
+    render().catch((error: unknown) => {
+      if (cancelled || (error as { name?: string })?.name === "RenderingCancelledException") return;
+      console.error("Failed to render PDF evidence.", error);
+      setStatus("error");
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [focus.page, focus.quote, pdfUrl]);
+
+  useEffect(() => {
+    if (highlights.length > 0) highlightRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [highlights]);
+
+  return (
+    <div className="dnav-dark-glass-surface space-y-3 rounded-xl border border-border/60 bg-white/70 p-4 shadow-sm dark:bg-white/10">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+            Evidence · {focus.label} · p{focus.page}
+          </p>
+          <p className="text-[12px] leading-relaxed text-foreground/90">“{focus.quote}”</p>
+          {status === "missing" ? (
+            <p className="text-[11px] text-amber-600 dark:text-amber-400">
+              Quote not found in the rendered page text; showing the page only.
+            </p>
+          ) : null}
+          {status === "error" ? <p className="text-[11px] text-rose-500">Could not render this page.</p> : null}
+        </div>
+        <button
+          type="button"
+          className="rounded-full border border-border/60 px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground hover:border-border/80 hover:text-foreground"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+      <div ref={containerRef} className="relative max-h-[70vh] overflow-auto rounded-lg border border-border/40 bg-white">
+        <div className="relative">
+          <canvas ref={canvasRef} className="block" />
+          {highlights.map((rect, index) => (
+            <div
+              key={index}
+              ref={index === 0 ? highlightRef : undefined}
+              className="pointer-events-none absolute rounded-sm bg-amber-300/40 ring-1 ring-amber-500/60"
+              style={rect}
+            />
+          ))}
+        </div>
+        {status === "loading" ? (
+          <p className="absolute inset-x-0 top-4 text-center text-[11px] text-muted-foreground">Rendering page…</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
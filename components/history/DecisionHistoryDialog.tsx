@@ -0,0 +1,132 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { DecisionFieldChange, DecisionHistoryEvent } from "@/lib/decisionHistory";
+
+type DecisionHistoryDialogProps = {
+  open: boolean;
+  title: string;
+  description?: string;
+  events: DecisionHistoryEvent[];
+  // Set once older events have been dropped from the history; versions from before it cannot be restored.
+  historyStart?: number | null;
+  // Shows the decision name on each event; used when the dialog lists a whole dataset.
+  showLabels?: boolean;
+  onClose: () => void;
+  onRevert?: (recordKey: string, asOf: number) => void;
+};
+
+const ACTION_LABELS: Record<DecisionHistoryEvent["action"], string> = {
+  created: "Logged",
+  updated: "Edited",
+  deleted: "Deleted",
+};
+
+const formatFieldValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") {
+    const text = JSON.stringify(value);
+    return text.length > 40 ? `${text.slice(0, 37)}…` : text;
+  }
+  return String(value);
+};
+
+const formatChange = (change: DecisionFieldChange) =>
+  `${change.field}: ${formatFieldValue(change.from)} → ${formatFieldValue(change.to)}`;
+
+export function DecisionHistoryDialog({
+  open,
+  title,
+  description,
+  events,
+  historyStart = null,
+  showLabels = false,
+  onClose,
+  onRevert,
+}: DecisionHistoryDialogProps) {
+  const ordered = [...events].sort((a, b) => b.at - a.at);
+  const latest = ordered[0];
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => (!nextOpen ? onClose() : undefined)}>
+      <DialogContent className="max-h-[85vh] max-w-xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 text-sm">
+          {description ? <p className="text-muted-foreground">{description}</p> : null}
+          {historyStart !== null ? (
+            <p className="text-muted-foreground">
+              Changes before {new Date(historyStart).toLocaleString()} are no longer kept, so earlier versions cannot be
+              restored.
+            </p>
+          ) : null}
+          {latest && onRevert && !showLabels ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onRevert(latest.recordKey, latest.at - 1)}
+            >
+              Undo last change
+            </Button>
+          ) : null}
+          {ordered.length === 0 ? (
+            <p className="text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-2">
+              {ordered.map((event) => (
+                <li key={event.id} className="space-y-1 rounded-lg border bg-muted/30 p-3 text-xs">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{ACTION_LABELS[event.action]}</Badge>
+                      {event.revertedTo !== undefined ? <Badge variant="secondary">Revert</Badge> : null}
+                      {showLabels ? <span className="font-medium text-foreground">{event.label}</span> : null}
+                    </div>
+                    <span className="text-muted-foreground">
+                      {new Date(event.at).toLocaleString()} · {event.actor ?? "Local user"}
+                    </span>
+                  </div>
+                  {event.action === "updated" ? (
+                    <ul className="space-y-0.5 text-muted-foreground">
+                      {event.changes.map((change) => (
+                        <li key={change.field}>{formatChange(change)}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  {onRevert ? (
+                    <div className="flex justify-end gap-2">
+                      {event.action === "deleted" ? (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => onRevert(event.recordKey, event.at - 1)}
+                        >
+                          Restore decision
+                        </Button>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => onRevert(event.recordKey, event.at)}
+                        >
+                          Revert to this version
+                        </Button>
+                      )}
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
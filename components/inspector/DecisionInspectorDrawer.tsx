@@ -1,11 +1,16 @@
 "use client";
 
 import Link from "next/link";
+import { useState } from "react";
+import { useDataset } from "@/components/DatasetProvider";
+import { RescoreDecisionDialog } from "@/components/log/RescoreDecisionDialog";
+import { SensitivityContent } from "@/components/sensitivity/SensitivityPanel";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import type { DecisionEntry } from "@/lib/calculations";
 import { getWhySentence } from "@/lib/inspector";
+import { getLatestRescore, rescoreDecision, type RescoreInput } from "@/lib/rescore";
 import { cn } from "@/lib/utils";
 
 type DecisionInspectorDrawerProps = {
@@ -67,6 +72,7 @@ export function DecisionInspectorDrawer({
   open,
   onClose,
   decisionIndex,
+  decision,
   regimeLabel,
   returnValue,
   pressureValue,
@@ -75,10 +81,20 @@ export function DecisionInspectorDrawer({
 }: DecisionInspectorDrawerProps) {
   const titleIndex = decisionIndex ?? "—";
   const resolvedRegime = regimeLabel ?? "Unscored";
+  const { scoringProfile, decisions, setDecisions } = useDataset();
+  const [rescoreOpen, setRescoreOpen] = useState(false);
+  // Re-scoring writes to the active dataset, so it is only offered for decisions that live there.
+  const storedDecision = decision ? decisions.find((entry) => entry.ts === decision.ts) ?? null : null;
+  const latestRescore = storedDecision ? getLatestRescore(storedDecision) : null;
+
+  const handleRescore = (target: DecisionEntry, input: RescoreInput) => {
+    setDecisions((prev) => prev.map((entry) => (entry.ts === target.ts ? rescoreDecision(entry, input) : entry)));
+    setRescoreOpen(false);
+  };
 
   return (
     <Sheet open={open} onOpenChange={(nextOpen) => (!nextOpen ? onClose() : undefined)}>
-      <SheetContent side="right" className="w-full max-w-none p-6 sm:max-w-[420px]">
+      <SheetContent side="right" className="w-full max-w-none overflow-y-auto p-6 sm:max-w-[420px]">
         <div className="flex h-full flex-col gap-4">
           <div className="space-y-1">
             <p className="text-lg font-semibold text-foreground">
@@ -108,6 +124,26 @@ export function DecisionInspectorDrawer({
             <MeterRow label="Stability" value={stabilityValue} tone="positive" />
           </div>
 
+          {decision ? (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-foreground">Sensitivity</p>
+              <SensitivityContent variables={decision} profile={scoringProfile} compact />
+            </div>
+          ) : null}
+
+          {storedDecision ? (
+            <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">
+                {latestRescore
+                  ? `Re-scored ${storedDecision.rescores?.length ?? 0}× · latest R ${latestRescore.return} · P ${latestRescore.pressure} · S ${latestRescore.stability}`
+                  : "Score this decision again to track how your read has drifted."}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => setRescoreOpen(true)}>
+                Re-score
+              </Button>
+            </div>
+          ) : null}
+
           <details className="rounded-lg border bg-muted/40 p-3">
             <summary className="cursor-pointer text-sm font-semibold text-foreground">
               Calculation details
@@ -127,6 +163,12 @@ export function DecisionInspectorDrawer({
           </div>
         </div>
       </SheetContent>
+      <RescoreDecisionDialog
+        key={storedDecision && rescoreOpen ? `rescore-${storedDecision.ts}` : "rescore-none"}
+        decision={rescoreOpen ? storedDecision : null}
+        onClose={() => setRescoreOpen(false)}
+        onSubmit={handleRescore}
+      />
     </Sheet>
   );
 }
@@ -1,5 +1,6 @@
 "use client";
 
+import { NotificationCenter } from "@/components/alerts/NotificationCenter";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
@@ -32,6 +33,7 @@ export default function Header() {
         </Link>
       </div>
       <div className="flex items-center gap-2">
+        <NotificationCenter />
         {showThemeToggle ? <ThemeToggle /> : null}
         <Button variant="outline" size="sm" onClick={(event) => openDefinitions(event.currentTarget)}>
           Help
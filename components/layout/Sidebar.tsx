@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/sidebar";
 import {
   Activity,
+  BellRing,
   BookOpen,
   Calculator,
   FileText,
@@ -22,6 +23,7 @@ import {
   MessageSquare,
   Map,
   Users,
+  UsersRound,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import Image from "next/image";
@@ -34,6 +36,8 @@ const items: Array<{ href: string; label: string; icon: LucideIcon }> = [
   { href: "/reports", label: "Reports", icon: FileText },
   { href: "/calculator", label: "Patterns", icon: Calculator },
   { href: "/log", label: "Log", icon: ListOrdered },
+  { href: "/alerts", label: "Alerts", icon: BellRing },
+  { href: "/workspaces", label: "Workspaces", icon: UsersRound },
   { href: "/definitions", label: "Definitions", icon: BookOpen },
   { href: "/scenarios", label: "Scenarios", icon: Map },
   { href: "/use-cases", label: "Use Cases", icon: Users },
@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { planBundleImport, type BundleImportMode, type DnavBundle } from "@/lib/bundle";
+import type { DatasetId, DatasetState } from "@/types/dataset";
+
+export interface BundleRestoreOptions {
+  modes: Record<DatasetId, BundleImportMode>;
+  restoreContext: boolean;
+  restoreSummaries: boolean;
+  restoreSession: boolean;
+}
+
+type BundleImportDialogProps = {
+  bundle: DnavBundle | null;
+  datasets: DatasetState[];
+  onClose: () => void;
+  onConfirm: (bundle: DnavBundle, options: BundleRestoreOptions) => void;
+};
+
+const MODE_LABELS: Record<BundleImportMode, string> = {
+  merge: "Merge into existing",
+  replace: "Replace existing",
+  add: "Add as new dataset",
+  skip: "Skip",
+};
+
+export function BundleImportDialog({ bundle, datasets, onClose, onConfirm }: BundleImportDialogProps) {
+  const plan = useMemo(() => (bundle ? planBundleImport(datasets, bundle) : []), [bundle, datasets]);
+  const [modes, setModes] = useState<Record<DatasetId, BundleImportMode>>({});
+  const [restoreContext, setRestoreContext] = useState(true);
+  const [restoreSummaries, setRestoreSummaries] = useState(true);
+  const [restoreSession, setRestoreSession] = useState(false);
+
+  const hasSummaries = Boolean(bundle?.companySummary) || Object.keys(bundle?.archetypeSummaries ?? {}).length > 0;
+  const sessionCount = bundle?.stressTestSession.length ?? 0;
+
+  return (
+    <Dialog open={Boolean(bundle)} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Restore D-NAV bundle</DialogTitle>
+        </DialogHeader>
+        {bundle ? (
+          <div className="space-y-4 text-sm">
+            <p className="text-muted-foreground">
+              Exported {new Date(bundle.exportedAt).toLocaleString()} with {bundle.datasets.length} dataset
+              {bundle.datasets.length === 1 ? "" : "s"}. Choose how each dataset should be restored.
+            </p>
+            <div className="space-y-2">
+              {plan.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-foreground">{item.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.decisionCount} decision{item.decisionCount === 1 ? "" : "s"}
+                      {item.existingLabel ? ` · matches ${item.existingLabel}` : " · new"}
+                    </p>
+                  </div>
+                  <Select
+                    value={modes[item.id] ?? item.defaultMode}
+                    onValueChange={(value) => setModes((prev) => ({ ...prev, [item.id]: value as BundleImportMode }))}
+                  >
+                    <SelectTrigger className="w-[190px]" size="sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {item.modes.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {bundle.companyContext ? (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={restoreContext} onCheckedChange={(checked) => setRestoreContext(checked as boolean)} />
+                  Restore company context ({bundle.companyContext.companyName || "unnamed"})
+                </label>
+              ) : null}
+              {hasSummaries ? (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={restoreSummaries}
+                    onCheckedChange={(checked) => setRestoreSummaries(checked as boolean)}
+                  />
+                  Restore cached company and archetype summaries
+                </label>
+              ) : null}
+              {sessionCount > 0 ? (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={restoreSession} onCheckedChange={(checked) => setRestoreSession(checked as boolean)} />
+                  Replace the stress-test session with {sessionCount} saved decision{sessionCount === 1 ? "" : "s"}
+                </label>
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() =>
+              bundle
+                ? onConfirm(bundle, {
+                    modes: Object.fromEntries(plan.map((item) => [item.id, modes[item.id] ?? item.defaultMode])),
+                    restoreContext: Boolean(bundle.companyContext) && restoreContext,
+                    restoreSummaries: hasSummaries && restoreSummaries,
+                    restoreSession: sessionCount > 0 && restoreSession,
+                  })
+                : undefined
+            }
+          >
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DecisionEntry } from "@/lib/calculations";
+import {
+  IMPORT_FIELDS,
+  SCORE_FIELDS,
+  applyImportMapping,
+  detectColumnScale,
+  getColumnValues,
+  getMissingRequiredFields,
+  isPresetApplicable,
+  parseNumericCell,
+  suggestMappingConfig,
+  type ColumnScale,
+  type DateOrder,
+  type ImportFieldKey,
+  type ImportMappingConfig,
+  type ImportMappingPreset,
+  type ScoreFieldKey,
+  type SheetPreview,
+} from "@/lib/importMapping";
+import { loadImportPresets, saveImportPresets } from "@/lib/storage";
+
+type ImportMappingWizardProps = {
+  preview: SheetPreview | null;
+  fileName: string;
+  onClose: () => void;
+  onImport: (decisions: DecisionEntry[]) => void;
+};
+
+const NO_COLUMN = "__none";
+const PREVIEW_LIMIT = 50;
+
+const SCALE_OPTIONS: { value: string; label: string; scale: ColumnScale | null }[] = [
+  { value: "none", label: "Already 1–10", scale: null },
+  { value: "0-1", label: "0–1", scale: { min: 0, max: 1 } },
+  { value: "1-5", label: "1–5", scale: { min: 1, max: 5 } },
+  { value: "0-10", label: "0–10", scale: { min: 0, max: 10 } },
+  { value: "0-100", label: "0–100", scale: { min: 0, max: 100 } },
+];
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  auto: "Detect automatically",
+  mdy: "Month / day / year",
+  dmy: "Day / month / year",
+  ymd: "Year / month / day",
+};
+
+const scaleKey = (scale: ColumnScale | null | undefined) => {
+  if (!scale) return "none";
+  const match = SCALE_OPTIONS.find((option) => option.scale?.min === scale.min && option.scale?.max === scale.max);
+  return match ? match.value : "observed";
+};
+
+export function ImportMappingWizard({ preview, fileName, onClose, onImport }: ImportMappingWizardProps) {
+  const [config, setConfig] = useState<ImportMappingConfig>(() =>
+    preview ? suggestMappingConfig(preview) : suggestMappingConfig({ headers: [], rows: [] }),
+  );
+  const [presets, setPresets] = useState<ImportMappingPreset[]>(() => loadImportPresets());
+  const [presetName, setPresetName] = useState("");
+  const [issuesOnly, setIssuesOnly] = useState(false);
+
+  const headers = useMemo(() => preview?.headers ?? [], [preview]);
+  const rows = useMemo(() => (preview ? applyImportMapping(preview, config) : []), [config, preview]);
+  const missing = getMissingRequiredFields(config);
+  const validRows = rows.filter((row) => row.decision);
+  const errorCount = rows.length - validRows.length;
+  const warningCount = rows.filter((row) => row.warnings.length > 0).length;
+  const visibleRows = (issuesOnly ? rows.filter((row) => row.errors.length || row.warnings.length) : rows).slice(
+    0,
+    PREVIEW_LIMIT,
+  );
+  const applicablePresets = presets.filter((preset) => isPresetApplicable(preset, headers));
+
+  const observedScale = (field: ScoreFieldKey): ColumnScale | null => {
+    if (!preview) return null;
+    const numbers = getColumnValues(preview, config.columns[field])
+      .map(parseNumericCell)
+      .filter((value): value is number => value !== null);
+    return numbers.length ? { min: Math.min(...numbers), max: Math.max(...numbers) } : null;
+  };
+
+  const setColumn = (field: ImportFieldKey, header: string) => {
+    setConfig((prev) => {
+      const columns = { ...prev.columns, [field]: header === NO_COLUMN ? undefined : header };
+      if (!preview || !SCORE_FIELDS.includes(field as ScoreFieldKey)) return { ...prev, columns };
+      const detected = detectColumnScale(getColumnValues(preview, columns[field]));
+      return { ...prev, columns, scales: { ...prev.scales, [field]: detected } };
+    });
+  };
+
+  const setScale = (field: ScoreFieldKey, value: string) => {
+    const scale =
+      value === "observed" ? observedScale(field) : SCALE_OPTIONS.find((option) => option.value === value)?.scale ?? null;
+    setConfig((prev) => ({ ...prev, scales: { ...prev.scales, [field]: scale } }));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = [...presets.filter((preset) => preset.name !== name), { name, config, savedAt: Date.now() }];
+    setPresets(next);
+    saveImportPresets(next);
+    setPresetName("");
+  };
+
+  const handleDeletePreset = (name: string) => {
+    const next = presets.filter((preset) => preset.name !== name);
+    setPresets(next);
+    saveImportPresets(next);
+  };
+
+  return (
+    <Dialog open={Boolean(preview)} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+        </DialogHeader>
+        {preview ? (
+          <div className="space-y-5 text-sm">
+            <p className="text-muted-foreground">
+              {fileName} · {preview.rows.length} row{preview.rows.length === 1 ? "" : "s"} · {headers.length} column
+              {headers.length === 1 ? "" : "s"}. Match each D-NAV field to a column and set how scores should be
+              rescaled.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-2">
+              {applicablePresets.length > 0 ? (
+                <div className="space-y-1">
+                  <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Preset</span>
+                  <Select
+                    onValueChange={(name) => {
+                      const preset = applicablePresets.find((item) => item.name === name);
+                      if (preset) setConfig(preset.config);
+                    }}
+                  >
+                    <SelectTrigger className="w-[200px]" size="sm">
+                      <SelectValue placeholder="Apply a saved preset" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {applicablePresets.map((preset) => (
+                        <SelectItem key={preset.name} value={preset.name}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : null}
+              <div className="space-y-1">
+                <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Save as</span>
+                <Input
+                  value={presetName}
+                  onChange={(event) => setPresetName(event.target.value)}
+                  placeholder="Preset name"
+                  className="h-8 w-[180px] text-sm"
+                />
+              </div>
+              <Button type="button" variant="secondary" size="sm" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                Save preset
+              </Button>
+              {presets.map((preset) => (
+                <Badge key={preset.name} variant="outline" className="gap-1">
+                  {preset.name}
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => handleDeletePreset(preset.name)}
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    ×
+                  </button>
+                </Badge>
+              ))}
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              {IMPORT_FIELDS.map((field) => {
+                const isScore = SCORE_FIELDS.includes(field.key as ScoreFieldKey);
+                const scale = isScore ? config.scales[field.key as ScoreFieldKey] : null;
+                const observed = isScore ? observedScale(field.key as ScoreFieldKey) : null;
+                return (
+                  <div key={field.key} className="space-y-1 rounded-md border px-3 py-2">
+                    <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+                      {field.label}
+                      {field.required ? " *" : ""}
+                    </span>
+                    <div className="flex gap-2">
+                      <Select
+                        value={config.columns[field.key] ?? NO_COLUMN}
+                        onValueChange={(value) => setColumn(field.key, value)}
+                      >
+                        <SelectTrigger className="w-full" size="sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>Not mapped</SelectItem>
+                          {headers.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {isScore ? (
+                        <Select
+                          value={scaleKey(scale)}
+                          onValueChange={(value) => setScale(field.key as ScoreFieldKey, value)}
+                          disabled={!config.columns[field.key]}
+                        >
+                          <SelectTrigger className="w-[150px]" size="sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SCALE_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                            {observed ? (
+                              <SelectItem value="observed">
+                                Observed {observed.min}–{observed.max}
+                              </SelectItem>
+                            ) : null}
+                          </SelectContent>
+                        </Select>
+                      ) : null}
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="space-y-1 rounded-md border px-3 py-2">
+                <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Date format</span>
+                <Select
+                  value={config.dateOrder}
+                  onValueChange={(value) => setConfig((prev) => ({ ...prev, dateOrder: value as DateOrder }))}
+                >
+                  <SelectTrigger className="w-full" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map((order) => (
+                      <SelectItem key={order} value={order}>
+                        {DATE_ORDER_LABELS[order]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 rounded-md border px-3 py-2">
+                <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+                  Default category
+                </span>
+                <Input
+                  value={config.defaultCategory}
+                  onChange={(event) => setConfig((prev) => ({ ...prev, defaultCategory: event.target.value }))}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{validRows.length} ready</Badge>
+                  {errorCount > 0 ? <Badge variant="destructive">{errorCount} with errors</Badge> : null}
+                  {warningCount > 0 ? <Badge variant="outline">{warningCount} with warnings</Badge> : null}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Checkbox checked={issuesOnly} onCheckedChange={(checked) => setIssuesOnly(checked as boolean)} />
+                  Only rows with issues
+                </label>
+              </div>
+              {missing.length > 0 ? (
+                <p className="text-xs text-destructive">
+                  Map the required field{missing.length === 1 ? "" : "s"}: {missing.map((field) => field.label).join(", ")}.
+                </p>
+              ) : null}
+              <div className="max-h-[320px] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Decision</TableHead>
+                      <TableHead className="text-right">I / C / R / U / Conf</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Issues</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">{row.decision?.name ?? "—"}</TableCell>
+                        <TableCell className="text-right text-xs tabular-nums">
+                          {row.decision
+                            ? SCORE_FIELDS.map((field) => row.decision?.[field]).join(" / ")
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.decision ? new Date(row.decision.ts).toLocaleDateString() : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-destructive">
+                              {error}
+                            </p>
+                          ))}
+                          {row.warnings.map((warning) => (
+                            <p key={warning} className="text-amber-600">
+                              {warning}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {rows.length > PREVIEW_LIMIT ? (
+                <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_LIMIT} rows.</p>
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={missing.length > 0 || validRows.length === 0}
+            onClick={() => onImport(validRows.map((row) => row.decision as DecisionEntry))}
+          >
+            Import {validRows.length} decision{validRows.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
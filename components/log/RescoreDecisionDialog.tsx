@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+
+import SliderRow from "@/components/SliderRow";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type { DecisionEntry } from "@/lib/calculations";
+import { getLatestRescore, getOriginalScores, RESCORE_VARIABLES, type RescoreInput } from "@/lib/rescore";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+
+type RescoreDecisionDialogProps = {
+  decision: DecisionEntry | null;
+  onClose: () => void;
+  onSubmit: (decision: DecisionEntry, input: RescoreInput) => void;
+  onClear?: (decision: DecisionEntry) => void;
+};
+
+const buildDraft = (decision: DecisionEntry | null): RescoreInput => {
+  const latest = decision ? getLatestRescore(decision) : null;
+  const source = latest ?? decision;
+  return {
+    impact: source?.impact ?? 5,
+    cost: source?.cost ?? 5,
+    risk: source?.risk ?? 5,
+    urgency: source?.urgency ?? 5,
+    confidence: source?.confidence ?? 5,
+    note: "",
+  };
+};
+
+const formatDelta = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+
+// Remount with a new key per decision so the draft starts from that decision's latest score.
+export function RescoreDecisionDialog({ decision, onClose, onSubmit, onClear }: RescoreDecisionDialogProps) {
+  const [draft, setDraft] = useState<RescoreInput>(() => buildDraft(decision));
+  const original = decision ? getOriginalScores(decision) : null;
+  const history = [...(decision?.rescores ?? [])].reverse();
+
+  const draftMetrics = computeMetrics(draft);
+  const originalMetrics = original ? computeMetrics(original) : null;
+  const returnDelta = originalMetrics ? draftMetrics.return - originalMetrics.return : 0;
+  const stabilityDelta = originalMetrics ? draftMetrics.stability - originalMetrics.stability : 0;
+
+  return (
+    <Dialog open={Boolean(decision)} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-score decision</DialogTitle>
+        </DialogHeader>
+        {decision && original ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Score <span className="font-medium text-foreground">{decision.name}</span> again with what you know now.
+              The original sliders stay on record so drift can be measured against them.
+            </p>
+            <div>
+              {RESCORE_VARIABLES.map((field) => (
+                <SliderRow
+                  key={field.key}
+                  id={`rescore-${field.key}`}
+                  label={field.label}
+                  hint={`Originally ${original[field.key]}`}
+                  value={draft[field.key]}
+                  onChange={(value) => setDraft((prev) => ({ ...prev, [field.key]: value }))}
+                  compact
+                />
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Original {RESCORE_VARIABLES.map((field) => `${field.label} ${original[field.key]}`).join(" · ")}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Return {formatDelta(returnDelta)} · Stability {formatDelta(stabilityDelta)} vs the original score
+            </p>
+            <div className="space-y-1">
+              <label
+                className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground"
+                htmlFor="rescore-note"
+              >
+                Note
+              </label>
+              <Textarea
+                id="rescore-note"
+                rows={2}
+                placeholder="What changed your read?"
+                value={draft.note ?? ""}
+                onChange={(event) => setDraft((prev) => ({ ...prev, note: event.target.value }))}
+              />
+            </div>
+            {history.length ? (
+              <div className="space-y-1 rounded-lg border bg-muted/30 p-3 text-xs">
+                <p className="font-semibold uppercase tracking-wide text-muted-foreground">Re-score history</p>
+                {history.map((entry) => (
+                  <div key={entry.recordedAt} className="flex items-start justify-between gap-3">
+                    <span className="text-foreground">
+                      {new Date(entry.recordedAt).toLocaleDateString()}
+                      {entry.note ? <span className="text-muted-foreground"> — {entry.note}</span> : null}
+                    </span>
+                    <span className="whitespace-nowrap text-muted-foreground">
+                      R {entry.return} · P {entry.pressure} · S {entry.stability}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+        <DialogFooter className="gap-2">
+          {decision?.rescores?.length && onClear ? (
+            <Button type="button" variant="ghost" onClick={() => onClear(decision)}>
+              Clear re-scores
+            </Button>
+          ) : null}
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => (decision ? onSubmit(decision, draft) : undefined)}>
+            Save re-score
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { DecisionEntry } from "@/lib/calculations";
+import { OUTCOME_VARIABLES, type OutcomeInput } from "@/lib/outcomes";
+
+type ResolveOutcomeDialogProps = {
+  decision: DecisionEntry | null;
+  onClose: () => void;
+  onSubmit: (decision: DecisionEntry, outcome: OutcomeInput) => void;
+  onClear?: (decision: DecisionEntry) => void;
+};
+
+const buildDraft = (decision: DecisionEntry | null): OutcomeInput => ({
+  impact: decision?.outcome?.impact ?? decision?.impact ?? 5,
+  cost: decision?.outcome?.cost ?? decision?.cost ?? 5,
+  risk: decision?.outcome?.risk ?? decision?.risk ?? 5,
+  note: decision?.outcome?.note ?? "",
+});
+
+export function ResolveOutcomeDialog({ decision, onClose, onSubmit, onClear }: ResolveOutcomeDialogProps) {
+  const [draft, setDraft] = useState<OutcomeInput>(() => buildDraft(decision));
+
+  useEffect(() => {
+    setDraft(buildDraft(decision));
+  }, [decision]);
+
+  const realizedReturn = draft.impact - draft.cost;
+  const forecastReturn = decision ? decision.impact - decision.cost : 0;
+
+  return (
+    <Dialog open={Boolean(decision)} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record outcome</DialogTitle>
+        </DialogHeader>
+        {decision ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Re-score <span className="font-medium text-foreground">{decision.name}</span> with what actually happened.
+              Forecast values are shown for reference.
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              {OUTCOME_VARIABLES.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <label
+                    className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground"
+                    htmlFor={`outcome-${field.key}`}
+                  >
+                    {field.label}
+                  </label>
+                  <Input
+                    id={`outcome-${field.key}`}
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={draft[field.key]}
+                    onChange={(event) => {
+                      const numeric = Number(event.target.value);
+                      if (Number.isNaN(numeric)) return;
+                      setDraft((prev) => ({ ...prev, [field.key]: numeric }));
+                    }}
+                    className="h-8 text-sm"
+                  />
+                  <p className="text-[11px] text-muted-foreground">Forecast {decision[field.key]}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Realized Return {realizedReturn.toFixed(1)} vs forecast {forecastReturn.toFixed(1)} (
+              {realizedReturn - forecastReturn >= 0 ? "+" : ""}
+              {(realizedReturn - forecastReturn).toFixed(1)})
+            </p>
+            <div className="space-y-1">
+              <label
+                className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground"
+                htmlFor="outcome-note"
+              >
+                Note
+              </label>
+              <Textarea
+                id="outcome-note"
+                rows={2}
+                placeholder="What drove the result?"
+                value={draft.note ?? ""}
+                onChange={(event) => setDraft((prev) => ({ ...prev, note: event.target.value }))}
+              />
+            </div>
+          </div>
+        ) : null}
+        <DialogFooter className="gap-2">
+          {decision?.outcome && onClear ? (
+            <Button type="button" variant="ghost" onClick={() => onClear(decision)}>
+              Clear outcome
+            </Button>
+          ) : null}
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => (decision ? onSubmit(decision, draft) : undefined)}>
+            Save outcome
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  scoringProfileSchema,
+  type ArchetypeDeadBands,
+  type ScoringCoefficients,
+  type ScoringProfile,
+} from "@/lib/scoringProfiles";
+
+type ScoringProfileDialogProps = {
+  // The profile the draft starts from; closed when null.
+  base: ScoringProfile | null;
+  onClose: () => void;
+  onSave: (profile: ScoringProfile) => void;
+};
+
+const COEFFICIENT_FIELDS: { key: keyof ScoringCoefficients; label: string }[] = [
+  { key: "impact", label: "Impact weight" },
+  { key: "cost", label: "Cost weight" },
+  { key: "risk", label: "Risk weight" },
+  { key: "energy", label: "Urgency × Confidence weight" },
+];
+
+const DEAD_BAND_FIELDS: { key: keyof ArchetypeDeadBands; label: string }[] = [
+  { key: "return", label: "Return dead-band" },
+  { key: "pressure", label: "Pressure dead-band" },
+  { key: "stability", label: "Stability dead-band" },
+];
+
+// Inputs hold text while editing so a cleared field does not turn into NaN mid-typing.
+const toDraft = <T extends object>(values: T) =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)])) as Record<keyof T, string>;
+
+const fromDraft = <T extends object>(draft: Record<keyof T, string>) =>
+  Object.fromEntries(Object.entries(draft).map(([key, value]) => [key, Number.parseFloat(value as string)])) as T;
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Remount with a new key per base profile so the draft starts from its weights.
+export function ScoringProfileDialog({ base, onClose, onSave }: ScoringProfileDialogProps) {
+  const [name, setName] = useState(() => (base ? `${base.name} (custom)` : ""));
+  const [coefficients, setCoefficients] = useState(() =>
+    toDraft<ScoringCoefficients>(base?.coefficients ?? { impact: 1, cost: 1, risk: 1, energy: 1 }),
+  );
+  const [deadBands, setDeadBands] = useState(() =>
+    toDraft<ArchetypeDeadBands>(base?.deadBands ?? { return: 0, pressure: 0, stability: 0 }),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const parsed = scoringProfileSchema.safeParse({
+      id: `custom-${slugify(name) || "profile"}`,
+      name: name.trim(),
+      description: "User-defined profile.",
+      coefficients: fromDraft<ScoringCoefficients>(coefficients),
+      deadBands: fromDraft<ArchetypeDeadBands>(deadBands),
+    });
+    const invalid =
+      !parsed.success ||
+      !parsed.data.name ||
+      Object.values(parsed.data.coefficients).some((value) => !Number.isFinite(value) || value < 0) ||
+      Object.values(parsed.data.deadBands).some((value) => !Number.isFinite(value) || value < 0);
+    if (invalid) {
+      setError("Give the profile a name and use non-negative numbers for every weight and dead-band.");
+      return;
+    }
+    onSave(parsed.data);
+  };
+
+  return (
+    <Dialog open={Boolean(base)} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom scoring profile</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 text-sm">
+          <p className="text-muted-foreground">
+            The profile is saved with this dataset and travels with it in bundles. Saving it rescores every decision.
+          </p>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-foreground" htmlFor="scoring-profile-name">
+              Name
+            </label>
+            <Input id="scoring-profile-name" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {COEFFICIENT_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-xs font-medium text-foreground" htmlFor={`scoring-profile-${field.key}`}>
+                  {field.label}
+                </label>
+                <Input
+                  id={`scoring-profile-${field.key}`}
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={coefficients[field.key]}
+                  onChange={(event) => setCoefficients((prev) => ({ ...prev, [field.key]: event.target.value }))}
+                />
+              </div>
+            ))}
+            {DEAD_BAND_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-xs font-medium text-foreground" htmlFor={`scoring-profile-${field.key}-band`}>
+                  {field.label}
+                </label>
+                <Input
+                  id={`scoring-profile-${field.key}-band`}
+                  type="number"
+                  step="0.5"
+                  min={0}
+                  value={deadBands[field.key]}
+                  onChange={(event) => setDeadBands((prev) => ({ ...prev, [field.key]: event.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          {error ? <p className="text-xs text-destructive">{error}</p> : null}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { Badge } from "@/components/ui/badge";
-import { getArchetypeSignals, type RpsSignal } from "@/lib/calculations";
+import { getArchetypeSignals } from "@/src/lib/dnav/archetypes";
+import type { RpsSignal } from "@/src/lib/dnav/types";
 import { cn } from "@/lib/utils";
 
 type ArchetypeRpsChipsProps = {
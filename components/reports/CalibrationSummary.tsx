@@ -0,0 +1,52 @@
+import { ReliabilityCurve } from "@/components/reports/ReliabilityCurve";
+import { type CalibrationReport } from "@/lib/calibration";
+
+type CalibrationSummaryProps = {
+  calibration: CalibrationReport;
+  periodLabel: string;
+};
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+export function CalibrationSummary({ calibration, periodLabel }: CalibrationSummaryProps) {
+  if (calibration.resolvedCount === 0) return null;
+
+  return (
+    <section className="report-card rounded-2xl border border-black/10 bg-white p-5">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="space-y-1">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
+            Confidence Calibration — {periodLabel}
+          </p>
+          <p className="text-[13px] leading-[1.45] text-neutral-900">
+            {calibration.resolvedCount} resolved decisions · {calibration.classification} · Brier{" "}
+            {(calibration.brierScore ?? 0).toFixed(2)} · Calibration error{" "}
+            {formatPct((calibration.expectedCalibrationError ?? 0) * 100)}
+          </p>
+        </div>
+        <span className="text-[11px] text-neutral-900">Confidence vs realized Stability</span>
+      </div>
+      <div className="mt-4 grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] print:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <ReliabilityCurve bins={calibration.bins} height={200} />
+        <table className="w-full text-[13px] leading-[1.45]">
+          <thead className="text-[11px] uppercase tracking-wide text-neutral-900">
+            <tr>
+              <th className="py-1 text-left font-semibold">Category</th>
+              <th className="py-1 text-right font-semibold">Resolved</th>
+              <th className="py-1 text-right font-semibold">Read</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-black/10">
+            {calibration.byCategory.slice(0, 5).map((row) => (
+              <tr key={row.label}>
+                <td className="py-1 text-neutral-900">{row.label}</td>
+                <td className="py-1 text-right text-neutral-900">{row.count}</td>
+                <td className="py-1 text-right text-neutral-900">{row.classification}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -1,5 +1,13 @@
 import { ArchetypeRpsChips } from "@/components/reports/ArchetypeRpsChips";
+import { CalibrationSummary } from "@/components/reports/CalibrationSummary";
+import { MetricDistribution } from "@/components/reports/MetricDistribution";
+import { Callout } from "@/components/ui/Callout";
+import { Badge } from "@/components/ui/badge";
+import { type CalibrationReport } from "@/lib/calibration";
+import { type CategoryActionInsightResult } from "@/lib/categoryActionInsight";
 import type { CompanyPeriodSnapshot, FullInterpretation } from "@/lib/dnavSummaryEngine";
+import { isDefaultScoringProfile, type ScoringProfile } from "@/lib/scoringProfiles";
+import { cn } from "@/lib/utils";
 
 type BaselineDistribution = {
   positive: number;
@@ -22,6 +30,7 @@ type TopCategory = {
   avgP: number;
   avgS: number;
   dominantFactor: string | null;
+  insight: CategoryActionInsightResult;
 };
 
 type ArchetypeSummary = {
@@ -46,6 +55,8 @@ type OnePageReportProps = {
   topCategories: TopCategory[];
   sortedArchetypes: ArchetypeSummary[];
   learningStats: LearningStats;
+  calibration?: CalibrationReport;
+  scoringProfile?: ScoringProfile;
 };
 
 const formatPct = (value: number) => `${value.toFixed(1)}%`;
@@ -57,242 +68,298 @@ export default function OnePageReport({
   topCategories,
   sortedArchetypes,
   learningStats,
+  calibration,
+  scoringProfile,
 }: OnePageReportProps) {
   const { companyName, periodLabel, rpsBaseline } = snapshot;
   const { returnDistribution, pressureDistribution, stabilityDistribution } = baselineDistributions;
+  const signalToneStyles = {
+    strong: "bg-emerald-100 text-emerald-700",
+    medium: "bg-amber-100 text-amber-700",
+    weak: "bg-muted text-neutral-600",
+  };
 
   const primaryArchetype = sortedArchetypes[0];
   const secondaryArchetype = sortedArchetypes[1];
+  const archetypeRows = sortedArchetypes.slice(0, 4);
+  const neutralStatPillClass =
+    "rounded-full px-2 py-0.5 text-[10px] font-medium bg-muted/40 text-muted-foreground border border-muted/60";
 
-  return (
-    <div className="report-print-page mx-auto max-w-5xl bg-white text-slate-900 p-8 print:p-6 print:max-w-none">
-      {/* Header */}
-      <header className="flex items-baseline justify-between gap-4 border-b pb-3 mb-4">
-        <div>
-          <h1 className="text-2xl font-semibold tracking-tight">
-            {companyName} · Decision Orbit {periodLabel}
-          </h1>
-          <p className="text-xs text-slate-500 mt-1">
-            System-level RPS profile across {rpsBaseline.totalDecisions} logged decisions
-          </p>
-        </div>
-        <div className="text-right text-xs">
-          <p className="font-medium">D-NAV Executive Readout</p>
-          <p className="text-slate-500">R · P · S baseline · Learning · Terrain · Archetypes</p>
-        </div>
-      </header>
-
-      {/* Top grid: narratives + metrics */}
-      <section className="grid grid-cols-12 gap-4">
-        {/* Narrative column */}
-        <div className="col-span-12 space-y-3 md:col-span-7">
-          <h2 className="text-sm font-semibold tracking-wide text-slate-700 uppercase mb-1">Executive Summary</h2>
+  const getArchetypeShare = (count: number) =>
+    rpsBaseline.totalDecisions > 0 ? ((count / rpsBaseline.totalDecisions) * 100).toFixed(1) : "0.0";
 
-          <div className="space-y-2 text-xs leading-relaxed">
-            {/* RPS Baseline */}
-            <div>
-              <h3 className="font-semibold text-slate-800">RPS Baseline — Calm, repeatable execution</h3>
-              <p>{interpretation.rpsSummary}</p>
-            </div>
+  const systemDirectiveCopy = [
+    "This decision system is operating with stable footing and low overall pressure, favoring repeatable execution over high-variance bets.",
+    "The one thing the dataset must protect right now is Stability — improve results by increasing Impact selectively, without adding stress that weakens the base.",
+    "Most upside will come from concentration, not acceleration.",
+  ];
 
-            {/* Category Profile */}
-            <div>
-              <h3 className="font-semibold text-slate-800">Category Profile — Where judgment actually lives</h3>
-              <p>{interpretation.categorySummary}</p>
-            </div>
+  return (
+    <div className="report-page space-y-6">
+      <div
+        className="report-print-page mx-auto max-w-6xl space-y-5 rounded-2xl border border-black/10 bg-white p-6 text-black shadow-none print:max-w-none print:border-none print:bg-white"
+        style={{ colorScheme: "light" }}
+      >
+        <header className="flex flex-col gap-2 border-b border-black/10 pb-4 sm:flex-row sm:items-baseline sm:justify-between">
+          <div>
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">D-NAV Executive Readout</p>
+            <h1 className="text-xl font-semibold tracking-tight">
+              {companyName} · Decision Orbit {periodLabel}
+            </h1>
+            <p className="text-[13px] leading-[1.45] text-neutral-900">
+              System-level RPS profile across {rpsBaseline.totalDecisions} logged decisions
+            </p>
+          </div>
+          <div className="text-[13px] leading-[1.45] text-neutral-900 sm:text-right">
+            <p className="font-semibold text-neutral-900">R · P · S baseline · Learning · Terrain · Archetypes</p>
+            <p>Executive decision intelligence view</p>
+            {scoringProfile && !isDefaultScoringProfile(scoringProfile) && (
+              <p className="text-[11px] text-neutral-700">Scored with the {scoringProfile.name} profile</p>
+            )}
+          </div>
+        </header>
 
-            {/* Archetype Profile */}
-            <div>
-              <h3 className="font-semibold text-slate-800">Archetype Profile — Behavioral fingerprint</h3>
-              <p>{interpretation.archetypeSummary}</p>
+        <section className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1.1fr)] print:grid-cols-[minmax(0,2fr)_minmax(0,1.1fr)]">
+          <div className="report-card rounded-2xl border border-black/10 bg-white p-5">
+            <div className="space-y-2">
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">Executive Overview</p>
+              <h2 className="text-lg font-semibold tracking-tight text-neutral-900">
+                {companyName} · Decision Orbit {periodLabel}
+              </h2>
+              <p className="text-[13px] leading-[1.45] text-neutral-900">
+                System-level RPS profile across {rpsBaseline.totalDecisions} logged decisions
+              </p>
             </div>
 
-            {/* Learning & Recovery */}
-            <div>
-              <h3 className="font-semibold text-slate-800">Learning &amp; Recovery — Decision debt &amp; correction</h3>
-              <p>{interpretation.learningSummary}</p>
-            </div>
-          </div>
-        </div>
-
-        {/* Metrics column */}
-        <div className="col-span-12 space-y-3 md:col-span-5">
-          {/* Key metrics */}
-          <div className="border rounded-md p-3">
-            <h2 className="text-sm font-semibold text-slate-700 mb-2">Key Metrics Snapshot</h2>
-            <div className="grid grid-cols-2 gap-2 text-xs">
-              <div>
-                <p className="text-[10px] uppercase text-slate-500">Average D-NAV</p>
-                <p className="text-lg font-semibold">{rpsBaseline.avgDnav.toFixed(1)}</p>
-                <p className="text-[11px] text-slate-500">Average judgment quality in this window after cost.</p>
-              </div>
-              <div>
-                <p className="text-[10px] uppercase text-slate-500">Avg Return (R)</p>
-                <p className="text-lg font-semibold">{rpsBaseline.avgReturn.toFixed(1)}</p>
-                <p className="text-[11px] text-slate-500">Net value creation per decision.</p>
+            <div className="mt-4 space-y-3 text-[13px] leading-[1.45] text-neutral-900">
+              <div className="space-y-1">
+                <h3 className="text-[13px] font-semibold text-neutral-900">RPS Baseline — Calm, repeatable execution</h3>
+                <p>{interpretation.rpsSummary}</p>
               </div>
-              <div>
-                <p className="text-[10px] uppercase text-slate-500">Avg Pressure (P)</p>
-                <p className="text-lg font-semibold">{rpsBaseline.avgPressure.toFixed(1)}</p>
-                <p className="text-[11px] text-slate-500">Execution stress posture.</p>
+              <div className="space-y-1">
+                <h3 className="text-[13px] font-semibold text-neutral-900">
+                  Category Profile — Where judgment actually lives
+                </h3>
+                <p>{interpretation.categorySummary}</p>
               </div>
-              <div>
-                <p className="text-[10px] uppercase text-slate-500">Avg Stability (S)</p>
-                <p className="text-lg font-semibold">{rpsBaseline.avgStability.toFixed(1)}</p>
-                <p className="text-[11px] text-slate-500">How safe decisions leave the system.</p>
+              <div className="space-y-1">
+                <h3 className="text-[13px] font-semibold text-neutral-900">
+                  Archetype Profile — Behavioral fingerprint
+                </h3>
+                <p>{interpretation.archetypeSummary}</p>
               </div>
-              <div>
-                <p className="text-[10px] uppercase text-slate-500">Learning Curve Index</p>
-                <p className="text-lg font-semibold">{learningStats.lci.toFixed(1)}</p>
-                <p className="text-[11px] text-slate-500">Recovery efficiency after dips.</p>
+              <div className="space-y-1">
+                <h3 className="text-[13px] font-semibold text-neutral-900">
+                  Learning &amp; Recovery — Decision debt &amp; correction
+                </h3>
+                <p>{interpretation.learningSummary}</p>
               </div>
             </div>
-          </div>
 
-          {/* Distributions */}
-          <div className="border rounded-md p-3 space-y-2">
-            <h2 className="text-sm font-semibold text-slate-700">Distributions ({periodLabel})</h2>
+          </div>
 
-            {/* Return */}
-            <div className="text-xs">
-              <div className="flex justify-between text-[11px] text-slate-500 mb-1">
-                <span>Return</span>
-                <span>
-                  Positive {formatPct(returnDistribution.positive)} · Neutral {formatPct(returnDistribution.neutral)} · Negative {formatPct(returnDistribution.negative)}
-                </span>
+          <div className="space-y-4">
+            <div className="report-card rounded-2xl border border-black/10 bg-white p-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
+                    Key Metrics Snapshot
+                  </p>
+                  <p className="text-[11px] text-neutral-900">Period: {periodLabel}</p>
+                </div>
+                <span className="text-[11px] text-neutral-900">R · P · S averages</span>
               </div>
-              <div className="flex h-2 overflow-hidden rounded-full bg-slate-100">
-                <div className="bg-emerald-500" style={{ width: `${returnDistribution.positive}%` }} />
-                <div className="bg-slate-400" style={{ width: `${returnDistribution.neutral}%` }} />
-                <div className="bg-rose-500" style={{ width: `${returnDistribution.negative}%` }} />
+              <div className="mt-3 grid grid-cols-2 gap-3 text-[13px] leading-[1.45]">
+                <div>
+                  <p className="text-[11px] uppercase text-neutral-900">Average D-NAV</p>
+                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgDnav.toFixed(1)}</p>
+                  <p className="text-[11px] leading-[1.45] text-neutral-900">
+                    Average judgment quality in this window after cost.
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[11px] uppercase text-neutral-900">Avg Return (R)</p>
+                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgReturn.toFixed(1)}</p>
+                  <p className="text-[11px] leading-[1.45] text-neutral-900">Net value creation per decision.</p>
+                </div>
+                <div>
+                  <p className="text-[11px] uppercase text-neutral-900">Avg Pressure (P)</p>
+                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgPressure.toFixed(1)}</p>
+                  <p className="text-[11px] leading-[1.45] text-neutral-900">Execution stress posture.</p>
+                </div>
+                <div>
+                  <p className="text-[11px] uppercase text-neutral-900">Avg Stability (S)</p>
+                  <p className="text-base font-semibold text-neutral-900">{rpsBaseline.avgStability.toFixed(1)}</p>
+                  <p className="text-[11px] leading-[1.45] text-neutral-900">
+                    How safe decisions leave the system.
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[11px] uppercase text-neutral-900">Learning Curve Index</p>
+                  <p className="text-base font-semibold text-neutral-900">{learningStats.lci.toFixed(1)}</p>
+                  <p className="text-[11px] leading-[1.45] text-neutral-900">Recovery efficiency after dips.</p>
+                </div>
               </div>
             </div>
 
-            {/* Pressure */}
-            <div className="text-xs">
-              <div className="flex justify-between text-[11px] text-slate-500 mb-1">
-                <span>Pressure</span>
-                <span>
-                  Pressured {formatPct(pressureDistribution.positive)} · Neutral {formatPct(pressureDistribution.neutral)} · Calm {formatPct(pressureDistribution.negative)}
-                </span>
-              </div>
-              <div className="flex h-2 overflow-hidden rounded-full bg-slate-100">
-                <div className="bg-amber-500" style={{ width: `${pressureDistribution.positive}%` }} />
-                <div className="bg-slate-400" style={{ width: `${pressureDistribution.neutral}%` }} />
-                <div className="bg-sky-500" style={{ width: `${pressureDistribution.negative}%` }} />
+            <div className="report-card rounded-2xl border border-black/10 bg-white p-4">
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
+                Distributions (Return / Pressure / Stability)
+              </p>
+              <div className="mt-3 space-y-3 text-[13px] leading-[1.45]">
+                <MetricDistribution
+                  metricLabel="Return"
+                  segments={[
+                    { label: "Positive", value: returnDistribution.positive, colorClass: "bg-emerald-500" },
+                    { label: "Neutral", value: returnDistribution.neutral, colorClass: "bg-muted" },
+                    { label: "Negative", value: returnDistribution.negative, colorClass: "bg-rose-500" },
+                  ]}
+                />
+                <MetricDistribution
+                  metricLabel="Pressure"
+                  segments={[
+                    { label: "Pressured", value: pressureDistribution.positive, colorClass: "bg-amber-500" },
+                    { label: "Neutral", value: pressureDistribution.neutral, colorClass: "bg-muted" },
+                    { label: "Calm", value: pressureDistribution.negative, colorClass: "bg-sky-500" },
+                  ]}
+                />
+                <MetricDistribution
+                  metricLabel="Stability"
+                  segments={[
+                    { label: "Stable", value: stabilityDistribution.positive, colorClass: "bg-emerald-600" },
+                    { label: "Neutral", value: stabilityDistribution.neutral, colorClass: "bg-muted" },
+                    { label: "Fragile", value: stabilityDistribution.negative, colorClass: "bg-rose-500" },
+                  ]}
+                />
               </div>
             </div>
+          </div>
+        </section>
 
-            {/* Stability */}
-            <div className="text-xs">
-              <div className="flex justify-between text-[11px] text-slate-500 mb-1">
-                <span>Stability</span>
-                <span>
-                  Stable {formatPct(stabilityDistribution.positive)} · Neutral {formatPct(stabilityDistribution.neutral)} · Fragile {formatPct(stabilityDistribution.negative)}
-                </span>
-              </div>
-              <div className="flex h-2 overflow-hidden rounded-full bg-slate-100">
-                <div className="bg-emerald-600" style={{ width: `${stabilityDistribution.positive}%` }} />
-                <div className="bg-slate-400" style={{ width: `${stabilityDistribution.neutral}%` }} />
-                <div className="bg-rose-500" style={{ width: `${stabilityDistribution.negative}%` }} />
-              </div>
+        <section className="report-card rounded-2xl border border-black/10 bg-white p-5">
+          <Callout label="SYSTEM DIRECTIVE" className="mb-4">
+            <div className="space-y-2">
+              {systemDirectiveCopy.map((paragraph) => (
+                <p key={paragraph}>{paragraph}</p>
+              ))}
             </div>
+            <p className="mt-2 text-[11px] text-neutral-600">
+              Apply this by logging new decisions in the categories below.
+            </p>
+          </Callout>
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-0.5">
+              <h3 className="text-[16px] font-bold text-neutral-900">
+                DECISION TERRAIN — TOP JUDGMENT ARENAS
+              </h3>
+              <p className="text-[10px] text-neutral-400">Where judgment volume concentrates</p>
+            </div>
+            <span className="text-[11px] text-neutral-900">Top 3 categories</span>
           </div>
-        </div>
-      </section>
+          <div className="mt-4 space-y-4">
+            {topCategories.map((category) => (
+              <div key={category.name} className="rounded-2xl border border-black/10 bg-white p-3">
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-start gap-3">
+                    <div className="flex flex-wrap items-center gap-2 text-[13px] font-semibold">
+                      <span>{category.name}</span>
+                      <span className="text-[11px] text-neutral-900">{category.decisionCount} decisions</span>
+                    </div>
+                    <div className="ml-auto flex flex-wrap items-center justify-end gap-2">
+                      <Badge variant="secondary" className={neutralStatPillClass}>
+                        Volume: {formatPct(category.share)}
+                      </Badge>
+                      <Badge variant="secondary" className={neutralStatPillClass}>
+                        Avg D-NAV: {category.avgDnav.toFixed(1)}
+                      </Badge>
+                      <Badge variant="secondary" className={neutralStatPillClass}>
+                        R / P / S: {category.avgR.toFixed(1)} / {category.avgP.toFixed(1)} / {category.avgS.toFixed(1)}
+                      </Badge>
+                      <Badge variant="secondary" className={neutralStatPillClass}>
+                        Dominant: {category.dominantFactor ?? "Balanced"}
+                      </Badge>
+                    </div>
+                  </div>
 
-      {/* Bottom grid: terrain + archetypes */}
-      <section className="grid grid-cols-12 gap-4 mt-4">
-        {/* Decision terrain */}
-        <div className="col-span-12 border rounded-md p-3 md:col-span-6">
-          <div className="space-y-0.5 mb-2">
-            <h2 className="text-sm font-semibold text-slate-700">DECISION TERRAIN — TOP JUDGMENT ARENAS</h2>
-            <p className="text-[11px] text-slate-500">Where judgment volume concentrates</p>
-          </div>
-          <div className="grid grid-cols-1 gap-2 text-xs sm:grid-cols-2 lg:grid-cols-3">
-            {topCategories.map((cat) => (
-              <div key={cat.name} className="border rounded-md p-2">
-                <p className="text-[11px] font-semibold">{cat.name}</p>
-                <p className="text-[11px] text-slate-500 mb-1">{cat.share.toFixed(1)}% of decisions</p>
-                <p className="text-[11px]">
-                  Avg D-NAV <span className="font-semibold">{cat.avgDnav.toFixed(1)}</span>
-                </p>
-                <p className="text-[11px]">
-                  R / P / S: <span className="font-semibold">{cat.avgR.toFixed(1)} / {cat.avgP.toFixed(1)} / {cat.avgS.toFixed(1)}</span>
-                </p>
-                {cat.dominantFactor && (
-                  <p className="text-[11px] text-slate-500 mt-1">
-                    Dominant factor: <span className="font-semibold">{cat.dominantFactor}</span>
-                  </p>
-                )}
+                  <div className="dnav-dark-glass-surface dnav-insight-callout rounded-2xl border border-orange-100 border-l-4 border-l-orange-500 bg-orange-50/70 px-4 py-3">
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-wide text-neutral-600 dark:text-muted-foreground">
+                      <span>Category Action Insight</span>
+                      <Badge
+                        variant="secondary"
+                        className={cn("text-[10px] font-semibold", signalToneStyles[category.insight.signalStrength])}
+                      >
+                        {category.insight.signalStrength === "strong"
+                          ? "Strong signal"
+                          : category.insight.signalStrength === "medium"
+                            ? "Medium signal"
+                            : "Weak signal"}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 text-[13px] leading-[1.45] text-neutral-900 dark:text-foreground">
+                      {category.insight.insightText}
+                    </p>
+                    {category.insight.logMoreHint && (
+                      <p className="mt-2 text-[11px] text-neutral-600 dark:text-muted-foreground">
+                        {category.insight.logMoreHint}
+                      </p>
+                    )}
+                  </div>
+                </div>
               </div>
             ))}
           </div>
-        </div>
+        </section>
 
-        {/* Archetype fingerprint */}
-        <div className="col-span-12 border rounded-md p-3 md:col-span-6">
-          <h2 className="text-sm font-semibold text-slate-700 mb-2">Archetype Fingerprint — {periodLabel}</h2>
-          <div className="text-xs space-y-2">
-            <p>
+        <section className="report-card report-archetypes rounded-2xl border border-black/10 bg-white p-5">
+          <div className="space-y-1">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-900">
+              Archetype Fingerprint — {periodLabel}
+            </p>
+            <p className="text-[13px] leading-[1.45] text-neutral-900">
               <span className="inline-flex flex-wrap items-center gap-2">
-                <span>Primary archetype:</span>
-                <span className="inline-flex flex-wrap items-center gap-2 font-semibold">
-                  <span>{primaryArchetype?.archetype ?? "Not enough data"}</span>
+                <span>Primary:</span>
+                <span className="inline-flex flex-wrap items-center gap-2">
+                  <span>{primaryArchetype?.archetype ?? "N/A"}</span>
                   {primaryArchetype && <ArchetypeRpsChips archetype={primaryArchetype.archetype} />}
                 </span>
-              </span>
-              {primaryArchetype && (
-                <span className="text-slate-500">
-                  {" "}(R {primaryArchetype.avgR.toFixed(1)} · P {primaryArchetype.avgP.toFixed(1)} · S {primaryArchetype.avgS.toFixed(1)} · {primaryArchetype.count} decisions)
-                </span>
-              )}
-            </p>
-            <p>
-              <span className="inline-flex flex-wrap items-center gap-2">
-                <span>Secondary archetype:</span>
-                <span className="inline-flex flex-wrap items-center gap-2 font-semibold">
-                  <span>{secondaryArchetype?.archetype ?? "Not enough data"}</span>
+                <span>· Secondary:</span>
+                <span className="inline-flex flex-wrap items-center gap-2">
+                  <span>{secondaryArchetype?.archetype ?? "N/A"}</span>
                   {secondaryArchetype && <ArchetypeRpsChips archetype={secondaryArchetype.archetype} />}
                 </span>
               </span>
-              {secondaryArchetype && (
-                <span className="text-slate-500">
-                  {" "}(R {secondaryArchetype.avgR.toFixed(1)} · P {secondaryArchetype.avgP.toFixed(1)} · S {secondaryArchetype.avgS.toFixed(1)} · {secondaryArchetype.count} decisions)
-                </span>
-              )}
             </p>
+          </div>
 
-            <table className="w-full text-[11px] mt-2 border-t">
-              <thead>
-                <tr className="text-left text-slate-500">
-                  <th className="py-1 pr-2">Archetype</th>
-                  <th className="py-1 pr-2">Count</th>
-                  <th className="py-1">Share</th>
+          <div className="mt-4 overflow-hidden rounded-2xl border border-black/10">
+            <table className="w-full text-[13px] leading-[1.45]">
+              <thead className="bg-black/[0.04] text-[11px] uppercase tracking-wide text-neutral-900">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Archetype</th>
+                  <th className="px-3 py-2 text-right font-semibold">Decisions</th>
+                  <th className="px-3 py-2 text-right font-semibold">Share</th>
                 </tr>
               </thead>
-              <tbody>
-                {sortedArchetypes.slice(0, 4).map((archetype) => (
-                  <tr key={archetype.archetype} className="border-t">
-                    <td className="py-1 pr-2 font-semibold">
+              <tbody className="divide-y divide-black/10 bg-white">
+                {archetypeRows.map((entry) => (
+                  <tr key={entry.archetype}>
+                    <td className="px-3 py-2 font-medium text-neutral-900">
                       <div className="flex flex-wrap items-center gap-2">
-                        <span>{archetype.archetype}</span>
-                        <ArchetypeRpsChips archetype={archetype.archetype} />
+                        <span>{entry.archetype}</span>
+                        <ArchetypeRpsChips archetype={entry.archetype} />
                       </div>
                     </td>
-                    <td className="py-1 pr-2">{archetype.count}</td>
-                    <td className="py-1">
-                      {snapshot.rpsBaseline.totalDecisions
-                        ? `${((archetype.count / snapshot.rpsBaseline.totalDecisions) * 100).toFixed(1)}%`
-                        : "—"}
-                    </td>
+                    <td className="px-3 py-2 text-right text-neutral-900">{entry.count}</td>
+                    <td className="px-3 py-2 text-right text-neutral-900">{getArchetypeShare(entry.count)}%</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
-        </div>
-      </section>
+        </section>
+
+        {calibration && <CalibrationSummary calibration={calibration} periodLabel={periodLabel} />}
+      </div>
     </div>
   );
 }
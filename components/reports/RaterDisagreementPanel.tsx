@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { RatedVariable, RaterDisagreementReport } from "@/lib/judgment/raterDisagreement";
+import { cn } from "@/lib/utils";
+
+type Props = {
+  report: RaterDisagreementReport;
+};
+
+const VARIABLE_LABELS: Record<RatedVariable, string> = {
+  impact: "Impact",
+  cost: "Cost",
+  risk: "Risk",
+  urgency: "Urgency",
+  confidence: "Confidence",
+};
+
+const VARIABLE_COLORS: Record<RatedVariable, string> = {
+  impact: "#2563eb",
+  cost: "#f97316",
+  risk: "#dc2626",
+  urgency: "#9333ea",
+  confidence: "#16a34a",
+};
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+
+export function RaterDisagreementPanel({ report }: Props) {
+  const [selectedRater, setSelectedRater] = useState<string | null>(null);
+  const rater = report.raters.find((entry) => entry.raterId === selectedRater) ?? report.raters[0] ?? null;
+  const topDriver = report.drivers.find((driver) => driver.agreementGain > 0);
+
+  const trendData =
+    rater?.series.map((point) => ({
+      label: point.decisionName,
+      ...point.deviations,
+    })) ?? [];
+
+  return (
+    <section className="rounded-2xl border bg-card/70 p-5 shadow-sm space-y-5">
+      <div className="space-y-1">
+        <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Rater disagreement</p>
+        <p className="text-xs text-muted-foreground">
+          {report.ratedDecisionCount} decisions scored by two or more raters · {report.splitDecisionCount} split on the
+          archetype
+          {topDriver ? ` · ${VARIABLE_LABELS[topDriver.variable]} drives most of the split` : ""}
+        </p>
+      </div>
+
+      <div className="grid gap-5 lg:grid-cols-2">
+        <table className="w-full text-xs">
+          <thead className="text-[11px] uppercase tracking-wide text-muted-foreground">
+            <tr>
+              <th className="py-1 text-left font-semibold">Variable</th>
+              <th className="py-1 text-right font-semibold">Avg σ</th>
+              <th className="py-1 text-right font-semibold">Avg range</th>
+              <th className="py-1 text-right font-semibold">Agreement gain</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {report.spreads.map((spread) => {
+              const driver = report.drivers.find((item) => item.variable === spread.variable);
+              return (
+                <tr key={spread.variable}>
+                  <td className="py-1.5 font-medium text-foreground">{VARIABLE_LABELS[spread.variable]}</td>
+                  <td className="py-1.5 text-right tabular-nums">{spread.meanStdDev.toFixed(2)}</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {spread.meanRange.toFixed(1)} (max {spread.maxRange})
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {driver ? `${Math.round(driver.agreementGain * 100)}% · ${driver.decisionsResolved} resolved` : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <table className="w-full text-xs">
+          <thead className="text-[11px] uppercase tracking-wide text-muted-foreground">
+            <tr>
+              <th className="py-1 text-left font-semibold">Rater</th>
+              {report.spreads.map((spread) => (
+                <th key={spread.variable} className="py-1 text-right font-semibold">
+                  {VARIABLE_LABELS[spread.variable].slice(0, 4)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {report.raters.map((entry) => (
+              <tr key={entry.raterId}>
+                <td className="py-1.5 text-foreground">
+                  {entry.rater} <span className="text-muted-foreground">({entry.decisionCount})</span>
+                </td>
+                {entry.biases.map((bias) => (
+                  <td
+                    key={bias.variable}
+                    className={cn(
+                      "py-1.5 text-right tabular-nums",
+                      bias.flagged ? "font-semibold text-amber-700" : "text-muted-foreground",
+                    )}
+                  >
+                    {formatSigned(bias.bias)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Bias is each rater&apos;s average gap to the rest of the group on the same decisions. Highlighted values lean a
+        point or more across at least three decisions.
+      </p>
+
+      {rater ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Bias over time</p>
+            <Select value={rater.raterId} onValueChange={setSelectedRater}>
+              <SelectTrigger className="h-8 w-48 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {report.raters.map((entry) => (
+                  <SelectItem key={entry.raterId} value={entry.raterId}>
+                    {entry.rater}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="rounded-lg border bg-background/60 p-2" style={{ height: 220 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trendData} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground)/0.2)" />
+                <XAxis dataKey="label" hide />
+                <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Tooltip formatter={(value) => formatSigned(Number(value))} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {report.spreads.map((spread) => (
+                  <Line
+                    key={spread.variable}
+                    type="monotone"
+                    dataKey={spread.variable}
+                    name={VARIABLE_LABELS[spread.variable]}
+                    stroke={VARIABLE_COLORS[spread.variable]}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Trend per decision:{" "}
+            {report.spreads
+              .map((spread) => `${VARIABLE_LABELS[spread.variable]} ${formatSigned(rater.trend[spread.variable])}`)
+              .join(" · ")}
+          </p>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import type { ReliabilityBin } from "@/lib/calibration";
+
+type Props = {
+  bins: ReliabilityBin[];
+  height?: number;
+};
+
+export function ReliabilityCurve({ bins, height = 220 }: Props) {
+  const data = bins.map((bin) => ({
+    confidence: bin.confidence,
+    predicted: Math.round(bin.predicted * 100),
+    observed: bin.observed === null ? null : Math.round(bin.observed * 100),
+    count: bin.count,
+  }));
+
+  return (
+    <div className="rounded-lg border bg-background/60 p-2" style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground)/0.2)" />
+          <XAxis dataKey="confidence" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+          <YAxis
+            domain={[0, 100]}
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={11}
+            tickFormatter={(value: number) => `${value}%`}
+          />
+          <Tooltip
+            formatter={(value, name) => [`${value}%`, name === "observed" ? "Held stable" : "Implied by Confidence"]}
+            labelFormatter={(label) => `Confidence ${label}`}
+          />
+          <Line
+            type="linear"
+            dataKey="predicted"
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="observed"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            connectNulls
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import { MetricDistribution } from "@/components/reports/MetricDistribution";
 import { ArchetypeRpsChips } from "@/components/reports/ArchetypeRpsChips";
+import { CalibrationSummary } from "@/components/reports/CalibrationSummary";
 import { Callout } from "@/components/ui/Callout";
 import { Badge } from "@/components/ui/badge";
+import { type CalibrationReport } from "@/lib/calibration";
 import { type CategoryActionInsightResult } from "@/lib/categoryActionInsight";
 import type { CompanyPeriodSnapshot, FullInterpretation } from "@/lib/dnavSummaryEngine";
 import { getSystemDirective } from "@/lib/systemDirective";
@@ -55,6 +57,7 @@ type ReportPrintViewProps = {
   topCategories: TopCategory[];
   sortedArchetypes: ArchetypeSummary[];
   learningStats: LearningStats;
+  calibration?: CalibrationReport;
 };
 
 const formatPct = (value: number) => `${value.toFixed(1)}%`;
@@ -66,6 +69,7 @@ export function ReportPrintView({
   topCategories,
   sortedArchetypes,
   learningStats,
+  calibration,
 }: ReportPrintViewProps) {
   const { companyName, periodLabel, rpsBaseline } = snapshot;
   const { returnDistribution, pressureDistribution, stabilityDistribution } = baselineDistributions;
@@ -359,6 +363,8 @@ export function ReportPrintView({
             </div>
           </div>
         </section>
+
+        {calibration && <CalibrationSummary calibration={calibration} periodLabel={periodLabel} />}
       </div>
     </div>
   );
@@ -0,0 +1,122 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { GlassCard } from "@/components/ui/card";
+import { RESCORE_VARIABLES } from "@/lib/rescore";
+import type { ReviewAnalysis } from "@/lib/reviewSessions";
+import { cn } from "@/lib/utils";
+
+const SCALE_MIN = 1;
+const SCALE_MAX = 10;
+
+const toPercent = (value: number) => ((value - SCALE_MIN) / (SCALE_MAX - SCALE_MIN)) * 100;
+
+const describeDisagreement = (index: number) =>
+  index < 0.15 ? "Aligned" : index < 0.3 ? "Some spread" : index < 0.5 ? "Split" : "Deeply split";
+
+function SpreadTrack({ values, mean, min, max }: { values: number[]; mean: number; min: number; max: number }) {
+  return (
+    <div className="relative h-6 w-full">
+      <div className="absolute inset-x-0 top-1/2 h-px -translate-y-1/2 bg-border" />
+      <div
+        className="absolute top-1/2 h-2 -translate-y-1/2 rounded-full bg-primary/15"
+        style={{ left: `${toPercent(min)}%`, width: `${toPercent(max) - toPercent(min)}%` }}
+      />
+      {values.map((value, index) => (
+        <span
+          key={`${value}-${index}`}
+          className="absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary/70 ring-2 ring-background"
+          style={{ left: `${toPercent(value)}%` }}
+        />
+      ))}
+      <span
+        className="absolute top-0 h-6 w-0.5 -translate-x-1/2 bg-foreground"
+        style={{ left: `${toPercent(mean)}%` }}
+        title={`Mean ${mean}`}
+      />
+    </div>
+  );
+}
+
+export function ReviewResults({ analysis }: { analysis: ReviewAnalysis }) {
+  const { spreads, consensus, participants, disagreementIndex, archetypeAgreement } = analysis;
+
+  return (
+    <GlassCard className="space-y-5 p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Consensus reading</p>
+          <p className="text-xl font-semibold text-foreground">{consensus.archetype}</p>
+          <p className="text-xs text-muted-foreground">D-NAV {consensus.dnav} from the average of every score</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Disagreement</p>
+            <p className="text-xl font-semibold text-foreground">{Math.round(disagreementIndex * 100)}</p>
+            <p className="text-xs text-muted-foreground">{describeDisagreement(disagreementIndex)}</p>
+          </div>
+          <div>
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Same archetype</p>
+            <p className="text-xl font-semibold text-foreground">{Math.round(archetypeAgreement * 100)}%</p>
+            <p className="text-xs text-muted-foreground">of participants</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">Spread per variable</p>
+        {RESCORE_VARIABLES.map(({ key, label }) => {
+          const spread = spreads.find((item) => item.variable === key);
+          if (!spread) return null;
+          return (
+            <div key={key} className="grid grid-cols-[6.5rem_minmax(0,1fr)_6rem] items-center gap-3 text-xs">
+              <span className="font-medium text-foreground">{label}</span>
+              <SpreadTrack values={spread.values} mean={spread.mean} min={spread.min} max={spread.max} />
+              <span className="text-right text-muted-foreground">
+                {spread.min}–{spread.max} · σ {spread.stdDev}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-3 font-semibold">Participant</th>
+              {RESCORE_VARIABLES.map(({ key, label }) => (
+                <th key={key} className="py-1 pr-3 text-right font-semibold">
+                  {label.slice(0, 4)}
+                </th>
+              ))}
+              <th className="py-1 pr-3 text-right font-semibold">D-NAV</th>
+              <th className="py-1 font-semibold">Archetype</th>
+            </tr>
+          </thead>
+          <tbody>
+            {participants.map((participant, index) => (
+              <tr key={`${participant.name}-${index}`} className="border-t">
+                <td className="py-1.5 pr-3 text-foreground">{participant.name}</td>
+                {RESCORE_VARIABLES.map(({ key }) => (
+                  <td key={key} className="py-1.5 pr-3 text-right tabular-nums">
+                    {participant[key]}
+                  </td>
+                ))}
+                <td className="py-1.5 pr-3 text-right tabular-nums">{participant.dnav}</td>
+                <td className="py-1.5">
+                  <Badge
+                    variant={participant.matchesConsensus ? "secondary" : "outline"}
+                    className={cn(!participant.matchesConsensus && "border-amber-400 text-amber-700")}
+                  >
+                    {participant.archetype}
+                  </Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { CardContent, CardHeader, CardTitle, GlassCard } from "@/components/ui/card";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+import { analyzeSensitivity, type ArchetypeFlip } from "@/lib/sensitivity";
+
+type SensitivityPanelProps = {
+  variables: DecisionVars;
+  profile?: ScoringProfile;
+  // Shortens the chart and flip list for narrow containers such as the inspector drawer.
+  compact?: boolean;
+};
+
+const VARIABLE_LABELS: Record<keyof DecisionVars, string> = {
+  impact: "Impact",
+  cost: "Cost",
+  risk: "Risk",
+  urgency: "Urgency",
+  confidence: "Confidence",
+};
+
+const formatValue = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1));
+
+const describeFlip = (flip: ArchetypeFlip) =>
+  `${VARIABLE_LABELS[flip.variable]} ${flip.direction === "increase" ? "up to" : "down to"} ${flip.threshold}`;
+
+export function SensitivityContent({ variables, profile, compact = false }: SensitivityPanelProps) {
+  const result = useMemo(() => analyzeSensitivity(variables, profile), [profile, variables]);
+  const baseline = result.baseline.dnav;
+
+  // Bars are stacked around the current D-NAV so each variable's downside and upside read from the centre line.
+  const tornadoData = result.variables.map((item) => ({
+    label: VARIABLE_LABELS[item.variable],
+    downside: item.minDnav - baseline,
+    upside: item.maxDnav - baseline,
+    range: `${formatValue(item.minDnav)} to ${formatValue(item.maxDnav)}`,
+  }));
+  const flips = result.flips.slice(0, compact ? 3 : 6);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">D-NAV range by lever</p>
+        <div className={compact ? "h-44" : "h-56"}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 4, right: 12, bottom: 4, left: 4 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 10 }} />
+              <YAxis type="category" dataKey="label" width={76} stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 11 }} />
+              <RechartsTooltip
+                formatter={(value, name) => [
+                  `${Number(value) > 0 ? "+" : ""}${formatValue(Number(value))}`,
+                  name === "upside" ? "Best case vs now" : "Worst case vs now",
+                ]}
+                labelFormatter={(label, payload) =>
+                  payload?.[0] ? `${label}: D-NAV ${payload[0].payload.range}` : String(label)
+                }
+              />
+              <ReferenceLine x={0} stroke="hsl(var(--foreground))" />
+              <Bar dataKey="downside" stackId="swing" fill="hsl(var(--destructive))" />
+              <Bar dataKey="upside" stackId="swing" fill="hsl(var(--primary))" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Each lever swept from 1 to 10 with the others held where they are. Current D-NAV {formatValue(baseline)}.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Archetype flip points</p>
+        {flips.length ? (
+          <ul className="space-y-1">
+            {flips.map((flip) => (
+              <li
+                key={`${flip.variable}-${flip.direction}-${flip.threshold}`}
+                className="flex items-center justify-between gap-3 text-xs"
+              >
+                <span className="font-medium text-foreground">{describeFlip(flip)}</span>
+                <span className="text-muted-foreground">
+                  {flip.from} → {flip.to}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No single lever changes the {result.baseline.archetype} archetype on its own.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SensitivityPanel(props: SensitivityPanelProps) {
+  return (
+    <GlassCard className="flex flex-col gap-4 py-4">
+      <CardHeader className="space-y-0 px-4 pb-1 pt-2">
+        <CardTitle className="text-sm font-semibold">Sensitivity</CardTitle>
+        <p className="text-sm text-muted-foreground">Which lever moves this call the most, and where it changes shape.</p>
+      </CardHeader>
+      <CardContent className="px-4 pb-3">
+        <SensitivityContent {...props} />
+      </CardContent>
+    </GlassCard>
+  );
+}
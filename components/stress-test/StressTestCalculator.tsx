@@ -8,17 +8,15 @@ import { Button } from "@/components/ui/button";
 import { CardContent, CardHeader, CardTitle, GlassCard } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import Term from "@/components/ui/Term";
-import {
-  DecisionEntry,
-  DecisionMetrics,
-  DecisionVariables,
-  computeMetrics,
-  detectJudgmentSignal,
-  getArchetype,
-} from "@/lib/calculations";
+import SensitivityPanel from "@/components/sensitivity/SensitivityPanel";
+import UncertaintyPanel from "@/components/uncertainty/UncertaintyPanel";
+import { DecisionEntry, detectJudgmentSignal } from "@/lib/calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionMetrics, DecisionVars } from "@/src/lib/dnav/types";
 import { Check, Save } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { useNetlifyIdentity } from "@/hooks/use-netlify-identity";
+import { useIdentity } from "@/hooks/use-identity";
 import {
   forwardRef,
   useCallback,
@@ -28,7 +26,7 @@ import {
   useState,
 } from "react";
 
-const DEFAULT_VARIABLES: DecisionVariables = {
+const DEFAULT_VARIABLES: DecisionVars = {
   impact: 1,
   cost: 1,
   risk: 1,
@@ -41,7 +39,7 @@ export interface StressTestCalculatorHandle {
   resetSavedState: () => void;
 }
 
-export interface StressTestDecisionSnapshot extends DecisionVariables, DecisionMetrics {
+export interface StressTestDecisionSnapshot extends DecisionVars, DecisionMetrics {
   id: string;
   name: string;
   category: string;
@@ -59,24 +57,24 @@ const StressTestCalculator = forwardRef<StressTestCalculatorHandle, StressTestCa
   ({ saveLabel = "Log this decision", requireLoginForSave = false, onSaveDecision }, ref) => {
     const [decisionName, setDecisionName] = useState("");
     const [decisionCategory, setDecisionCategory] = useState("");
-    const [variables, setVariables] = useState<DecisionVariables>(() => ({ ...DEFAULT_VARIABLES }));
-    const [metrics, setMetrics] = useState<DecisionMetrics>(() => computeMetrics(DEFAULT_VARIABLES));
+    const [variables, setVariables] = useState<DecisionVars>(() => ({ ...DEFAULT_VARIABLES }));
+    const { setDecisions, scoringProfile } = useDataset();
+    const [metrics, setMetrics] = useState<DecisionMetrics>(() => computeMetrics(DEFAULT_VARIABLES, scoringProfile));
     const [isSaved, setIsSaved] = useState(false);
     const [showLoginPrompt, setShowLoginPrompt] = useState(false);
     const decisionNameRef = useRef<HTMLInputElement>(null);
     const decisionCategoryRef = useRef<HTMLInputElement>(null);
     const decisionFrameRef = useRef<HTMLDivElement>(null);
-    const { setDecisions } = useDataset();
-    const { isLoggedIn, openLogin } = useNetlifyIdentity();
+    const { isLoggedIn, openLogin } = useIdentity();
 
-    const updateVariable = useCallback((key: keyof DecisionVariables, value: number) => {
+    const updateVariable = useCallback((key: keyof DecisionVars, value: number) => {
       setVariables((prev) => {
         const updated = { ...prev, [key]: value };
-        setMetrics(computeMetrics(updated));
+        setMetrics(computeMetrics(updated, scoringProfile));
         return updated;
       });
       setIsSaved(false);
-    }, []);
+    }, [scoringProfile]);
 
     const handleSaveDecision = useCallback(() => {
       if (requireLoginForSave && !isLoggedIn) {
@@ -106,7 +104,7 @@ const StressTestCalculator = forwardRef<StressTestCalculatorHandle, StressTestCa
 
       if (onSaveDecision) {
         const createdAt = Date.now();
-        const archetype = getArchetype(metrics);
+        const archetype = getArchetype(metrics, scoringProfile);
         onSaveDecision({
           id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
           createdAt,
@@ -129,6 +127,7 @@ const StressTestCalculator = forwardRef<StressTestCalculatorHandle, StressTestCa
       metrics,
       onSaveDecision,
       requireLoginForSave,
+      scoringProfile,
       setDecisions,
       variables,
     ]);
@@ -137,7 +136,7 @@ const StressTestCalculator = forwardRef<StressTestCalculatorHandle, StressTestCa
       setDecisionName("");
       setDecisionCategory("");
       setVariables({ ...DEFAULT_VARIABLES });
-      setMetrics(computeMetrics(DEFAULT_VARIABLES));
+      setMetrics(computeMetrics(DEFAULT_VARIABLES, scoringProfile));
       setIsSaved(false);
     };
 
@@ -402,6 +401,8 @@ const StressTestCalculator = forwardRef<StressTestCalculatorHandle, StressTestCa
             </CardContent>
           </GlassCard>
         </div>
+        <SensitivityPanel variables={variables} profile={scoringProfile} />
+        <UncertaintyPanel variables={variables} profile={scoringProfile} />
       </section>
     );
 });
@@ -0,0 +1,195 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis } from "recharts";
+
+import { Button } from "@/components/ui/button";
+import { CardContent, CardHeader, CardTitle, GlassCard } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+import {
+  SIMULATED_METRICS,
+  simulateDecision,
+  type MetricDistribution,
+  type SimulatedMetricKey,
+  type VariableRanges,
+} from "@/lib/uncertainty";
+
+type UncertaintyPanelProps = {
+  variables: DecisionVars;
+  profile?: ScoringProfile;
+};
+
+type Spread = { min: number; max: number };
+
+const VARIABLE_LABELS: Record<keyof DecisionVars, string> = {
+  impact: "Impact",
+  cost: "Cost",
+  risk: "Risk",
+  urgency: "Urgency",
+  confidence: "Confidence",
+};
+
+const METRIC_LABELS: Record<SimulatedMetricKey, string> = {
+  return: "Return",
+  stability: "Stability",
+  pressure: "Pressure",
+  dnav: "D-NAV",
+};
+
+const ARCHETYPE_PREVIEW_COUNT = 6;
+
+const formatValue = (value: number) => (Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(1));
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function MetricHistogram({ label, distribution }: { label: string; distribution: MetricDistribution }) {
+  const data = distribution.histogram.map((bin) => ({
+    bucket: formatValue((bin.start + bin.end) / 2),
+    share: Number((bin.share * 100).toFixed(2)),
+  }));
+
+  return (
+    <div className="dnav-glass-panel space-y-1 px-3 py-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{label}</p>
+        <p className="text-xs text-muted-foreground">
+          mean {formatValue(distribution.mean)} · P5–P95 {formatValue(distribution.p5)} to {formatValue(distribution.p95)}
+        </p>
+      </div>
+      <div className="h-28">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+            <XAxis dataKey="bucket" stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+            <RechartsTooltip formatter={(value) => [`${value}%`, "Share of draws"]} />
+            <Bar dataKey="share" fill="hsl(var(--primary))" radius={2} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default function UncertaintyPanel({ variables, profile }: UncertaintyPanelProps) {
+  const [spreads, setSpreads] = useState<Partial<Record<keyof DecisionVars, Spread>>>({});
+  const [showAllArchetypes, setShowAllArchetypes] = useState(false);
+
+  const ranges = useMemo<VariableRanges>(() => {
+    const next: VariableRanges = {};
+    (Object.keys(spreads) as (keyof DecisionVars)[]).forEach((key) => {
+      const spread = spreads[key];
+      if (spread) next[key] = { min: spread.min, likely: variables[key], max: spread.max };
+    });
+    return next;
+  }, [spreads, variables]);
+
+  const hasRanges = Object.keys(ranges).length > 0;
+  const simulation = useMemo(
+    () => (hasRanges ? simulateDecision(variables, ranges, { profile }) : null),
+    [hasRanges, profile, ranges, variables],
+  );
+
+  const toggleRange = (key: keyof DecisionVars, enabled: boolean) => {
+    setSpreads((prev) => {
+      const next = { ...prev };
+      if (enabled) {
+        next[key] = { min: Math.max(1, variables[key] - 2), max: Math.min(10, variables[key] + 2) };
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const archetypes = simulation
+    ? simulation.archetypes.filter((item) => showAllArchetypes || item.probability > 0).slice(
+        0,
+        showAllArchetypes ? undefined : ARCHETYPE_PREVIEW_COUNT,
+      )
+    : [];
+
+  return (
+    <GlassCard className="flex flex-col gap-4 py-4">
+      <CardHeader className="space-y-0 px-4 pb-1 pt-2">
+        <CardTitle className="text-sm font-semibold">Uncertainty ranges</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Give any lever a low–high range; the slider value stays the most likely point.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 pb-3">
+        <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-5">
+          {(Object.keys(VARIABLE_LABELS) as (keyof DecisionVars)[]).map((key) => {
+            const spread = spreads[key];
+            return (
+              <div key={key} className="dnav-glass-panel space-y-2 px-3 py-2">
+                <label className="flex items-center justify-between gap-2 text-xs font-semibold text-foreground">
+                  {VARIABLE_LABELS[key]}
+                  <Switch checked={Boolean(spread)} onCheckedChange={(checked) => toggleRange(key, checked)} />
+                </label>
+                {spread ? (
+                  <>
+                    <Slider
+                      min={1}
+                      max={10}
+                      step={1}
+                      value={[spread.min, spread.max]}
+                      onValueChange={([min, max]) => setSpreads((prev) => ({ ...prev, [key]: { min, max } }))}
+                    />
+                    <p className="text-[11px] text-muted-foreground">
+                      {spread.min} · likely {variables[key]} · {spread.max}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-[11px] text-muted-foreground">Fixed at {variables[key]}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {simulation ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {simulation.draws.toLocaleString()} simulated draws
+              {profile ? ` · ${profile.name} scoring profile` : ""}
+            </p>
+            <div className="grid gap-2 md:grid-cols-2">
+              {SIMULATED_METRICS.map((key) => (
+                <MetricHistogram key={key} label={METRIC_LABELS[key]} distribution={simulation.metrics[key]} />
+              ))}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Archetype odds</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setShowAllArchetypes((prev) => !prev)}
+                >
+                  {showAllArchetypes ? "Show likely only" : "Show all 27"}
+                </Button>
+              </div>
+              <div className="grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+                {archetypes.map((item) => (
+                  <div key={item.key} className="flex items-center gap-2 text-xs">
+                    <span className="w-24 shrink-0 font-medium text-foreground">{item.name}</span>
+                    <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+                      <div className="h-full bg-primary" style={{ width: `${item.probability * 100}%` }} />
+                    </div>
+                    <span className="w-12 text-right text-muted-foreground">{formatPct(item.probability)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Turn on a range for at least one lever to see how much the readout can move.
+          </p>
+        )}
+      </CardContent>
+    </GlassCard>
+  );
+}
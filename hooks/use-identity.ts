@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { getIdentityProvider, getIdentityRoles, type IdentityUser } from "@/lib/identity";
+
+export { getIdentityDisplayName } from "@/lib/identity";
+
+export const useIdentity = () => {
+  const [currentUser, setCurrentUser] = useState<IdentityUser | null>(null);
+
+  useEffect(() => getIdentityProvider().subscribe(setCurrentUser), []);
+
+  const openLogin = useCallback(() => {
+    getIdentityProvider().openLogin();
+  }, []);
+
+  const logout = useCallback(() => {
+    getIdentityProvider().logout();
+    setCurrentUser(null);
+  }, []);
+
+  return {
+    currentUser,
+    isLoggedIn: currentUser !== null,
+    isAdmin: getIdentityRoles(currentUser).includes("admin"),
+    openLogin,
+    logout,
+  };
+};
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { DecisionEntry } from "@/lib/calculations";
+import {
+  createRemoteDataset,
+  deleteRemoteDataset,
+  fetchRemoteDatasets,
+  patchRemoteDecisions,
+  updateRemoteDataset,
+} from "@/lib/datasetApi";
+import {
+  diffDecisions,
+  isSameDatasetMeta,
+  rebaseDecisionChanges,
+  toDatasetState,
+  type DatasetRecord,
+} from "@/lib/datasetSync";
+import { loadSyncedDatasets, saveSyncedDatasets } from "@/lib/storage";
+import type { DatasetId, DatasetState } from "@/types/dataset";
+
+export type DatasetSyncStatus = "local" | "connecting" | "synced" | "conflict" | "error";
+
+interface UseDatasetSyncOptions {
+  enabled: boolean;
+  datasets: DatasetState[];
+  // Receives the server copy once, with the copies last synced from this browser so the caller can replay local
+  // edits made since; returns how many of those edits lost to newer server changes.
+  onHydrate: (datasets: DatasetState[], snapshots: Map<DatasetId, DatasetState>) => number;
+  onRebase: (id: DatasetId, decisions: DecisionEntry[]) => void;
+}
+
+const conflictMessage = (count: number) =>
+  `${count} decision${count === 1 ? " was" : "s were"} changed elsewhere; kept the server version.`;
+
+// Local state stays the source of truth for rendering; this hook pushes the difference against the last
+// server-confirmed copy of each dataset and folds server changes back in when a push conflicts.
+export function useDatasetSync({ enabled, datasets, onHydrate, onRebase }: UseDatasetSyncOptions) {
+  const syncedRef = useRef(new Map<DatasetId, DatasetRecord>());
+  const inFlightRef = useRef(new Set<DatasetId>());
+  const callbacksRef = useRef({ onHydrate, onRebase });
+  const [hydrated, setHydrated] = useState(false);
+  const [pass, setPass] = useState(0);
+  const [syncStatus, setSyncStatus] = useState<DatasetSyncStatus>(enabled ? "connecting" : "local");
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const rememberSynced = useCallback(() => {
+    saveSyncedDatasets(Array.from(syncedRef.current.values()).map(toDatasetState));
+  }, []);
+
+  useEffect(() => {
+    callbacksRef.current = { onHydrate, onRebase };
+  }, [onHydrate, onRebase]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    fetchRemoteDatasets()
+      .then((records) => {
+        if (cancelled) return;
+        const snapshots = new Map(loadSyncedDatasets().map((dataset) => [dataset.id, dataset]));
+        records.forEach((record) => syncedRef.current.set(record.id, record));
+        rememberSynced();
+        const conflictCount = callbacksRef.current.onHydrate(records.map(toDatasetState), snapshots);
+        setHydrated(true);
+        if (conflictCount > 0) {
+          setSyncStatus("conflict");
+          setSyncError(conflictMessage(conflictCount));
+        } else {
+          setSyncStatus("synced");
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Unable to reach dataset server", error);
+        setSyncStatus("error");
+        setSyncError("Unable to reach the dataset server; changes are only saved in this browser.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, rememberSynced]);
+
+  useEffect(() => {
+    if (!enabled || !hydrated) return;
+
+    const synced = syncedRef.current;
+    const inFlight = inFlightRef.current;
+    const tasks: Array<{ id: DatasetId; run: () => Promise<number> }> = [];
+
+    datasets.forEach((dataset) => {
+      if (inFlight.has(dataset.id)) return;
+      const remote = synced.get(dataset.id);
+
+      if (!remote) {
+        tasks.push({
+          id: dataset.id,
+          run: async () => {
+            const record = await createRemoteDataset({
+              id: dataset.id,
+              label: dataset.label,
+              meta: dataset.meta,
+              decisions: dataset.decisions,
+            });
+            synced.set(record.id, record);
+            return 0;
+          },
+        });
+        return;
+      }
+
+      const metaChanged = remote.label !== dataset.label || !isSameDatasetMeta(remote.meta, dataset.meta);
+      const changes = remote.decisions === dataset.decisions ? [] : diffDecisions(remote.decisions, dataset.decisions);
+      if (!metaChanged && changes.length === 0) return;
+
+      tasks.push({
+        id: dataset.id,
+        run: async () => {
+          if (metaChanged) {
+            synced.set(dataset.id, await updateRemoteDataset(dataset.id, { label: dataset.label, meta: dataset.meta }));
+          }
+          if (changes.length === 0) return 0;
+
+          const result = await patchRemoteDecisions(dataset.id, changes);
+          synced.set(dataset.id, result.dataset);
+          if (result.conflicts.length > 0) {
+            callbacksRef.current.onRebase(
+              dataset.id,
+              rebaseDecisionChanges(result.dataset.decisions, changes, result.conflicts),
+            );
+          }
+          return result.conflicts.length;
+        },
+      });
+    });
+
+    const localIds = new Set(datasets.map((dataset) => dataset.id));
+    synced.forEach((_record, id) => {
+      if (localIds.has(id) || inFlight.has(id)) return;
+      tasks.push({
+        id,
+        run: async () => {
+          await deleteRemoteDataset(id);
+          synced.delete(id);
+          return 0;
+        },
+      });
+    });
+
+    if (tasks.length === 0) return;
+
+    tasks.forEach(({ id, run }) => {
+      inFlight.add(id);
+      run()
+        .then((conflictCount) => {
+          inFlight.delete(id);
+          rememberSynced();
+          if (conflictCount > 0) {
+            setSyncStatus("conflict");
+            setSyncError(conflictMessage(conflictCount));
+          } else {
+            // A conflict notice stays up until it is dismissed, even as the rebased edits go through.
+            setSyncStatus((current) => (current === "conflict" ? current : "synced"));
+            setSyncError((current) => (current && !current.startsWith("Unable") ? current : null));
+          }
+          // Re-run the diff in case local edits landed while this request was in flight.
+          setPass((value) => value + 1);
+        })
+        .catch((error) => {
+          inFlight.delete(id);
+          console.error("Unable to sync dataset", id, error);
+          setSyncStatus("error");
+          setSyncError("Unable to save to the dataset server; changes are only saved in this browser.");
+        });
+    });
+  }, [datasets, enabled, hydrated, pass, rememberSynced]);
+
+  const dismissSyncError = useCallback(() => {
+    setSyncError(null);
+    setSyncStatus((current) => (current === "conflict" ? "synced" : current));
+  }, []);
+
+  return { syncStatus, syncError, dismissSyncError };
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Ticking clock for views whose state depends on the current time, such as snoozed alerts waking up.
+export function useNow(intervalMs = 60_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -5,6 +5,9 @@ import { useMemo } from "react";
 import { useDataset } from "@/components/DatasetProvider";
 import { datasetMetaToCompanyContext, getEmptyDatasetMeta, type DatasetId } from "@/types/dataset";
 import { type DecisionEntry } from "@/lib/storage";
+import { getDecisionLogAsOf, getHistoryStart } from "@/lib/decisionHistory";
+import { mapTimeframeToDays, type TimeframeValue } from "@/lib/reportTimeframes";
+import { getDatasetScoringProfile } from "@/lib/scoringProfiles";
 import { type CompanyContext } from "@/types/company";
 import { computeDashboardStats, type DashboardStats } from "@/utils/dashboardStats";
 import {
@@ -16,27 +19,6 @@ import {
   type RpsBaseline as JudgmentRpsBaseline,
 } from "@/utils/judgmentDashboard";
 
-export const TIMEFRAMES = [
-  { value: "7", label: "Last 7 Days" },
-  { value: "30", label: "Last 30 Days" },
-  { value: "90", label: "Last 90 Days" },
-  { value: "all", label: "All Time" },
-] as const;
-
-export type TimeframeValue = (typeof TIMEFRAMES)[number]["value"];
-
-export const timeframeDescriptions: Record<TimeframeValue, string> = {
-  "7": "Focus on the last seven days of logged decisions.",
-  "30": "Aggregate view across the most recent thirty days.",
-  "90": "Quarter-scale perspective across the most recent ninety days.",
-  all: "Complete historical view across every decision recorded.",
-};
-
-export const mapTimeframeToDays = (value: TimeframeValue): number | null => {
-  if (value === "all") return null;
-  return Number.parseInt(value, 10);
-};
-
 export interface ReportsDataResult {
   company: CompanyContext | null;
   baseline: JudgmentRpsBaseline;
@@ -54,22 +36,34 @@ export interface ReportsDataResult {
   timeframeDays: number | null;
   observedSpanDays: number | null;
   judgmentDashboard: JudgmentDashboardData;
+  // Where the retained history begins when the requested as-of date is older; the current log is shown instead.
+  asOfBeforeHistory: number | null;
 }
 
 export function useReportsData({
   timeframe,
   datasetId,
+  asOf = null,
 }: {
   timeframe: TimeframeValue;
   datasetId: DatasetId | null;
+  // End-of-day timestamp; the log is rebuilt from its change history as it stood then.
+  asOf?: number | null;
 }): ReportsDataResult {
-  const { getDatasetById } = useDataset();
+  const { getDatasetById, decisionHistory } = useDataset();
   const dataset = useMemo(() => getDatasetById(datasetId) ?? null, [datasetId, getDatasetById]);
-  const decisions = useMemo(() => dataset?.decisions ?? [], [dataset]);
   const company = useMemo<CompanyContext>(
     () => datasetMetaToCompanyContext(dataset?.meta ?? getEmptyDatasetMeta()),
     [dataset],
   );
+  const scoringProfile = useMemo(() => getDatasetScoringProfile(dataset?.meta), [dataset]);
+  const asOfLog = useMemo(() => {
+    if (!dataset || asOf === null) return null;
+    return getDecisionLogAsOf(dataset.decisions, decisionHistory, { scope: dataset.id, asOf, profile: scoringProfile });
+  }, [asOf, dataset, decisionHistory, scoringProfile]);
+  const decisions = useMemo(() => asOfLog ?? dataset?.decisions ?? [], [asOfLog, dataset]);
+  const asOfBeforeHistory =
+    dataset && asOf !== null && !asOfLog ? getHistoryStart(decisionHistory, dataset.id) : null;
 
   const timeframeDays = useMemo(() => mapTimeframeToDays(timeframe), [timeframe]);
 
@@ -87,13 +81,13 @@ export function useReportsData({
   );
 
   const judgmentDashboard = useMemo(
-    () => buildJudgmentDashboard(filteredDecisions, company ?? undefined),
-    [filteredDecisions, company],
+    () => buildJudgmentDashboard(filteredDecisions, company ?? undefined, scoringProfile),
+    [filteredDecisions, company, scoringProfile],
   );
 
   const stats = useMemo(
-    () => computeDashboardStats(decisions, { timeframeDays }),
-    [decisions, timeframeDays],
+    () => computeDashboardStats(decisions, { timeframeDays, scoringProfile }),
+    [decisions, scoringProfile, timeframeDays],
   );
 
   const baseline = judgmentDashboard.baseline;
@@ -127,5 +121,6 @@ export function useReportsData({
     timeframeDays,
     observedSpanDays,
     judgmentDashboard,
+    asOfBeforeHistory,
   };
 }
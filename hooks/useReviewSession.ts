@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { fetchReviewSession, loadReviewParticipantId } from "@/lib/reviewSessionApi";
+import type { ReviewSessionView } from "@/lib/reviewSessions";
+
+const POLL_INTERVAL_MS = 2000;
+
+// Polls the session route; each response carries a revision so unchanged sessions cost a 204.
+export function useReviewSession(sessionId: string | null) {
+  const [latest, setLatest] = useState<ReviewSessionView | null>(null);
+  const [pollError, setPollError] = useState<{ sessionId: string; message: string } | null>(null);
+  const [joined, setJoined] = useState<{ sessionId: string; participantId: string | null } | null>(null);
+  const revisionRef = useRef(0);
+
+  // State from a previously viewed session is ignored rather than reset, so switching sessions never flashes stale data.
+  const session = latest && latest.id === sessionId ? latest : null;
+  const error = pollError && pollError.sessionId === sessionId ? pollError.message : null;
+  const participantId =
+    joined && joined.sessionId === sessionId
+      ? joined.participantId
+      : sessionId
+        ? loadReviewParticipantId(sessionId)
+        : null;
+
+  const applySession = useCallback((next: ReviewSessionView) => {
+    revisionRef.current = next.revision;
+    setLatest(next);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    revisionRef.current = 0;
+
+    const poll = () => {
+      fetchReviewSession(sessionId, loadReviewParticipantId(sessionId), revisionRef.current)
+        .then((next) => {
+          if (cancelled || !next) return;
+          applySession(next);
+          setPollError(null);
+        })
+        .catch((fetchError) => {
+          if (cancelled) return;
+          console.error(fetchError);
+          setPollError({ sessionId, message: "Lost contact with the session. Retrying…" });
+        });
+    };
+
+    poll();
+    const interval = window.setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [applySession, sessionId]);
+
+  const handleJoined = useCallback(
+    (next: ReviewSessionView) => {
+      if (sessionId) setJoined({ sessionId, participantId: loadReviewParticipantId(sessionId) });
+      applySession(next);
+    },
+    [applySession, sessionId],
+  );
+
+  return { session, participantId, error, applySession, handleJoined };
+}
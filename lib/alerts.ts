@@ -0,0 +1,327 @@
+import type { DecisionEntry } from "./calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { buildCohortSummary } from "./compare/engine";
+import { VARIANCE_TREND_THRESHOLD, computePostureSummary, deriveEarlyWarnings } from "./judgment/posture";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfiles";
+
+export type AlertMetric = "return" | "pressure" | "stability" | "dnav";
+
+export type AlertComparator = ">" | ">=" | "<" | "<=";
+
+export type EarlyWarningKey = "fragility" | "debt" | "drift";
+
+export type AlertCondition =
+  | { kind: "rolling_mean"; metric: AlertMetric; window: number; comparator: AlertComparator; threshold: number }
+  | { kind: "archetype_streak"; archetypes: string[]; count: number }
+  | { kind: "stability_variance"; direction: "Expanding" | "Contracting"; window: number }
+  | { kind: "early_warning"; key: EarlyWarningKey; window: number };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  firedAt: number;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+  // Set once the rule stops matching; the notification stays until acknowledged.
+  clearedAt?: number;
+}
+
+export type AlertEventType =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "fired"
+  | "cleared"
+  | "acknowledged"
+  | "snoozed";
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  type: AlertEventType;
+  at: number;
+  detail?: string;
+  actor?: string | null;
+}
+
+export interface DatasetAlertState {
+  rules: AlertRule[];
+  // Rules whose condition held at the last evaluation; a rule fires only on the transition into this set.
+  activeRuleIds: string[];
+  notifications: AlertNotification[];
+  history: AlertEvent[];
+}
+
+export type AlertEvaluation = { triggered: boolean; message: string };
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  return: "Return",
+  pressure: "Pressure",
+  stability: "Stability",
+  dnav: "D-NAV",
+};
+
+export const EARLY_WARNING_LABELS: Record<EarlyWarningKey, string> = {
+  fragility: "Hidden Fragility",
+  debt: "Debt Forming",
+  drift: "Narrative Drift",
+};
+
+export const ALERT_SNOOZE_OPTIONS = [
+  { label: "1 hour", ms: 60 * 60 * 1000 },
+  { label: "1 day", ms: 24 * 60 * 60 * 1000 },
+  { label: "1 week", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+// Older events are dropped so a noisy rule cannot grow localStorage without bound.
+const MAX_HISTORY_EVENTS = 200;
+const MAX_NOTIFICATIONS = 50;
+const EARLY_WARNING_MIN_DECISIONS = 5;
+
+export const createEmptyAlertState = (): DatasetAlertState => ({
+  rules: [],
+  activeRuleIds: [],
+  notifications: [],
+  history: [],
+});
+
+const compare = (value: number, comparator: AlertComparator, threshold: number) => {
+  switch (comparator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+  }
+};
+
+const latest = (decisions: DecisionEntry[], count: number) =>
+  [...decisions].sort((a, b) => a.ts - b.ts).slice(-Math.max(1, Math.round(count)));
+
+const summarizePosture = (decisions: DecisionEntry[]) =>
+  computePostureSummary(
+    buildCohortSummary({
+      decisions,
+      request: { label: "Alerts", timeframeLabel: "Latest decisions", normalizationBasis: "shared_timeframe" },
+    }),
+    decisions,
+  );
+
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case "rolling_mean":
+      return `Rolling-${condition.window} ${ALERT_METRIC_LABELS[condition.metric]} mean ${condition.comparator} ${condition.threshold}`;
+    case "archetype_streak":
+      return `${condition.count} consecutive ${condition.archetypes.join("/")} archetypes`;
+    case "stability_variance":
+      return `Stability variance ${condition.direction} over the last ${condition.window} decisions`;
+    case "early_warning":
+      return `${EARLY_WARNING_LABELS[condition.key]} over the last ${condition.window} decisions`;
+  }
+}
+
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  decisions: DecisionEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): AlertEvaluation {
+  switch (condition.kind) {
+    case "rolling_mean": {
+      // A rolling mean is only meaningful once the window is full.
+      if (decisions.length < condition.window) {
+        return { triggered: false, message: `Waiting for ${condition.window} decisions.` };
+      }
+      const window = latest(decisions, condition.window);
+      const mean = window.reduce((sum, decision) => sum + decision[condition.metric], 0) / window.length;
+      return {
+        triggered: compare(mean, condition.comparator, condition.threshold),
+        message: `Rolling-${condition.window} ${ALERT_METRIC_LABELS[condition.metric]} mean is ${mean.toFixed(2)}.`,
+      };
+    }
+    case "archetype_streak": {
+      if (decisions.length < condition.count) {
+        return { triggered: false, message: `Waiting for ${condition.count} decisions.` };
+      }
+      const names = latest(decisions, condition.count).map((decision) => getArchetype(decision, profile).name);
+      return {
+        triggered: names.every((name) => condition.archetypes.includes(name)),
+        message: `Last ${condition.count} archetypes: ${names.join(", ")}.`,
+      };
+    }
+    case "stability_variance": {
+      const trend = summarizePosture(latest(decisions, condition.window)).trends.varianceTrend ?? 0;
+      const triggered =
+        condition.direction === "Expanding" ? trend > VARIANCE_TREND_THRESHOLD : trend < -VARIANCE_TREND_THRESHOLD;
+      return { triggered, message: `Stability variance moved ${trend >= 0 ? "+" : ""}${trend.toFixed(2)}.` };
+    }
+    case "early_warning": {
+      // Posture trends are slopes, and a slope through a handful of points is noise.
+      if (decisions.length < EARLY_WARNING_MIN_DECISIONS) {
+        return { triggered: false, message: `Waiting for ${EARLY_WARNING_MIN_DECISIONS} decisions.` };
+      }
+      const flag = deriveEarlyWarnings(summarizePosture(latest(decisions, condition.window))).find(
+        (warning) => warning.key === condition.key,
+      );
+      return { triggered: flag?.status === "On", message: flag?.reason ?? "" };
+    }
+  }
+}
+
+const appendHistory = (history: AlertEvent[], events: AlertEvent[]) =>
+  events.length ? [...history, ...events].slice(-MAX_HISTORY_EVENTS) : history;
+
+// Runs every enabled rule against the dataset and records transitions; rules that keep matching stay quiet.
+export function evaluateAlertRules(
+  state: DatasetAlertState,
+  decisions: DecisionEntry[],
+  options: { now: number; profile?: ScoringProfile },
+): DatasetAlertState {
+  const { now, profile } = options;
+  const previouslyActive = new Set(state.activeRuleIds);
+  const activeRuleIds: string[] = [];
+  const fired: AlertNotification[] = [];
+  const events: AlertEvent[] = [];
+  const clearedRuleIds = new Set<string>();
+
+  state.rules.forEach((rule) => {
+    if (!rule.enabled) return;
+    const result = evaluateAlertCondition(rule.condition, decisions, profile);
+    if (result.triggered) {
+      activeRuleIds.push(rule.id);
+      if (!previouslyActive.has(rule.id)) {
+        fired.push({ id: `${rule.id}:${now}`, ruleId: rule.id, ruleName: rule.name, message: result.message, firedAt: now });
+        events.push({ ruleId: rule.id, ruleName: rule.name, type: "fired", at: now, detail: result.message });
+      }
+    } else if (previouslyActive.has(rule.id)) {
+      clearedRuleIds.add(rule.id);
+      events.push({ ruleId: rule.id, ruleName: rule.name, type: "cleared", at: now, detail: result.message });
+    }
+  });
+
+  if (!fired.length && !events.length && activeRuleIds.length === state.activeRuleIds.length) return state;
+
+  const notifications = [
+    ...fired,
+    ...state.notifications.map((notification) =>
+      clearedRuleIds.has(notification.ruleId) && notification.clearedAt === undefined
+        ? { ...notification, clearedAt: now }
+        : notification,
+    ),
+  ].slice(0, MAX_NOTIFICATIONS);
+
+  return { ...state, activeRuleIds, notifications, history: appendHistory(state.history, events) };
+}
+
+// Changing a rule's condition resets its active flag so the new condition is judged afresh on the next evaluation.
+export function upsertAlertRule(
+  state: DatasetAlertState,
+  draft: { id: string; name: string; condition: AlertCondition; enabled: boolean },
+  options: { now: number; actor?: string | null },
+): DatasetAlertState {
+  const existing = state.rules.find((rule) => rule.id === draft.id);
+  const rule: AlertRule = {
+    ...draft,
+    name: draft.name.trim() || describeAlertCondition(draft.condition),
+    createdAt: existing?.createdAt ?? options.now,
+    updatedAt: options.now,
+  };
+  const rules = existing ? state.rules.map((item) => (item.id === rule.id ? rule : item)) : [...state.rules, rule];
+  const event: AlertEvent = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    type: existing ? "updated" : "created",
+    at: options.now,
+    detail: `${describeAlertCondition(rule.condition)}${rule.enabled ? "" : " (disabled)"}`,
+    actor: options.actor,
+  };
+  const conditionChanged = JSON.stringify(existing?.condition) !== JSON.stringify(rule.condition);
+  return {
+    ...state,
+    rules,
+    activeRuleIds: conditionChanged ? state.activeRuleIds.filter((id) => id !== rule.id) : state.activeRuleIds,
+    history: appendHistory(state.history, [event]),
+  };
+}
+
+export function deleteAlertRule(
+  state: DatasetAlertState,
+  ruleId: string,
+  options: { now: number; actor?: string | null },
+): DatasetAlertState {
+  const rule = state.rules.find((item) => item.id === ruleId);
+  if (!rule) return state;
+  return {
+    ...state,
+    rules: state.rules.filter((item) => item.id !== ruleId),
+    activeRuleIds: state.activeRuleIds.filter((id) => id !== ruleId),
+    history: appendHistory(state.history, [
+      { ruleId, ruleName: rule.name, type: "deleted", at: options.now, actor: options.actor },
+    ]),
+  };
+}
+
+export function acknowledgeAlert(
+  state: DatasetAlertState,
+  notificationId: string,
+  options: { now: number; actor?: string | null },
+): DatasetAlertState {
+  const notification = state.notifications.find((item) => item.id === notificationId);
+  if (!notification || notification.acknowledgedAt !== undefined) return state;
+  return {
+    ...state,
+    notifications: state.notifications.map((item) =>
+      item.id === notificationId ? { ...item, acknowledgedAt: options.now } : item,
+    ),
+    history: appendHistory(state.history, [
+      {
+        ruleId: notification.ruleId,
+        ruleName: notification.ruleName,
+        type: "acknowledged",
+        at: options.now,
+        actor: options.actor,
+      },
+    ]),
+  };
+}
+
+export function snoozeAlert(
+  state: DatasetAlertState,
+  notificationId: string,
+  options: { now: number; durationMs: number; actor?: string | null },
+): DatasetAlertState {
+  const notification = state.notifications.find((item) => item.id === notificationId);
+  if (!notification || notification.acknowledgedAt !== undefined) return state;
+  const snoozedUntil = options.now + options.durationMs;
+  return {
+    ...state,
+    notifications: state.notifications.map((item) => (item.id === notificationId ? { ...item, snoozedUntil } : item)),
+    history: appendHistory(state.history, [
+      {
+        ruleId: notification.ruleId,
+        ruleName: notification.ruleName,
+        type: "snoozed",
+        at: options.now,
+        detail: `Until ${new Date(snoozedUntil).toLocaleString()}`,
+        actor: options.actor,
+      },
+    ]),
+  };
+}
+
+// Open notifications need attention: not acknowledged and not inside a snooze window.
+export const isAlertOpen = (notification: AlertNotification, now: number) =>
+  notification.acknowledgedAt === undefined && (notification.snoozedUntil ?? 0) <= now;
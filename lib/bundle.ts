@@ -0,0 +1,272 @@
+import { z } from "zod";
+
+import type { DecisionEntry } from "./calculations";
+import { datasetStateSchema } from "./datasetSchema";
+import { getDecisionKey } from "./datasetSync";
+import type { SessionDecision } from "./intake/decisionSessionSync";
+import {
+  getDatasetScoringProfile,
+  registerScoringProfile,
+  scoringProfileSchema,
+  type ScoringProfile,
+} from "./scoringProfiles";
+import { type ArchetypeSummaryOutput, type CompanyContext, type CompanySummaryOutput } from "@/types/company";
+import { getEmptyDatasetMeta, type DatasetId, type DatasetMeta, type DatasetState } from "@/types/dataset";
+
+export const BUNDLE_FORMAT = "dnav-bundle";
+export const BUNDLE_VERSION = 1;
+
+const companyContextSchema = z
+  .object({
+    companyName: z.string(),
+    timeframeLabel: z.string(),
+  })
+  .passthrough();
+
+const companySummarySchema = z.object({
+  summary: z.string(),
+  strengths: z.array(z.string()),
+  vulnerabilities: z.array(z.string()),
+});
+
+const archetypeSummarySchema = z.object({
+  title: z.string(),
+  summary: z.string(),
+  isStrength: z.boolean(),
+  notes: z.array(z.string()),
+});
+
+const sessionDecisionSchema = z
+  .object({
+    id: z.string().min(1),
+    decisionTitle: z.string(),
+    category: z.string(),
+    impact: z.number(),
+    cost: z.number(),
+    risk: z.number(),
+    urgency: z.number(),
+    confidence: z.number(),
+    r: z.number(),
+    p: z.number(),
+    s: z.number(),
+    dnav: z.number(),
+    createdAt: z.number(),
+  })
+  .passthrough();
+
+export const dnavBundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(BUNDLE_VERSION),
+  exportedAt: z.number(),
+  activeDatasetId: z.string().nullable().default(null),
+  datasets: z.array(datasetStateSchema),
+  companyContext: companyContextSchema.nullable().default(null),
+  companySummary: companySummarySchema.nullable().default(null),
+  archetypeSummaries: z.record(archetypeSummarySchema).default({}),
+  stressTestSession: z.array(sessionDecisionSchema).default([]),
+  scoringProfiles: z.array(scoringProfileSchema).default([]),
+});
+
+export interface DnavBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  activeDatasetId: DatasetId | null;
+  datasets: DatasetState[];
+  companyContext: CompanyContext | null;
+  companySummary: CompanySummaryOutput | null;
+  archetypeSummaries: Record<string, ArchetypeSummaryOutput>;
+  stressTestSession: SessionDecision[];
+  scoringProfiles: ScoringProfile[];
+}
+
+export type BundleParseResult = { ok: true; bundle: DnavBundle } | { ok: false; error: string };
+
+export type BundleImportMode = "merge" | "replace" | "add" | "skip";
+
+export interface BundleImportPlanItem {
+  id: DatasetId;
+  label: string;
+  decisionCount: number;
+  existingLabel: string | null;
+  modes: BundleImportMode[];
+  defaultMode: BundleImportMode;
+}
+
+export interface BundleImportResult {
+  datasets: DatasetState[];
+  summary: string[];
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// The full definition of every profile in use travels with the bundle so its stored metrics can be reproduced.
+export function createBundle(
+  input: Omit<DnavBundle, "format" | "version" | "exportedAt" | "scoringProfiles">,
+  now: number = Date.now(),
+): DnavBundle {
+  const profiles = new Map(
+    input.datasets.map((dataset) => getDatasetScoringProfile(dataset.meta)).map((profile) => [profile.id, profile]),
+  );
+  const scoringProfiles = [...profiles.values()];
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: now, ...input, scoringProfiles };
+}
+
+// The stress-test session comes straight from localStorage, so rows that would fail bundle validation are left out.
+export function readSessionDecisions(raw: unknown[]): SessionDecision[] {
+  return raw.flatMap((entry) => {
+    const parsed = sessionDecisionSchema.safeParse(entry);
+    return parsed.success ? [parsed.data as unknown as SessionDecision] : [];
+  });
+}
+
+export function parseBundle(raw: unknown): BundleParseResult {
+  const parsed = dnavBundleSchema.safeParse(raw);
+  if (parsed.success) return { ok: true, bundle: parsed.data as unknown as DnavBundle };
+
+  const issue = parsed.error.issues[0];
+  if (issue?.path[0] === "format") return { ok: false, error: "This file is not a D-NAV bundle." };
+  if (issue?.path[0] === "version") return { ok: false, error: "This bundle was created by a newer version of D-NAV." };
+  const where = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+  return { ok: false, error: `The bundle failed validation${where}: ${issue?.message ?? "unknown issue"}.` };
+}
+
+// Bundles are plain JSON; gzip is optional and detected from the magic bytes rather than the file name.
+export async function encodeBundle(bundle: DnavBundle, options: { compress?: boolean } = {}): Promise<Blob> {
+  const json = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  if (!options.compress) return json;
+  const stream = json.stream().pipeThrough(new CompressionStream("gzip"));
+  return new Blob([await new Response(stream).arrayBuffer()], { type: "application/gzip" });
+}
+
+export async function decodeBundle(file: Blob): Promise<unknown> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1];
+  const text = isGzip
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream("gzip"))).text()
+    : await file.text();
+  return JSON.parse(text);
+}
+
+export function getBundleFileName(bundle: DnavBundle, compress = false): string {
+  const date = new Date(bundle.exportedAt).toISOString().split("T")[0];
+  return `dnav-bundle-${date}.json${compress ? ".gz" : ""}`;
+}
+
+export function planBundleImport(current: DatasetState[], bundle: DnavBundle): BundleImportPlanItem[] {
+  return bundle.datasets.map((dataset) => {
+    const existing = current.find((item) => item.id === dataset.id) ?? null;
+    return {
+      id: dataset.id,
+      label: dataset.label,
+      decisionCount: dataset.decisions.length,
+      existingLabel: existing?.label ?? null,
+      modes: existing ? ["merge", "replace", "add", "skip"] : ["add", "skip"],
+      defaultMode: existing ? "merge" : "add",
+    };
+  });
+}
+
+const mergeMeta = (current: DatasetMeta, incoming: DatasetMeta): DatasetMeta => {
+  const merged: DatasetMeta = { ...current };
+  (Object.keys(incoming) as (keyof DatasetMeta)[]).forEach((key) => {
+    const value = incoming[key];
+    if (value !== undefined && value !== "" && (current[key] === undefined || current[key] === "")) {
+      (merged as unknown as Record<string, unknown>)[key] = value;
+    }
+  });
+  return merged;
+};
+
+// Merging keeps local rows when both sides have the same decision; only unseen decisions are brought in.
+const mergeDecisions = (current: DecisionEntry[], incoming: DecisionEntry[]) => {
+  const known = new Set(current.map(getDecisionKey));
+  const added = incoming.filter((decision) => !known.has(getDecisionKey(decision)));
+  return { decisions: [...current, ...added].sort((a, b) => b.ts - a.ts), added: added.length };
+};
+
+const nextFreeId = (taken: Set<DatasetId>, preferred: DatasetId) => {
+  if (!taken.has(preferred)) return preferred;
+  let suffix = 2;
+  while (taken.has(`${preferred}-${suffix}`)) suffix += 1;
+  return `${preferred}-${suffix}`;
+};
+
+// Profiles are resolved from the definitions the bundle carries rather than by id alone: one that scores like a local
+// profile is matched to it, and anything else is registered on the dataset instead of silently falling back.
+const importScoringProfile = (meta: DatasetMeta, bundle: DnavBundle, existing: ScoringProfile[]) => {
+  const id = meta.scoringProfileId;
+  const embedded = id
+    ? (meta.scoringProfiles?.find((profile) => profile.id === id) ??
+      bundle.scoringProfiles.find((profile) => profile.id === id))
+    : undefined;
+  const resolved = embedded
+    ? registerScoringProfile(existing, embedded)
+    : { id, profiles: existing, added: false };
+  return {
+    meta: {
+      ...meta,
+      scoringProfileId: resolved.id,
+      scoringProfiles: resolved.profiles.length ? resolved.profiles : undefined,
+    },
+    registered: embedded && resolved.added ? embedded.name || resolved.id : null,
+  };
+};
+
+export function applyBundleImport(
+  current: DatasetState[],
+  bundle: DnavBundle,
+  modes: Record<DatasetId, BundleImportMode>,
+): BundleImportResult {
+  let datasets = [...current];
+  const summary: string[] = [];
+
+  bundle.datasets.forEach((incoming) => {
+    const existingIndex = datasets.findIndex((dataset) => dataset.id === incoming.id);
+    const requested = modes[incoming.id] ?? (existingIndex === -1 ? "add" : "merge");
+    const mode = existingIndex === -1 && (requested === "merge" || requested === "replace") ? "add" : requested;
+    const incomingMeta = { ...getEmptyDatasetMeta(), ...incoming.meta };
+
+    if (mode === "skip") return;
+
+    const existing = existingIndex === -1 ? null : datasets[existingIndex];
+    // A merge keeps the profile the local dataset already scores with.
+    const keepsProfile = mode === "merge" && Boolean(existing?.meta.scoringProfileId);
+    const baseProfiles =
+      mode === "merge"
+        ? (existing?.meta.scoringProfiles ?? [])
+        : (incomingMeta.scoringProfiles ?? []).filter((profile) => profile.id !== incomingMeta.scoringProfileId);
+    const imported = keepsProfile
+      ? { meta: incomingMeta, registered: null }
+      : importScoringProfile(incomingMeta, bundle, baseProfiles);
+    const meta = imported.meta;
+    if (imported.registered) summary.push(`Registered scoring profile ${imported.registered}.`);
+
+    if (mode === "add") {
+      const id = nextFreeId(new Set(datasets.map((dataset) => dataset.id)), incoming.id);
+      datasets = [...datasets, { id, label: incoming.label, meta, decisions: incoming.decisions }];
+      summary.push(`Added ${incoming.label} with ${plural(incoming.decisions.length, "decision")}.`);
+      return;
+    }
+
+    if (!existing) return;
+    if (mode === "replace") {
+      datasets[existingIndex] = { id: existing.id, label: incoming.label, meta, decisions: incoming.decisions };
+      summary.push(`Replaced ${existing.label} with ${plural(incoming.decisions.length, "decision")}.`);
+      return;
+    }
+
+    const merged = mergeDecisions(existing.decisions, incoming.decisions);
+    const mergedMeta = mergeMeta(existing.meta, meta);
+    if (!keepsProfile) {
+      mergedMeta.scoringProfileId = meta.scoringProfileId;
+      mergedMeta.scoringProfiles = meta.scoringProfiles;
+    }
+    datasets[existingIndex] = { ...existing, meta: mergedMeta, decisions: merged.decisions };
+    summary.push(`Merged ${plural(merged.added, "new decision")} into ${existing.label}.`);
+  });
+
+  return { datasets, summary };
+}
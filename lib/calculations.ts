@@ -1,22 +1,9 @@
-// D-NAV Calculation Logic
-export interface DecisionVariables {
-  impact: number;
-  cost: number;
-  risk: number;
-  urgency: number;
-  confidence: number;
-}
-
-export type LeverageKey = keyof DecisionVariables | "interaction";
+// D-NAV decision model. The metrics themselves come from the canonical engine in src/lib/dnav.
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionMetrics, DecisionVars } from "@/src/lib/dnav/types";
+import type { ScoringProfile } from "./scoringProfiles";
 
-export interface DecisionMetrics {
-  return: number;
-  stability: number;
-  pressure: number;
-  merit: number;
-  energy: number;
-  dnav: number;
-}
+export type LeverageKey = keyof DecisionVars | "interaction";
 
 export type JudgmentSignalKey =
   | "fragileExecution"
@@ -31,7 +18,31 @@ export interface JudgmentSignal {
   correctiveMove: string;
 }
 
-export interface DecisionEntry extends DecisionVariables, DecisionMetrics {
+export interface DecisionOutcome {
+  impact: number;
+  cost: number;
+  risk: number;
+  recordedAt: number;
+  note?: string;
+}
+
+export interface DecisionRescore extends DecisionVars {
+  return: number;
+  pressure: number;
+  stability: number;
+  recordedAt: number;
+  note?: string;
+}
+
+// One rater's independent score of the decision, e.g. from a facilitated review session.
+export interface DecisionRating extends DecisionVars {
+  // Display name; `raterId` is what identifies the rater across decisions when present.
+  rater: string;
+  raterId?: string;
+  ratedAt: number;
+}
+
+export interface DecisionEntry extends DecisionVars, DecisionMetrics {
   ts: number;
   name: string;
   category: string;
@@ -75,74 +86,21 @@ export interface DecisionEntry extends DecisionVariables, DecisionMetrics {
   label?: string | null;
   resolutionWindow?: number | string;
   resolvedAt?: number | null;
-}
-
-export interface EnergyTier {
-  e: number;
-  name: string;
-  short: string;
-}
-
-// One-word archetypes (keyed by P|S|R)
-export const oneWordArchetypes: Record<string, string> = {
-  "1|1|1": "Breakthrough", "0|1|1": "Advance", "-1|1|1": "Harvest",
-  "1|0|1": "Sprint", "0|0|1": "Build", "-1|0|1": "Coast",
-  "1|-1|1": "Gamble", "0|-1|1": "Moonshot", "-1|-1|1": "Prospect",
-  "1|1|0": "Grind", "0|1|0": "Maintain", "-1|1|0": "Idle",
-  "1|0|0": "Firefight", "0|0|0": "Routine", "-1|0|0": "Drift",
-  "1|-1|0": "Strain", "0|-1|0": "Wobble", "-1|-1|0": "Teeter",
-  "1|1|-1": "Overreach", "0|1|-1": "Erode", "-1|1|-1": "Complacency",
-  "1|0|-1": "Burn", "0|0|-1": "Waste", "-1|0|-1": "Leak",
-  "1|-1|-1": "Meltdown", "0|-1|-1": "Collapse", "-1|-1|-1": "Decay"
-};
-
-export type RpsSignal = -1 | 0 | 1;
-
-const archetypeSignalsByName: Record<string, { r: RpsSignal; p: RpsSignal; s: RpsSignal }> =
-  Object.entries(oneWordArchetypes).reduce(
-    (acc, [key, name]) => {
-      const [p, s, r] = key.split("|").map((value) => Number(value) as RpsSignal);
-      acc[name] = { r, p, s };
-      return acc;
-    },
-    {} as Record<string, { r: RpsSignal; p: RpsSignal; s: RpsSignal }>
-  );
-
-export function getArchetypeSignals(archetypeName: string): { r: RpsSignal; p: RpsSignal; s: RpsSignal } | null {
-  return archetypeSignalsByName[archetypeName] ?? null;
+  outcome?: DecisionOutcome | null;
+  rescores?: DecisionRescore[];
+  ratings?: DecisionRating[];
 }
 
 export function sign3(x: number): number {
   return x > 0 ? 1 : x < 0 ? -1 : 0;
 }
 
-export function energyTier(u: number, c: number): EnergyTier {
-  const e = (u || 0) * (c || 0);
-  if (e >= 71) return { e, name: "Overdrive energy", short: "overdrive" };
-  if (e >= 41) return { e, name: "High energy", short: "high" };
-  if (e >= 16) return { e, name: "Moderate energy", short: "moderate" };
-  return { e, name: "Low energy", short: "low" };
+// Stored metrics are recomputed from the variables so a dataset never mixes numbers from two profiles.
+export function rescoreDecisions(decisions: DecisionEntry[], profile: ScoringProfile): DecisionEntry[] {
+  return decisions.map((decision) => ({ ...decision, ...computeMetrics(decision, profile) }));
 }
 
-export function computeMetrics(vars: DecisionVariables): DecisionMetrics {
-  const ret = vars.impact - vars.cost;
-  const stability = vars.confidence - vars.risk;
-  const pressure = vars.urgency - vars.confidence;
-  const merit = vars.impact - vars.cost - vars.risk;
-  const eInfo = energyTier(vars.urgency, vars.confidence);
-  const dnav = merit + eInfo.e;
-  
-  return {
-    return: ret,
-    stability,
-    pressure,
-    merit,
-    energy: eInfo.e,
-    dnav
-  };
-}
-
-export function detectJudgmentSignal(vars: DecisionVariables, metrics: DecisionMetrics): JudgmentSignal | null {
+export function detectJudgmentSignal(vars: DecisionVars, metrics: DecisionMetrics): JudgmentSignal | null {
   const { confidence, risk, urgency } = vars;
   const { pressure, return: ret, stability } = metrics;
 
@@ -214,56 +172,12 @@ export function detectJudgmentSignal(vars: DecisionVariables, metrics: DecisionM
   return signal;
 }
 
-export interface ArchetypeInfo {
-  name: string;
-  description: string;
-  pressureType: string;
-  stabilityType: string;
-  returnType: string;
-}
-
 export interface ReadoutLines {
   condition: string;
   meaning: string;
   action: string;
 }
 
-export function getArchetype(metrics: DecisionMetrics): ArchetypeInfo {
-  const pS = sign3(metrics.pressure);
-  const sS = sign3(metrics.stability);
-  const rS = sign3(metrics.return);
-  const key = [pS, sS, rS].join('|');
-  const name = oneWordArchetypes[key] || 'Unclassified';
-
-  const returnLine =
-    rS > 0
-      ? "Return is leading."
-      : rS < 0
-      ? "Return is dragging."
-      : "Return is neutral.";
-  const stabilityLine =
-    sS > 0
-      ? "Stability is steady."
-      : sS < 0
-      ? "Stability is fragile."
-      : "Stability is mixed.";
-  const pressureLine =
-    pS > 0
-      ? "Pressure is driving the pace."
-      : pS < 0
-      ? "Pressure is light."
-      : "Pressure is balanced.";
-  const description = `${returnLine} ${stabilityLine} ${pressureLine}`;
-
-  return {
-    name,
-    description,
-    pressureType: pS > 0 ? "Urgency > Confidence" : pS < 0 ? "Confidence > Urgency" : "Urgency = Confidence",
-    stabilityType: sS > 0 ? "Confidence > Risk" : sS < 0 ? "Risk > Confidence" : "Confidence = Risk",
-    returnType: rS > 0 ? "Impact > Cost" : rS < 0 ? "Cost > Impact" : "Impact = Cost",
-  };
-}
-
 export function getScoreTagText(n: number): string {
   if (n >= 80) return "Very high D-NAV";
   if (n >= 50) return "High D-NAV";
@@ -0,0 +1,161 @@
+import type { DecisionOutcome } from "./calculations";
+import { getRealizedStability } from "./outcomes";
+
+export type CalibrationClass = "Overconfident" | "Underconfident" | "Calibrated" | "Insufficient data";
+
+export interface CalibrationInput {
+  category: string;
+  archetype: string;
+  confidence0: number;
+  stability0: number;
+  outcome?: DecisionOutcome | null;
+}
+
+export interface ReliabilityBin {
+  confidence: number;
+  count: number;
+  predicted: number;
+  observed: number | null;
+  avgRealizedStability: number | null;
+}
+
+export interface CalibrationGroup {
+  label: string;
+  count: number;
+  brierScore: number;
+  gap: number;
+  classification: CalibrationClass;
+}
+
+export interface CalibrationReport {
+  resolvedCount: number;
+  bins: ReliabilityBin[];
+  brierScore: number | null;
+  expectedCalibrationError: number | null;
+  gap: number | null;
+  classification: CalibrationClass;
+  byCategory: CalibrationGroup[];
+  byArchetype: CalibrationGroup[];
+}
+
+const MIN_SAMPLE = 3;
+const GAP_THRESHOLD = 0.1;
+
+const CONFIDENCE_LEVELS = Array.from({ length: 10 }, (_, index) => index + 1);
+
+type ScoredDecision = CalibrationInput & {
+  outcome: DecisionOutcome;
+  predicted: number;
+  observed: 0 | 1;
+  realizedStability: number;
+};
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// Confidence is read as the probability that Risk stays covered, i.e. realized Stability lands above zero.
+export function confidenceToProbability(confidence: number): number {
+  return Math.min(10, Math.max(1, Math.round(confidence))) / 10;
+}
+
+export function classifyCalibration(gap: number, count: number): CalibrationClass {
+  if (count < MIN_SAMPLE) return "Insufficient data";
+  if (gap > GAP_THRESHOLD) return "Overconfident";
+  if (gap < -GAP_THRESHOLD) return "Underconfident";
+  return "Calibrated";
+}
+
+const scoreDecisions = (decisions: CalibrationInput[]): ScoredDecision[] =>
+  decisions
+    .filter((decision): decision is CalibrationInput & { outcome: DecisionOutcome } => Boolean(decision.outcome))
+    .map((decision) => {
+      const realizedStability = getRealizedStability(decision);
+      return {
+        ...decision,
+        predicted: confidenceToProbability(decision.confidence0),
+        observed: realizedStability > 0 ? 1 : 0,
+        realizedStability,
+      };
+    });
+
+const brier = (scored: ScoredDecision[]) => average(scored.map((d) => (d.predicted - d.observed) ** 2));
+
+const overconfidenceGap = (scored: ScoredDecision[]) =>
+  average(scored.map((d) => d.predicted)) - average(scored.map((d) => d.observed));
+
+const buildGroups = (scored: ScoredDecision[], keyOf: (decision: ScoredDecision) => string, order?: string[]) => {
+  const grouped: Record<string, ScoredDecision[]> = {};
+  scored.forEach((decision) => {
+    const key = keyOf(decision);
+    grouped[key] = grouped[key] || [];
+    grouped[key].push(decision);
+  });
+
+  const rows: CalibrationGroup[] = Object.entries(grouped).map(([label, values]) => {
+    const gap = overconfidenceGap(values);
+    return {
+      label,
+      count: values.length,
+      brierScore: brier(values),
+      gap,
+      classification: classifyCalibration(gap, values.length),
+    };
+  });
+
+  if (order?.length) {
+    const rank = (label: string) => {
+      const index = order.indexOf(label);
+      return index === -1 ? order.length : index;
+    };
+    return rows.sort((a, b) => rank(a.label) - rank(b.label) || b.count - a.count);
+  }
+
+  return rows.sort((a, b) => b.count - a.count || Math.abs(b.gap) - Math.abs(a.gap));
+};
+
+export function computeCalibrationReport(
+  decisions: CalibrationInput[],
+  options: { categoryOrder?: string[] } = {},
+): CalibrationReport {
+  const scored = scoreDecisions(decisions);
+
+  const bins = CONFIDENCE_LEVELS.map((confidence) => {
+    const inBin = scored.filter((d) => Math.min(10, Math.max(1, Math.round(d.confidence0))) === confidence);
+    return {
+      confidence,
+      count: inBin.length,
+      predicted: confidence / 10,
+      observed: inBin.length ? average(inBin.map((d) => d.observed)) : null,
+      avgRealizedStability: inBin.length ? average(inBin.map((d) => d.realizedStability)) : null,
+    };
+  });
+
+  if (scored.length === 0) {
+    return {
+      resolvedCount: 0,
+      bins,
+      brierScore: null,
+      expectedCalibrationError: null,
+      gap: null,
+      classification: "Insufficient data",
+      byCategory: [],
+      byArchetype: [],
+    };
+  }
+
+  const expectedCalibrationError = bins.reduce(
+    (sum, bin) => (bin.observed === null ? sum : sum + (bin.count / scored.length) * Math.abs(bin.predicted - bin.observed)),
+    0,
+  );
+  const gap = overconfidenceGap(scored);
+
+  return {
+    resolvedCount: scored.length,
+    bins,
+    brierScore: brier(scored),
+    expectedCalibrationError,
+    gap,
+    classification: classifyCalibration(gap, scored.length),
+    byCategory: buildGroups(scored, (d) => d.category, options.categoryOrder),
+    byArchetype: buildGroups(scored, (d) => d.archetype),
+  };
+}
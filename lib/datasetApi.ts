@@ -0,0 +1,90 @@
+import type { DatasetDraft, DatasetRecord, DecisionChange, DecisionConflict } from "./datasetSync";
+import { getIdentityProvider } from "./identity";
+import type { TimeframeValue } from "./reportTimeframes";
+import type { DatasetAccessGrant } from "./workspaces";
+import type { DatasetId, DatasetMeta } from "@/types/dataset";
+
+const DATASETS_ENDPOINT = "/api/datasets";
+
+const datasetUrl = (id: DatasetId) => `${DATASETS_ENDPOINT}/${encodeURIComponent(id)}`;
+
+// Every call carries the signed-in user's credentials so route handlers can enforce workspace roles.
+export const requestJson = async <T>(url: string, init?: RequestInit): Promise<{ status: number; body: T }> => {
+  const authHeaders = await getIdentityProvider().getAuthHeaders();
+  const response = await fetch(url, {
+    ...init,
+    cache: "no-store",
+    headers: { "Content-Type": "application/json", ...authHeaders, ...init?.headers },
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  return { status: response.status, body: body as T };
+};
+
+export const failure = (action: string, status: number) => new Error(`Failed to ${action}: ${status}`);
+
+export async function fetchRemoteDatasets(): Promise<DatasetRecord[]> {
+  const { status, body } = await requestJson<{ datasets: DatasetRecord[] }>(DATASETS_ENDPOINT);
+  if (status !== 200 || !body) throw failure("load datasets", status);
+  return body.datasets;
+}
+
+export async function fetchRemoteDataset(id: DatasetId): Promise<DatasetRecord | null> {
+  const { status, body } = await requestJson<{ dataset: DatasetRecord }>(datasetUrl(id));
+  if (status === 404) return null;
+  if (status !== 200 || !body) throw failure("load dataset", status);
+  return body.dataset;
+}
+
+// Creating a dataset that already exists hands back the server copy so the caller can reconcile against it.
+export async function createRemoteDataset(draft: DatasetDraft): Promise<DatasetRecord> {
+  const { status, body } = await requestJson<{ dataset: DatasetRecord }>(DATASETS_ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+  if (status === 201 && body) return body.dataset;
+  if (status === 409 && draft.id) {
+    const existing = await fetchRemoteDataset(draft.id);
+    if (existing) return existing;
+  }
+  throw failure("create dataset", status);
+}
+
+export async function updateRemoteDataset(
+  id: DatasetId,
+  patch: { label?: string; meta?: Partial<DatasetMeta>; workspaceId?: string; access?: DatasetAccessGrant[] },
+): Promise<DatasetRecord> {
+  const { status, body } = await requestJson<{ dataset: DatasetRecord }>(datasetUrl(id), {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  if (status !== 200 || !body) throw failure("update dataset", status);
+  return body.dataset;
+}
+
+export async function deleteRemoteDataset(id: DatasetId): Promise<void> {
+  const { status } = await requestJson<null>(datasetUrl(id), { method: "DELETE" });
+  if (status !== 204 && status !== 404) throw failure("delete dataset", status);
+}
+
+export async function patchRemoteDecisions(
+  id: DatasetId,
+  changes: DecisionChange[],
+): Promise<{ dataset: DatasetRecord; conflicts: DecisionConflict[] }> {
+  const { status, body } = await requestJson<{ dataset: DatasetRecord; conflicts?: DecisionConflict[] }>(
+    `${datasetUrl(id)}/decisions`,
+    { method: "PATCH", body: JSON.stringify({ changes }) },
+  );
+  if ((status === 200 || status === 409) && body?.dataset) {
+    return { dataset: body.dataset, conflicts: body.conflicts ?? [] };
+  }
+  throw failure("save decisions", status);
+}
+
+// The executive readout rendered on the server, for downloads that match byte-for-byte across browsers.
+export async function fetchExecutiveReportPdf(id: DatasetId, timeframe: TimeframeValue): Promise<Blob> {
+  const authHeaders = await getIdentityProvider().getAuthHeaders();
+  const params = new URLSearchParams({ dataset: id, window: timeframe });
+  const response = await fetch(`/api/reports/pdf?${params.toString()}`, { cache: "no-store", headers: authHeaders });
+  if (!response.ok) throw failure("render report", response.status);
+  return response.blob();
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+import type { DecisionEntry } from "./calculations";
+import { scoringProfileSchema } from "./scoringProfiles";
+import { WORKSPACE_ROLES } from "./workspaces";
+
+// Decisions carry many optional legacy columns, so only the fields the app relies on are checked.
+export const decisionEntrySchema = z
+  .object({
+    ts: z.number().finite(),
+    name: z.string(),
+    category: z.string(),
+    id: z.string().min(1).optional(),
+    impact: z.number().finite(),
+    cost: z.number().finite(),
+    risk: z.number().finite(),
+    urgency: z.number().finite(),
+    confidence: z.number().finite(),
+  })
+  .passthrough()
+  .transform((entry) => entry as unknown as DecisionEntry);
+
+export const datasetMetaSchema = z
+  .object({
+    companyName: z.string(),
+    periodLabel: z.string(),
+    displayLabel: z.string(),
+    judgmentUnitLabel: z.string(),
+    ticker: z.string(),
+    sector: z.string(),
+    stage: z.string(),
+    source: z.string(),
+    type: z.string(),
+    contextNote: z.string(),
+    path: z.string(),
+    scoringProfileId: z.string(),
+    scoringProfiles: z.array(scoringProfileSchema),
+  })
+  .partial()
+  .passthrough();
+
+export const datasetAccessGrantSchema = z.object({
+  userId: z.string().min(1).max(320),
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+export const datasetStateSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  meta: datasetMetaSchema.default({}),
+  decisions: z.array(decisionEntrySchema).default([]),
+  workspaceId: z.string().min(1).optional(),
+  access: z.array(datasetAccessGrantSchema).optional(),
+});
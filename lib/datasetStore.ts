@@ -0,0 +1,224 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { DecisionEntry } from "./calculations";
+import {
+  applyDecisionChanges,
+  type DatasetDraft,
+  type DatasetRecord,
+  type DecisionChange,
+  type DecisionConflict,
+} from "./datasetSync";
+import { getDatasetDisplayLabel } from "./reportDatasets";
+import { normalizeMembers, type DatasetAccessGrant } from "./workspaces";
+import { createDatasetId, getEmptyDatasetMeta, type DatasetId, type DatasetMeta } from "@/types/dataset";
+
+// Server-only: route handlers talk to datasets through this adapter so the backing store can be swapped.
+export interface DatasetStorageAdapter {
+  list(): Promise<DatasetRecord[]>;
+  get(id: DatasetId): Promise<DatasetRecord | null>;
+  put(record: DatasetRecord): Promise<void>;
+  remove(id: DatasetId): Promise<boolean>;
+}
+
+export type DatasetStoreResult =
+  | { ok: true; dataset: DatasetRecord }
+  | { ok: false; reason: "not_found" | "exists" }
+  | { ok: false; reason: "stale"; dataset: DatasetRecord }
+  | { ok: false; reason: "conflict"; dataset: DatasetRecord; conflicts: DecisionConflict[] };
+
+export function createMemoryDatasetAdapter(seed: DatasetRecord[] = []): DatasetStorageAdapter {
+  const records = new Map<DatasetId, DatasetRecord>(seed.map((record) => [record.id, record]));
+  const copy = (record: DatasetRecord): DatasetRecord => JSON.parse(JSON.stringify(record)) as DatasetRecord;
+
+  return {
+    async list() {
+      return Array.from(records.values()).map(copy);
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? copy(record) : null;
+    },
+    async put(record) {
+      records.set(record.id, copy(record));
+    },
+    async remove(id) {
+      return records.delete(id);
+    },
+  };
+}
+
+// One JSON file per dataset; writes go through a temp file so a crash never leaves half a dataset on disk.
+export function createFileDatasetAdapter(directory: string): DatasetStorageAdapter {
+  const fileFor = (id: DatasetId) => path.join(directory, `${encodeURIComponent(id)}.json`);
+
+  const readRecord = async (file: string): Promise<DatasetRecord | null> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as DatasetRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+      const records = await Promise.all(
+        files.filter((file) => file.endsWith(".json")).map((file) => readRecord(path.join(directory, file))),
+      );
+      return records.filter((record): record is DatasetRecord => Boolean(record));
+    },
+    async get(id) {
+      return readRecord(fileFor(id));
+    },
+    async put(record) {
+      await mkdir(directory, { recursive: true });
+      const target = fileFor(record.id);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(record), "utf8");
+      await rename(temp, target);
+    },
+    async remove(id) {
+      const existing = await readRecord(fileFor(id));
+      if (!existing) return false;
+      await rm(fileFor(id), { force: true });
+      return true;
+    },
+  };
+}
+
+let defaultAdapter: DatasetStorageAdapter | null = null;
+
+export function getDatasetStorageAdapter(): DatasetStorageAdapter {
+  if (defaultAdapter) return defaultAdapter;
+  defaultAdapter =
+    process.env.DNAV_STORAGE_ADAPTER === "memory"
+      ? createMemoryDatasetAdapter()
+      : createFileDatasetAdapter(process.env.DNAV_DATA_DIR || path.join(process.cwd(), ".data", "datasets"));
+  return defaultAdapter;
+}
+
+// Read-modify-write cycles on the same dataset are serialized so concurrent requests cannot drop each other's edits.
+const datasetLocks = new Map<DatasetId, Promise<unknown>>();
+
+function withDatasetLock<T>(id: DatasetId, task: () => Promise<T>): Promise<T> {
+  const previous = datasetLocks.get(id) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  datasetLocks.set(id, run);
+  return run.finally(() => {
+    if (datasetLocks.get(id) === run) datasetLocks.delete(id);
+  });
+}
+
+const touch = (record: DatasetRecord, patch: Partial<DatasetRecord>, now: number): DatasetRecord => ({
+  ...record,
+  ...patch,
+  revision: record.revision + 1,
+  updatedAt: now,
+});
+
+export async function listDatasets(adapter: DatasetStorageAdapter): Promise<DatasetRecord[]> {
+  const records = await adapter.list();
+  return records.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+export async function createDataset(
+  adapter: DatasetStorageAdapter,
+  draft: DatasetDraft,
+  now: number = Date.now(),
+): Promise<DatasetStoreResult> {
+  const existing = await adapter.list();
+  const id = draft.id || createDatasetId();
+
+  return withDatasetLock(id, async () => {
+    if (await adapter.get(id)) return { ok: false, reason: "exists" };
+    const record: DatasetRecord = {
+      id,
+      label: draft.label.trim() || getDatasetDisplayLabel(existing.length),
+      meta: { ...getEmptyDatasetMeta(), ...draft.meta },
+      decisions: draft.decisions ?? [],
+      ...(draft.workspaceId ? { workspaceId: draft.workspaceId, access: normalizeMembers(draft.access ?? []) } : {}),
+      ...(draft.ownerId ? { ownerId: draft.ownerId } : {}),
+      revision: 1,
+      updatedAt: now,
+    };
+    await adapter.put(record);
+    return { ok: true, dataset: record };
+  });
+}
+
+export async function updateDataset(
+  adapter: DatasetStorageAdapter,
+  id: DatasetId,
+  patch: { label?: string; meta?: Partial<DatasetMeta>; workspaceId?: string; access?: DatasetAccessGrant[] },
+  now: number = Date.now(),
+): Promise<DatasetStoreResult> {
+  return withDatasetLock(id, async () => {
+    const record = await adapter.get(id);
+    if (!record) return { ok: false, reason: "not_found" };
+    const next = touch(
+      record,
+      {
+        label: patch.label?.trim() || record.label,
+        meta: patch.meta ? { ...record.meta, ...patch.meta } : record.meta,
+        workspaceId: patch.workspaceId ?? record.workspaceId,
+        access: patch.access ? normalizeMembers(patch.access) : record.access,
+      },
+      now,
+    );
+    await adapter.put(next);
+    return { ok: true, dataset: next };
+  });
+}
+
+export async function deleteDataset(adapter: DatasetStorageAdapter, id: DatasetId): Promise<boolean> {
+  return withDatasetLock(id, () => adapter.remove(id));
+}
+
+export async function applyDatasetDecisionChanges(
+  adapter: DatasetStorageAdapter,
+  id: DatasetId,
+  changes: DecisionChange[],
+  now: number = Date.now(),
+): Promise<DatasetStoreResult> {
+  return withDatasetLock(id, async () => {
+    const record = await adapter.get(id);
+    if (!record) return { ok: false, reason: "not_found" };
+    if (changes.length === 0) return { ok: true, dataset: record };
+
+    const result = applyDecisionChanges(record.decisions, changes);
+    if (result.conflicts.length > 0) {
+      return { ok: false, reason: "conflict", dataset: record, conflicts: result.conflicts };
+    }
+
+    const next = touch(record, { decisions: result.decisions }, now);
+    await adapter.put(next);
+    return { ok: true, dataset: next };
+  });
+}
+
+// Whole-list replacement is only accepted against the revision the caller last read.
+export async function replaceDatasetDecisions(
+  adapter: DatasetStorageAdapter,
+  id: DatasetId,
+  decisions: DecisionEntry[],
+  baseRevision: number,
+  now: number = Date.now(),
+): Promise<DatasetStoreResult> {
+  return withDatasetLock(id, async () => {
+    const record = await adapter.get(id);
+    if (!record) return { ok: false, reason: "not_found" };
+    if (record.revision !== baseRevision) return { ok: false, reason: "stale", dataset: record };
+
+    const next = touch(record, { decisions }, now);
+    await adapter.put(next);
+    return { ok: true, dataset: next };
+  });
+}
@@ -0,0 +1,236 @@
+import type { DecisionEntry } from "./calculations";
+import type { DatasetAccessGrant } from "./workspaces";
+import { createDatasetId, getEmptyDatasetMeta, type DatasetId, type DatasetMeta, type DatasetState } from "@/types/dataset";
+
+export type DecisionKey = string;
+
+export interface DatasetRecord extends DatasetState {
+  revision: number;
+  updatedAt: number;
+}
+
+// A change carries the version the client last saw so the server can tell whether someone else touched it since.
+export interface DecisionChange {
+  key: DecisionKey;
+  previous: DecisionEntry | null;
+  next: DecisionEntry | null;
+}
+
+export type DecisionConflictReason = "modified" | "deleted" | "duplicate";
+
+export interface DecisionConflict {
+  key: DecisionKey;
+  reason: DecisionConflictReason;
+  server: DecisionEntry | null;
+}
+
+export interface DecisionChangeResult {
+  decisions: DecisionEntry[];
+  conflicts: DecisionConflict[];
+}
+
+export interface HydratedDatasets {
+  datasets: DatasetState[];
+  renamed: Map<DatasetId, DatasetId>;
+  // Local edits dropped because the server copy changed the same row or details since the last sync.
+  conflicts: number;
+}
+
+export interface DatasetDraft {
+  id?: DatasetId;
+  label: string;
+  meta?: Partial<DatasetMeta>;
+  decisions?: DecisionEntry[];
+  workspaceId?: string;
+  access?: DatasetAccessGrant[];
+  ownerId?: string;
+}
+
+// Decisions without an explicit id fall back to their timestamp, which is how the log has always keyed rows.
+export function getDecisionKey(entry: Pick<DecisionEntry, "id" | "ts">): DecisionKey {
+  return entry.id ? `id:${entry.id}` : `ts:${entry.ts}`;
+}
+
+export const stableStringify = (value: unknown): string => {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+};
+
+export function isSameDecision(a: DecisionEntry | null | undefined, b: DecisionEntry | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return stableStringify(a) === stableStringify(b);
+}
+
+export function isSameDatasetMeta(a: Partial<DatasetMeta>, b: Partial<DatasetMeta>): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+const indexDecisions = (decisions: DecisionEntry[]) => {
+  const index = new Map<DecisionKey, DecisionEntry>();
+  decisions.forEach((decision) => index.set(getDecisionKey(decision), decision));
+  return index;
+};
+
+export function diffDecisions(previous: DecisionEntry[], next: DecisionEntry[]): DecisionChange[] {
+  const before = indexDecisions(previous);
+  const after = indexDecisions(next);
+  const changes: DecisionChange[] = [];
+
+  after.forEach((decision, key) => {
+    const prior = before.get(key) ?? null;
+    if (!isSameDecision(prior, decision)) {
+      changes.push({ key, previous: prior, next: decision });
+    }
+  });
+
+  before.forEach((decision, key) => {
+    if (!after.has(key)) {
+      changes.push({ key, previous: decision, next: null });
+    }
+  });
+
+  return changes;
+}
+
+const detectConflict = (change: DecisionChange, server: DecisionEntry | null): DecisionConflict | null => {
+  if (isSameDecision(change.previous, server)) return null;
+  // Both sides already agree on the end state, so there is nothing to fight over.
+  if (isSameDecision(change.next, server)) return null;
+  if (!change.previous) return { key: change.key, reason: "duplicate", server };
+  if (!server) return { key: change.key, reason: "deleted", server };
+  return { key: change.key, reason: "modified", server };
+};
+
+export function findDecisionConflicts(current: DecisionEntry[], changes: DecisionChange[]): DecisionConflict[] {
+  const index = indexDecisions(current);
+  return changes
+    .map((change) => detectConflict(change, index.get(change.key) ?? null))
+    .filter((conflict): conflict is DecisionConflict => Boolean(conflict));
+}
+
+// Changes are applied all-or-nothing: any conflict leaves the current decisions untouched.
+export function applyDecisionChanges(current: DecisionEntry[], changes: DecisionChange[]): DecisionChangeResult {
+  const conflicts = findDecisionConflicts(current, changes);
+  if (conflicts.length > 0) return { decisions: current, conflicts };
+
+  const updates = new Map<DecisionKey, DecisionEntry | null>();
+  changes.forEach((change) => updates.set(change.key, change.next));
+
+  const existing = new Set<DecisionKey>();
+  const kept = current.flatMap((decision) => {
+    const key = getDecisionKey(decision);
+    existing.add(key);
+    if (!updates.has(key)) return [decision];
+    const next = updates.get(key);
+    return next ? [next] : [];
+  });
+
+  const inserted = changes
+    .filter((change) => change.next && !existing.has(change.key))
+    .map((change) => change.next as DecisionEntry);
+
+  return { decisions: [...inserted, ...kept], conflicts: [] };
+}
+
+// After a conflict the server copy wins for the contested rows; everything else the client changed is replayed on top.
+export function rebaseDecisionChanges(
+  server: DecisionEntry[],
+  changes: DecisionChange[],
+  conflicts: DecisionConflict[],
+): DecisionEntry[] {
+  const contested = new Set(conflicts.map((conflict) => conflict.key));
+  const replayable = changes.filter((change) => !contested.has(change.key));
+  const result = applyDecisionChanges(server, replayable);
+  return result.conflicts.length ? server : result.decisions;
+}
+
+export function toDatasetState(record: DatasetRecord): DatasetState {
+  return {
+    id: record.id,
+    label: record.label,
+    meta: record.meta,
+    decisions: record.decisions,
+    ...(record.workspaceId ? { workspaceId: record.workspaceId, access: record.access ?? [] } : {}),
+  };
+}
+
+// Browsers used to number datasets from `dataset-1`, so these ids are shared by every device that ever ran the app.
+const SEQUENTIAL_DATASET_ID = /^dataset-\d+$/;
+
+const isPristineDataset = (dataset: DatasetState) =>
+  dataset.decisions.length === 0 && isSameDatasetMeta(dataset.meta, getEmptyDatasetMeta());
+
+// Replays what changed in this browser since the last synced snapshot onto the server copy. Rows and details the
+// server also changed since then keep the server version and count as conflicts; without a snapshot nothing local
+// is known to be newer, so the server copy is taken as-is.
+function rebaseOntoServer(
+  remote: DatasetState,
+  local: DatasetState,
+  snapshot: DatasetState | undefined,
+): { dataset: DatasetState; conflicts: number } {
+  if (!snapshot) return { dataset: remote, conflicts: 0 };
+
+  const changes = diffDecisions(snapshot.decisions, local.decisions);
+  const decisionConflicts = findDecisionConflicts(remote.decisions, changes);
+  const decisions = changes.length
+    ? rebaseDecisionChanges(remote.decisions, changes, decisionConflicts)
+    : remote.decisions;
+
+  let conflicts = decisionConflicts.length;
+  const pick = <T>(localValue: T, remoteValue: T, snapshotValue: T, same: (a: T, b: T) => boolean): T => {
+    if (same(localValue, snapshotValue) || same(localValue, remoteValue)) return remoteValue;
+    if (!same(remoteValue, snapshotValue)) {
+      conflicts += 1;
+      return remoteValue;
+    }
+    return localValue;
+  };
+  const label = pick(local.label, remote.label, snapshot.label, (a, b) => a === b);
+  const meta = pick(local.meta, remote.meta, snapshot.meta, isSameDatasetMeta);
+
+  return { dataset: { ...remote, label, meta, decisions }, conflicts };
+}
+
+// Folds the server copy into local state on first load; the server copy is the truth for every dataset it has.
+// Local-only datasets stay and are pushed by the next sync pass, unless they were synced before and have since been
+// deleted on the server.
+export function mergeHydratedDatasets(
+  local: DatasetState[],
+  remote: DatasetState[],
+  snapshots: Map<DatasetId, DatasetState> = new Map(),
+  createId: () => DatasetId = createDatasetId,
+): HydratedDatasets {
+  const remoteById = new Map(remote.map((dataset) => [dataset.id, dataset]));
+  const renamed = new Map<DatasetId, DatasetId>();
+  const merged: DatasetState[] = [];
+  let conflicts = 0;
+
+  local.forEach((dataset) => {
+    const match = remoteById.get(dataset.id);
+    if (match) {
+      remoteById.delete(dataset.id);
+      const rebased = rebaseOntoServer(match, dataset, snapshots.get(dataset.id));
+      merged.push(rebased.dataset);
+      conflicts += rebased.conflicts;
+      return;
+    }
+    if (snapshots.has(dataset.id)) return;
+    // The untouched starter dataset is not worth pushing once the server already has datasets to show.
+    if (remote.length > 0 && isPristineDataset(dataset)) return;
+    if (SEQUENTIAL_DATASET_ID.test(dataset.id)) {
+      const id = createId();
+      renamed.set(dataset.id, id);
+      merged.push({ ...dataset, id });
+      return;
+    }
+    merged.push(dataset);
+  });
+
+  remoteById.forEach((dataset) => merged.push(dataset));
+  return { datasets: merged, renamed, conflicts };
+}
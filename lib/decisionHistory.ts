@@ -0,0 +1,228 @@
+import { rescoreDecisions, type DecisionEntry } from "./calculations";
+import { getDecisionKey, stableStringify } from "./datasetSync";
+import type { SessionDecision } from "./intake/decisionSessionSync";
+import type { ScoringProfile } from "./scoringProfiles";
+
+// Stress-test session decisions share the history log with datasets under their own scope.
+export const SESSION_HISTORY_SCOPE = "stress-test-session";
+
+export type DecisionHistoryAction = "created" | "updated" | "deleted";
+
+export interface DecisionFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// Events are append-only; a revert is recorded as a new event rather than by rewriting earlier ones.
+export interface DecisionHistoryEvent {
+  id: string;
+  scope: string;
+  recordKey: string;
+  label: string;
+  action: DecisionHistoryAction;
+  at: number;
+  actor: string | null;
+  changes: DecisionFieldChange[];
+  revertedTo?: number;
+}
+
+export interface HistoryRecordOptions<T> {
+  scope: string;
+  at: number;
+  actor: string | null;
+  getKey: (record: T) => string;
+  getLabel: (record: T) => string;
+  ignoreFields?: readonly string[];
+  revertedTo?: number;
+}
+
+type HistoryRecord = Record<string, unknown>;
+
+// Logged metrics follow the sliders and the dataset's scoring profile, so they are recomputed rather than tracked.
+export const DECISION_ENTRY_DERIVED_FIELDS = ["return", "pressure", "stability", "merit", "energy", "dnav"] as const;
+
+export const SESSION_DECISION_DERIVED_FIELDS = ["r", "p", "s", "dnav"] as const;
+
+export const getSessionDecisionKey = (decision: Pick<SessionDecision, "id">) => decision.id;
+
+export function diffRecordFields(
+  previous: object | null,
+  next: object | null,
+  ignoreFields: readonly string[] = [],
+): DecisionFieldChange[] {
+  const before = (previous ?? {}) as HistoryRecord;
+  const after = (next ?? {}) as HistoryRecord;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !ignoreFields.includes(field))
+    .sort();
+
+  return fields.flatMap((field) => {
+    const from = before[field];
+    const to = after[field];
+    if (stableStringify(from) === stableStringify(to)) return [];
+    return [{ field, ...(from === undefined ? {} : { from }), ...(to === undefined ? {} : { to }) }];
+  });
+}
+
+export function buildHistoryEvents<T extends object>(
+  previous: T[],
+  next: T[],
+  options: HistoryRecordOptions<T>,
+): DecisionHistoryEvent[] {
+  const { scope, at, actor, getKey, getLabel, ignoreFields, revertedTo } = options;
+  const before = new Map(previous.map((record) => [getKey(record), record]));
+  const after = new Map(next.map((record) => [getKey(record), record]));
+  const keys = Array.from(new Set([...before.keys(), ...after.keys()]));
+
+  return keys.flatMap((recordKey, index) => {
+    const prior = before.get(recordKey) ?? null;
+    const current = after.get(recordKey) ?? null;
+    const changes = diffRecordFields(prior, current, ignoreFields);
+    if (!changes.length) return [];
+
+    const action: DecisionHistoryAction = !prior ? "created" : !current ? "deleted" : "updated";
+    return [
+      {
+        id: `${scope}:${recordKey}:${at}:${index}`,
+        scope,
+        recordKey,
+        label: getLabel((current ?? prior) as T),
+        action,
+        at,
+        actor,
+        changes,
+        ...(revertedTo === undefined ? {} : { revertedTo }),
+      },
+    ];
+  });
+}
+
+// History lives in browser storage next to the datasets, so each scope keeps only its newest events; a busy dataset
+// cannot push another dataset's history out.
+export const MAX_DECISION_HISTORY_EVENTS = 2000;
+
+export interface DecisionHistoryLog {
+  events: DecisionHistoryEvent[];
+  // Oldest retained event time for each scope that has had events dropped. Earlier as-of views would be missing
+  // the dropped edits, so they are refused.
+  startsAt: Record<string, number>;
+}
+
+export const EMPTY_DECISION_HISTORY: DecisionHistoryLog = { events: [], startsAt: {} };
+
+// Events are stored in the order they were recorded, so the first ones in a scope are its oldest.
+export function trimDecisionHistory(log: DecisionHistoryLog): DecisionHistoryLog {
+  const counts = new Map<string, number>();
+  log.events.forEach((event) => counts.set(event.scope, (counts.get(event.scope) ?? 0) + 1));
+  const excess = new Map(
+    Array.from(counts)
+      .filter(([, count]) => count > MAX_DECISION_HISTORY_EVENTS)
+      .map(([scope, count]) => [scope, count - MAX_DECISION_HISTORY_EVENTS]),
+  );
+  if (excess.size === 0) return log;
+
+  const trimmed = new Set(excess.keys());
+  const events = log.events.filter((event) => {
+    const remaining = excess.get(event.scope) ?? 0;
+    if (remaining === 0) return true;
+    excess.set(event.scope, remaining - 1);
+    return false;
+  });
+  const startsAt = { ...log.startsAt };
+  events.forEach((event) => {
+    if (!trimmed.has(event.scope)) return;
+    trimmed.delete(event.scope);
+    startsAt[event.scope] = event.at;
+  });
+  return { events, startsAt };
+}
+
+export const appendHistoryEvents = (log: DecisionHistoryLog, events: DecisionHistoryEvent[]) =>
+  events.length ? trimDecisionHistory({ ...log, events: [...log.events, ...events] }) : log;
+
+// Retained history covers a scope back to this time; null when nothing has been dropped from it.
+export const getHistoryStart = (log: DecisionHistoryLog, scope: string): number | null => log.startsAt[scope] ?? null;
+
+export function canRebuildAsOf(log: DecisionHistoryLog, scope: string, asOf: number) {
+  const start = getHistoryStart(log, scope);
+  return start === null || asOf >= start;
+}
+
+export function getRecordTimeline(events: DecisionHistoryEvent[], scope: string, recordKey: string) {
+  return events
+    .filter((event) => event.scope === scope && event.recordKey === recordKey)
+    .sort((a, b) => a.at - b.at);
+}
+
+const undoEvent = <T extends object>(records: T[], event: DecisionHistoryEvent, getKey: (record: T) => string): T[] => {
+  if (event.action === "created") return records.filter((record) => getKey(record) !== event.recordKey);
+
+  if (event.action === "deleted") {
+    const restored = event.changes.reduce<HistoryRecord>((acc, change) => {
+      if (change.from !== undefined) acc[change.field] = change.from;
+      return acc;
+    }, {});
+    return [...records, restored as T];
+  }
+
+  return records.map((record) => {
+    if (getKey(record) !== event.recordKey) return record;
+    const reverted = { ...record } as HistoryRecord;
+    event.changes.forEach((change) => {
+      if (change.from === undefined) delete reverted[change.field];
+      else reverted[change.field] = change.from;
+    });
+    return reverted as T;
+  });
+};
+
+// Walks back from the current records, undoing every event in the scope recorded after `asOf`.
+export function reconstructRecords<T extends object>(
+  current: T[],
+  events: DecisionHistoryEvent[],
+  options: { scope: string; asOf: number; getKey: (record: T) => string; recordKey?: string },
+): T[] {
+  const { scope, asOf, getKey, recordKey } = options;
+  return events
+    .filter((event) => event.scope === scope && event.at > asOf && (!recordKey || event.recordKey === recordKey))
+    .sort((a, b) => b.at - a.at)
+    .reduce((records, event) => undoEvent(records, event, getKey), current);
+}
+
+// Returns the records with one of them swapped for the version it had at `asOf`; saving the result records the revert.
+export function revertRecord<T extends object>(
+  current: T[],
+  events: DecisionHistoryEvent[],
+  options: { scope: string; asOf: number; getKey: (record: T) => string; recordKey: string },
+): T[] {
+  const { getKey, recordKey } = options;
+  const version = reconstructRecords(current, events, options).find((record) => getKey(record) === recordKey) ?? null;
+  const exists = current.some((record) => getKey(record) === recordKey);
+
+  if (!version) return current.filter((record) => getKey(record) !== recordKey);
+  if (!exists) return [version, ...current];
+  return current.map((record) => (getKey(record) === recordKey ? version : record));
+}
+
+// Null when `asOf` falls before the retained history, which could only be rebuilt with the dropped edits missing.
+export function getDecisionLogAsOf(
+  decisions: DecisionEntry[],
+  history: DecisionHistoryLog,
+  options: { scope: string; asOf: number; profile: ScoringProfile },
+): DecisionEntry[] | null {
+  if (!canRebuildAsOf(history, options.scope, options.asOf)) return null;
+  const reconstructed = reconstructRecords(decisions, history.events, { ...options, getKey: getDecisionKey });
+  // Decisions logged before history tracking began carry no "created" event, so their timestamp decides.
+  return rescoreDecisions(
+    reconstructed.filter((decision) => (decision.createdAt ?? decision.ts) <= options.asOf),
+    options.profile,
+  ).sort((a, b) => b.ts - a.ts);
+}
+
+// Date inputs give "YYYY-MM-DD"; "as of" a day means everything recorded up to its last millisecond, local time.
+export function parseAsOfDate(value: string | null | undefined): number | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const asOf = new Date(`${value}T23:59:59.999`).getTime();
+  return Number.isNaN(asOf) ? null : asOf;
+}
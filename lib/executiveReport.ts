@@ -0,0 +1,213 @@
+import type { DecisionEntry } from "./calculations";
+import { getCategoryActionInsight, type CategoryActionInsightResult } from "./categoryActionInsight";
+import {
+  buildCompanyPeriodSnapshot,
+  generateFullInterpretation,
+  type CompanyPeriodSnapshot,
+  type FullInterpretation,
+} from "./dnavSummaryEngine";
+import { mapTimeframeToDays, TIMEFRAMES, type TimeframeValue } from "./reportTimeframes";
+import { getDatasetScoringProfile } from "./scoringProfiles";
+import { getSystemDirective } from "./systemDirective";
+import { datasetMetaToCompanyContext, type DatasetState } from "@/types/dataset";
+import type { CompanyContext } from "@/types/company";
+import {
+  buildJudgmentDashboard,
+  filterDecisionsByTimeframe,
+  type ArchetypePatternRow,
+  type CategoryHeatmapRow,
+  type RpsBaseline,
+} from "@/utils/judgmentDashboard";
+
+// The one-page executive readout as data, shared by the print view and the server-rendered PDF.
+
+export type BaselineDistribution = {
+  positive: number;
+  neutral: number;
+  negative: number;
+};
+
+export type BaselineDistributions = {
+  returnDistribution: BaselineDistribution;
+  pressureDistribution: BaselineDistribution;
+  stabilityDistribution: BaselineDistribution;
+};
+
+export type ExecutiveReportCategory = {
+  name: string;
+  decisionCount: number;
+  share: number;
+  avgDnav: number;
+  avgR: number;
+  avgP: number;
+  avgS: number;
+  dominantFactor: string | null;
+  insight: CategoryActionInsightResult;
+};
+
+export type ExecutiveReportArchetype = {
+  archetype: string;
+  avgR: number;
+  avgP: number;
+  avgS: number;
+  count: number;
+};
+
+export type ExecutiveReportLearning = {
+  lci: number;
+  decisionsToRecover: number;
+  winRate: number;
+  decisionDebt: number;
+};
+
+export interface ExecutiveReport {
+  timeframe: TimeframeValue;
+  timeframeLabel: string;
+  snapshot: CompanyPeriodSnapshot;
+  interpretation: FullInterpretation;
+  baselineDistributions: BaselineDistributions;
+  topCategories: ExecutiveReportCategory[];
+  sortedArchetypes: ExecutiveReportArchetype[];
+  learningStats: ExecutiveReportLearning;
+  systemDirective: string[];
+}
+
+export interface ExecutiveReportInput {
+  timeframe: TimeframeValue;
+  company: CompanyContext | null;
+  baseline: RpsBaseline;
+  categories: CategoryHeatmapRow[];
+  archetypes: ArchetypePatternRow[];
+  learning: { lci: number | null; decisionsToRecover: number; winRate: number; decisionDebt: number };
+  filteredDecisions: DecisionEntry[];
+}
+
+const TOP_CATEGORY_COUNT = 3;
+
+const mapSegmentsToDistribution = (segments: { metricKey: string; value: number }[]): BaselineDistribution => ({
+  positive: segments.find((segment) => segment.metricKey === "positive")?.value ?? 0,
+  neutral: segments.find((segment) => segment.metricKey === "neutral")?.value ?? 0,
+  negative: segments.find((segment) => segment.metricKey === "negative")?.value ?? 0,
+});
+
+// Share of each category's decisions with negative Return, positive Pressure and negative Stability.
+const buildCategoryDistributions = (decisions: DecisionEntry[]) => {
+  const totals = new Map<string, { count: number; returnNeg: number; pressureHigh: number; stabilityNeg: number }>();
+  decisions.forEach((decision) => {
+    const key = decision.category ?? "Uncategorized";
+    const entry = totals.get(key) ?? { count: 0, returnNeg: 0, pressureHigh: 0, stabilityNeg: 0 };
+    entry.count += 1;
+    if (decision.return < 0) entry.returnNeg += 1;
+    if (decision.pressure > 0) entry.pressureHigh += 1;
+    if (decision.stability < 0) entry.stabilityNeg += 1;
+    totals.set(key, entry);
+  });
+
+  const distribution = new Map<string, { returnNegPct: number; pressureHighPct: number; stabilityNegPct: number }>();
+  totals.forEach((entry, key) => {
+    const total = Math.max(entry.count, 1);
+    distribution.set(key, {
+      returnNegPct: (entry.returnNeg / total) * 100,
+      pressureHighPct: (entry.pressureHigh / total) * 100,
+      stabilityNegPct: (entry.stabilityNeg / total) * 100,
+    });
+  });
+  return distribution;
+};
+
+export function buildExecutiveReport(input: ExecutiveReportInput): ExecutiveReport {
+  const { timeframe, company, baseline, categories, archetypes, learning, filteredDecisions } = input;
+  const timeframeLabel = (TIMEFRAMES.find((item) => item.value === timeframe) ?? TIMEFRAMES[0]).label;
+
+  const baselineDistributions: BaselineDistributions = {
+    returnDistribution: mapSegmentsToDistribution(baseline.returnSegments),
+    pressureDistribution: mapSegmentsToDistribution(baseline.pressureSegments),
+    stabilityDistribution: mapSegmentsToDistribution(baseline.stabilitySegments),
+  };
+
+  const categoryDistributions = buildCategoryDistributions(filteredDecisions);
+  const topCategories = categories
+    .map((category) => ({
+      name: category.category,
+      decisionCount: category.decisionCount,
+      share: category.percent ?? 0,
+      avgDnav: category.avgDnav,
+      avgR: category.avgR,
+      avgP: category.avgP,
+      avgS: category.avgS,
+      dominantFactor: category.dominantVariable,
+    }))
+    .sort((a, b) => b.decisionCount - a.decisionCount)
+    .slice(0, TOP_CATEGORY_COUNT)
+    .map((category) => {
+      const distribution = categoryDistributions.get(category.name);
+      return {
+        ...category,
+        insight: getCategoryActionInsight({
+          count: category.decisionCount,
+          avgR: category.avgR,
+          avgP: category.avgP,
+          avgS: category.avgS,
+          returnNegPct: distribution?.returnNegPct ?? 0,
+          pressureHighPct: distribution?.pressureHighPct ?? 0,
+          stabilityNegPct: distribution?.stabilityNegPct ?? 0,
+        }),
+      };
+    });
+
+  const snapshot = buildCompanyPeriodSnapshot({
+    company,
+    baseline,
+    categories,
+    archetypes,
+    learning,
+    timeframeKey: timeframe,
+    timeframeLabel,
+  });
+
+  return {
+    timeframe,
+    timeframeLabel,
+    snapshot,
+    interpretation: generateFullInterpretation(snapshot),
+    baselineDistributions,
+    topCategories,
+    sortedArchetypes: [...archetypes].sort((a, b) => b.count - a.count),
+    learningStats: {
+      lci: learning.lci ?? 0,
+      decisionsToRecover: learning.decisionsToRecover ?? 0,
+      winRate: learning.winRate ?? 0,
+      decisionDebt: learning.decisionDebt ?? 0,
+    },
+    systemDirective: getSystemDirective({
+      avgReturn: snapshot.rpsBaseline.avgReturn,
+      avgPressure: snapshot.rpsBaseline.avgPressure,
+      avgStability: snapshot.rpsBaseline.avgStability,
+      pressurePressuredPct: baselineDistributions.pressureDistribution.positive,
+      stabilityFragilePct: baselineDistributions.stabilityDistribution.negative,
+    }),
+  };
+}
+
+// Server entry point: the same pipeline useReportsData runs in the browser, from a stored dataset.
+export function buildExecutiveReportForDataset(dataset: DatasetState, timeframe: TimeframeValue): ExecutiveReport {
+  const company = datasetMetaToCompanyContext(dataset.meta);
+  const decisions = [...dataset.decisions].sort((a, b) => b.ts - a.ts);
+  const filteredDecisions = filterDecisionsByTimeframe(decisions, mapTimeframeToDays(timeframe));
+  const dashboard = buildJudgmentDashboard(filteredDecisions, company, getDatasetScoringProfile(dataset.meta));
+
+  return buildExecutiveReport({
+    timeframe,
+    company,
+    baseline: dashboard.baseline,
+    categories: dashboard.categories,
+    archetypes: dashboard.archetypes.rows,
+    learning: {
+      lci: dashboard.learning?.lci ?? 0,
+      decisionsToRecover: dashboard.learning?.decisionsToRecover ?? 0,
+      winRate: dashboard.learning?.winRate ?? 0,
+      decisionDebt: dashboard.hygiene?.decisionDebt ?? 0,
+    },
+    filteredDecisions,
+  });
+}
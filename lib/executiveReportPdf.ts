@@ -0,0 +1,405 @@
+import { PDFDocument, StandardFonts, rgb, type Color, type PDFFont, type PDFPage } from "pdf-lib";
+
+import type { BaselineDistribution, ExecutiveReport } from "./executiveReport";
+
+// Server rendering of the executive readout. Every coordinate is fixed and every text block has a line budget,
+// so the same report always lands on one US Letter page with the same bytes.
+
+export interface ExecutiveReportPdfOptions {
+  // Stamped in the footer and the document metadata; pass the dataset's updatedAt so output only changes with data.
+  generatedAt: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 20;
+const LEFT_COLUMN_WIDTH = 300;
+const RIGHT_COLUMN_X = MARGIN + LEFT_COLUMN_WIDTH + COLUMN_GAP;
+const RIGHT_COLUMN_WIDTH = CONTENT_WIDTH - LEFT_COLUMN_WIDTH - COLUMN_GAP;
+
+const hex = (value: string): Color =>
+  rgb(
+    Number.parseInt(value.slice(1, 3), 16) / 255,
+    Number.parseInt(value.slice(3, 5), 16) / 255,
+    Number.parseInt(value.slice(5, 7), 16) / 255,
+  );
+
+// Tailwind colours the print view uses for the same charts.
+const COLORS = {
+  ink: hex("#171717"),
+  muted: hex("#525252"),
+  border: hex("#e5e5e5"),
+  neutral: hex("#e5e7eb"),
+  emerald: hex("#10b981"),
+  emeraldDark: hex("#059669"),
+  rose: hex("#f43f5e"),
+  amber: hex("#f59e0b"),
+  sky: hex("#0ea5e9"),
+  orange: hex("#f97316"),
+  orangeWash: hex("#fff7ed"),
+};
+
+const SIGNAL_LABELS = { strong: "Strong signal", medium: "Medium signal", weak: "Weak signal" } as const;
+
+// The standard fonts only cover WinAnsi, so map the typography the summary engine uses and drop anything else.
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  "−": "-",
+  "≤": "<=",
+  "≥": ">=",
+  "≈": "~",
+  "→": "->",
+};
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+type TextStyle = { font: PDFFont; size: number; color?: Color };
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+const sanitize = (text: string, font: PDFFont) => {
+  let supported = characterSets.get(font);
+  if (!supported) {
+    supported = new Set(font.getCharacterSet());
+    characterSets.set(font, supported);
+  }
+  return Array.from(text)
+    .flatMap((char) => Array.from(TEXT_REPLACEMENTS[char] ?? char))
+    .filter((char) => supported.has(char.codePointAt(0)!))
+    .join("");
+};
+
+const ellipsize = (text: string, style: TextStyle, maxWidth: number) => {
+  let value = text;
+  while (value.length > 0 && style.font.widthOfTextAtSize(`${value}...`, style.size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value.trimEnd()}...`;
+};
+
+// Greedy word wrap; anything past `maxLines` is cut with an ellipsis so a long summary can't push the page over.
+const wrapText = (text: string, style: TextStyle, maxWidth: number, maxLines: number) => {
+  const fits = (value: string) => style.font.widthOfTextAtSize(value, style.size) <= maxWidth;
+  const words = sanitize(text, style.font).split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  let truncated = false;
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+    if (lines.length === maxLines) {
+      truncated = true;
+      break;
+    }
+  }
+  if (!truncated && current) lines.push(current);
+  return lines.map((line, index) =>
+    !fits(line) || (truncated && index === lines.length - 1) ? ellipsize(line, style, maxWidth) : line,
+  );
+};
+
+const drawLine = (page: PDFPage, text: string, x: number, y: number, style: TextStyle) => {
+  page.drawText(sanitize(text, style.font), { x, y, size: style.size, font: style.font, color: style.color ?? COLORS.ink });
+};
+
+const drawRightAligned = (page: PDFPage, text: string, right: number, y: number, style: TextStyle) => {
+  const clean = sanitize(text, style.font);
+  drawLine(page, clean, right - style.font.widthOfTextAtSize(clean, style.size), y, style);
+};
+
+// Draws wrapped text downward from `y` (the first baseline) and returns the baseline below the last line.
+const drawParagraph = (
+  page: PDFPage,
+  text: string,
+  x: number,
+  y: number,
+  style: TextStyle,
+  maxWidth: number,
+  maxLines: number,
+) => {
+  const leading = style.size * 1.35;
+  const lines = wrapText(text, style, maxWidth, maxLines);
+  lines.forEach((line, index) => drawLine(page, line, x, y - index * leading, style));
+  return y - lines.length * leading;
+};
+
+const drawBox = (page: PDFPage, x: number, top: number, width: number, height: number, fill?: Color) => {
+  page.drawRectangle({
+    x,
+    y: top - height,
+    width,
+    height,
+    borderColor: COLORS.border,
+    borderWidth: 0.75,
+    ...(fill ? { color: fill } : {}),
+  });
+};
+
+const drawSectionLabel = (page: PDFPage, text: string, x: number, y: number, fonts: Fonts) => {
+  drawLine(page, text.toUpperCase(), x, y, { font: fonts.bold, size: 7.5, color: COLORS.muted });
+};
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+function drawHeader(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const { companyName, periodLabel, rpsBaseline } = report.snapshot;
+  drawSectionLabel(page, "D-NAV Executive Readout", MARGIN, top, fonts);
+  drawRightAligned(page, `Window: ${report.timeframeLabel}`, PAGE_WIDTH - MARGIN, top, {
+    font: fonts.bold,
+    size: 7.5,
+    color: COLORS.muted,
+  });
+  const title = wrapText(`${companyName} · Decision Orbit ${periodLabel}`, { font: fonts.bold, size: 16 }, CONTENT_WIDTH, 1)[0] ?? "";
+  drawLine(page, title, MARGIN, top - 20, { font: fonts.bold, size: 16 });
+  drawLine(page, `System-level RPS profile across ${rpsBaseline.totalDecisions} logged decisions`, MARGIN, top - 34, {
+    font: fonts.regular,
+    size: 9,
+    color: COLORS.muted,
+  });
+  page.drawLine({
+    start: { x: MARGIN, y: top - 44 },
+    end: { x: PAGE_WIDTH - MARGIN, y: top - 44 },
+    thickness: 0.75,
+    color: COLORS.border,
+  });
+}
+
+function drawMetricTiles(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const { rpsBaseline } = report.snapshot;
+  const tiles = [
+    { label: "Average D-NAV", value: rpsBaseline.avgDnav, caption: "Judgment quality after cost" },
+    { label: "Avg Return (R)", value: rpsBaseline.avgReturn, caption: "Net value per decision" },
+    { label: "Avg Pressure (P)", value: rpsBaseline.avgPressure, caption: "Execution stress posture" },
+    { label: "Avg Stability (S)", value: rpsBaseline.avgStability, caption: "How safe decisions leave it" },
+    { label: "Learning Curve Index", value: report.learningStats.lci, caption: "Recovery after dips" },
+  ];
+  const gap = 8;
+  const width = (CONTENT_WIDTH - gap * (tiles.length - 1)) / tiles.length;
+  tiles.forEach((tile, index) => {
+    const x = MARGIN + index * (width + gap);
+    drawBox(page, x, top, width, 46);
+    drawLine(page, tile.label.toUpperCase(), x + 6, top - 11, { font: fonts.bold, size: 6, color: COLORS.muted });
+    drawLine(page, tile.value.toFixed(1), x + 6, top - 27, { font: fonts.bold, size: 13 });
+    drawLine(page, tile.caption, x + 6, top - 39, { font: fonts.regular, size: 6, color: COLORS.muted });
+  });
+}
+
+function drawInterpretation(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const sections = [
+    { heading: "RPS Baseline — Calm, repeatable execution", body: report.interpretation.rpsSummary },
+    { heading: "Category Profile — Where judgment actually lives", body: report.interpretation.categorySummary },
+    { heading: "Archetype Profile — Behavioral fingerprint", body: report.interpretation.archetypeSummary },
+    { heading: "Learning & Recovery — Decision debt & correction", body: report.interpretation.learningSummary },
+  ];
+  drawSectionLabel(page, "Executive Overview", MARGIN, top, fonts);
+  sections.forEach((section, index) => {
+    const y = top - 16 - index * 52;
+    drawLine(page, section.heading, MARGIN, y, { font: fonts.bold, size: 8.5 });
+    drawParagraph(page, section.body, MARGIN, y - 11, { font: fonts.regular, size: 7.5 }, LEFT_COLUMN_WIDTH, 3);
+  });
+}
+
+type DistributionRow = {
+  label: string;
+  segments: { label: string; value: number; color: Color }[];
+};
+
+const distributionRows = ({ baselineDistributions: d }: ExecutiveReport): DistributionRow[] => {
+  const row = (label: string, distribution: BaselineDistribution, names: [string, string, string], colors: Color[]) => ({
+    label,
+    segments: [
+      { label: names[0], value: distribution.positive, color: colors[0] },
+      { label: names[1], value: distribution.neutral, color: colors[1] },
+      { label: names[2], value: distribution.negative, color: colors[2] },
+    ],
+  });
+  return [
+    row("Return", d.returnDistribution, ["Positive", "Neutral", "Negative"], [COLORS.emerald, COLORS.neutral, COLORS.rose]),
+    row("Pressure", d.pressureDistribution, ["Pressured", "Neutral", "Calm"], [COLORS.amber, COLORS.neutral, COLORS.sky]),
+    row("Stability", d.stabilityDistribution, ["Stable", "Neutral", "Fragile"], [COLORS.emeraldDark, COLORS.neutral, COLORS.rose]),
+  ];
+};
+
+// Stacked 100% bars drawn as rectangles, one per metric, with a swatch legend under each.
+function drawDistributions(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const height = 212;
+  drawBox(page, RIGHT_COLUMN_X, top + 8, RIGHT_COLUMN_WIDTH, height);
+  const x = RIGHT_COLUMN_X + 10;
+  const barWidth = RIGHT_COLUMN_WIDTH - 20;
+  drawSectionLabel(page, "Distributions (Return / Pressure / Stability)", x, top - 6, fonts);
+
+  distributionRows(report).forEach((row, index) => {
+    const rowTop = top - 26 - index * 62;
+    drawLine(page, row.label, x, rowTop, { font: fonts.bold, size: 8.5 });
+    const total = row.segments.reduce((sum, segment) => sum + Math.max(segment.value, 0), 0);
+    let cursor = x;
+    page.drawRectangle({ x, y: rowTop - 18, width: barWidth, height: 10, color: COLORS.neutral });
+    row.segments.forEach((segment) => {
+      const width = total > 0 ? (Math.max(segment.value, 0) / total) * barWidth : 0;
+      if (width > 0) page.drawRectangle({ x: cursor, y: rowTop - 18, width, height: 10, color: segment.color });
+      cursor += width;
+    });
+
+    row.segments.forEach((segment, segmentIndex) => {
+      const legendX = x + segmentIndex * (barWidth / 3);
+      page.drawRectangle({ x: legendX, y: rowTop - 31, width: 6, height: 6, color: segment.color });
+      drawLine(page, `${segment.label} ${formatPct(segment.value)}`, legendX + 9, rowTop - 30.5, {
+        font: fonts.regular,
+        size: 7,
+        color: COLORS.muted,
+      });
+    });
+  });
+}
+
+function drawDirective(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const height = 104;
+  drawBox(page, MARGIN, top, CONTENT_WIDTH, height, COLORS.orangeWash);
+  page.drawRectangle({ x: MARGIN, y: top - height, width: 3, height, color: COLORS.orange });
+  drawSectionLabel(page, "System Directive", MARGIN + 12, top - 13, fonts);
+  let y = top - 26;
+  report.systemDirective.slice(0, 3).forEach((paragraph) => {
+    y = drawParagraph(page, paragraph, MARGIN + 12, y, { font: fonts.regular, size: 7.5 }, CONTENT_WIDTH - 24, 2) - 2;
+  });
+  drawLine(page, "Apply this by logging new decisions in the categories below.", MARGIN + 12, top - height + 8, {
+    font: fonts.regular,
+    size: 7,
+    color: COLORS.muted,
+  });
+}
+
+function drawCategories(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  drawSectionLabel(page, "Decision Terrain — Top judgment arenas", MARGIN, top, fonts);
+  if (report.topCategories.length === 0) {
+    drawLine(page, "No categorized decisions in this window.", MARGIN, top - 16, { font: fonts.regular, size: 8, color: COLORS.muted });
+    return;
+  }
+  report.topCategories.forEach((category, index) => {
+    const cardTop = top - 10 - index * 78;
+    drawBox(page, MARGIN, cardTop, LEFT_COLUMN_WIDTH, 72);
+    const x = MARGIN + 8;
+    const name = wrapText(category.name, { font: fonts.bold, size: 9 }, LEFT_COLUMN_WIDTH - 100, 1)[0] ?? "";
+    drawLine(page, name, x, cardTop - 13, { font: fonts.bold, size: 9 });
+    drawRightAligned(page, `${category.decisionCount} decisions`, MARGIN + LEFT_COLUMN_WIDTH - 8, cardTop - 13, {
+      font: fonts.regular,
+      size: 7.5,
+      color: COLORS.muted,
+    });
+    drawLine(
+      page,
+      `Volume ${formatPct(category.share)} · Avg D-NAV ${category.avgDnav.toFixed(1)} · R / P / S ${category.avgR.toFixed(1)} / ${category.avgP.toFixed(1)} / ${category.avgS.toFixed(1)} · Dominant ${category.dominantFactor ?? "Balanced"}`,
+      x,
+      cardTop - 24,
+      { font: fonts.regular, size: 6.5, color: COLORS.muted },
+    );
+    drawLine(page, `CATEGORY ACTION INSIGHT · ${SIGNAL_LABELS[category.insight.signalStrength].toUpperCase()}`, x, cardTop - 36, {
+      font: fonts.bold,
+      size: 6.5,
+      color: COLORS.orange,
+    });
+    const insight = category.insight.logMoreHint
+      ? `${category.insight.insightText} ${category.insight.logMoreHint}`
+      : category.insight.insightText;
+    drawParagraph(page, insight, x, cardTop - 46, { font: fonts.regular, size: 7 }, LEFT_COLUMN_WIDTH - 16, 3);
+  });
+}
+
+// Horizontal bars sized by share of decisions, for the four most common archetypes.
+function drawArchetypes(page: PDFPage, report: ExecutiveReport, fonts: Fonts, top: number) {
+  const { sortedArchetypes, snapshot } = report;
+  const total = snapshot.rpsBaseline.totalDecisions;
+  drawSectionLabel(page, `Archetype Fingerprint — ${snapshot.periodLabel}`, RIGHT_COLUMN_X, top, fonts);
+  drawParagraph(
+    page,
+    `Primary: ${sortedArchetypes[0]?.archetype ?? "N/A"} · Secondary: ${sortedArchetypes[1]?.archetype ?? "N/A"}`,
+    RIGHT_COLUMN_X,
+    top - 14,
+    { font: fonts.regular, size: 8 },
+    RIGHT_COLUMN_WIDTH,
+    1,
+  );
+
+  const barX = RIGHT_COLUMN_X + 70;
+  const barWidth = RIGHT_COLUMN_WIDTH - 70 - 60;
+  sortedArchetypes.slice(0, 4).forEach((entry, index) => {
+    const y = top - 36 - index * 24;
+    const share = total > 0 ? (entry.count / total) * 100 : 0;
+    drawLine(page, wrapText(entry.archetype, { font: fonts.bold, size: 8 }, 64, 1)[0] ?? "", RIGHT_COLUMN_X, y, {
+      font: fonts.bold,
+      size: 8,
+    });
+    drawLine(page, `R ${entry.avgR.toFixed(1)} · P ${entry.avgP.toFixed(1)} · S ${entry.avgS.toFixed(1)}`, RIGHT_COLUMN_X, y - 9, {
+      font: fonts.regular,
+      size: 6,
+      color: COLORS.muted,
+    });
+    page.drawRectangle({ x: barX, y: y - 6, width: barWidth, height: 9, color: COLORS.neutral });
+    if (share > 0) page.drawRectangle({ x: barX, y: y - 6, width: (Math.min(share, 100) / 100) * barWidth, height: 9, color: COLORS.sky });
+    drawRightAligned(page, `${entry.count} · ${formatPct(share)}`, PAGE_WIDTH - MARGIN, y - 4, {
+      font: fonts.regular,
+      size: 7,
+    });
+  });
+
+  const learningTop = top - 140;
+  drawSectionLabel(page, "Learning & Recovery", RIGHT_COLUMN_X, learningTop, fonts);
+  const stats = [
+    ["Decisions to recover", report.learningStats.decisionsToRecover.toFixed(1)],
+    ["Win rate", formatPct(report.learningStats.winRate)],
+    ["Decision debt", report.learningStats.decisionDebt.toFixed(1)],
+  ];
+  stats.forEach(([label, value], index) => {
+    const y = learningTop - 14 - index * 12;
+    drawLine(page, label, RIGHT_COLUMN_X, y, { font: fonts.regular, size: 8, color: COLORS.muted });
+    drawRightAligned(page, value, PAGE_WIDTH - MARGIN, y, { font: fonts.bold, size: 8 });
+  });
+}
+
+export async function renderExecutiveReportPdf(
+  report: ExecutiveReport,
+  { generatedAt }: ExecutiveReportPdfOptions,
+): Promise<Uint8Array> {
+  // pdf-lib would otherwise stamp the current time into the metadata.
+  const document = await PDFDocument.create({ updateMetadata: false });
+  const { companyName, periodLabel } = report.snapshot;
+  const stamp = new Date(generatedAt);
+  document.setTitle(`${companyName} - Decision Orbit ${periodLabel}`);
+  document.setSubject(`D-NAV executive readout, ${report.timeframeLabel}`);
+  document.setCreator("D-NAV");
+  document.setProducer("D-NAV");
+  document.setCreationDate(stamp);
+  document.setModificationDate(stamp);
+
+  const fonts: Fonts = {
+    regular: await document.embedFont(StandardFonts.Helvetica),
+    bold: await document.embedFont(StandardFonts.HelveticaBold),
+  };
+  const page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  drawHeader(page, report, fonts, PAGE_HEIGHT - MARGIN - 8);
+  drawMetricTiles(page, report, fonts, 688);
+  drawInterpretation(page, report, fonts, 620);
+  drawDistributions(page, report, fonts, 620);
+  drawDirective(page, report, fonts, 396);
+  drawCategories(page, report, fonts, 282);
+  drawArchetypes(page, report, fonts, 282);
+
+  drawLine(page, `Data as of ${stamp.toISOString().slice(0, 10)} · ${report.timeframeLabel}`, MARGIN, MARGIN - 12, {
+    font: fonts.regular,
+    size: 6.5,
+    color: COLORS.muted,
+  });
+  drawRightAligned(page, "D-NAV · Decision Navigation", PAGE_WIDTH - MARGIN, MARGIN - 12, {
+    font: fonts.regular,
+    size: 6.5,
+    color: COLORS.muted,
+  });
+
+  return document.save({ useObjectStreams: false });
+}
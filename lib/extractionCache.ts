@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { DecisionExtractResponse } from "@/app/api/decision-extract/schema";
+
+// Server-only: finished decision-extract responses keyed by what produced them, so re-uploads skip the paid refine.
+export interface CachedExtraction {
+  key: string;
+  extractorVersion: string;
+  cachedAt: number;
+  body: DecisionExtractResponse;
+}
+
+export interface ExtractionCacheAdapter {
+  get(key: string): Promise<CachedExtraction | null>;
+  put(entry: CachedExtraction): Promise<void>;
+}
+
+// Every new extractor version or model leaves the old keys behind, so both caches evict by age and by count. The
+// count limit drops the least recently used entries: a hit counts as a use.
+export interface ExtractionCacheLimits {
+  maxEntries?: number;
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const resolveLimits = (limits: ExtractionCacheLimits) => ({
+  maxEntries: limits.maxEntries ?? DEFAULT_MAX_ENTRIES,
+  maxAgeMs: limits.maxAgeMs ?? DEFAULT_MAX_AGE_MS,
+  now: limits.now ?? Date.now,
+});
+
+export interface ExtractionCacheKeyInput {
+  extractorVersion: string;
+  pages: Array<{ page: number; text: string }>;
+  maxCandidatesPerPage: number;
+  // "none" when no model refines the candidates.
+  provider: string;
+  model: string;
+}
+
+// Whitespace differences between PDF text layers should not cost a second refine.
+const normalizePageText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+export function getExtractionCacheKey(input: ExtractionCacheKeyInput): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        extractorVersion: input.extractorVersion,
+        pages: input.pages.map((page) => [page.page, normalizePageText(page.text)]),
+        maxCandidatesPerPage: input.maxCandidatesPerPage,
+        provider: input.provider,
+        model: input.model,
+      }),
+    )
+    .digest("hex");
+}
+
+// Entries are kept in order of last use, so the first ones are the least recently used.
+export function createMemoryExtractionCache(limits: ExtractionCacheLimits = {}): ExtractionCacheAdapter {
+  const { maxEntries, maxAgeMs, now } = resolveLimits(limits);
+  const entries = new Map<string, string>();
+  return {
+    async get(key) {
+      const raw = entries.get(key);
+      if (!raw) return null;
+      const entry = JSON.parse(raw) as CachedExtraction;
+      entries.delete(key);
+      if (now() - entry.cachedAt > maxAgeMs) return null;
+      entries.set(key, raw);
+      return entry;
+    },
+    async put(entry) {
+      entries.delete(entry.key);
+      entries.set(entry.key, JSON.stringify(entry));
+      Array.from(entries.keys())
+        .slice(0, Math.max(0, entries.size - maxEntries))
+        .forEach((key) => entries.delete(key));
+    },
+  };
+}
+
+const removeFile = async (file: string) => {
+  try {
+    await unlink(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+};
+
+// One JSON file per key, written through a temp file like the dataset store. A hit touches the file, and each write
+// prunes expired files and then the least recently used ones beyond the entry limit.
+export function createFileExtractionCache(
+  directory: string,
+  limits: ExtractionCacheLimits = {},
+): ExtractionCacheAdapter {
+  const { maxEntries, maxAgeMs, now } = resolveLimits(limits);
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  const prune = async () => {
+    const names = (await readdir(directory)).filter((name) => name.endsWith(".json"));
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(directory, name);
+        try {
+          return { file, modifiedAt: (await stat(file)).mtimeMs };
+        } catch {
+          return null;
+        }
+      }),
+    );
+    const byAge = files
+      .filter((entry): entry is { file: string; modifiedAt: number } => entry !== null)
+      .sort((a, b) => b.modifiedAt - a.modifiedAt);
+    const stale = byAge.filter((entry, index) => index >= maxEntries || now() - entry.modifiedAt > maxAgeMs);
+    await Promise.all(stale.map((entry) => removeFile(entry.file)));
+  };
+
+  return {
+    async get(key) {
+      let entry: CachedExtraction;
+      try {
+        entry = JSON.parse(await readFile(fileFor(key), "utf8")) as CachedExtraction;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+      if (now() - entry.cachedAt > maxAgeMs) {
+        await removeFile(fileFor(key));
+        return null;
+      }
+      const touchedAt = new Date(now());
+      await utimes(fileFor(key), touchedAt, touchedAt).catch(() => undefined);
+      return entry;
+    },
+    async put(entry) {
+      await mkdir(directory, { recursive: true });
+      const target = fileFor(entry.key);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(entry), "utf8");
+      await rename(temp, target);
+      await prune();
+    },
+  };
+}
+
+let defaultCache: ExtractionCacheAdapter | null | undefined;
+
+// DNAV_EXTRACT_CACHE=off disables caching; the memory storage adapter keeps the cache in memory too.
+export function getExtractionCache(): ExtractionCacheAdapter | null {
+  if (defaultCache !== undefined) return defaultCache;
+  if (process.env.DNAV_EXTRACT_CACHE === "off") {
+    defaultCache = null;
+  } else if (process.env.DNAV_STORAGE_ADAPTER === "memory") {
+    defaultCache = createMemoryExtractionCache();
+  } else {
+    defaultCache = createFileExtractionCache(
+      process.env.DNAV_EXTRACT_CACHE_DIR || path.join(process.cwd(), ".data", "extract-cache"),
+    );
+  }
+  return defaultCache;
+}
+
+// Tests swap in a memory cache or turn caching off; undefined goes back to the environment's choice.
+export function setExtractionCache(cache: ExtractionCacheAdapter | null | undefined): void {
+  defaultCache = cache;
+}
+
+// The key hashes the extractor version, so results from an older extractor are never looked up again; they age out
+// through the cache limits.
+export async function readCachedExtraction(
+  cache: ExtractionCacheAdapter,
+  key: string,
+  extractorVersion: string,
+): Promise<CachedExtraction | null> {
+  try {
+    const entry = await cache.get(key);
+    return entry && entry.extractorVersion === extractorVersion ? entry : null;
+  } catch (error) {
+    console.warn("extraction cache read failed", error);
+    return null;
+  }
+}
+
+// A cache that cannot be written only costs the next upload a refine, so failures are logged and swallowed.
+export async function writeCachedExtraction(cache: ExtractionCacheAdapter, entry: CachedExtraction): Promise<void> {
+  try {
+    await cache.put(entry);
+  } catch (error) {
+    console.warn("extraction cache write failed", error);
+  }
+}
@@ -1,2 +1,4 @@
 export const COMPARE_VISUALS = process.env.NEXT_PUBLIC_COMPARE_VISUALS === "true";
 export const COMPARE_VISUALS_V3 = process.env.NEXT_PUBLIC_COMPARE_VISUALS_V3 === "true";
+export const DATASET_SYNC = process.env.NEXT_PUBLIC_DATASET_SYNC === "server";
+export const SERVER_EXTRACTION = process.env.NEXT_PUBLIC_SERVER_EXTRACTION === "true";
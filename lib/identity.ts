@@ -0,0 +1,197 @@
+// Shape shared by every identity provider; it follows the Netlify Identity user object the app started with.
+export interface IdentityUser {
+  id?: string;
+  email?: string;
+  user_metadata?: {
+    full_name?: string;
+  };
+  app_metadata?: {
+    roles?: string[];
+  };
+  token?: {
+    access_token?: string;
+  };
+  jwt?: () => Promise<string>;
+}
+
+export type IdentityProviderName = "netlify" | "local";
+
+export type IdentityListener = (user: IdentityUser | null) => void;
+
+// Client-side seam over the login widget so dev and tests can swap Netlify Identity for a local stub.
+export interface IdentityProvider {
+  name: IdentityProviderName;
+  subscribe(listener: IdentityListener): () => void;
+  openLogin(): void;
+  logout(): void;
+  getAuthHeaders(): Promise<Record<string, string>>;
+}
+
+// The local stub identifies requests with these headers; servers only honour them when running the local provider.
+export const LOCAL_IDENTITY_EMAIL_HEADER = "x-dnav-user";
+export const LOCAL_IDENTITY_ROLES_HEADER = "x-dnav-roles";
+
+const LOCAL_IDENTITY_STORAGE_KEY = "dnav_local_identity_v1";
+
+export const getIdentityDisplayName = (user: IdentityUser | null): string | null =>
+  user?.user_metadata?.full_name?.trim() || user?.email || null;
+
+export const getIdentityRoles = (user: IdentityUser | null): string[] =>
+  user && Array.isArray(user.app_metadata?.roles) ? user.app_metadata.roles : [];
+
+// Workspace membership is keyed by email, which every provider exposes.
+export const getIdentityUserId = (user: IdentityUser | null): string | null =>
+  user?.email?.trim().toLowerCase() || null;
+
+interface NetlifyIdentityWidget {
+  on?: (event: string, callback: (user?: IdentityUser | null) => void) => void;
+  off?: (event: string, callback: (user?: IdentityUser | null) => void) => void;
+  open?: (modal?: string) => void;
+  init?: () => void;
+  currentUser?: () => IdentityUser | null;
+  logout?: () => void;
+}
+
+const getNetlifyWidget = () =>
+  typeof window === "undefined"
+    ? undefined
+    : (window as Window & { netlifyIdentity?: NetlifyIdentityWidget }).netlifyIdentity;
+
+export function createNetlifyIdentityProvider(): IdentityProvider {
+  return {
+    name: "netlify",
+    subscribe(listener) {
+      if (typeof window === "undefined") return () => undefined;
+
+      let cleanup: (() => void) | undefined;
+      let interval: number | undefined;
+
+      // The widget script loads after hydration, so keep polling until it appears.
+      const setup = () => {
+        const identity = getNetlifyWidget();
+        if (!identity || typeof identity.on !== "function") return false;
+
+        const handleUser = (user?: IdentityUser | null) => listener(user ?? null);
+        const handleLogout = () => listener(null);
+        identity.on("init", handleUser);
+        identity.on("login", handleUser);
+        identity.on("logout", handleLogout);
+        identity.on("user", handleUser);
+        identity.init?.();
+
+        const existingUser = identity.currentUser?.();
+        if (existingUser) listener(existingUser);
+
+        cleanup = () => {
+          identity.off?.("init", handleUser);
+          identity.off?.("login", handleUser);
+          identity.off?.("logout", handleLogout);
+          identity.off?.("user", handleUser);
+        };
+        return true;
+      };
+
+      if (!setup()) {
+        interval = window.setInterval(() => {
+          if (setup() && interval !== undefined) window.clearInterval(interval);
+        }, 500);
+      }
+
+      return () => {
+        if (interval !== undefined) window.clearInterval(interval);
+        cleanup?.();
+      };
+    },
+    openLogin() {
+      getNetlifyWidget()?.open?.("login");
+    },
+    logout() {
+      getNetlifyWidget()?.logout?.();
+    },
+    async getAuthHeaders(): Promise<Record<string, string>> {
+      const user = getNetlifyWidget()?.currentUser?.() ?? null;
+      if (!user) return {};
+      // jwt() refreshes an expired access token; fall back to the cached one if the widget cannot.
+      const token = (await user.jwt?.().catch(() => null)) ?? user.token?.access_token;
+      return token ? { Authorization: `Bearer ${token}` } : {};
+    },
+  };
+}
+
+// Dev/test stand-in: "logging in" just records an email (and optional roles) in localStorage.
+export function createLocalIdentityProvider(initialUser: IdentityUser | null = null): IdentityProvider {
+  const listeners = new Set<IdentityListener>();
+
+  const read = (): IdentityUser | null => {
+    if (typeof window === "undefined") return initialUser;
+    try {
+      const stored = window.localStorage.getItem(LOCAL_IDENTITY_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as IdentityUser) : initialUser;
+    } catch {
+      return initialUser;
+    }
+  };
+
+  let user = read();
+
+  const set = (next: IdentityUser | null) => {
+    user = next;
+    if (typeof window !== "undefined") {
+      try {
+        if (next) window.localStorage.setItem(LOCAL_IDENTITY_STORAGE_KEY, JSON.stringify(next));
+        else window.localStorage.removeItem(LOCAL_IDENTITY_STORAGE_KEY);
+      } catch (error) {
+        console.error("Failed to persist local identity:", error);
+      }
+    }
+    listeners.forEach((listener) => listener(next));
+  };
+
+  return {
+    name: "local",
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(user);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    openLogin() {
+      if (typeof window === "undefined") return;
+      const email = window.prompt("Sign in as (email)", user?.email ?? "")?.trim();
+      if (!email) return;
+      const roles = window.prompt("Global roles (comma separated, optional)", getIdentityRoles(user).join(","));
+      set({
+        id: email.toLowerCase(),
+        email,
+        app_metadata: { roles: (roles ?? "").split(",").map((role) => role.trim()).filter(Boolean) },
+      });
+    },
+    logout() {
+      set(null);
+    },
+    async getAuthHeaders() {
+      if (!user?.email) return {};
+      const roles = getIdentityRoles(user);
+      return {
+        [LOCAL_IDENTITY_EMAIL_HEADER]: user.email,
+        ...(roles.length ? { [LOCAL_IDENTITY_ROLES_HEADER]: roles.join(",") } : {}),
+      };
+    },
+  };
+}
+
+export const IDENTITY_PROVIDER: IdentityProviderName =
+  process.env.NEXT_PUBLIC_DNAV_IDENTITY_PROVIDER === "local" ? "local" : "netlify";
+
+let activeProvider: IdentityProvider | null = null;
+
+export function getIdentityProvider(): IdentityProvider {
+  if (activeProvider) return activeProvider;
+  activeProvider = IDENTITY_PROVIDER === "local" ? createLocalIdentityProvider() : createNetlifyIdentityProvider();
+  return activeProvider;
+}
+
+export function setIdentityProvider(provider: IdentityProvider | null): void {
+  activeProvider = provider;
+}
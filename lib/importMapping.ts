@@ -0,0 +1,285 @@
+import type { DecisionEntry } from "./calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import { clampToScale, SCALE_MAX, SCALE_MIN } from "@/src/lib/dnav/types";
+
+export interface DecisionRow {
+  date: string;
+  decisionName: string;
+  category: string;
+  impact: number;
+  cost: number;
+  risk: number;
+  urgency: number;
+  confidence: number;
+}
+
+export type ImportFieldKey = keyof DecisionRow;
+
+export type ScoreFieldKey = "impact" | "cost" | "risk" | "urgency" | "confidence";
+
+export type DateOrder = "auto" | "dmy" | "mdy" | "ymd";
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export interface ColumnScale {
+  min: number;
+  max: number;
+}
+
+export interface ImportMappingConfig {
+  columns: Partial<Record<ImportFieldKey, string>>;
+  scales: Partial<Record<ScoreFieldKey, ColumnScale | null>>;
+  dateOrder: DateOrder;
+  defaultCategory: string;
+}
+
+export interface ImportMappingPreset {
+  name: string;
+  config: ImportMappingConfig;
+  savedAt: number;
+}
+
+export interface SheetPreview {
+  headers: string[];
+  rows: unknown[][];
+}
+
+export interface MappedImportRow {
+  rowNumber: number;
+  decision: DecisionEntry | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export const SCORE_FIELDS: ScoreFieldKey[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: "date", label: "Date", required: false, aliases: ["date", "decision date", "created", "created at", "when", "timestamp", "day"] },
+  {
+    key: "decisionName",
+    label: "Decision Name",
+    required: true,
+    aliases: ["decision name", "decision", "name", "title", "initiative", "item", "summary"],
+  },
+  { key: "category", label: "Category", required: false, aliases: ["category", "area", "domain", "type", "function", "team"] },
+  { key: "impact", label: "Impact", required: true, aliases: ["impact", "value", "benefit", "upside", "reach"] },
+  { key: "cost", label: "Cost", required: true, aliases: ["cost", "effort", "spend", "investment", "price"] },
+  { key: "risk", label: "Risk", required: true, aliases: ["risk", "downside", "exposure", "uncertainty"] },
+  { key: "urgency", label: "Urgency", required: true, aliases: ["urgency", "priority", "time pressure", "deadline", "timing"] },
+  { key: "confidence", label: "Confidence", required: true, aliases: ["confidence", "certainty", "conviction", "probability"] },
+];
+
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const msInDay = 24 * 60 * 60 * 1000;
+
+const normalizeHeader = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[_\-./]+/g, " ")
+    .replace(/[^a-z0-9 ]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+export function parseNumericCell(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (!cleaned) return null;
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// The first row is treated as headers; blank or repeated header cells get positional names so every column stays addressable.
+export function toSheetPreview(table: unknown[][]): SheetPreview {
+  const [headerRow = [], ...body] = table;
+  const seen = new Map<string, number>();
+  const headers = headerRow.map((cell, index) => {
+    const base = String(cell ?? "").trim() || `Column ${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count ? `${base} (${count + 1})` : base;
+  });
+  const rows = body.filter((row) => row.some((cell) => !isBlank(cell)));
+  return { headers, rows };
+}
+
+export function getEmptyMappingConfig(): ImportMappingConfig {
+  return { columns: {}, scales: {}, dateOrder: "auto", defaultCategory: "General" };
+}
+
+// Exact alias matches win; otherwise the first header that contains an alias as a whole word is taken.
+export function suggestColumnMapping(headers: string[]): Partial<Record<ImportFieldKey, string>> {
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+  const used = new Set<string>();
+  const columns: Partial<Record<ImportFieldKey, string>> = {};
+
+  const claim = (field: ImportField, match: (key: string, alias: string) => boolean) => {
+    if (columns[field.key]) return;
+    for (const alias of field.aliases) {
+      const found = normalized.find((item) => !used.has(item.header) && match(item.key, alias));
+      if (found) {
+        columns[field.key] = found.header;
+        used.add(found.header);
+        return;
+      }
+    }
+  };
+
+  IMPORT_FIELDS.forEach((field) => claim(field, (key, alias) => key === alias));
+  IMPORT_FIELDS.forEach((field) => claim(field, (key, alias) => ` ${key} `.includes(` ${alias} `)));
+  return columns;
+}
+
+export function getColumnValues(preview: SheetPreview, header: string | undefined): unknown[] {
+  if (!header) return [];
+  const index = preview.headers.indexOf(header);
+  if (index === -1) return [];
+  return preview.rows.map((row) => row[index]);
+}
+
+// Columns already on the 1–10 scale are left alone; common alternative scales are recognized from the observed range.
+export function detectColumnScale(values: unknown[]): ColumnScale | null {
+  const numbers = values.map(parseNumericCell).filter((value): value is number => value !== null);
+  if (numbers.length === 0) return null;
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+
+  if (min >= SCALE_MIN && max <= SCALE_MAX) return null;
+  if (min >= 0 && max <= 1) return { min: 0, max: 1 };
+  if (min >= 0 && max <= 10) return { min: 0, max: 10 };
+  if (min >= 0 && max <= 100) return { min: 0, max: 100 };
+  return { min, max };
+}
+
+export function rescaleToScale(value: number, scale: ColumnScale | null | undefined): number {
+  if (!scale || scale.max === scale.min) return clampToScale(Math.round(value));
+  const ratio = (value - scale.min) / (scale.max - scale.min);
+  return clampToScale(Math.round(SCALE_MIN + ratio * (SCALE_MAX - SCALE_MIN)));
+}
+
+export function suggestMappingConfig(preview: SheetPreview): ImportMappingConfig {
+  const columns = suggestColumnMapping(preview.headers);
+  const scales: ImportMappingConfig["scales"] = {};
+  SCORE_FIELDS.forEach((field) => {
+    scales[field] = detectColumnScale(getColumnValues(preview, columns[field]));
+  });
+  return { ...getEmptyMappingConfig(), columns, scales };
+}
+
+const buildDate = (year: number, month: number, day: number): number | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const time = Date.UTC(fullYear, month - 1, day);
+  const check = new Date(time);
+  return check.getUTCDate() === day ? time : null;
+};
+
+export function parseDateCell(value: unknown, order: DateOrder = "auto"): number | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    if (value > 1e12) return Math.round(value);
+    if (value > 1e9) return Math.round(value * 1000);
+    if (value > 0 && value < 100_000) return Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * msInDay);
+    return null;
+  }
+
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseDateCell(Number(trimmed), order);
+
+  const parts = trimmed.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (parts) {
+    const [a, b, c] = parts.slice(1).map(Number);
+    if (parts[1].length === 4 || order === "ymd") return buildDate(a, b, c);
+    if (order === "dmy") return buildDate(c, b, a);
+    if (order === "mdy") return buildDate(c, a, b);
+    // Ambiguous day/month: only a first part above 12 forces day-first, otherwise US order is assumed.
+    return a > 12 ? buildDate(c, b, a) : buildDate(c, a, b);
+  }
+
+  const quarter = trimmed.match(/^q([1-4])\s*[-/ ]?\s*(\d{4})$/i) ?? trimmed.match(/^(\d{4})\s*[-/ ]?\s*q([1-4])$/i);
+  if (quarter) {
+    const [q, year] = /^q/i.test(trimmed) ? [Number(quarter[1]), Number(quarter[2])] : [Number(quarter[2]), Number(quarter[1])];
+    return Date.UTC(year, (q - 1) * 3, 1);
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export function getMissingRequiredFields(config: ImportMappingConfig): ImportField[] {
+  return IMPORT_FIELDS.filter((field) => field.required && !config.columns[field.key]);
+}
+
+export function applyImportMapping(
+  preview: SheetPreview,
+  config: ImportMappingConfig,
+  now: number = Date.now(),
+): MappedImportRow[] {
+  const indexOf = (field: ImportFieldKey) => {
+    const header = config.columns[field];
+    return header ? preview.headers.indexOf(header) : -1;
+  };
+  const cell = (row: unknown[], field: ImportFieldKey) => {
+    const index = indexOf(field);
+    return index === -1 ? undefined : row[index];
+  };
+
+  return preview.rows.map((row, rowIndex) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const rowNumber = rowIndex + 2;
+
+    const name = String(cell(row, "decisionName") ?? "").trim();
+    if (!name) errors.push("Decision name is empty.");
+
+    const categoryCell = String(cell(row, "category") ?? "").trim();
+    const category = categoryCell || config.defaultCategory || "General";
+
+    const scores = {} as Record<ScoreFieldKey, number>;
+    SCORE_FIELDS.forEach((field) => {
+      const label = IMPORT_FIELDS.find((item) => item.key === field)?.label ?? field;
+      const raw = cell(row, field);
+      const numeric = parseNumericCell(raw);
+      if (numeric === null) {
+        errors.push(isBlank(raw) ? `${label} is empty.` : `${label} "${String(raw)}" is not a number.`);
+        return;
+      }
+      const scaled = rescaleToScale(numeric, config.scales[field]);
+      if (!config.scales[field] && (numeric < SCALE_MIN || numeric > SCALE_MAX)) {
+        warnings.push(`${label} ${numeric} was clamped to ${scaled}.`);
+      }
+      scores[field] = scaled;
+    });
+
+    const dateCell = cell(row, "date");
+    let ts = parseDateCell(dateCell, config.dateOrder);
+    if (ts === null) {
+      if (!isBlank(dateCell)) warnings.push(`Date "${String(dateCell)}" was not recognized; using import time.`);
+      ts = now - rowIndex;
+    }
+
+    if (errors.length > 0) return { rowNumber, decision: null, errors, warnings };
+
+    return {
+      rowNumber,
+      decision: { ts, name, category, ...scores, ...computeMetrics(scores) },
+      errors,
+      warnings,
+    };
+  });
+}
+
+// Presets are only offered when every column they reference exists in the sheet being imported.
+export function isPresetApplicable(preset: ImportMappingPreset, headers: string[]): boolean {
+  return Object.values(preset.config.columns).every((header) => !header || headers.includes(header));
+}
@@ -55,6 +55,13 @@ export interface DecisionCandidate {
     isTableLike: boolean;
     isBoilerplate: boolean;
   };
+  // Supporting quotes per score, kept only where the quote was found in the document; local scores have none.
+  scoreEvidence?: Partial<Record<keyof DecisionCandidate["sliders"], ScoreEvidence>>;
+}
+
+export interface ScoreEvidence {
+  quote: string;
+  page: number;
 }
 
 export interface LocalExtractOptions {
@@ -0,0 +1,134 @@
+import type {
+  DecisionCandidate as ServerDecisionCandidate,
+  DecisionExtractResponse,
+  DecisionExtractStreamEvent,
+} from "@/app/api/decision-extract/schema";
+import type { DecisionCandidate, ScoreEvidence } from "./decisionExtractLocal";
+import { classifyMapCategory } from "./decisionMap";
+import { normalizeDecisionStatement } from "./decisionNormalization";
+
+const DECISION_EXTRACT_ENDPOINT = "/api/decision-extract";
+
+export interface StreamExtractionInput {
+  docName: string;
+  pages: Array<{ page: number; text: string }>;
+  model?: string;
+  // Ignore the server's cached result for this document.
+  refresh?: boolean;
+}
+
+export interface StreamExtractionOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+}
+
+// Splits a byte stream into parsed lines; a trailing line without a newline still counts.
+export async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split("\n");
+      buffered = done ? "" : (lines.pop() ?? "");
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Resolves with the merged result once the server finishes; every event along the way goes to `onEvent`.
+export async function streamDecisionExtraction(
+  input: StreamExtractionInput,
+  onEvent: (event: DecisionExtractStreamEvent) => void,
+  options: StreamExtractionOptions = {},
+): Promise<DecisionExtractResponse> {
+  const send = options.fetch ?? fetch;
+  const response = await send(DECISION_EXTRACT_ENDPOINT, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      docName: input.docName,
+      pages: input.pages,
+      options: {
+        stream: true,
+        ...(input.model ? { model: input.model } : {}),
+        ...(input.refresh ? { refresh: true } : {}),
+      },
+    }),
+    signal: options.signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to extract decisions: ${response.status}`);
+  }
+
+  for await (const event of readNdjson<DecisionExtractStreamEvent>(response.body)) {
+    onEvent(event);
+    if (event.type === "error") throw new Error(event.error);
+    if (event.type === "merged") {
+      const { type: _type, ...result } = event;
+      void _type;
+      return result;
+    }
+  }
+  throw new Error("Decision extraction stream ended early");
+}
+
+const SCORE_KEYS = ["impact", "cost", "risk", "urgency", "confidence"] as const;
+
+// Server candidates carry 1-10 constraint scores; the intake rows want sliders and the local extractor's labels.
+export const toIntakeCandidate = (candidate: ServerDecisionCandidate): DecisionCandidate => {
+  const quote = candidate.evidence.quote;
+  const scoreEvidence: NonNullable<DecisionCandidate["scoreEvidence"]> = {};
+  SCORE_KEYS.forEach((key) => {
+    const { evidence, location } = candidate.constraints[key];
+    if (location) scoreEvidence[key] = { quote: evidence, page: location.page } satisfies ScoreEvidence;
+  });
+  return {
+    id: candidate.id,
+    title: candidate.title,
+    decision: candidate.decision,
+    statementNormalized: normalizeDecisionStatement(candidate.decision),
+    statementVerbatim: quote,
+    page: candidate.page,
+    mapCategory: classifyMapCategory(quote),
+    category: candidate.category,
+    tags: candidate.tags,
+    statementType: candidate.strength === "hard" ? "commitment" : "decision",
+    strength: candidate.strength === "hard" ? "committed" : "indicative",
+    evidence: { page: candidate.evidence.page, quote, full: quote },
+    score: candidate.constraints.confidence.score,
+    sliders: {
+      impact: candidate.constraints.impact.score,
+      cost: candidate.constraints.cost.score,
+      risk: candidate.constraints.risk.score,
+      urgency: candidate.constraints.urgency.score,
+      confidence: candidate.constraints.confidence.score,
+    },
+    flags: { isTableLike: false, isBoilerplate: false },
+    scoreEvidence,
+  };
+};
+
+// Folds one event into the candidate list the intake UI shows while the stream is still running.
+export const applyStreamEvent = (current: DecisionCandidate[], event: DecisionExtractStreamEvent): DecisionCandidate[] => {
+  switch (event.type) {
+    case "page":
+      return [...current, ...event.candidates.map(toIntakeCandidate)];
+    case "refine": {
+      const replaced = new Set(event.replaces);
+      return [...current.filter((candidate) => !replaced.has(candidate.id)), ...event.candidates.map(toIntakeCandidate)];
+    }
+    case "merged":
+      return event.candidates.map(toIntakeCandidate);
+    default:
+      return current;
+  }
+};
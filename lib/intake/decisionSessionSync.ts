@@ -1,5 +1,7 @@
 import type { DecisionCandidate } from "./decisionExtractLocal";
-import { computeRpsDnav } from "./decisionMetrics";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "@/lib/scoringProfiles";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
 
 export interface SessionDecision {
   id: string;
@@ -36,13 +38,23 @@ export const getCandidateIdFromSessionDecision = (decision: SessionDecision): st
   return null;
 };
 
+// Session rows carry R/P/S/D-NAV under short keys; they are always read off the shared engine.
+export const getSessionMetrics = (
+  vars: DecisionVars,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): Pick<SessionDecision, "r" | "p" | "s" | "dnav"> => {
+  const metrics = computeMetrics(vars, profile);
+  return { r: metrics.return, p: metrics.pressure, s: metrics.stability, dnav: metrics.dnav };
+};
+
 export const buildSessionDecisionFromCandidate = (
   candidate: DecisionCandidate,
   sourceFileName?: string,
   existing?: SessionDecision,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
 ): SessionDecision => {
   const title = candidate.title.trim() || existing?.decisionTitle || "Untitled decision";
-  const metrics = computeRpsDnav(candidate.sliders);
+  const metrics = getSessionMetrics(candidate.sliders, profile);
   return {
     id: existing?.id ?? getSessionDecisionId(candidate.id),
     decisionTitle: title,
@@ -70,13 +82,14 @@ export const syncSessionDecisionsFromCandidate = (
   decisions: SessionDecision[],
   candidate: DecisionCandidate,
   sourceFileName?: string,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
 ): SessionDecision[] => {
   const matchId = getSessionDecisionId(candidate.id);
   let updated = false;
   const next = decisions.map((decision) => {
     if (decision.id !== matchId && decision.sourceCandidateId !== candidate.id) return decision;
     updated = true;
-    return buildSessionDecisionFromCandidate(candidate, sourceFileName, decision);
+    return buildSessionDecisionFromCandidate(candidate, sourceFileName, decision, profile);
   });
   return updated ? next : decisions;
 };
@@ -0,0 +1,90 @@
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface QuoteLocation extends TextSpan {
+  page: number;
+}
+
+const CHARACTER_FOLDS: Record<string, string> = {
+  "\u2018": "'",
+  "\u2019": "'",
+  "\u201c": '"',
+  "\u201d": '"',
+  "\u2013": "-",
+  "\u2014": "-",
+  "\u00ad": "",
+};
+
+// Lowercased text with whitespace runs collapsed, plus the index in the original string of every character kept.
+const foldText = (text: string) => {
+  let folded = "";
+  const offsets: number[] = [];
+  let pendingSpace = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      pendingSpace = folded.length > 0;
+      continue;
+    }
+    const replacement = CHARACTER_FOLDS[char] ?? char.toLowerCase();
+    if (!replacement) continue;
+    if (pendingSpace) {
+      folded += " ";
+      offsets.push(index - 1);
+      pendingSpace = false;
+    }
+    for (const piece of replacement) {
+      folded += piece;
+      offsets.push(index);
+    }
+  }
+  return { folded, offsets };
+};
+
+// Finds `quote` in `text` ignoring case, line breaks and typographic quotes; a clamped quote's trailing ellipsis is dropped.
+export function findQuoteSpan(text: string, quote: string): TextSpan | null {
+  const needle = foldText(quote.trim().replace(/(?:\.\.\.|\u2026)$/, "")).folded;
+  if (needle.length === 0) return null;
+  const { folded, offsets } = foldText(text);
+  const at = folded.indexOf(needle);
+  if (at === -1) return null;
+  return { start: offsets[at], end: offsets[at + needle.length - 1] + 1 };
+}
+
+// Looks on the preferred page first because that is where the candidate's own quote came from.
+export function locateQuote(
+  pages: Array<{ page: number; text: string }>,
+  quote: string,
+  preferredPage?: number,
+): QuoteLocation | null {
+  const ordered = [...pages].sort((a, b) => Number(b.page === preferredPage) - Number(a.page === preferredPage));
+  for (const page of ordered) {
+    const span = findQuoteSpan(page.text, quote);
+    if (span) return { page: page.page, ...span };
+  }
+  return null;
+}
+
+// Which text items a span covers, and what fraction of each, so a viewer can draw highlights over the rendered glyphs.
+export function itemsInSpan(
+  items: string[],
+  span: TextSpan,
+  separator = " ",
+): Array<{ index: number; from: number; to: number }> {
+  const covered: Array<{ index: number; from: number; to: number }> = [];
+  let offset = 0;
+  items.forEach((item, index) => {
+    const start = offset;
+    const end = start + item.length;
+    offset = end + separator.length;
+    if (item.length === 0 || end <= span.start || start >= span.end) return;
+    covered.push({
+      index,
+      from: (Math.max(span.start, start) - start) / item.length,
+      to: (Math.min(span.end, end) - start) / item.length,
+    });
+  });
+  return covered;
+}
@@ -0,0 +1,44 @@
+import { assignSections, type PageText } from "./sectionSplit";
+
+export interface ExtractionChunk {
+  // Zero-based, in document order.
+  index: number;
+  pages: PageText[];
+  sections: string[];
+  chars: number;
+}
+
+// Packs consecutive pages into chunks of at most `maxChars`, starting a new chunk at a section boundary whenever the
+// whole section would not fit. Sections longer than the limit are split between pages; a single oversized page stands alone.
+export function buildExtractionChunks(pages: PageText[], maxChars: number): ExtractionChunk[] {
+  const groups: Array<{ section: string; pages: PageText[]; chars: number }> = [];
+  assignSections(pages).forEach(({ page, text, section }) => {
+    const last = groups[groups.length - 1];
+    if (last && last.section === section) {
+      last.pages.push({ page, text });
+      last.chars += text.length;
+    } else {
+      groups.push({ section, pages: [{ page, text }], chars: text.length });
+    }
+  });
+
+  const chunks: ExtractionChunk[] = [];
+  let current: ExtractionChunk = { index: 0, pages: [], sections: [], chars: 0 };
+  const flush = () => {
+    if (current.pages.length === 0) return;
+    chunks.push(current);
+    current = { index: chunks.length, pages: [], sections: [], chars: 0 };
+  };
+
+  groups.forEach((group) => {
+    if (current.chars + group.chars > maxChars) flush();
+    group.pages.forEach((page) => {
+      if (current.chars + page.text.length > maxChars) flush();
+      current.pages.push(page);
+      current.chars += page.text.length;
+      if (current.sections[current.sections.length - 1] !== group.section) current.sections.push(group.section);
+    });
+  });
+  flush();
+  return chunks;
+}
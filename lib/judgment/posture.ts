@@ -57,7 +57,7 @@ const VAR_LOW = 0.7;
 const VAR_MED = 1.5;
 
 const SLOPE_THRESHOLD = 0.05;
-const VARIANCE_TREND_THRESHOLD = 0.15;
+export const VARIANCE_TREND_THRESHOLD = 0.15;
 
 export function computePostureSummary(
   cohort: CohortSummary,
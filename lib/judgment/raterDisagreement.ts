@@ -0,0 +1,198 @@
+import type { DecisionEntry, DecisionRating } from "../calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "../scoringProfiles";
+
+export type RatedVariable = keyof DecisionVars;
+
+export type VariableSpreadSummary = {
+  variable: RatedVariable;
+  // Averages over every decision with at least two raters.
+  meanStdDev: number;
+  meanRange: number;
+  maxRange: number;
+};
+
+export type DisagreementDriver = {
+  variable: RatedVariable;
+  // How much archetype agreement rises, on average, if raters had agreed on this variable alone.
+  agreementGain: number;
+  // Split decisions that would land on a single archetype if this variable were agreed.
+  decisionsResolved: number;
+};
+
+export type RaterVariableBias = {
+  variable: RatedVariable;
+  // Mean of (rater score − mean of the other raters) across the decisions the rater scored.
+  bias: number;
+  count: number;
+  flagged: boolean;
+};
+
+export type RaterBiasPoint = {
+  t: number;
+  decisionName: string;
+  deviations: Record<RatedVariable, number>;
+};
+
+export type RaterBiasProfile = {
+  raterId: string;
+  // Name the rater used on their latest rated decision.
+  rater: string;
+  decisionCount: number;
+  biases: RaterVariableBias[];
+  series: RaterBiasPoint[];
+  // Change in deviation per rated decision; positive means the rater is drifting above the group.
+  trend: Record<RatedVariable, number>;
+};
+
+export type RaterDisagreementReport = {
+  ratedDecisionCount: number;
+  raters: RaterBiasProfile[];
+  spreads: VariableSpreadSummary[];
+  drivers: DisagreementDriver[];
+  splitDecisionCount: number;
+};
+
+export const RATED_VARIABLES: RatedVariable[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+// A rater needs a consistent lean of at least this size over enough decisions to be called out.
+const BIAS_FLAG_THRESHOLD = 1;
+const BIAS_MIN_DECISIONS = 3;
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const populationStdDev = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const slope = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - yMean);
+    denominator += (index - xMean) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+// Ratings logged before rater ids existed fall back to the display name.
+const getRaterKey = (rating: DecisionRating) => rating.raterId?.trim() || rating.rater.trim();
+
+// Raters who scored a decision more than once count once, with their latest score.
+export function getDecisionRatings(decision: DecisionEntry) {
+  const latest = new Map<string, DecisionRating & { raterId: string }>();
+  (decision.ratings ?? []).forEach((rating) => {
+    const raterId = getRaterKey(rating);
+    const existing = latest.get(raterId);
+    if (raterId && (!existing || rating.ratedAt >= existing.ratedAt)) {
+      latest.set(raterId, { ...rating, rater: rating.rater.trim() || raterId, raterId });
+    }
+  });
+  return Array.from(latest.values());
+}
+
+// Share of raters who land on the most common archetype.
+const archetypeAgreement = (ratings: DecisionVars[], profile: ScoringProfile) => {
+  const counts = new Map<string, number>();
+  ratings.forEach((rating) => {
+    const name = getArchetype(computeMetrics(rating, profile), profile).name;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return Math.max(...counts.values()) / ratings.length;
+};
+
+export function analyzeRaterDisagreement(
+  decisions: DecisionEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): RaterDisagreementReport {
+  const rated = decisions
+    .map((decision) => ({ decision, ratings: getDecisionRatings(decision) }))
+    .filter(({ ratings }) => ratings.length >= 2)
+    .sort((a, b) => a.decision.ts - b.decision.ts);
+
+  const spreads = RATED_VARIABLES.map((variable): VariableSpreadSummary => {
+    const perDecision = rated.map(({ ratings }) => ratings.map((rating) => rating[variable]));
+    const ranges = perDecision.map((values) => Math.max(...values) - Math.min(...values));
+    return {
+      variable,
+      meanStdDev: round(mean(perDecision.map(populationStdDev))),
+      meanRange: round(mean(ranges)),
+      maxRange: ranges.length ? Math.max(...ranges) : 0,
+    };
+  });
+
+  // Counterfactual per variable: give every rater the group mean for it and see how far agreement recovers.
+  const split = rated
+    .map(({ ratings }) => ({ ratings, agreement: archetypeAgreement(ratings, profile) }))
+    .filter(({ agreement }) => agreement < 1);
+  const drivers = RATED_VARIABLES.map((variable): DisagreementDriver => {
+    const outcomes = split.map(({ ratings, agreement }) => {
+      const groupMean = mean(ratings.map((rating) => rating[variable]));
+      const aligned = archetypeAgreement(
+        ratings.map((rating) => ({ ...rating, [variable]: groupMean })),
+        profile,
+      );
+      return { gain: aligned - agreement, resolved: aligned === 1 };
+    });
+    return {
+      variable,
+      agreementGain: round(mean(outcomes.map((outcome) => outcome.gain))),
+      decisionsResolved: outcomes.filter((outcome) => outcome.resolved).length,
+    };
+  }).sort((a, b) => b.agreementGain - a.agreementGain || b.decisionsResolved - a.decisionsResolved);
+
+  // Leave-one-out deviations so a rater's own score never pulls the baseline they are compared against.
+  const seriesByRater = new Map<string, RaterBiasPoint[]>();
+  const nameByRater = new Map<string, string>();
+  rated.forEach(({ decision, ratings }) => {
+    ratings.forEach((rating) => {
+      const others = ratings.filter((other) => other.raterId !== rating.raterId);
+      const deviations = Object.fromEntries(
+        RATED_VARIABLES.map((variable) => [
+          variable,
+          round(rating[variable] - mean(others.map((other) => other[variable]))),
+        ]),
+      ) as Record<RatedVariable, number>;
+      const points = seriesByRater.get(rating.raterId) ?? [];
+      points.push({ t: rating.ratedAt || decision.ts, decisionName: decision.name, deviations });
+      seriesByRater.set(rating.raterId, points);
+      nameByRater.set(rating.raterId, rating.rater);
+    });
+  });
+
+  const raters = Array.from(seriesByRater.entries())
+    .map(([raterId, points]): RaterBiasProfile => {
+      const series = [...points].sort((a, b) => a.t - b.t);
+      const biases = RATED_VARIABLES.map((variable): RaterVariableBias => {
+        const bias = round(mean(series.map((point) => point.deviations[variable])));
+        return {
+          variable,
+          bias,
+          count: series.length,
+          flagged: series.length >= BIAS_MIN_DECISIONS && Math.abs(bias) >= BIAS_FLAG_THRESHOLD,
+        };
+      });
+      const trend = Object.fromEntries(
+        RATED_VARIABLES.map((variable) => [variable, round(slope(series.map((point) => point.deviations[variable])))]),
+      ) as Record<RatedVariable, number>;
+      const rater = nameByRater.get(raterId) ?? raterId;
+      return { raterId, rater, decisionCount: series.length, biases, series, trend };
+    })
+    .sort((a, b) => b.decisionCount - a.decisionCount || a.rater.localeCompare(b.rater));
+
+  return {
+    ratedDecisionCount: rated.length,
+    raters,
+    spreads,
+    drivers,
+    splitDecisionCount: split.length,
+  };
+}
@@ -1,3 +1,8 @@
+import { z } from "zod";
+
+import { getLlmProvider } from "@/lib/llm/provider";
+import { parseJsonContent } from "@/lib/llm/shared";
+import type { LlmProvider } from "@/lib/llm/types";
 import {
   type ArchetypeSummaryOutput,
   type CompanySummaryInput,
@@ -5,43 +10,52 @@ import {
   type SingleArchetypeSummaryInput,
 } from "@/types/company";
 
-const LLM_ENDPOINT = process.env.NEXT_PUBLIC_JUDGMENT_LLM_ENDPOINT;
+// Server-only: summaries go through the configured LLM provider and fall back to templated copy without one.
 
-interface LlmResponse<T> {
-  result?: T;
-  data?: T;
-  output?: T;
-}
+const companySummaryOutputSchema = z.object({
+  summary: z.string().min(1),
+  strengths: z.array(z.string()),
+  vulnerabilities: z.array(z.string()),
+});
 
-const safeParse = <T>(payload: unknown): T | null => {
-  if (payload && typeof payload === "object") {
-    return payload as T;
+const archetypeSummaryOutputSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  isStrength: z.boolean(),
+  notes: z.array(z.string()),
+});
+
+async function callLLM<T>(
+  provider: LlmProvider | null,
+  systemPrompt: string,
+  userContent: string,
+  schema: z.ZodType<T>,
+): Promise<T | null> {
+  if (!provider) {
+    return null;
   }
-  return null;
-};
 
-async function callLLM<T>(systemPrompt: string, userContent: string): Promise<T | null> {
-  if (!LLM_ENDPOINT) {
+  const result = await provider.chat({
+    json: true,
+    temperature: 0.3,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userContent },
+    ],
+  });
+  if (!result.ok) {
+    console.error("LLM summary request failed", { provider: provider.name, reason: result.reason, message: result.message });
     return null;
   }
 
   try {
-    const response = await fetch(LLM_ENDPOINT, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ systemPrompt, userContent }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`LLM request failed: ${response.status}`);
-    }
-
-    const parsed = (await response.json()) as LlmResponse<T>;
-    return parsed.result ?? parsed.data ?? parsed.output ?? safeParse<T>(parsed);
+    const parsed = schema.safeParse(parseJsonContent(result.content));
+    if (parsed.success) return parsed.data;
+    console.error("LLM summary response failed validation", parsed.error.issues);
   } catch (error) {
-    console.error("LLM summary request failed", error);
-    return null;
+    console.error("LLM summary response invalid JSON", error);
   }
+  return null;
 }
 
 const buildCompanyFallback = (input: CompanySummaryInput): CompanySummaryOutput => {
@@ -92,6 +106,7 @@ const buildArchetypeFallback = (
 
 export async function generateCompanySummary(
   input: CompanySummaryInput,
+  provider: LlmProvider | null = getLlmProvider(),
 ): Promise<CompanySummaryOutput> {
   const systemPrompt = `
 You are D-NAV, a judgment analyst.
@@ -115,11 +130,13 @@ Produce a company-level readout in this structure:
 Use only the information in the JSON. Do not invent external facts or company claims.
 Use whatever optional context is present, but do not assume anything that is missing.
 Write in clear, opinionated business language without hype.
+
+Respond with a JSON object only: { "summary": string (the narrative), "strengths": string[], "vulnerabilities": string[] }.
   `.trim();
 
   const userContent = JSON.stringify(input, null, 2);
 
-  const llmResult = await callLLM<CompanySummaryOutput>(systemPrompt, userContent);
+  const llmResult = await callLLM(provider, systemPrompt, userContent, companySummaryOutputSchema);
   if (llmResult) {
     return llmResult;
   }
@@ -129,6 +146,7 @@ Write in clear, opinionated business language without hype.
 
 export async function generateArchetypeSummary(
   input: SingleArchetypeSummaryInput,
+  provider: LlmProvider | null = getLlmProvider(),
 ): Promise<ArchetypeSummaryOutput> {
   const systemPrompt = `
 You are D-NAV, a judgment analyst. 
@@ -151,11 +169,13 @@ Write:
 
 Use only the data provided, do not invent external facts.
 Use whatever optional context is present, but do not assume anything that is missing.
+
+Respond with a JSON object only: { "title": string, "summary": string, "isStrength": boolean, "notes": string[] }.
   `.trim();
 
   const userContent = JSON.stringify(input, null, 2);
 
-  const llmResult = await callLLM<ArchetypeSummaryOutput>(systemPrompt, userContent);
+  const llmResult = await callLLM(provider, systemPrompt, userContent, archetypeSummaryOutputSchema);
   if (llmResult) {
     return llmResult;
   }
@@ -0,0 +1,82 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+import { buildUsage } from "./shared";
+import type { LlmChatRequest, LlmFailureReason, LlmProvider } from "./types";
+
+export interface LlmFixture {
+  // Exact request key from `getFixtureKey`; wins over `match`.
+  key?: string;
+  // Substring of the last user message, for fixtures that should survive prompt wording changes.
+  match?: string;
+  content?: string;
+  model?: string;
+  usage?: { promptTokens: number; completionTokens: number };
+  // Replays a failure instead of content, e.g. to exercise the timeout fallback.
+  failure?: LlmFailureReason;
+}
+
+export interface FixtureReplayOptions {
+  fixtures?: LlmFixture[];
+  // JSON file holding an array of fixtures, read once on first use.
+  fixturesPath?: string;
+  model?: string;
+}
+
+export type FixtureReplayProvider = LlmProvider & { calls: LlmChatRequest[] };
+
+// Only the parts of a request that change the answer; model and timeout are left out so fixtures outlive config.
+export function getFixtureKey(request: Pick<LlmChatRequest, "messages" | "json">): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ messages: request.messages, json: request.json ?? false }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+const lastUserMessage = (request: LlmChatRequest) =>
+  [...request.messages].reverse().find((message) => message.role === "user")?.content ?? "";
+
+// Deterministic stand-in for tests and offline demos: the same request always gets the same recorded answer.
+export function createFixtureReplayProvider(options: FixtureReplayOptions): FixtureReplayProvider {
+  const model = options.model ?? "fixture";
+  let loaded: Promise<LlmFixture[]> | null = null;
+  const loadFixtures = () => {
+    if (!loaded) {
+      loaded = options.fixturesPath
+        ? readFile(options.fixturesPath, "utf8").then((raw) => [...(options.fixtures ?? []), ...(JSON.parse(raw) as LlmFixture[])])
+        : Promise.resolve(options.fixtures ?? []);
+    }
+    return loaded;
+  };
+  const calls: LlmChatRequest[] = [];
+
+  return {
+    name: "fixture",
+    model,
+    calls,
+    async chat(request) {
+      calls.push(request);
+      const fixtures = await loadFixtures();
+      const key = getFixtureKey(request);
+      const userMessage = lastUserMessage(request);
+      const fixture =
+        fixtures.find((candidate) => candidate.key === key) ??
+        fixtures.find((candidate) => candidate.match !== undefined && userMessage.includes(candidate.match));
+
+      if (!fixture) {
+        return { ok: false, reason: "no_fixture", message: `No fixture for request ${key}`, durationMs: 0 };
+      }
+      if (fixture.failure) {
+        return { ok: false, reason: fixture.failure, message: `Replayed ${fixture.failure}`, durationMs: 0 };
+      }
+      const content = fixture.content ?? "";
+      return {
+        ok: true,
+        content,
+        model: fixture.model ?? request.model ?? model,
+        usage: buildUsage(request, content, fixture.usage),
+        durationMs: 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { DEFAULT_LLM_TIMEOUT_MS, buildUsage, toFailure } from "./shared";
+import type { LlmProvider } from "./types";
+
+export type LlmFetch = (url: string, init: RequestInit) => Promise<Pick<Response, "ok" | "status" | "json">>;
+
+export interface LocalHttpOptions {
+  // Root of an Ollama-style server; requests go to `${baseUrl}/api/chat`.
+  baseUrl: string;
+  model: string;
+  timeoutMs?: number;
+  fetch?: LlmFetch;
+  now?: () => number;
+}
+
+interface LocalChatResponse {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export const DEFAULT_LOCAL_LLM_URL = "http://localhost:11434";
+
+// A model running on the developer's machine, so extraction and summaries work offline and without a key.
+export function createLocalHttpProvider(options: LocalHttpOptions): LlmProvider {
+  const send = options.fetch ?? ((url, init) => fetch(url, init));
+  const now = options.now ?? Date.now;
+  const endpoint = `${options.baseUrl.replace(/\/$/, "")}/api/chat`;
+
+  return {
+    name: "local",
+    model: options.model,
+    async chat(request) {
+      const model = request.model ?? options.model;
+      const signal = AbortSignal.timeout(request.timeoutMs ?? options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS);
+      const startedAt = now();
+      try {
+        const response = await send(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model,
+            messages: request.messages,
+            stream: false,
+            ...(request.json ? { format: "json" } : {}),
+            options: {
+              ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+              ...(request.maxTokens !== undefined ? { num_predict: request.maxTokens } : {}),
+            },
+          }),
+          signal,
+        });
+        if (!response.ok) {
+          return { ok: false, reason: "http_error", message: `Model request failed: ${response.status}`, durationMs: now() - startedAt };
+        }
+        const body = (await response.json()) as LocalChatResponse;
+        const content = body.message?.content ?? "";
+        if (!content.trim()) {
+          return { ok: false, reason: "empty_response", message: "Model returned no content", durationMs: now() - startedAt };
+        }
+        return {
+          ok: true,
+          content,
+          model: body.model ?? model,
+          usage: buildUsage(request, content, {
+            promptTokens: body.prompt_eval_count,
+            completionTokens: body.eval_count,
+          }),
+          durationMs: now() - startedAt,
+        };
+      } catch (error) {
+        return toFailure(error, signal, startedAt, now);
+      }
+    },
+  };
+}
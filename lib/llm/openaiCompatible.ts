@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+
+import { DEFAULT_LLM_TIMEOUT_MS, buildUsage, toFailure } from "./shared";
+import type { LlmProvider } from "./types";
+
+export interface OpenAiCompatibleOptions {
+  apiKey: string;
+  model: string;
+  // Any server speaking the Chat Completions API (OpenAI, Azure-style gateways, vLLM, OpenRouter...).
+  baseUrl?: string;
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  // Retries are the caller's decision; the refine step would rather fall back to local results than wait.
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl, maxRetries: 0 });
+  const now = options.now ?? Date.now;
+
+  return {
+    name: "openai",
+    model: options.model,
+    async chat(request) {
+      const model = request.model ?? options.model;
+      const signal = AbortSignal.timeout(request.timeoutMs ?? options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS);
+      const startedAt = now();
+      try {
+        const completion = await client.chat.completions.create(
+          {
+            model,
+            messages: request.messages,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            // `max_tokens` rather than `max_completion_tokens`: compatible servers rarely accept the newer name.
+            ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+            ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+          },
+          { signal },
+        );
+        const content = completion.choices[0]?.message?.content ?? "";
+        if (!content.trim()) {
+          return { ok: false, reason: "empty_response", message: "Model returned no content", durationMs: now() - startedAt };
+        }
+        return {
+          ok: true,
+          content,
+          model: completion.model || model,
+          usage: buildUsage(request, content, {
+            promptTokens: completion.usage?.prompt_tokens,
+            completionTokens: completion.usage?.completion_tokens,
+          }),
+          durationMs: now() - startedAt,
+        };
+      } catch (error) {
+        if (error instanceof OpenAI.APIError && typeof error.status === "number") {
+          return { ok: false, reason: "http_error", message: `Model request failed: ${error.status}`, durationMs: now() - startedAt };
+        }
+        return toFailure(error, signal, startedAt, now);
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { createFixtureReplayProvider } from "./fixtureReplay";
+import { DEFAULT_LOCAL_LLM_URL, createLocalHttpProvider } from "./localHttp";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import { DEFAULT_LLM_TIMEOUT_MS } from "./shared";
+import type { LlmProvider, LlmProviderName } from "./types";
+
+// Server-only: the one place that decides which model backend extraction and summaries talk to.
+
+export interface LlmConfig {
+  provider: LlmProviderName | "none";
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+  fixturesPath?: string;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+  fixture: "fixture",
+};
+
+const PROVIDER_NAMES = ["openai", "local", "fixture", "none"] as const;
+
+const trimmed = (value: string | undefined) => (value && value.trim().length > 0 ? value.trim() : undefined);
+
+// LLM_PROVIDER picks the backend; without it an OpenAI key keeps the historical behaviour and no key means no model.
+export function resolveLlmConfig(env: Record<string, string | undefined> = process.env): LlmConfig {
+  const apiKey = trimmed(env.LLM_API_KEY) ?? trimmed(env.OPENAI_API_KEY);
+  const requested = trimmed(env.LLM_PROVIDER)?.toLowerCase();
+  const provider = PROVIDER_NAMES.find((name) => name === requested) ?? (apiKey ? "openai" : "none");
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS);
+
+  return {
+    provider,
+    model:
+      trimmed(env.LLM_MODEL) ??
+      (provider === "openai" ? (trimmed(env.OPENAI_MODEL) ?? trimmed(env.OPENAI_DEFAULT_MODEL)) : undefined) ??
+      DEFAULT_MODELS[provider === "none" ? "openai" : provider],
+    apiKey,
+    baseUrl: trimmed(env.LLM_BASE_URL) ?? (provider === "local" ? DEFAULT_LOCAL_LLM_URL : undefined),
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_LLM_TIMEOUT_MS,
+    fixturesPath: trimmed(env.LLM_FIXTURES_PATH),
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider | null {
+  switch (config.provider) {
+    case "openai":
+      if (!config.apiKey) {
+        console.error("LLM_PROVIDER=openai needs LLM_API_KEY or OPENAI_API_KEY");
+        return null;
+      }
+      return createOpenAiCompatibleProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+      });
+    case "local":
+      return createLocalHttpProvider({ baseUrl: config.baseUrl ?? DEFAULT_LOCAL_LLM_URL, model: config.model, timeoutMs: config.timeoutMs });
+    case "fixture":
+      return createFixtureReplayProvider({ fixturesPath: config.fixturesPath, model: config.model });
+    default:
+      return null;
+  }
+}
+
+let defaultProvider: LlmProvider | null | undefined;
+
+export function getLlmProvider(): LlmProvider | null {
+  if (defaultProvider === undefined) defaultProvider = createLlmProvider(resolveLlmConfig());
+  return defaultProvider;
+}
+
+// Tests swap in a fixture provider; passing undefined goes back to the environment's choice.
+export function setLlmProvider(provider: LlmProvider | null | undefined): void {
+  defaultProvider = provider;
+}
@@ -0,0 +1,50 @@
+import type { LlmChatRequest, LlmChatResult, LlmUsage } from "./types";
+
+export const DEFAULT_LLM_TIMEOUT_MS = 35_000;
+
+// Roughly four characters per token for English prose; only used when a backend reports no counts.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const promptText = (request: LlmChatRequest) => request.messages.map((message) => message.content).join("\n");
+
+export function buildUsage(
+  request: LlmChatRequest,
+  content: string,
+  reported?: { promptTokens?: number | null; completionTokens?: number | null },
+): LlmUsage {
+  const hasCounts = typeof reported?.promptTokens === "number" && typeof reported?.completionTokens === "number";
+  const promptTokens = hasCounts ? reported!.promptTokens! : estimateTokens(promptText(request));
+  const completionTokens = hasCounts ? reported!.completionTokens! : estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: !hasCounts };
+}
+
+export const EMPTY_USAGE: LlmUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+
+export function addUsage(a: LlmUsage, b: LlmUsage): LlmUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+// Adapters pass an AbortSignal.timeout to their transport; once it has fired, any error it caused is a timeout.
+export function toFailure(error: unknown, signal: AbortSignal, startedAt: number, now: () => number): LlmChatResult {
+  const durationMs = now() - startedAt;
+  if (signal.aborted) return { ok: false, reason: "timeout", message: "Model timeout", durationMs };
+  const message = error instanceof Error ? error.message : String(error);
+  return { ok: false, reason: "network_error", message, durationMs };
+}
+
+// JSON mode is a request, not a guarantee: some backends still wrap the object in prose or a code fence.
+export function parseJsonContent(content: string): unknown {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return JSON.parse(trimmed);
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fenced?.[1]) return JSON.parse(fenced[1]);
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start !== -1 && end > start) return JSON.parse(trimmed.slice(start, end + 1));
+  throw new SyntaxError("Model response contained no JSON");
+}
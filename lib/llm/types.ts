@@ -0,0 +1,37 @@
+export type LlmProviderName = "openai" | "local" | "fixture";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmChatRequest {
+  messages: LlmMessage[];
+  // Falls back to the provider's configured model.
+  model?: string;
+  temperature?: number;
+  // Ask the backend to constrain output to a single JSON object.
+  json?: boolean;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the backend reported no counts and these were estimated from text length.
+  estimated: boolean;
+}
+
+export type LlmFailureReason = "timeout" | "http_error" | "network_error" | "empty_response" | "no_fixture";
+
+export type LlmChatResult =
+  | { ok: true; content: string; model: string; usage: LlmUsage; durationMs: number }
+  | { ok: false; reason: LlmFailureReason; message: string; durationMs: number };
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+}
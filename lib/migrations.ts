@@ -0,0 +1,256 @@
+import type { DecisionEntry } from "./calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionMetrics, DecisionVars } from "@/src/lib/dnav/types";
+import { getDecisionKey } from "./datasetSync";
+import { getDatasetDisplayLabel } from "./reportDatasets";
+import { getDatasetScoringProfile, type ScoringProfile } from "./scoringProfiles";
+import { getEmptyDatasetMeta, type DatasetId, type DatasetState } from "@/types/dataset";
+
+// Version 1 is everything written before payloads carried a schemaVersion: the dnav_log_v1 log and the
+// unversioned dnav_datasets_state_v2 payload.
+export const DATASETS_SCHEMA_VERSION = 3;
+
+export interface VersionedDatasetState {
+  schemaVersion: number;
+  datasets: DatasetState[];
+  activeDatasetId: DatasetId | null;
+}
+
+export interface StoredPayloads {
+  datasetsState: unknown;
+  legacyLog: unknown;
+}
+
+export interface MigrationStepReport {
+  from: number;
+  to: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+  migratedAt: number;
+}
+
+export interface MigrationResult {
+  state: VersionedDatasetState | null;
+  report: MigrationReport | null;
+}
+
+interface MigrationStep {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (state: VersionedDatasetState, payloads: StoredPayloads) => { state: VersionedDatasetState; changes: string[] };
+}
+
+const VARIABLE_KEYS: (keyof DecisionVars)[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+const METRIC_ALIASES: Record<"return" | "pressure" | "stability" | "dnav", string[]> = {
+  return: ["R", "Return"],
+  pressure: ["P", "Pressure"],
+  stability: ["S", "Stability"],
+  dnav: ["dNav", "D-NAV", "DNAV", "D_NAV", "D"],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export function detectDatasetsSchemaVersion(payloads: StoredPayloads): number | null {
+  if (isRecord(payloads.datasetsState)) {
+    const version = toNumber(payloads.datasetsState.schemaVersion);
+    return version ?? 1;
+  }
+  if (Array.isArray(payloads.legacyLog) && payloads.legacyLog.length > 0) return 1;
+  return null;
+}
+
+const readDatasetState = (payload: unknown): VersionedDatasetState => {
+  if (!isRecord(payload) || !Array.isArray(payload.datasets)) {
+    return { schemaVersion: 1, datasets: [], activeDatasetId: null };
+  }
+  const activeDatasetId = typeof payload.activeDatasetId === "string" ? payload.activeDatasetId : null;
+  return {
+    schemaVersion: toNumber(payload.schemaVersion) ?? 1,
+    datasets: payload.datasets.filter(isRecord) as unknown as DatasetState[],
+    activeDatasetId,
+  };
+};
+
+const foldLegacyLog: MigrationStep["migrate"] = (state, payloads) => {
+  const legacy = Array.isArray(payloads.legacyLog)
+    ? (payloads.legacyLog.filter((entry) => isRecord(entry) && toNumber(entry.ts) !== null) as unknown as DecisionEntry[])
+    : [];
+  if (legacy.length === 0) return { state, changes: [] };
+
+  const existingKeys = new Set(state.datasets.flatMap((dataset) => (dataset.decisions ?? []).map(getDecisionKey)));
+  const incoming = legacy.filter((entry) => !existingKeys.has(getDecisionKey(entry)));
+  const skipped = legacy.length - incoming.length;
+  const changes: string[] = [];
+  if (skipped > 0) changes.push(`Skipped ${plural(skipped, "legacy decision")} already present in a dataset.`);
+  if (incoming.length === 0) return { state, changes };
+
+  const emptyTarget = state.datasets.find((dataset) => (dataset.decisions ?? []).length === 0 && !dataset.meta?.path);
+  if (emptyTarget) {
+    changes.push(`Moved ${plural(incoming.length, "legacy log decision")} into ${emptyTarget.label || emptyTarget.id}.`);
+    return {
+      state: {
+        ...state,
+        datasets: state.datasets.map((dataset) =>
+          dataset === emptyTarget ? { ...dataset, decisions: incoming } : dataset,
+        ),
+      },
+      changes,
+    };
+  }
+
+  const taken = new Set(state.datasets.map((dataset) => dataset.id));
+  let suffix = state.datasets.length + 1;
+  while (taken.has(`dataset-${suffix}`)) suffix += 1;
+  const dataset: DatasetState = {
+    id: `dataset-${suffix}`,
+    label: state.datasets.length ? "Imported log" : getDatasetDisplayLabel(0),
+    meta: getEmptyDatasetMeta(),
+    decisions: incoming,
+  };
+  changes.push(`Created ${dataset.label} with ${plural(incoming.length, "legacy log decision")}.`);
+
+  return {
+    state: {
+      ...state,
+      datasets: [...state.datasets, dataset],
+      activeDatasetId: state.activeDatasetId ?? dataset.id,
+    },
+    changes,
+  };
+};
+
+// Aliases are folded into the canonical fields and dropped so every reader sees the same fields. When all five
+// variables are present the metrics are recomputed from them, so a stale alias can never outvote the inputs.
+export function normalizeDecisionAliases(
+  raw: DecisionEntry,
+  profile?: ScoringProfile,
+): { decision: DecisionEntry; fixes: number } {
+  const record = { ...(raw as unknown as Record<string, unknown>) };
+  let fixes = 0;
+
+  VARIABLE_KEYS.forEach((key) => {
+    const numeric = toNumber(record[key]);
+    if (numeric !== null && numeric !== record[key]) {
+      record[key] = numeric;
+      fixes += 1;
+    }
+  });
+
+  (Object.keys(METRIC_ALIASES) as (keyof typeof METRIC_ALIASES)[]).forEach((key) => {
+    const aliases = METRIC_ALIASES[key];
+    const current = toNumber(record[key]);
+    const fallback = aliases.map((alias) => toNumber(record[alias])).find((value) => value !== null) ?? null;
+    const present = aliases.filter((alias) => alias in record);
+
+    if (current === null && fallback !== null) {
+      record[key] = fallback;
+      fixes += 1;
+    } else if (current !== null && current !== record[key]) {
+      record[key] = current;
+      fixes += 1;
+    }
+    if (present.length > 0) {
+      present.forEach((alias) => delete record[alias]);
+      fixes += 1;
+    }
+  });
+
+  const hasVariables = VARIABLE_KEYS.every((key) => typeof record[key] === "number");
+  if (hasVariables) {
+    const computed = computeMetrics(record as unknown as DecisionVars, profile);
+    (Object.keys(computed) as (keyof DecisionMetrics)[]).forEach((key) => {
+      if (record[key] !== computed[key]) {
+        record[key] = computed[key];
+        fixes += 1;
+      }
+    });
+  }
+
+  return { decision: record as unknown as DecisionEntry, fixes };
+}
+
+const normalizeDatasetShape: MigrationStep["migrate"] = (state) => {
+  let touchedDecisions = 0;
+  let filledMeta = 0;
+
+  const datasets = state.datasets.map((dataset, index) => {
+    const meta = { ...getEmptyDatasetMeta(), ...dataset.meta };
+    if (!dataset.meta || Object.keys(meta).length !== Object.keys(dataset.meta).length) filledMeta += 1;
+
+    const profile = getDatasetScoringProfile(meta);
+    const decisions = (dataset.decisions ?? []).map((decision) => {
+      const { decision: normalized, fixes } = normalizeDecisionAliases(decision, profile);
+      if (fixes > 0) touchedDecisions += 1;
+      return normalized;
+    });
+
+    return {
+      id: dataset.id || `dataset-${index + 1}`,
+      label: dataset.label || getDatasetDisplayLabel(index),
+      meta,
+      decisions,
+    };
+  });
+
+  const changes: string[] = [];
+  if (touchedDecisions > 0) {
+    changes.push(`Normalized metric aliases on ${plural(touchedDecisions, "decision")}.`);
+  }
+  if (filledMeta > 0) changes.push(`Filled missing metadata fields on ${plural(filledMeta, "dataset")}.`);
+
+  return { state: { ...state, datasets }, changes };
+};
+
+export const DATASET_MIGRATIONS: MigrationStep[] = [
+  { from: 1, to: 2, description: "Fold the legacy decision log into datasets", migrate: foldLegacyLog },
+  { from: 2, to: 3, description: "Normalize metric aliases and dataset metadata", migrate: normalizeDatasetShape },
+];
+
+export function migrateStoredDatasets(payloads: StoredPayloads, now: number = Date.now()): MigrationResult {
+  const fromVersion = detectDatasetsSchemaVersion(payloads);
+  if (fromVersion === null) return { state: null, report: null };
+
+  let state = readDatasetState(payloads.datasetsState);
+  if (fromVersion >= DATASETS_SCHEMA_VERSION) {
+    return { state: { ...state, schemaVersion: fromVersion }, report: null };
+  }
+
+  const steps: MigrationStepReport[] = [];
+  let version = fromVersion;
+  DATASET_MIGRATIONS.forEach((step) => {
+    if (step.from !== version) return;
+    const result = step.migrate(state, payloads);
+    state = { ...result.state, schemaVersion: step.to };
+    steps.push({ from: step.from, to: step.to, description: step.description, changes: result.changes });
+    version = step.to;
+  });
+
+  return {
+    state,
+    report: { fromVersion, toVersion: version, steps, migratedAt: now },
+  };
+}
+
+export function summarizeMigrationReport(report: MigrationReport): string[] {
+  return report.steps.flatMap((step) => step.changes);
+}
@@ -0,0 +1,206 @@
+import type { DecisionEntry, DecisionOutcome } from "./calculations";
+
+export type { DecisionOutcome };
+
+export type OutcomeVariableKey = "impact" | "cost" | "risk";
+
+export type OutcomeErrorKey = OutcomeVariableKey | "return" | "stability";
+
+export const OUTCOME_VARIABLES: { key: OutcomeVariableKey; label: string }[] = [
+  { key: "impact", label: "Impact" },
+  { key: "cost", label: "Cost" },
+  { key: "risk", label: "Risk" },
+];
+
+const ERROR_LABELS: Record<OutcomeErrorKey, string> = {
+  impact: "Impact",
+  cost: "Cost",
+  risk: "Risk",
+  return: "Return",
+  stability: "Stability",
+};
+
+const ERROR_KEYS: OutcomeErrorKey[] = ["impact", "cost", "risk", "return", "stability"];
+
+const msInDay = 24 * 60 * 60 * 1000;
+
+const WINDOW_UNIT_DAYS: Record<string, number> = {
+  d: 1,
+  day: 1,
+  days: 1,
+  w: 7,
+  wk: 7,
+  week: 7,
+  weeks: 7,
+  m: 30,
+  mo: 30,
+  month: 30,
+  months: 30,
+  q: 91,
+  quarter: 91,
+  quarters: 91,
+  y: 365,
+  yr: 365,
+  year: 365,
+  years: 365,
+};
+
+export type OutcomeInput = Pick<DecisionOutcome, OutcomeVariableKey> & { note?: string };
+
+export interface OutcomeForecast {
+  archetype: string;
+  impact0: number;
+  cost0: number;
+  risk0: number;
+  confidence0: number;
+  outcome?: DecisionOutcome | null;
+}
+
+export type OutcomeErrors = Record<OutcomeErrorKey, number>;
+
+export interface ForecastErrorStat {
+  key: OutcomeErrorKey;
+  label: string;
+  bias: number;
+  mae: number;
+}
+
+export interface ArchetypeForecastError {
+  archetype: string;
+  count: number;
+  bias: OutcomeErrors;
+  mae: number;
+}
+
+export interface ForecastErrorSummary {
+  resolvedCount: number;
+  variables: ForecastErrorStat[];
+  archetypes: ArchetypeForecastError[];
+}
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// Resolution windows are stored either as a day count or as a short label ("30d", "6 weeks", "1q").
+export function parseResolutionWindowDays(value: DecisionEntry["resolutionWindow"]): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== "string") return null;
+
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const unit = match[2] || "d";
+  const multiplier = WINDOW_UNIT_DAYS[unit];
+  if (!multiplier || !Number.isFinite(amount) || amount <= 0) return null;
+  return amount * multiplier;
+}
+
+export function getResolutionDueAt(entry: Pick<DecisionEntry, "ts" | "createdAt" | "resolutionWindow">): number | null {
+  const days = parseResolutionWindowDays(entry.resolutionWindow);
+  if (days === null) return null;
+  return (entry.createdAt ?? entry.ts) + days * msInDay;
+}
+
+export function isResolved(entry: Pick<DecisionEntry, "outcome" | "resolvedAt">): boolean {
+  return Boolean(entry.outcome) || typeof entry.resolvedAt === "number";
+}
+
+export function isResolutionDue(entry: DecisionEntry, now: number = Date.now()): boolean {
+  if (isResolved(entry)) return false;
+  const dueAt = getResolutionDueAt(entry);
+  return dueAt !== null && dueAt <= now;
+}
+
+export function getDueResolutions(entries: DecisionEntry[], now: number = Date.now()): DecisionEntry[] {
+  return entries
+    .filter((entry) => isResolutionDue(entry, now))
+    .sort((a, b) => (getResolutionDueAt(a) ?? 0) - (getResolutionDueAt(b) ?? 0));
+}
+
+export function resolveDecisionOutcome(
+  entry: DecisionEntry,
+  input: OutcomeInput,
+  now: number = Date.now(),
+): DecisionEntry {
+  const note = input.note?.trim();
+  const outcome: DecisionOutcome = {
+    impact: clampScore(input.impact),
+    cost: clampScore(input.cost),
+    risk: clampScore(input.risk),
+    recordedAt: now,
+    ...(note ? { note } : {}),
+  };
+
+  return { ...entry, outcome, resolvedAt: now };
+}
+
+export function clearDecisionOutcome(entry: DecisionEntry): DecisionEntry {
+  return { ...entry, outcome: null, resolvedAt: null };
+}
+
+// Errors are realized minus forecast, so a positive Impact error means the upside was under-called.
+export function computeOutcomeErrors(forecast: OutcomeForecast, outcome: DecisionOutcome): OutcomeErrors {
+  const forecastReturn = forecast.impact0 - forecast.cost0;
+  const forecastStability = forecast.confidence0 - forecast.risk0;
+  const realizedReturn = outcome.impact - outcome.cost;
+  const realizedStability = forecast.confidence0 - outcome.risk;
+
+  return {
+    impact: outcome.impact - forecast.impact0,
+    cost: outcome.cost - forecast.cost0,
+    risk: outcome.risk - forecast.risk0,
+    return: realizedReturn - forecastReturn,
+    stability: realizedStability - forecastStability,
+  };
+}
+
+export function getRealizedReturn(decision: { return0: number; outcome?: DecisionOutcome | null }): number {
+  return decision.outcome ? decision.outcome.impact - decision.outcome.cost : decision.return0;
+}
+
+export function getRealizedStability(decision: {
+  stability0: number;
+  confidence0: number;
+  outcome?: DecisionOutcome | null;
+}): number {
+  return decision.outcome ? decision.confidence0 - decision.outcome.risk : decision.stability0;
+}
+
+const summarizeErrors = (errors: OutcomeErrors[]) =>
+  ERROR_KEYS.reduce((acc, key) => {
+    acc[key] = average(errors.map((error) => error[key]));
+    return acc;
+  }, {} as OutcomeErrors);
+
+export function summarizeForecastErrors(decisions: OutcomeForecast[]): ForecastErrorSummary {
+  const resolved = decisions.filter(
+    (decision): decision is OutcomeForecast & { outcome: DecisionOutcome } => Boolean(decision.outcome),
+  );
+  const errors = resolved.map((decision) => computeOutcomeErrors(decision, decision.outcome));
+
+  const variables = ERROR_KEYS.map((key) => ({
+    key,
+    label: ERROR_LABELS[key],
+    bias: average(errors.map((error) => error[key])),
+    mae: average(errors.map((error) => Math.abs(error[key]))),
+  }));
+
+  const grouped: Record<string, OutcomeErrors[]> = {};
+  resolved.forEach((decision, index) => {
+    grouped[decision.archetype] = grouped[decision.archetype] || [];
+    grouped[decision.archetype].push(errors[index]);
+  });
+
+  const archetypes = Object.entries(grouped)
+    .map(([archetype, rows]) => ({
+      archetype,
+      count: rows.length,
+      bias: summarizeErrors(rows),
+      mae: average(rows.map((row) => Math.abs(row.return))),
+    }))
+    .sort((a, b) => b.count - a.count || b.mae - a.mae);
+
+  return { resolvedCount: resolved.length, variables, archetypes };
+}
@@ -1,3 +1,4 @@
+import { loadPdfjs } from "./loadPdfjs";
 import { normalizePdfText } from "./normalizePdfText";
 
 export interface PdfTextPage {
@@ -58,10 +59,7 @@ const stripRepeatedLines = (pages: PdfTextPage[]): PdfTextPage[] => {
 };
 
 export async function extractPdfText(file: File, options: ExtractOptions = {}): Promise<PdfExtractResult> {
-  const pdfjsLib = (await import("pdfjs-dist")) as typeof import("pdfjs-dist");
-  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
-  }
+  const pdfjsLib = await loadPdfjs();
 
   const buffer = await file.arrayBuffer();
   const loadingTask = pdfjsLib.getDocument({ data: buffer });
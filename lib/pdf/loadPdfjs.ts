@@ -0,0 +1,8 @@
+// pdf.js is browser-only and heavy, so it is imported on first use; the worker comes from the CDN build of the same version.
+export async function loadPdfjs() {
+  const pdfjsLib = (await import("pdfjs-dist")) as typeof import("pdfjs-dist");
+  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
+  }
+  return pdfjsLib;
+}
@@ -0,0 +1,120 @@
+import { detectJudgmentSignal, getReadoutLines, type JudgmentSignal, type ReadoutLines } from "./calculations";
+import { getScoringProfile, type ScoringProfile } from "./scoringProfiles";
+import { getArchetype, type ArchetypeInfo } from "@/src/lib/dnav/archetypes";
+import { compareDecisions } from "@/src/lib/dnav/compare";
+import { computeMetrics, energyTier } from "@/src/lib/dnav/compute";
+import { buildNudgeCopy } from "@/src/lib/dnav/nudges/copy";
+import { computeBestNudge } from "@/src/lib/dnav/nudges/engine";
+import type { NudgeGoal, NudgeResult, NudgeSettings } from "@/src/lib/dnav/nudges/types";
+import type { CompareResult, DecisionMetrics, DecisionVars, EnergyTier } from "@/src/lib/dnav/types";
+
+// Pure handlers behind the versioned /api/v1 routes, kept free of Next so other tools and tests can call them directly.
+
+export const PUBLIC_API_VERSION = "1.0.0";
+
+// Batches above this size are rejected at validation; callers split larger runs.
+export const MAX_BATCH_ITEMS = 100;
+
+export interface MetricsRequestItem {
+  id?: string;
+  vars: DecisionVars;
+}
+
+export interface MetricsReport {
+  id?: string;
+  vars: DecisionVars;
+  metrics: DecisionMetrics;
+  archetype: ArchetypeInfo;
+  energyTier: EnergyTier;
+  judgmentSignal: JudgmentSignal | null;
+  readout: ReadoutLines;
+}
+
+export interface CompareRequestItem {
+  id?: string;
+  baseline: { label?: string; vars: DecisionVars };
+  candidate: { label?: string; vars: DecisionVars };
+}
+
+export type CompareReport = CompareResult & { id?: string };
+
+export interface NudgeRequestItem {
+  id?: string;
+  vars: DecisionVars;
+  goal: NudgeGoal;
+  minGoalImprovement?: number;
+  constraints?: Partial<NudgeSettings["constraints"]>;
+  allowUrgencyIncrease?: boolean;
+}
+
+export interface NudgeReport {
+  id?: string;
+  nudge: NudgeResult | null;
+  copy: ReturnType<typeof buildNudgeCopy> | null;
+}
+
+export function buildMetricsReport(item: MetricsRequestItem, profile: ScoringProfile): MetricsReport {
+  const metrics = computeMetrics(item.vars, profile);
+  const judgmentSignal = detectJudgmentSignal(item.vars, metrics);
+  return {
+    ...(item.id !== undefined ? { id: item.id } : {}),
+    vars: item.vars,
+    metrics,
+    archetype: getArchetype(metrics, profile),
+    energyTier: energyTier(item.vars.urgency, item.vars.confidence),
+    judgmentSignal,
+    readout: getReadoutLines(metrics, judgmentSignal),
+  };
+}
+
+// Metrics are computed up front so the comparison honours the requested scoring profile.
+export function buildCompareReport(item: CompareRequestItem, profile: ScoringProfile): CompareReport {
+  const toInput = (side: CompareRequestItem["baseline"], fallback: string) => ({
+    label: side.label ?? fallback,
+    source: "manual" as const,
+    vars: side.vars,
+    metrics: computeMetrics(side.vars, profile),
+  });
+  return {
+    ...(item.id !== undefined ? { id: item.id } : {}),
+    ...compareDecisions(toInput(item.baseline, "Baseline"), toInput(item.candidate, "Candidate")),
+  };
+}
+
+// Defaults match the compare page: a one-point goal gain with the guardrails left to the caller.
+export function buildNudgeReport(item: NudgeRequestItem, profile: ScoringProfile): NudgeReport {
+  const settings: NudgeSettings = {
+    goal: item.goal,
+    minGoalImprovement: item.minGoalImprovement ?? 1,
+    constraints: {
+      preventPressureIncrease: item.constraints?.preventPressureIncrease ?? false,
+      preventReturnDecrease: item.constraints?.preventReturnDecrease ?? false,
+      preventStabilityDecrease: item.constraints?.preventStabilityDecrease ?? false,
+      minDnav: item.constraints?.minDnav,
+    },
+    policy: { allowUrgencyIncrease: item.allowUrgencyIncrease ?? false },
+    profile,
+  };
+  const nudge = computeBestNudge(item.vars, item.vars, settings);
+  return {
+    ...(item.id !== undefined ? { id: item.id } : {}),
+    nudge,
+    copy: nudge ? buildNudgeCopy(nudge, settings) : null,
+  };
+}
+
+export type PublicApiRequest<Item> = (Item | { items: Item[] }) & { profileId?: string };
+
+export type PublicApiResponse<Result> = { profileId: string; result: Result } | { profileId: string; results: Result[] };
+
+// Every endpoint takes either one item or `{ items }`; batches answer with `results` in request order.
+export function runPublicApiRequest<Item extends object, Result>(
+  request: PublicApiRequest<Item>,
+  build: (item: Item, profile: ScoringProfile) => Result,
+): PublicApiResponse<Result> {
+  const profile = getScoringProfile(request.profileId);
+  if ("items" in request) {
+    return { profileId: profile.id, results: request.items.map((item) => build(item, profile)) };
+  }
+  return { profileId: profile.id, result: build(request as Item, profile) };
+}
@@ -1,4 +1,6 @@
-import { computeMetrics, type DecisionEntry } from "@/lib/calculations";
+import type { DecisionEntry } from "@/lib/calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import { getDatasetScoringProfile, type ScoringProfile } from "@/lib/scoringProfiles";
 import {
   buildCompanyPeriodSnapshot,
   type CompanyPeriodSnapshot,
@@ -17,14 +19,17 @@ type RawDecision = {
   confidence: number;
 };
 
-const hydrateDecision = (decision: RawDecision): DecisionEntry => {
-  const metrics = computeMetrics({
-    impact: decision.impact,
-    cost: decision.cost,
-    risk: decision.risk,
-    urgency: decision.urgency,
-    confidence: decision.confidence,
-  });
+const hydrateDecision = (decision: RawDecision, profile: ScoringProfile): DecisionEntry => {
+  const metrics = computeMetrics(
+    {
+      impact: decision.impact,
+      cost: decision.cost,
+      risk: decision.risk,
+      urgency: decision.urgency,
+      confidence: decision.confidence,
+    },
+    profile,
+  );
 
   return { ...decision, ...metrics };
 };
@@ -41,7 +46,8 @@ export async function loadDecisionsForDataset(dataset: DatasetState | null): Pro
     }
 
     const raw = (await response.json()) as RawDecision[];
-    return raw.map(hydrateDecision).sort((a, b) => b.ts - a.ts);
+    const profile = getDatasetScoringProfile(dataset.meta);
+    return raw.map((decision) => hydrateDecision(decision, profile)).sort((a, b) => b.ts - a.ts);
   } catch (error) {
     console.error("Unable to load decisions for dataset", dataset.id, error);
     return [];
@@ -58,6 +64,7 @@ export async function loadSnapshotForDataset(
     const dashboard = buildJudgmentDashboard(
       decisions,
       datasetMetaToCompanyContext(dataset.meta ?? getEmptyDatasetMeta()),
+      getDatasetScoringProfile(dataset.meta),
     );
 
     return buildCompanyPeriodSnapshot({
@@ -0,0 +1,21 @@
+// Report windows shared by the reports pages and the server-rendered PDF.
+export const TIMEFRAMES = [
+  { value: "7", label: "Last 7 Days" },
+  { value: "30", label: "Last 30 Days" },
+  { value: "90", label: "Last 90 Days" },
+  { value: "all", label: "All Time" },
+] as const;
+
+export type TimeframeValue = (typeof TIMEFRAMES)[number]["value"];
+
+export const timeframeDescriptions: Record<TimeframeValue, string> = {
+  "7": "Focus on the last seven days of logged decisions.",
+  "30": "Aggregate view across the most recent thirty days.",
+  "90": "Quarter-scale perspective across the most recent ninety days.",
+  all: "Complete historical view across every decision recorded.",
+};
+
+export const mapTimeframeToDays = (value: TimeframeValue): number | null => {
+  if (value === "all") return null;
+  return Number.parseInt(value, 10);
+};
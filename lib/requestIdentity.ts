@@ -0,0 +1,73 @@
+import {
+  LOCAL_IDENTITY_EMAIL_HEADER,
+  LOCAL_IDENTITY_ROLES_HEADER,
+  type IdentityProviderName,
+  type IdentityUser,
+} from "./identity";
+
+// Server-only: resolves the caller of a route handler. Swapped for the local stub in dev and tests.
+export type RequestIdentityResolver = (request: Request) => Promise<IdentityUser | null>;
+
+// Trusts the stub headers as-is, which is why it is never the default.
+export function createLocalIdentityResolver(): RequestIdentityResolver {
+  return async (request) => {
+    const email = request.headers.get(LOCAL_IDENTITY_EMAIL_HEADER)?.trim();
+    if (!email) return null;
+    const roles = (request.headers.get(LOCAL_IDENTITY_ROLES_HEADER) ?? "")
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean);
+    return { id: email.toLowerCase(), email, app_metadata: { roles } };
+  };
+}
+
+// Netlify Identity (GoTrue) validates the bearer token itself when asked for the user it belongs to.
+export function createNetlifyIdentityResolver(
+  identityUrl: string,
+  fetchImpl: typeof fetch = fetch,
+): RequestIdentityResolver {
+  return async (request) => {
+    const authorization = request.headers.get("authorization");
+    if (!authorization?.startsWith("Bearer ")) return null;
+    try {
+      const response = await fetchImpl(`${identityUrl.replace(/\/$/, "")}/user`, {
+        headers: { Authorization: authorization },
+        cache: "no-store",
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as IdentityUser;
+    } catch (error) {
+      console.error("Unable to verify identity token", error);
+      return null;
+    }
+  };
+}
+
+// Only the server-side variable counts: NEXT_PUBLIC_ values ship to the browser and must not unlock the header stub.
+export function getServerIdentityProvider(env: NodeJS.ProcessEnv = process.env): IdentityProviderName {
+  if (env.DNAV_IDENTITY_PROVIDER !== "local") return "netlify";
+  if (env.NODE_ENV === "production") {
+    console.error("Ignoring DNAV_IDENTITY_PROVIDER=local in production; verifying Netlify Identity tokens instead.");
+    return "netlify";
+  }
+  return "local";
+}
+
+let defaultResolver: RequestIdentityResolver | null = null;
+
+export function getRequestIdentityResolver(): RequestIdentityResolver {
+  if (defaultResolver) return defaultResolver;
+  defaultResolver =
+    getServerIdentityProvider() === "local"
+      ? createLocalIdentityResolver()
+      : createNetlifyIdentityResolver(
+          process.env.DNAV_IDENTITY_URL || `${process.env.URL ?? "http://localhost:8888"}/.netlify/identity`,
+        );
+  return defaultResolver;
+}
+
+export function setRequestIdentityResolver(resolver: RequestIdentityResolver | null): void {
+  defaultResolver = resolver;
+}
+
+export const resolveRequestIdentity = (request: Request) => getRequestIdentityResolver()(request);
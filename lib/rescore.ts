@@ -0,0 +1,91 @@
+import type { DecisionEntry, DecisionRescore } from "./calculations";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+
+export type { DecisionRescore };
+
+export type RescoreInput = DecisionVars & { note?: string };
+
+export const RESCORE_VARIABLES: { key: keyof DecisionVars; label: string }[] = [
+  { key: "impact", label: "Impact" },
+  { key: "cost", label: "Cost" },
+  { key: "risk", label: "Risk" },
+  { key: "urgency", label: "Urgency" },
+  { key: "confidence", label: "Confidence" },
+];
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+// The first score a decision was logged with; imported *0 columns win over the live sliders.
+export function getOriginalScores(entry: DecisionEntry): DecisionVars {
+  return {
+    impact: entry.impact0 ?? entry.impact,
+    cost: entry.cost0 ?? entry.cost,
+    risk: entry.risk0 ?? entry.risk,
+    urgency: entry.urgency0 ?? entry.urgency,
+    confidence: entry.confidence0 ?? entry.confidence,
+  };
+}
+
+export function getLatestRescore(entry: DecisionEntry): DecisionRescore | null {
+  const history = entry.rescores ?? [];
+  return history.length ? history[history.length - 1] : null;
+}
+
+// The logged sliders stay untouched: *0 pins the original score, *1 always holds the latest re-score.
+export function rescoreDecision(entry: DecisionEntry, input: RescoreInput, now: number = Date.now()): DecisionEntry {
+  const original = getOriginalScores(entry);
+  const note = input.note?.trim();
+  const vars: DecisionVars = {
+    impact: clampScore(input.impact),
+    cost: clampScore(input.cost),
+    risk: clampScore(input.risk),
+    urgency: clampScore(input.urgency),
+    confidence: clampScore(input.confidence),
+  };
+  const metrics = computeMetrics(vars);
+  const originalMetrics = computeMetrics(original);
+  const rescore: DecisionRescore = {
+    ...vars,
+    return: metrics.return,
+    pressure: metrics.pressure,
+    stability: metrics.stability,
+    recordedAt: now,
+    ...(note ? { note } : {}),
+  };
+
+  return {
+    ...entry,
+    impact0: original.impact,
+    cost0: original.cost,
+    risk0: original.risk,
+    urgency0: original.urgency,
+    confidence0: original.confidence,
+    return0: entry.return0 ?? originalMetrics.return,
+    pressure0: entry.pressure0 ?? originalMetrics.pressure,
+    stability0: entry.stability0 ?? originalMetrics.stability,
+    impact1: rescore.impact,
+    cost1: rescore.cost,
+    risk1: rescore.risk,
+    urgency1: rescore.urgency,
+    confidence1: rescore.confidence,
+    return1: rescore.return,
+    pressure1: rescore.pressure,
+    stability1: rescore.stability,
+    rescores: [...(entry.rescores ?? []), rescore],
+  };
+}
+
+export function clearDecisionRescores(entry: DecisionEntry): DecisionEntry {
+  const next = { ...entry };
+  delete next.impact1;
+  delete next.cost1;
+  delete next.risk1;
+  delete next.urgency1;
+  delete next.confidence1;
+  delete next.return1;
+  delete next.pressure1;
+  delete next.stability1;
+  delete next.rescores;
+  return next;
+}
@@ -0,0 +1,111 @@
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { failure, requestJson } from "./datasetApi";
+import type { ReviewSessionStatus, ReviewSessionView } from "./reviewSessions";
+
+const REVIEW_SESSIONS_ENDPOINT = "/api/review-sessions";
+
+const sessionUrl = (id: string) => `${REVIEW_SESSIONS_ENDPOINT}/${encodeURIComponent(id)}`;
+
+const participantStorageKey = (sessionId: string) => `dnav:review:${sessionId}:participant`;
+
+const RATER_STORAGE_KEY = "dnav:review:rater";
+
+const participantHeaders = (participantId: string | null): Record<string, string> =>
+  participantId ? { "x-review-participant": participantId } : {};
+
+export function loadReviewParticipantId(sessionId: string): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(participantStorageKey(sessionId));
+  } catch {
+    return null;
+  }
+}
+
+function saveReviewParticipantId(sessionId: string, participantId: string): void {
+  try {
+    window.localStorage.setItem(participantStorageKey(sessionId), participantId);
+  } catch (error) {
+    console.error("Failed to remember review participant:", error);
+  }
+}
+
+// One guest rater id per browser, so rater analytics can follow the same person across sessions.
+function loadGuestRaterId(): string | undefined {
+  try {
+    const existing = window.localStorage.getItem(RATER_STORAGE_KEY);
+    if (existing) return existing;
+    const raterId = crypto.randomUUID();
+    window.localStorage.setItem(RATER_STORAGE_KEY, raterId);
+    return raterId;
+  } catch (error) {
+    console.error("Failed to remember review rater:", error);
+    return undefined;
+  }
+}
+
+export async function createRemoteReviewSession(draft: {
+  title: string;
+  detail?: string;
+  category?: string;
+  workspaceId?: string;
+}): Promise<ReviewSessionView> {
+  const { status, body } = await requestJson<{ session: ReviewSessionView }>(REVIEW_SESSIONS_ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+  if (status !== 201 || !body) throw failure("open review session", status);
+  return body.session;
+}
+
+// Resolves to null when the session has not changed since `sinceRevision`.
+export async function fetchReviewSession(
+  id: string,
+  participantId: string | null,
+  sinceRevision?: number,
+): Promise<ReviewSessionView | null> {
+  const query = sinceRevision ? `?since=${sinceRevision}` : "";
+  const { status, body } = await requestJson<{ session: ReviewSessionView }>(`${sessionUrl(id)}${query}`, {
+    headers: participantHeaders(participantId),
+  });
+  if (status === 204) return null;
+  if (status !== 200 || !body) throw failure("load review session", status);
+  return body.session;
+}
+
+export async function joinRemoteReviewSession(id: string, name: string): Promise<ReviewSessionView> {
+  const { status, body } = await requestJson<{ participantId: string; session: ReviewSessionView }>(
+    `${sessionUrl(id)}/participants`,
+    { method: "POST", body: JSON.stringify({ name, raterId: loadGuestRaterId() }) },
+  );
+  if (status !== 201 || !body) throw failure("join review session", status);
+  saveReviewParticipantId(id, body.participantId);
+  return body.session;
+}
+
+export async function submitRemoteReviewScore(
+  id: string,
+  participantId: string,
+  vars: DecisionVars,
+): Promise<ReviewSessionView> {
+  const { status, body } = await requestJson<{ session: ReviewSessionView }>(`${sessionUrl(id)}/scores`, {
+    method: "PUT",
+    body: JSON.stringify({ participantId, ...vars }),
+  });
+  if (status !== 200 || !body) throw failure("submit score", status);
+  return body.session;
+}
+
+export async function setRemoteReviewStatus(
+  id: string,
+  participantId: string | null,
+  nextStatus: ReviewSessionStatus,
+): Promise<ReviewSessionView> {
+  const { status, body } = await requestJson<{ session: ReviewSessionView }>(sessionUrl(id), {
+    method: "PATCH",
+    headers: participantHeaders(participantId),
+    body: JSON.stringify({ status: nextStatus }),
+  });
+  if (status !== 200 || !body) throw failure("update review session", status);
+  return body.session;
+}
@@ -0,0 +1,85 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { ReviewSession, ReviewSessionResult } from "./reviewSessions";
+
+// Server-only, mirroring the dataset and workspace adapters. Participants poll from whichever function instance
+// answers, so sessions are persisted rather than held in one process's memory.
+export interface ReviewSessionStore {
+  get(id: string): Promise<ReviewSession | null>;
+  put(session: ReviewSession): Promise<void>;
+}
+
+export function createMemoryReviewSessionStore(): ReviewSessionStore {
+  const sessions = new Map<string, ReviewSession>();
+  const copy = (session: ReviewSession): ReviewSession => JSON.parse(JSON.stringify(session)) as ReviewSession;
+
+  return {
+    async get(id) {
+      const session = sessions.get(id);
+      return session ? copy(session) : null;
+    },
+    async put(session) {
+      sessions.set(session.id, copy(session));
+    },
+  };
+}
+
+export function createFileReviewSessionStore(directory: string): ReviewSessionStore {
+  const fileFor = (id: string) => path.join(directory, `${encodeURIComponent(id)}.json`);
+
+  return {
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(fileFor(id), "utf8")) as ReviewSession;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(session) {
+      await mkdir(directory, { recursive: true });
+      const target = fileFor(session.id);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(session), "utf8");
+      await rename(temp, target);
+    },
+  };
+}
+
+let defaultStore: ReviewSessionStore | null = null;
+
+export function getReviewSessionStore(): ReviewSessionStore {
+  if (defaultStore) return defaultStore;
+  defaultStore =
+    process.env.DNAV_STORAGE_ADAPTER === "memory"
+      ? createMemoryReviewSessionStore()
+      : createFileReviewSessionStore(
+          process.env.DNAV_REVIEW_SESSION_DIR || path.join(process.cwd(), ".data", "review-sessions"),
+        );
+  return defaultStore;
+}
+
+// Joins and score submissions from many participants land at once, so each read-modify-write is serialized.
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+export function updateReviewSession(
+  store: ReviewSessionStore,
+  id: string,
+  update: (session: ReviewSession) => ReviewSessionResult,
+): Promise<ReviewSessionResult | { ok: false; reason: "not_found" }> {
+  const previous = sessionLocks.get(id) ?? Promise.resolve();
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const session = await store.get(id);
+      if (!session) return { ok: false as const, reason: "not_found" as const };
+      const result = update(session);
+      if (result.ok) await store.put(result.session);
+      return result;
+    });
+  sessionLocks.set(id, run);
+  return run.finally(() => {
+    if (sessionLocks.get(id) === run) sessionLocks.delete(id);
+  });
+}
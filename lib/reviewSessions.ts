@@ -0,0 +1,256 @@
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfiles";
+
+export type ReviewSessionStatus = "scoring" | "revealed";
+
+export interface ReviewParticipant {
+  // Secret handed to the participant's browser; it never appears in a session view.
+  id: string;
+  // Public and stable across sessions: the signed-in user id, or a guest id the browser keeps.
+  raterId: string;
+  name: string;
+  joinedAt: number;
+}
+
+export interface ReviewScore extends DecisionVars {
+  submittedAt: number;
+}
+
+export interface ReviewSession {
+  id: string;
+  title: string;
+  detail: string;
+  category: string;
+  facilitatorId: string;
+  workspaceId?: string;
+  scoringProfileId?: string;
+  status: ReviewSessionStatus;
+  participants: ReviewParticipant[];
+  scores: Record<string, ReviewScore>;
+  revision: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface VariableSpread {
+  variable: keyof DecisionVars;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  values: number[];
+}
+
+export interface ParticipantReading extends DecisionVars {
+  name: string;
+  raterId: string;
+  submittedAt: number;
+  dnav: number;
+  archetype: string;
+  matchesConsensus: boolean;
+}
+
+export interface ReviewAnalysis {
+  spreads: VariableSpread[];
+  consensus: DecisionVars & { dnav: number; archetype: string };
+  participants: ParticipantReading[];
+  // 0 when everyone scored identically, 1 when every variable is split between the ends of the scale.
+  disagreementIndex: number;
+  archetypeAgreement: number;
+}
+
+// What a browser is allowed to see: names and submission state while scoring, everything once revealed.
+export interface ReviewSessionView {
+  id: string;
+  title: string;
+  detail: string;
+  category: string;
+  status: ReviewSessionStatus;
+  revision: number;
+  isFacilitator: boolean;
+  participants: Array<{ name: string; submitted: boolean; isYou: boolean }>;
+  ownScore: ReviewScore | null;
+  analysis: ReviewAnalysis | null;
+}
+
+export type ReviewSessionResult =
+  | { ok: true; session: ReviewSession }
+  | { ok: false; reason: "not_participant" | "closed" | "forbidden" | "too_few_scores" | "full" };
+
+export const REVIEW_VARIABLES: (keyof DecisionVars)[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+// Slider range is 1–10, so the widest possible population spread is half of 9.
+const MAX_STD_DEV = 4.5;
+
+export const MIN_SCORES_TO_REVEAL = 2;
+
+// Anyone with the link can join, so a session stops accepting people well past any realistic workshop size.
+export const MAX_REVIEW_PARTICIPANTS = 50;
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+const touch = (session: ReviewSession, patch: Partial<ReviewSession>, now: number): ReviewSession => ({
+  ...session,
+  ...patch,
+  revision: session.revision + 1,
+  updatedAt: now,
+});
+
+export function createReviewSession(
+  draft: { title: string; detail?: string; category?: string; workspaceId?: string; scoringProfileId?: string },
+  facilitatorId: string,
+  id: string,
+  now: number,
+): ReviewSession {
+  return {
+    id,
+    title: draft.title.trim() || "Untitled decision",
+    detail: draft.detail?.trim() ?? "",
+    category: draft.category?.trim() ?? "",
+    facilitatorId,
+    ...(draft.workspaceId ? { workspaceId: draft.workspaceId } : {}),
+    ...(draft.scoringProfileId ? { scoringProfileId: draft.scoringProfileId } : {}),
+    status: "scoring",
+    participants: [],
+    scores: {},
+    revision: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function joinReviewSession(
+  session: ReviewSession,
+  participant: { id: string; raterId: string; name: string },
+  now: number,
+): ReviewSessionResult {
+  if (session.participants.length >= MAX_REVIEW_PARTICIPANTS) return { ok: false, reason: "full" };
+  const name = participant.name.trim() || `Participant ${session.participants.length + 1}`;
+  const joined: ReviewParticipant = { id: participant.id, raterId: participant.raterId, name, joinedAt: now };
+  return { ok: true, session: touch(session, { participants: [...session.participants, joined] }, now) };
+}
+
+// Participants may change their score until the facilitator reveals; the latest submission wins.
+export function submitReviewScore(
+  session: ReviewSession,
+  participantId: string,
+  vars: DecisionVars,
+  now: number,
+): ReviewSessionResult {
+  if (!session.participants.some((participant) => participant.id === participantId)) {
+    return { ok: false, reason: "not_participant" };
+  }
+  if (session.status !== "scoring") return { ok: false, reason: "closed" };
+
+  const score: ReviewScore = {
+    impact: clampScore(vars.impact),
+    cost: clampScore(vars.cost),
+    risk: clampScore(vars.risk),
+    urgency: clampScore(vars.urgency),
+    confidence: clampScore(vars.confidence),
+    submittedAt: now,
+  };
+  return { ok: true, session: touch(session, { scores: { ...session.scores, [participantId]: score } }, now) };
+}
+
+export function setReviewSessionStatus(
+  session: ReviewSession,
+  facilitatorId: string,
+  status: ReviewSessionStatus,
+  now: number,
+): ReviewSessionResult {
+  if (session.facilitatorId !== facilitatorId) return { ok: false, reason: "forbidden" };
+  if (status === "revealed" && Object.keys(session.scores).length < MIN_SCORES_TO_REVEAL) {
+    return { ok: false, reason: "too_few_scores" };
+  }
+  return { ok: true, session: touch(session, { status }, now) };
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const populationStdDev = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+export function analyzeReviewScores(
+  scores: Array<DecisionVars & Pick<ParticipantReading, "name" | "raterId" | "submittedAt">>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ReviewAnalysis | null {
+  if (scores.length === 0) return null;
+
+  const spreads = REVIEW_VARIABLES.map((variable): VariableSpread => {
+    const values = scores.map((score) => score[variable]);
+    return {
+      variable,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      mean: round(mean(values)),
+      stdDev: round(populationStdDev(values)),
+      values,
+    };
+  });
+
+  // The consensus reading scores the average sliders rather than averaging each participant's D-NAV.
+  const consensusVars = Object.fromEntries(
+    spreads.map((spread) => [spread.variable, spread.mean]),
+  ) as unknown as DecisionVars;
+  const consensusMetrics = computeMetrics(consensusVars, profile);
+  const consensusArchetype = getArchetype(consensusMetrics, profile).name;
+
+  const participants = scores.map((score): ParticipantReading => {
+    const vars = Object.fromEntries(REVIEW_VARIABLES.map((variable) => [variable, score[variable]])) as unknown as DecisionVars;
+    const metrics = computeMetrics(vars, profile);
+    const archetype = getArchetype(metrics, profile).name;
+    return {
+      name: score.name,
+      raterId: score.raterId,
+      submittedAt: score.submittedAt,
+      ...vars,
+      dnav: round(metrics.dnav),
+      archetype,
+      matchesConsensus: archetype === consensusArchetype,
+    };
+  });
+
+  return {
+    spreads,
+    consensus: { ...consensusVars, dnav: round(consensusMetrics.dnav), archetype: consensusArchetype },
+    participants,
+    disagreementIndex: round(mean(spreads.map((spread) => spread.stdDev)) / MAX_STD_DEV),
+    archetypeAgreement: round(participants.filter((participant) => participant.matchesConsensus).length / participants.length),
+  };
+}
+
+export function toReviewSessionView(
+  session: ReviewSession,
+  viewer: { participantId?: string | null; userId?: string | null },
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ReviewSessionView {
+  const revealed = session.status === "revealed";
+  const scored = session.participants.flatMap((participant) => {
+    const score = session.scores[participant.id];
+    return score ? [{ ...score, name: participant.name, raterId: participant.raterId }] : [];
+  });
+
+  return {
+    id: session.id,
+    title: session.title,
+    detail: session.detail,
+    category: session.category,
+    status: session.status,
+    revision: session.revision,
+    isFacilitator: Boolean(viewer.userId) && viewer.userId === session.facilitatorId,
+    participants: session.participants.map((participant) => ({
+      name: participant.name,
+      submitted: Boolean(session.scores[participant.id]),
+      isYou: participant.id === viewer.participantId,
+    })),
+    ownScore: viewer.participantId ? (session.scores[viewer.participantId] ?? null) : null,
+    analysis: revealed ? analyzeReviewScores(scored, profile) : null,
+  };
+}
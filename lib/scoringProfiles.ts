@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+// Return, Pressure and Stability stay plain differences; profiles only reweight the D-NAV composite
+// and widen the zone an R/P/S value must clear before it counts as positive or negative.
+export interface ScoringCoefficients {
+  impact: number;
+  cost: number;
+  risk: number;
+  energy: number;
+}
+
+export interface ArchetypeDeadBands {
+  return: number;
+  pressure: number;
+  stability: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  coefficients: ScoringCoefficients;
+  deadBands: ArchetypeDeadBands;
+}
+
+export const scoringProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  coefficients: z.object({ impact: z.number(), cost: z.number(), risk: z.number(), energy: z.number() }),
+  deadBands: z.object({ return: z.number(), pressure: z.number(), stability: z.number() }),
+});
+
+export const DEFAULT_SCORING_PROFILE_ID = "standard";
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_SCORING_PROFILE_ID,
+    name: "Standard",
+    description: "D-NAV = Impact − Cost − Risk + Urgency × Confidence, archetypes flip on any non-zero signal.",
+    coefficients: { impact: 1, cost: 1, risk: 1, energy: 1 },
+    deadBands: { return: 0, pressure: 0, stability: 0 },
+  },
+  {
+    id: "risk-averse",
+    name: "Risk-averse",
+    description: "Risk is penalized twice and Stability must clear one point before it reads as steady or fragile.",
+    coefficients: { impact: 1, cost: 1, risk: 2, energy: 1 },
+    deadBands: { return: 0, pressure: 0, stability: 1 },
+  },
+  {
+    id: "cost-disciplined",
+    name: "Cost-disciplined",
+    description: "Cost is weighted 1.5× and Return must clear one point before it reads as leading or dragging.",
+    coefficients: { impact: 1, cost: 1.5, risk: 1, energy: 1 },
+    deadBands: { return: 1, pressure: 0, stability: 0 },
+  },
+  {
+    id: "growth",
+    name: "Growth",
+    description: "Impact is weighted 1.5× and small Pressure swings are treated as balanced.",
+    coefficients: { impact: 1.5, cost: 1, risk: 1, energy: 1 },
+    deadBands: { return: 0, pressure: 1, stability: 0 },
+  },
+];
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES[0];
+
+// Presets win over user-defined profiles, which are only looked up when the id names no preset.
+export function getScoringProfile(id?: string | null, custom: readonly ScoringProfile[] = []): ScoringProfile {
+  return (
+    SCORING_PROFILES.find((profile) => profile.id === id) ??
+    custom.find((profile) => profile.id === id) ??
+    DEFAULT_SCORING_PROFILE
+  );
+}
+
+// Datasets keep their user-defined profiles in their meta, so the profile travels with the dataset when it syncs.
+export const getDatasetScoringProfile = (
+  meta: { scoringProfileId?: string; scoringProfiles?: ScoringProfile[] } | null | undefined,
+) => getScoringProfile(meta?.scoringProfileId, meta?.scoringProfiles);
+
+// Two profiles that score the same way are interchangeable whatever they are called.
+const scoresAlike = (a: ScoringProfile, b: ScoringProfile) =>
+  (Object.keys(a.coefficients) as (keyof ScoringCoefficients)[]).every(
+    (key) => a.coefficients[key] === b.coefficients[key],
+  ) &&
+  (Object.keys(a.deadBands) as (keyof ArchetypeDeadBands)[]).every((key) => a.deadBands[key] === b.deadBands[key]);
+
+// Resolves an incoming profile against the presets and a dataset's own profiles: one that scores the same way is
+// reused, anything else is added under an id that does not collide with an existing profile.
+export function registerScoringProfile(
+  custom: readonly ScoringProfile[],
+  incoming: ScoringProfile,
+): { id: string; profiles: ScoringProfile[]; added: boolean } {
+  const known = [...SCORING_PROFILES, ...custom];
+  const match = known.find((profile) => profile.id === incoming.id && scoresAlike(profile, incoming)) ??
+    known.find((profile) => scoresAlike(profile, incoming));
+  if (match) return { id: match.id, profiles: [...custom], added: false };
+
+  const taken = new Set(known.map((profile) => profile.id));
+  let id = incoming.id;
+  for (let suffix = 2; taken.has(id); suffix += 1) id = `${incoming.id}-${suffix}`;
+  return { id, profiles: [...custom, { ...incoming, id }], added: true };
+}
+
+export function isDefaultScoringProfile(profile: ScoringProfile): boolean {
+  return profile.id === DEFAULT_SCORING_PROFILE_ID;
+}
+
+export function signWithDeadBand(value: number, band = 0): -1 | 0 | 1 {
+  if (value > band) return 1;
+  if (value < -band) return -1;
+  return 0;
+}
@@ -0,0 +1,107 @@
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfiles";
+
+export interface SweepPoint {
+  value: number;
+  dnav: number;
+  archetype: string;
+}
+
+export interface ArchetypeFlip {
+  variable: keyof DecisionVars;
+  direction: "increase" | "decrease";
+  // The first slider value at which the new archetype applies.
+  threshold: number;
+  steps: number;
+  from: string;
+  to: string;
+}
+
+export interface VariableSensitivity {
+  variable: keyof DecisionVars;
+  current: number;
+  minDnav: number;
+  maxDnav: number;
+  swing: number;
+  points: SweepPoint[];
+  flips: ArchetypeFlip[];
+}
+
+export interface SensitivityResult {
+  baseline: { dnav: number; archetype: string };
+  variables: VariableSensitivity[];
+  flips: ArchetypeFlip[];
+}
+
+export const SWEEP_MIN = 1;
+export const SWEEP_MAX = 10;
+
+const VARIABLE_KEYS: (keyof DecisionVars)[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+export function sweepVariable(
+  vars: DecisionVars,
+  variable: keyof DecisionVars,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): VariableSensitivity {
+  const points: SweepPoint[] = [];
+  for (let value = SWEEP_MIN; value <= SWEEP_MAX; value += 1) {
+    const metrics = computeMetrics({ ...vars, [variable]: value }, profile);
+    points.push({ value, dnav: metrics.dnav, archetype: getArchetype(metrics, profile).name });
+  }
+
+  // Slider inputs are whole numbers, so adjacent sweep points bracket every flip exactly.
+  const current = vars[variable];
+  const flips: ArchetypeFlip[] = [];
+  for (let index = 1; index < points.length; index += 1) {
+    const lower = points[index - 1];
+    const upper = points[index];
+    if (lower.archetype === upper.archetype) continue;
+    if (upper.value > current) {
+      flips.push({
+        variable,
+        direction: "increase",
+        threshold: upper.value,
+        steps: upper.value - current,
+        from: lower.archetype,
+        to: upper.archetype,
+      });
+    } else {
+      flips.push({
+        variable,
+        direction: "decrease",
+        threshold: lower.value,
+        steps: current - lower.value,
+        from: upper.archetype,
+        to: lower.archetype,
+      });
+    }
+  }
+
+  const dnavValues = points.map((point) => point.dnav);
+  const minDnav = Math.min(...dnavValues);
+  const maxDnav = Math.max(...dnavValues);
+
+  return { variable, current, minDnav, maxDnav, swing: maxDnav - minDnav, points, flips };
+}
+
+// Variables come back widest swing first, which is the order a tornado chart stacks them in.
+export function analyzeSensitivity(
+  vars: DecisionVars,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): SensitivityResult {
+  const metrics = computeMetrics(vars, profile);
+  const variables = VARIABLE_KEYS.map((key) => sweepVariable(vars, key, profile)).sort(
+    (a, b) => b.swing - a.swing,
+  );
+  const flips = variables
+    .flatMap((item) => item.flips)
+    .sort((a, b) => a.steps - b.steps || VARIABLE_KEYS.indexOf(a.variable) - VARIABLE_KEYS.indexOf(b.variable));
+
+  return {
+    baseline: { dnav: metrics.dnav, archetype: getArchetype(metrics, profile).name },
+    variables,
+    flips,
+  };
+}
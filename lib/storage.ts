@@ -1,9 +1,18 @@
 import { DecisionEntry } from "./calculations";
+import { type DatasetAlertState } from "./alerts";
+import {
+  EMPTY_DECISION_HISTORY,
+  trimDecisionHistory,
+  type DecisionHistoryEvent,
+  type DecisionHistoryLog,
+} from "./decisionHistory";
+import { type ImportMappingPreset } from "./importMapping";
 import { type ArchetypeSummaryOutput, type CompanyContext, type CompanySummaryOutput } from "@/types/company";
+import { type DatasetState } from "@/types/dataset";
 
 export type { DecisionEntry };
 
-const STORAGE_KEY = "dnav_log_v1";
+export const LOG_STORAGE_KEY = "dnav_log_v1";
 const CONTEXT_KEY = "dnav_company_context_v1";
 const COMPANY_SUMMARY_KEY = "dnav_company_summary_v1";
 const ARCHETYPE_SUMMARY_KEY = "dnav_archetype_summary_v1";
@@ -11,7 +20,7 @@ const ARCHETYPE_SUMMARY_KEY = "dnav_archetype_summary_v1";
 export function loadLog(): DecisionEntry[] {
   if (typeof window === "undefined") return [];
   try {
-    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return JSON.parse(localStorage.getItem(LOG_STORAGE_KEY) || "[]");
   } catch {
     return [];
   }
@@ -20,7 +29,7 @@ export function loadLog(): DecisionEntry[] {
 export function saveLog(entries: DecisionEntry[]): void {
   if (typeof window === "undefined") return;
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(entries));
   } catch (error) {
     console.error("Failed to save log:", error);
   }
@@ -102,3 +111,185 @@ export function saveArchetypeSummary(
     console.error("Failed to save archetype summary:", error);
   }
 }
+
+const MIGRATION_BACKUP_KEY_PREFIX = "dnav_migration_backup_v";
+
+export interface MigrationBackup {
+  fromVersion: number;
+  backedUpAt: number;
+  payloads: Record<string, string | null>;
+}
+
+// Keeps the first pre-migration snapshot per source version so a bad upgrade can always be rolled back by hand.
+export function saveMigrationBackup(backup: MigrationBackup): void {
+  if (typeof window === "undefined") return;
+  const key = `${MIGRATION_BACKUP_KEY_PREFIX}${backup.fromVersion}`;
+  try {
+    if (localStorage.getItem(key)) return;
+    localStorage.setItem(key, JSON.stringify(backup));
+  } catch (error) {
+    console.error("Failed to save migration backup:", error);
+  }
+}
+
+export function loadMigrationBackup(fromVersion: number): MigrationBackup | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(`${MIGRATION_BACKUP_KEY_PREFIX}${fromVersion}`);
+    return stored ? (JSON.parse(stored) as MigrationBackup) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveArchetypeSummaries(summaries: Record<string, ArchetypeSummaryOutput>): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(ARCHETYPE_SUMMARY_KEY, JSON.stringify(summaries));
+  } catch (error) {
+    console.error("Failed to save archetype summaries:", error);
+  }
+}
+
+// Stress-test sessions live in sessionStorage; the page validates entries itself, so this only moves raw JSON.
+export const STRESS_TEST_SESSION_KEY = "dnav:stressTest:sessionDecisions";
+
+export function loadStressTestSession(): unknown[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.sessionStorage.getItem(STRESS_TEST_SESSION_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveStressTestSession(decisions: unknown[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    if (decisions.length === 0) {
+      window.sessionStorage.removeItem(STRESS_TEST_SESSION_KEY);
+    } else {
+      window.sessionStorage.setItem(STRESS_TEST_SESSION_KEY, JSON.stringify(decisions));
+    }
+  } catch (error) {
+    console.error("Failed to save stress test session:", error);
+  }
+}
+
+const IMPORT_PRESETS_KEY = "dnav_import_presets_v1";
+
+export function loadImportPresets(): ImportMappingPreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(IMPORT_PRESETS_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as ImportMappingPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveImportPresets(presets: ImportMappingPreset[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(IMPORT_PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Failed to save import presets:", error);
+  }
+}
+
+const DECISION_HISTORY_KEY = "dnav_decision_history_v1";
+const DECISION_HISTORY_STARTS_KEY = "dnav_decision_history_starts_v1";
+
+export function loadDecisionHistory(): DecisionHistoryLog {
+  if (typeof window === "undefined") return EMPTY_DECISION_HISTORY;
+  try {
+    const events = JSON.parse(localStorage.getItem(DECISION_HISTORY_KEY) || "[]");
+    const startsAt = JSON.parse(localStorage.getItem(DECISION_HISTORY_STARTS_KEY) || "{}");
+    return trimDecisionHistory({
+      events: Array.isArray(events) ? (events as DecisionHistoryEvent[]) : [],
+      startsAt: startsAt && typeof startsAt === "object" ? (startsAt as Record<string, number>) : {},
+    });
+  } catch {
+    return EMPTY_DECISION_HISTORY;
+  }
+}
+
+export function saveDecisionHistory(history: DecisionHistoryLog): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(DECISION_HISTORY_KEY, JSON.stringify(history.events));
+    localStorage.setItem(DECISION_HISTORY_STARTS_KEY, JSON.stringify(history.startsAt));
+  } catch (error) {
+    console.error("Failed to save decision history:", error);
+  }
+}
+
+// The server copy of each dataset as this browser last synced it: the base local edits are replayed from on load.
+const SYNCED_DATASETS_KEY = "dnav_synced_datasets_v1";
+
+export function loadSyncedDatasets(): DatasetState[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SYNCED_DATASETS_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as DatasetState[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSyncedDatasets(datasets: DatasetState[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(SYNCED_DATASETS_KEY, JSON.stringify(datasets));
+  } catch (error) {
+    console.error("Failed to save synced datasets:", error);
+  }
+}
+
+// Session history follows the stress-test session into sessionStorage so both clear together.
+const STRESS_TEST_HISTORY_KEY = "dnav:stressTest:history";
+
+export function loadStressTestHistory(): DecisionHistoryLog {
+  if (typeof window === "undefined") return EMPTY_DECISION_HISTORY;
+  try {
+    const parsed = JSON.parse(window.sessionStorage.getItem(STRESS_TEST_HISTORY_KEY) || "[]");
+    // Sessions saved before the history kept a start time hold a bare event list.
+    if (Array.isArray(parsed)) return trimDecisionHistory({ events: parsed as DecisionHistoryEvent[], startsAt: {} });
+    return parsed && Array.isArray(parsed.events) ? (parsed as DecisionHistoryLog) : EMPTY_DECISION_HISTORY;
+  } catch {
+    return EMPTY_DECISION_HISTORY;
+  }
+}
+
+export function saveStressTestHistory(history: DecisionHistoryLog): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.sessionStorage.setItem(STRESS_TEST_HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error("Failed to save stress test history:", error);
+  }
+}
+
+const ALERTS_KEY = "dnav_alerts_v1";
+
+export function loadAlertStates(): Record<string, DatasetAlertState> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ALERTS_KEY) || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, DatasetAlertState>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveAlertStates(states: Record<string, DatasetAlertState>): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(ALERTS_KEY, JSON.stringify(states));
+  } catch (error) {
+    console.error("Failed to save alerts:", error);
+  }
+}
@@ -0,0 +1,176 @@
+import { getArchetypeKey, oneWordArchetypes } from "@/src/lib/dnav/archetypes";
+import { computeMetrics } from "@/src/lib/dnav/compute";
+import type { DecisionVars } from "@/src/lib/dnav/types";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfiles";
+import { mean, stdev } from "@/utils/stats";
+
+export interface TriangularRange {
+  min: number;
+  likely: number;
+  max: number;
+}
+
+export type VariableRanges = Partial<Record<keyof DecisionVars, TriangularRange>>;
+
+export type SimulatedMetricKey = "return" | "stability" | "pressure" | "dnav";
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+  share: number;
+}
+
+export interface MetricDistribution {
+  mean: number;
+  stdev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  histogram: HistogramBin[];
+}
+
+export interface ArchetypeProbability {
+  key: string;
+  name: string;
+  probability: number;
+}
+
+export interface SimulationOptions {
+  draws?: number;
+  bins?: number;
+  seed?: number;
+  profile?: ScoringProfile;
+}
+
+export interface SimulationResult {
+  draws: number;
+  metrics: Record<SimulatedMetricKey, MetricDistribution>;
+  archetypes: ArchetypeProbability[];
+}
+
+export const SIMULATED_METRICS: SimulatedMetricKey[] = ["return", "stability", "pressure", "dnav"];
+
+export const DEFAULT_SIMULATION_DRAWS = 5000;
+
+const VARIABLE_KEYS: (keyof DecisionVars)[] = ["impact", "cost", "risk", "urgency", "confidence"];
+
+const clampToSlider = (value: number) => Math.min(10, Math.max(1, value));
+
+// mulberry32: small, fast and good enough to make simulations repeatable for a given seed.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function normalizeRange(range: TriangularRange): TriangularRange {
+  const likely = clampToSlider(range.likely);
+  return {
+    min: Math.min(clampToSlider(range.min), likely),
+    likely,
+    max: Math.max(clampToSlider(range.max), likely),
+  };
+}
+
+// Inverse CDF of the triangular distribution, so one uniform draw maps to one sample.
+export function sampleTriangular(range: TriangularRange, u: number): number {
+  const { min, likely, max } = range;
+  if (max === min) return min;
+  const split = (likely - min) / (max - min);
+  if (u < split) return min + Math.sqrt(u * (max - min) * (likely - min));
+  return max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+const percentile = (sorted: number[], p: number) => {
+  if (!sorted.length) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+export function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  if (!values.length) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return [{ start: min, end: max, count: values.length, share: 1 }];
+
+  const width = (max - min) / bins;
+  const counts = new Array<number>(bins).fill(0);
+  values.forEach((value) => {
+    counts[Math.min(bins - 1, Math.floor((value - min) / width))] += 1;
+  });
+  return counts.map((count, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count,
+    share: count / values.length,
+  }));
+}
+
+function describe(values: number[], bins: number): MetricDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: mean(values),
+    stdev: stdev(values),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    p5: percentile(sorted, 0.05),
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    histogram: buildHistogram(values, bins),
+  };
+}
+
+// Variables without a range stay fixed at their slider value for every draw.
+export function simulateDecision(
+  vars: DecisionVars,
+  ranges: VariableRanges,
+  options: SimulationOptions = {},
+): SimulationResult {
+  const draws = Math.max(1, Math.floor(options.draws ?? DEFAULT_SIMULATION_DRAWS));
+  const bins = Math.max(1, Math.floor(options.bins ?? 20));
+  const profile = options.profile ?? DEFAULT_SCORING_PROFILE;
+  const random = createSeededRandom(options.seed ?? 1);
+  const normalized = VARIABLE_KEYS.map((key) => {
+    const range = ranges[key];
+    return [key, range ? normalizeRange(range) : null] as const;
+  });
+
+  const samples: Record<SimulatedMetricKey, number[]> = { return: [], stability: [], pressure: [], dnav: [] };
+  const archetypeCounts = new Map<string, number>();
+
+  for (let draw = 0; draw < draws; draw += 1) {
+    const sample = { ...vars };
+    normalized.forEach(([key, range]) => {
+      if (range) sample[key] = sampleTriangular(range, random());
+    });
+
+    const metrics = computeMetrics(sample, profile);
+    SIMULATED_METRICS.forEach((key) => samples[key].push(metrics[key]));
+
+    const key = getArchetypeKey(metrics, profile);
+    archetypeCounts.set(key, (archetypeCounts.get(key) ?? 0) + 1);
+  }
+
+  const archetypes = Object.entries(oneWordArchetypes)
+    .map(([key, name]) => ({ key, name, probability: (archetypeCounts.get(key) ?? 0) / draws }))
+    .sort((a, b) => b.probability - a.probability);
+
+  return {
+    draws,
+    metrics: {
+      return: describe(samples.return, bins),
+      stability: describe(samples.stability, bins),
+      pressure: describe(samples.pressure, bins),
+      dnav: describe(samples.dnav, bins),
+    },
+    archetypes,
+  };
+}
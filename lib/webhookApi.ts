@@ -0,0 +1,65 @@
+import type { AlertRule } from "./alerts";
+import { failure, requestJson } from "./datasetApi";
+import type { WebhookDelivery, WebhookEndpointView, WebhookEventType } from "./webhooks";
+import type { DatasetId } from "@/types/dataset";
+
+const webhooksUrl = (datasetId: DatasetId) => `/api/datasets/${encodeURIComponent(datasetId)}/webhooks`;
+
+export async function fetchWebhooks(datasetId: DatasetId): Promise<WebhookEndpointView[]> {
+  const { status, body } = await requestJson<{ webhooks: WebhookEndpointView[] }>(webhooksUrl(datasetId));
+  if (status !== 200 || !body) throw failure("load webhooks", status);
+  return body.webhooks;
+}
+
+export async function fetchWebhookDeliveries(datasetId: DatasetId): Promise<WebhookDelivery[]> {
+  const { status, body } = await requestJson<{ deliveries: WebhookDelivery[] }>(
+    `${webhooksUrl(datasetId)}/deliveries`,
+  );
+  if (status !== 200 || !body) throw failure("load webhook deliveries", status);
+  return body.deliveries;
+}
+
+// The secret comes back only here and on rotation; callers must show it to the user straight away.
+export async function createRemoteWebhook(
+  datasetId: DatasetId,
+  draft: { url: string; events: WebhookEventType[] },
+): Promise<{ webhook: WebhookEndpointView; secret: string }> {
+  const { status, body } = await requestJson<{ webhook: WebhookEndpointView; secret: string }>(webhooksUrl(datasetId), {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+  if (status !== 201 || !body) throw failure("create webhook", status);
+  return body;
+}
+
+export async function updateRemoteWebhook(
+  datasetId: DatasetId,
+  webhookId: string,
+  patch: { url?: string; events?: WebhookEventType[]; enabled?: boolean; rotateSecret?: boolean },
+): Promise<{ webhook: WebhookEndpointView; secret?: string }> {
+  const { status, body } = await requestJson<{ webhook: WebhookEndpointView; secret?: string }>(
+    `${webhooksUrl(datasetId)}/${encodeURIComponent(webhookId)}`,
+    { method: "PATCH", body: JSON.stringify(patch) },
+  );
+  if (status !== 200 || !body) throw failure("update webhook", status);
+  return body;
+}
+
+export async function deleteRemoteWebhook(datasetId: DatasetId, webhookId: string): Promise<void> {
+  const { status } = await requestJson<null>(`${webhooksUrl(datasetId)}/${encodeURIComponent(webhookId)}`, {
+    method: "DELETE",
+  });
+  if (status !== 204) throw failure("delete webhook", status);
+}
+
+// The server answers 204 when the rule does not hold on its copy of the dataset.
+export async function dispatchRemoteAlert(
+  datasetId: DatasetId,
+  rule: Pick<AlertRule, "id" | "name" | "condition">,
+): Promise<void> {
+  const { status } = await requestJson<null>(`${webhooksUrl(datasetId)}/dispatch`, {
+    method: "POST",
+    body: JSON.stringify({ rule: { id: rule.id, name: rule.name, condition: rule.condition } }),
+  });
+  if (status !== 202 && status !== 204) throw failure("dispatch alert", status);
+}
@@ -0,0 +1,197 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookAttempt,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookPayload,
+} from "./webhooks";
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Pick<Response, "status">>;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+// Deliveries run after the response inside the same serverless invocation, which Netlify ends after 10 seconds.
+const DEFAULT_DEADLINE_MS = 8_000;
+
+// Receivers recompute this over `${timestamp}.${body}` so a captured body cannot be replayed with a new timestamp.
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export type WebhookLookup = (hostname: string) => Promise<string[]>;
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges. IPv4-mapped IPv6 matches the IPv4 rules.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+(
+  [
+    ["0.0.0.0", 8, "ipv4"],
+    ["10.0.0.0", 8, "ipv4"],
+    ["100.64.0.0", 10, "ipv4"],
+    ["127.0.0.0", 8, "ipv4"],
+    ["169.254.0.0", 16, "ipv4"],
+    ["172.16.0.0", 12, "ipv4"],
+    ["192.0.0.0", 24, "ipv4"],
+    ["192.168.0.0", 16, "ipv4"],
+    ["198.18.0.0", 15, "ipv4"],
+    ["224.0.0.0", 3, "ipv4"],
+    ["::", 128, "ipv6"],
+    ["::1", 128, "ipv6"],
+    ["fc00::", 7, "ipv6"],
+    ["fe80::", 10, "ipv6"],
+    ["ff00::", 8, "ipv6"],
+  ] as const
+).forEach(([network, prefix, family]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, family));
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+// Comma-separated hosts (e.g. "localhost,127.0.0.1") that may receive webhooks despite resolving to private addresses.
+export const getAllowedWebhookHosts = (env: NodeJS.ProcessEnv = process.env) =>
+  (env.DNAV_WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const defaultLookup: WebhookLookup = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+// Dataset admins choose webhook URLs, so every address the host resolves to must be public or the server
+// could be pointed at its own network.
+export async function checkWebhookTarget(
+  url: string,
+  options: { allowedHosts?: string[]; lookup?: WebhookLookup } = {},
+): Promise<{ ok: true } | { ok: false; reason: "invalid" | "unresolvable" | "private_address" }> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+  if ((options.allowedHosts ?? getAllowedWebhookHosts()).includes(hostname)) return { ok: true };
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await (options.lookup ?? defaultLookup)(hostname);
+  } catch {
+    return { ok: false, reason: "unresolvable" };
+  }
+  if (!addresses.length) return { ok: false, reason: "unresolvable" };
+  return addresses.every(isPublicAddress) ? { ok: true } : { ok: false, reason: "private_address" };
+}
+
+const isRetryable = (statusCode: number | null) =>
+  statusCode === null || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retries network failures, timeouts, 429s and 5xx with exponential backoff; redirects and other 4xx are final.
+// Retrying stops early when the next attempt would not finish before the deadline.
+// `onProgress` sees the pending delivery before the first attempt and after every attempt, so callers can
+// persist it and a delivery cut short by the platform still shows up in the log.
+export async function deliverWebhook(
+  endpoint: WebhookEndpoint,
+  payload: WebhookPayload,
+  options: {
+    deliveryId: string;
+    fetch?: WebhookFetch;
+    sleep?: (ms: number) => Promise<void>;
+    now?: () => number;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    timeoutMs?: number;
+    deadlineMs?: number;
+    allowedHosts?: string[];
+    lookup?: WebhookLookup;
+    onProgress?: (delivery: WebhookDelivery) => Promise<void>;
+  },
+): Promise<WebhookDelivery> {
+  const send = options.fetch ?? ((url, init) => fetch(url, init));
+  const sleep = options.sleep ?? defaultSleep;
+  const now = options.now ?? Date.now;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const body = JSON.stringify(payload);
+  const attempts: WebhookAttempt[] = [];
+  const createdAt = now();
+  const deadline = createdAt + (options.deadlineMs ?? DEFAULT_DEADLINE_MS);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const snapshot = (status: WebhookDelivery["status"]): WebhookDelivery => ({
+    id: options.deliveryId,
+    endpointId: endpoint.id,
+    datasetId: endpoint.datasetId,
+    event: payload.event,
+    url: endpoint.url,
+    status,
+    trigger: payload.trigger,
+    attempts: [...attempts],
+    createdAt,
+  });
+  const report = async (status: WebhookDelivery["status"]) => {
+    const delivery = snapshot(status);
+    await options.onProgress?.(delivery);
+    return delivery;
+  };
+
+  // Checked again at send time because the host may have been re-pointed since the endpoint was saved.
+  const target = await checkWebhookTarget(endpoint.url, options);
+  if (!target.ok) {
+    const error = `Refused webhook target (${target.reason}).`;
+    attempts.push({ at: createdAt, statusCode: null, error, durationMs: 0 });
+    return report("failed");
+  }
+
+  await report("pending");
+
+  for (let attempt = 1; ; attempt += 1) {
+    const startedAt = now();
+    const timestamp = Math.floor(startedAt / 1000);
+    let statusCode: number | null = null;
+    let error: string | undefined;
+    try {
+      const response = await send(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_EVENT_HEADER]: payload.event,
+          [WEBHOOK_DELIVERY_HEADER]: options.deliveryId,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        // A redirect could lead to an address the target check never saw, so a 3xx is a final answer.
+        redirect: "manual",
+        signal: AbortSignal.timeout(Math.max(1, Math.min(timeoutMs, deadline - startedAt))),
+      });
+      statusCode = response.status;
+      if (statusCode >= 300 && statusCode < 400) error = "Redirects are not followed.";
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+    attempts.push({ at: startedAt, statusCode, ...(error ? { error } : {}), durationMs: now() - startedAt });
+
+    const delivered = statusCode !== null && statusCode >= 200 && statusCode < 300;
+    const delay = baseDelayMs * 2 ** (attempt - 1);
+    const outOfTime = now() + delay >= deadline;
+    if (delivered || !isRetryable(statusCode) || attempt === maxAttempts || outOfTime) {
+      return report(delivered ? "delivered" : "failed");
+    }
+    await report("pending");
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,264 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { DecisionEntry } from "./calculations";
+import type { ScoringProfile } from "./scoringProfiles";
+import { deliverWebhook, type WebhookFetch, type WebhookLookup } from "./webhookDelivery";
+import {
+  buildWebhookPayload,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+  type WebhookTrigger,
+} from "./webhooks";
+import type { DatasetId } from "@/types/dataset";
+
+export interface DatasetWebhooks {
+  datasetId: DatasetId;
+  endpoints: WebhookEndpoint[];
+  deliveries: WebhookDelivery[];
+  // Alert dispatches claimed within the cooldown; absent on records written before dedupe.
+  dispatches?: WebhookDispatchClaim[];
+}
+
+export interface WebhookDispatchClaim {
+  key: string;
+  claimedAt: number;
+}
+
+// Server-only, mirroring the dataset adapter: one record per dataset holds its endpoints and delivery log.
+export interface WebhookStorageAdapter {
+  get(datasetId: DatasetId): Promise<DatasetWebhooks | null>;
+  put(record: DatasetWebhooks): Promise<void>;
+}
+
+export type WebhookStoreResult =
+  | { ok: true; endpoint: WebhookEndpoint }
+  | { ok: false; reason: "not_found" };
+
+export type WebhookDispatchOptions = {
+  fetch?: WebhookFetch;
+  sleep?: (ms: number) => Promise<void>;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  deadlineMs?: number;
+  now?: () => number;
+  allowedHosts?: string[];
+  lookup?: WebhookLookup;
+  profile?: ScoringProfile;
+};
+
+// The log keeps the most recent deliveries per dataset; older ones age out.
+const MAX_DELIVERIES = 100;
+
+// A reported alert firing is delivered at most once per window, however often clients repeat it.
+export const ALERT_DISPATCH_COOLDOWN_MS = 10 * 60 * 1000;
+
+export function createMemoryWebhookAdapter(seed: DatasetWebhooks[] = []): WebhookStorageAdapter {
+  const records = new Map<DatasetId, DatasetWebhooks>(seed.map((record) => [record.datasetId, record]));
+  const copy = (record: DatasetWebhooks): DatasetWebhooks => JSON.parse(JSON.stringify(record)) as DatasetWebhooks;
+
+  return {
+    async get(datasetId) {
+      const record = records.get(datasetId);
+      return record ? copy(record) : null;
+    },
+    async put(record) {
+      records.set(record.datasetId, copy(record));
+    },
+  };
+}
+
+export function createFileWebhookAdapter(directory: string): WebhookStorageAdapter {
+  const fileFor = (datasetId: DatasetId) => path.join(directory, `${encodeURIComponent(datasetId)}.json`);
+
+  return {
+    async get(datasetId) {
+      try {
+        return JSON.parse(await readFile(fileFor(datasetId), "utf8")) as DatasetWebhooks;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(record) {
+      await mkdir(directory, { recursive: true });
+      const target = fileFor(record.datasetId);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(record), "utf8");
+      await rename(temp, target);
+    },
+  };
+}
+
+let defaultAdapter: WebhookStorageAdapter | null = null;
+
+export function getWebhookStorageAdapter(): WebhookStorageAdapter {
+  if (defaultAdapter) return defaultAdapter;
+  defaultAdapter =
+    process.env.DNAV_STORAGE_ADAPTER === "memory"
+      ? createMemoryWebhookAdapter()
+      : createFileWebhookAdapter(process.env.DNAV_WEBHOOK_DIR || path.join(process.cwd(), ".data", "webhooks"));
+  return defaultAdapter;
+}
+
+const webhookLocks = new Map<DatasetId, Promise<unknown>>();
+
+function withWebhookLock<T>(datasetId: DatasetId, task: () => Promise<T>): Promise<T> {
+  const previous = webhookLocks.get(datasetId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  webhookLocks.set(datasetId, run);
+  return run.finally(() => {
+    if (webhookLocks.get(datasetId) === run) webhookLocks.delete(datasetId);
+  });
+}
+
+const loadRecord = async (adapter: WebhookStorageAdapter, datasetId: DatasetId): Promise<DatasetWebhooks> =>
+  (await adapter.get(datasetId)) ?? { datasetId, endpoints: [], deliveries: [] };
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+export async function listWebhookEndpoints(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+): Promise<WebhookEndpoint[]> {
+  return (await loadRecord(adapter, datasetId)).endpoints;
+}
+
+export async function listWebhookDeliveries(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+): Promise<WebhookDelivery[]> {
+  return [...(await loadRecord(adapter, datasetId)).deliveries].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function createWebhookEndpoint(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  draft: { url: string; events: WebhookEventType[]; enabled?: boolean },
+  now: number = Date.now(),
+): Promise<WebhookEndpoint> {
+  return withWebhookLock(datasetId, async () => {
+    const record = await loadRecord(adapter, datasetId);
+    const endpoint: WebhookEndpoint = {
+      id: randomUUID(),
+      datasetId,
+      url: draft.url,
+      secret: generateWebhookSecret(),
+      events: draft.events,
+      enabled: draft.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await adapter.put({ ...record, endpoints: [...record.endpoints, endpoint] });
+    return endpoint;
+  });
+}
+
+export async function updateWebhookEndpoint(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  endpointId: string,
+  patch: { url?: string; events?: WebhookEventType[]; enabled?: boolean; rotateSecret?: boolean },
+  now: number = Date.now(),
+): Promise<WebhookStoreResult> {
+  return withWebhookLock(datasetId, async () => {
+    const record = await loadRecord(adapter, datasetId);
+    const existing = record.endpoints.find((endpoint) => endpoint.id === endpointId);
+    if (!existing) return { ok: false, reason: "not_found" };
+    const endpoint: WebhookEndpoint = {
+      ...existing,
+      ...(patch.url !== undefined ? { url: patch.url } : {}),
+      ...(patch.events !== undefined ? { events: patch.events } : {}),
+      ...(patch.enabled !== undefined ? { enabled: patch.enabled } : {}),
+      ...(patch.rotateSecret ? { secret: generateWebhookSecret() } : {}),
+      updatedAt: now,
+    };
+    await adapter.put({
+      ...record,
+      endpoints: record.endpoints.map((item) => (item.id === endpointId ? endpoint : item)),
+    });
+    return { ok: true, endpoint };
+  });
+}
+
+export async function deleteWebhookEndpoint(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  endpointId: string,
+): Promise<boolean> {
+  return withWebhookLock(datasetId, async () => {
+    const record = await loadRecord(adapter, datasetId);
+    if (!record.endpoints.some((endpoint) => endpoint.id === endpointId)) return false;
+    await adapter.put({ ...record, endpoints: record.endpoints.filter((endpoint) => endpoint.id !== endpointId) });
+    return true;
+  });
+}
+
+// Records a dispatch key under the lock; false when the same key was already claimed within the cooldown.
+export async function claimWebhookDispatch(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  key: string,
+  now: number = Date.now(),
+  cooldownMs: number = ALERT_DISPATCH_COOLDOWN_MS,
+): Promise<boolean> {
+  return withWebhookLock(datasetId, async () => {
+    const record = await loadRecord(adapter, datasetId);
+    const recent = (record.dispatches ?? []).filter((claim) => now - claim.claimedAt < cooldownMs);
+    if (recent.some((claim) => claim.key === key)) return false;
+    await adapter.put({ ...record, dispatches: [...recent, { key, claimedAt: now }] });
+    return true;
+  });
+}
+
+// Replaces the logged copy of each delivery by id, appending new ones.
+async function saveDeliveries(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  deliveries: WebhookDelivery[],
+): Promise<void> {
+  await withWebhookLock(datasetId, async () => {
+    const record = await loadRecord(adapter, datasetId);
+    const updated = new Map(deliveries.map((delivery) => [delivery.id, delivery]));
+    const kept = record.deliveries.map((delivery) => updated.get(delivery.id) ?? delivery);
+    const added = deliveries.filter((delivery) => !record.deliveries.some((existing) => existing.id === delivery.id));
+    await adapter.put({ ...record, deliveries: [...kept, ...added].slice(-MAX_DELIVERIES) });
+  });
+}
+
+// Delivers each trigger to every enabled endpoint subscribed to its event, logging each delivery as pending
+// before its first attempt and updating it after every attempt.
+// Deliveries run outside the lock so a slow receiver never blocks endpoint edits.
+export async function dispatchWebhookTriggers(
+  adapter: WebhookStorageAdapter,
+  datasetId: DatasetId,
+  triggers: Array<{ trigger: WebhookTrigger; decision: DecisionEntry | null }>,
+  options: WebhookDispatchOptions = {},
+): Promise<WebhookDelivery[]> {
+  if (!triggers.length) return [];
+  const { endpoints } = await loadRecord(adapter, datasetId);
+  const jobs = triggers.flatMap(({ trigger, decision }) =>
+    endpoints
+      .filter((endpoint) => endpoint.enabled && endpoint.events.includes(trigger.type))
+      .map((endpoint) => ({ endpoint, trigger, decision })),
+  );
+  if (!jobs.length) return [];
+
+  return Promise.all(
+    jobs.map(({ endpoint, trigger, decision }) => {
+      const deliveryId = randomUUID();
+      const payload = buildWebhookPayload(datasetId, trigger, decision, {
+        id: deliveryId,
+        now: (options.now ?? Date.now)(),
+        profile: options.profile,
+      });
+      return deliverWebhook(endpoint, payload, {
+        ...options,
+        deliveryId,
+        onProgress: (delivery) => saveDeliveries(adapter, datasetId, [delivery]),
+      });
+    }),
+  );
+}
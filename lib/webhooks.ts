@@ -0,0 +1,194 @@
+import {
+  describeAlertCondition,
+  evaluateAlertCondition,
+  EARLY_WARNING_LABELS,
+  type AlertRule,
+  type EarlyWarningKey,
+} from "./alerts";
+import { detectJudgmentSignal, type DecisionEntry } from "./calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { getDecisionKey, stableStringify } from "./datasetSync";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfiles";
+import type { DatasetId } from "@/types/dataset";
+
+export type WebhookEventType = "judgment_signal" | "early_warning" | "alert_rule";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["judgment_signal", "early_warning", "alert_rule"];
+
+export interface WebhookEndpoint {
+  id: string;
+  datasetId: DatasetId;
+  url: string;
+  // Shared with the receiver once, at creation; used to sign every delivery.
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type WebhookEndpointView = Omit<WebhookEndpoint, "secret"> & { secretHint: string };
+
+export interface WebhookTrigger {
+  type: WebhookEventType;
+  key: string;
+  label: string;
+  detail: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType;
+  datasetId: DatasetId;
+  occurredAt: number;
+  trigger: WebhookTrigger;
+  decision: {
+    id?: string;
+    ts: number;
+    name: string;
+    category: string;
+    impact: number;
+    cost: number;
+    risk: number;
+    urgency: number;
+    confidence: number;
+  } | null;
+  metrics: { return: number; pressure: number; stability: number; dnav: number } | null;
+  archetype: string | null;
+}
+
+export interface WebhookAttempt {
+  at: number;
+  statusCode: number | null;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  datasetId: DatasetId;
+  event: WebhookEventType;
+  url: string;
+  // Pending until the last attempt; one left pending was cut off before it finished retrying.
+  status: "pending" | "delivered" | "failed";
+  trigger: WebhookTrigger;
+  attempts: WebhookAttempt[];
+  createdAt: number;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-dnav-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-dnav-timestamp";
+export const WEBHOOK_EVENT_HEADER = "x-dnav-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-dnav-delivery";
+
+// Early warnings look at the same trailing window the alert rules default to.
+const EARLY_WARNING_WINDOW = 20;
+
+export function buildWebhookPayload(
+  datasetId: DatasetId,
+  trigger: WebhookTrigger,
+  decision: DecisionEntry | null,
+  options: { id: string; now: number; profile?: ScoringProfile },
+): WebhookPayload {
+  const profile = options.profile ?? DEFAULT_SCORING_PROFILE;
+  return {
+    id: options.id,
+    event: trigger.type,
+    datasetId,
+    occurredAt: options.now,
+    trigger,
+    decision: decision
+      ? {
+          ...(decision.id ? { id: decision.id } : {}),
+          ts: decision.ts,
+          name: decision.name,
+          category: decision.category,
+          impact: decision.impact,
+          cost: decision.cost,
+          risk: decision.risk,
+          urgency: decision.urgency,
+          confidence: decision.confidence,
+        }
+      : null,
+    metrics: decision
+      ? { return: decision.return, pressure: decision.pressure, stability: decision.stability, dnav: decision.dnav }
+      : null,
+    archetype: decision ? getArchetype(decision, profile).name : null,
+  };
+}
+
+// New decisions that raise a judgment signal, plus posture early warnings that switch on with this write.
+export function collectDatasetTriggers(
+  previous: DecisionEntry[],
+  next: DecisionEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): Array<{ trigger: WebhookTrigger; decision: DecisionEntry | null }> {
+  const existingKeys = new Set(previous.map(getDecisionKey));
+  const added = next.filter((decision) => !existingKeys.has(getDecisionKey(decision)));
+
+  const signals = added.flatMap((decision) => {
+    const signal = detectJudgmentSignal(decision, decision);
+    return signal
+      ? [
+          {
+            trigger: { type: "judgment_signal" as const, key: signal.key, label: signal.label, detail: signal.correctiveMove },
+            decision,
+          },
+        ]
+      : [];
+  });
+
+  if (!added.length) return signals;
+  const latest = [...next].sort((a, b) => b.ts - a.ts)[0] ?? null;
+  const warnings = (Object.keys(EARLY_WARNING_LABELS) as EarlyWarningKey[]).flatMap((key) => {
+    const condition = { kind: "early_warning" as const, key, window: EARLY_WARNING_WINDOW };
+    const before = evaluateAlertCondition(condition, previous, profile);
+    const after = evaluateAlertCondition(condition, next, profile);
+    return !before.triggered && after.triggered
+      ? [{ trigger: { type: "early_warning" as const, key, label: EARLY_WARNING_LABELS[key], detail: after.message }, decision: latest }]
+      : [];
+  });
+
+  return [...signals, ...warnings];
+}
+
+// Alert rules live in the browser, so a reported firing is re-evaluated against the stored decisions and
+// only a rule that holds there becomes a trigger; the detail comes from the server's own evaluation.
+export function collectAlertRuleTrigger(
+  rule: Pick<AlertRule, "id" | "name" | "condition">,
+  decisions: DecisionEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): { trigger: WebhookTrigger; decision: DecisionEntry | null } | null {
+  const evaluation = evaluateAlertCondition(rule.condition, decisions, profile);
+  if (!evaluation.triggered) return null;
+  const description = describeAlertCondition(rule.condition);
+  return {
+    trigger: {
+      type: "alert_rule",
+      key: rule.id,
+      label: rule.name.trim() || description,
+      detail: [description, evaluation.message].filter(Boolean).join(" · "),
+    },
+    decision: [...decisions].sort((a, b) => b.ts - a.ts)[0] ?? null,
+  };
+}
+
+// Identifies one firing: the same rule and condition on the same latest decision and dataset revision.
+export const getAlertDispatchKey = (
+  rule: Pick<AlertRule, "id" | "condition">,
+  decision: DecisionEntry | null,
+  revision: number,
+): string =>
+  stableStringify({
+    rule: rule.id,
+    condition: rule.condition,
+    decision: decision ? getDecisionKey(decision) : null,
+    revision,
+  });
+
+// What the API hands back: the secret only leaves the server when an endpoint is created or rotated.
+export const redactWebhookEndpoint = (endpoint: WebhookEndpoint): WebhookEndpointView => {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secretHint: `…${secret.slice(-4)}` };
+};
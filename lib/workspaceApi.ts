@@ -0,0 +1,33 @@
+import { failure, requestJson } from "./datasetApi";
+import type { Workspace, WorkspaceId, WorkspaceMember, WorkspaceRole } from "./workspaces";
+
+const WORKSPACES_ENDPOINT = "/api/workspaces";
+
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+
+export async function fetchWorkspaces(): Promise<WorkspaceWithRole[]> {
+  const { status, body } = await requestJson<{ workspaces: WorkspaceWithRole[] }>(WORKSPACES_ENDPOINT);
+  if (status !== 200 || !body) throw failure("load workspaces", status);
+  return body.workspaces;
+}
+
+export async function createRemoteWorkspace(name: string): Promise<WorkspaceWithRole> {
+  const { status, body } = await requestJson<{ workspace: WorkspaceWithRole }>(WORKSPACES_ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  if (status !== 201 || !body) throw failure("create workspace", status);
+  return body.workspace;
+}
+
+export async function updateRemoteWorkspace(
+  id: WorkspaceId,
+  patch: { name?: string; members?: WorkspaceMember[] },
+): Promise<WorkspaceWithRole> {
+  const { status, body } = await requestJson<{ workspace: WorkspaceWithRole }>(
+    `${WORKSPACES_ENDPOINT}/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: JSON.stringify(patch) },
+  );
+  if (status !== 200 || !body) throw failure("update workspace", status);
+  return body.workspace;
+}
@@ -0,0 +1,230 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { DatasetRecord } from "./datasetSync";
+import { getIdentityUserId, type IdentityUser } from "./identity";
+import {
+  getDatasetRole,
+  getWorkspaceRole,
+  hasPermission,
+  hasWorkspaceAdmin,
+  normalizeMembers,
+  type Workspace,
+  type WorkspaceId,
+  type WorkspaceMember,
+  type WorkspacePermission,
+  type WorkspaceRole,
+} from "./workspaces";
+import type { DatasetId } from "@/types/dataset";
+
+// Server-only, mirroring the dataset adapter: route handlers reach workspaces through this seam.
+export interface WorkspaceStorageAdapter {
+  list(): Promise<Workspace[]>;
+  get(id: WorkspaceId): Promise<Workspace | null>;
+  put(workspace: Workspace): Promise<void>;
+  remove(id: WorkspaceId): Promise<boolean>;
+}
+
+export type WorkspaceStoreResult =
+  | { ok: true; workspace: Workspace }
+  | { ok: false; reason: "not_found" | "exists" | "forbidden" | "no_admin" };
+
+export type AccessDenial = "unauthenticated" | "forbidden" | "not_found";
+
+export type DatasetAccessResult =
+  | { ok: true; dataset: DatasetRecord; role: WorkspaceRole }
+  | { ok: false; reason: AccessDenial };
+
+export function createMemoryWorkspaceAdapter(seed: Workspace[] = []): WorkspaceStorageAdapter {
+  const records = new Map<WorkspaceId, Workspace>(seed.map((workspace) => [workspace.id, workspace]));
+  const copy = (workspace: Workspace): Workspace => JSON.parse(JSON.stringify(workspace)) as Workspace;
+
+  return {
+    async list() {
+      return Array.from(records.values()).map(copy);
+    },
+    async get(id) {
+      const workspace = records.get(id);
+      return workspace ? copy(workspace) : null;
+    },
+    async put(workspace) {
+      records.set(workspace.id, copy(workspace));
+    },
+    async remove(id) {
+      return records.delete(id);
+    },
+  };
+}
+
+export function createFileWorkspaceAdapter(directory: string): WorkspaceStorageAdapter {
+  const fileFor = (id: WorkspaceId) => path.join(directory, `${encodeURIComponent(id)}.json`);
+
+  const readWorkspace = async (file: string): Promise<Workspace | null> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as Workspace;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+      const workspaces = await Promise.all(
+        files.filter((file) => file.endsWith(".json")).map((file) => readWorkspace(path.join(directory, file))),
+      );
+      return workspaces.filter((workspace): workspace is Workspace => Boolean(workspace));
+    },
+    async get(id) {
+      return readWorkspace(fileFor(id));
+    },
+    async put(workspace) {
+      await mkdir(directory, { recursive: true });
+      const target = fileFor(workspace.id);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(workspace), "utf8");
+      await rename(temp, target);
+    },
+    async remove(id) {
+      const existing = await readWorkspace(fileFor(id));
+      if (!existing) return false;
+      await rm(fileFor(id), { force: true });
+      return true;
+    },
+  };
+}
+
+let defaultAdapter: WorkspaceStorageAdapter | null = null;
+
+export function getWorkspaceStorageAdapter(): WorkspaceStorageAdapter {
+  if (defaultAdapter) return defaultAdapter;
+  defaultAdapter =
+    process.env.DNAV_STORAGE_ADAPTER === "memory"
+      ? createMemoryWorkspaceAdapter()
+      : createFileWorkspaceAdapter(
+          process.env.DNAV_WORKSPACE_DIR || path.join(process.cwd(), ".data", "workspaces"),
+        );
+  return defaultAdapter;
+}
+
+const workspaceLocks = new Map<WorkspaceId, Promise<unknown>>();
+
+function withWorkspaceLock<T>(id: WorkspaceId, task: () => Promise<T>): Promise<T> {
+  const previous = workspaceLocks.get(id) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  workspaceLocks.set(id, run);
+  return run.finally(() => {
+    if (workspaceLocks.get(id) === run) workspaceLocks.delete(id);
+  });
+}
+
+export async function listWorkspacesForUser(
+  adapter: WorkspaceStorageAdapter,
+  user: IdentityUser,
+): Promise<Array<Workspace & { role: WorkspaceRole }>> {
+  const workspaces = await adapter.list();
+  return workspaces
+    .flatMap((workspace) => {
+      const role = getWorkspaceRole(workspace, user);
+      return role ? [{ ...workspace, role }] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Whoever creates a workspace becomes its first admin.
+export async function createWorkspace(
+  adapter: WorkspaceStorageAdapter,
+  draft: { id?: WorkspaceId; name: string },
+  user: IdentityUser,
+  now: number = Date.now(),
+): Promise<WorkspaceStoreResult> {
+  const userId = getIdentityUserId(user);
+  if (!userId) return { ok: false, reason: "forbidden" };
+  const id = draft.id || `workspace-${now.toString(36)}`;
+
+  return withWorkspaceLock(id, async () => {
+    if (await adapter.get(id)) return { ok: false, reason: "exists" };
+    const workspace: Workspace = {
+      id,
+      name: draft.name.trim() || "Untitled workspace",
+      members: [{ userId, role: "admin" }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await adapter.put(workspace);
+    return { ok: true, workspace };
+  });
+}
+
+export async function updateWorkspace(
+  adapter: WorkspaceStorageAdapter,
+  id: WorkspaceId,
+  patch: { name?: string; members?: WorkspaceMember[] },
+  user: IdentityUser,
+  now: number = Date.now(),
+): Promise<WorkspaceStoreResult> {
+  return withWorkspaceLock(id, async () => {
+    const workspace = await adapter.get(id);
+    if (!workspace) return { ok: false, reason: "not_found" };
+    if (!hasPermission(getWorkspaceRole(workspace, user), "manage")) return { ok: false, reason: "forbidden" };
+
+    const members = patch.members ? normalizeMembers(patch.members) : workspace.members;
+    if (!hasWorkspaceAdmin(members)) return { ok: false, reason: "no_admin" };
+
+    const next: Workspace = {
+      ...workspace,
+      name: patch.name?.trim() || workspace.name,
+      members,
+      updatedAt: now,
+    };
+    await adapter.put(next);
+    return { ok: true, workspace: next };
+  });
+}
+
+export async function authorizeDataset(
+  adapters: { datasets: { get(id: DatasetId): Promise<DatasetRecord | null> }; workspaces: WorkspaceStorageAdapter },
+  id: DatasetId,
+  user: IdentityUser | null,
+  permission: WorkspacePermission,
+): Promise<DatasetAccessResult> {
+  if (!user) return { ok: false, reason: "unauthenticated" };
+  const dataset = await adapters.datasets.get(id);
+  if (!dataset) return { ok: false, reason: "not_found" };
+
+  const workspace = dataset.workspaceId ? await adapters.workspaces.get(dataset.workspaceId) : null;
+  const role = getDatasetRole(dataset, workspace, user);
+  // Datasets the caller cannot even read are reported as missing so their ids do not leak.
+  if (!hasPermission(role, "read")) return { ok: false, reason: "not_found" };
+  if (!role || !hasPermission(role, permission)) return { ok: false, reason: "forbidden" };
+  return { ok: true, dataset, role };
+}
+
+export async function filterReadableDatasets(
+  workspaces: WorkspaceStorageAdapter,
+  datasets: DatasetRecord[],
+  user: IdentityUser,
+): Promise<DatasetRecord[]> {
+  const byId = new Map((await workspaces.list()).map((workspace) => [workspace.id, workspace]));
+  return datasets.filter((dataset) =>
+    hasPermission(getDatasetRole(dataset, byId.get(dataset.workspaceId ?? "") ?? null, user), "read"),
+  );
+}
+
+// Creating a dataset in a workspace needs write access there; moving an existing one in needs manage.
+export async function hasWorkspacePermission(
+  workspaces: WorkspaceStorageAdapter,
+  workspaceId: WorkspaceId,
+  user: IdentityUser,
+  permission: WorkspacePermission,
+): Promise<boolean> {
+  const workspace = await workspaces.get(workspaceId);
+  return Boolean(workspace) && hasPermission(getWorkspaceRole(workspace, user), permission);
+}
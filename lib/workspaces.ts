@@ -0,0 +1,96 @@
+import { getIdentityRoles, getIdentityUserId, type IdentityUser } from "./identity";
+import type { DatasetState } from "@/types/dataset";
+
+export type WorkspaceId = string;
+
+// Ordered from least to most trusted; each role can do everything the roles before it can.
+export const WORKSPACE_ROLES = ["viewer", "contributor", "facilitator", "admin"] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export type WorkspacePermission = "read" | "write" | "facilitate" | "manage";
+
+const PERMISSION_MIN_ROLE: Record<WorkspacePermission, WorkspaceRole> = {
+  read: "viewer",
+  write: "contributor",
+  facilitate: "facilitator",
+  manage: "admin",
+};
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: "Viewer",
+  contributor: "Contributor",
+  facilitator: "Facilitator",
+  admin: "Admin",
+};
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+}
+
+// Overrides the member's workspace role on one dataset.
+export interface DatasetAccessGrant {
+  userId: string;
+  role: WorkspaceRole;
+}
+
+export interface Workspace {
+  id: WorkspaceId;
+  name: string;
+  members: WorkspaceMember[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const normalizeUserId = (value: string) => value.trim().toLowerCase();
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === "string" && (WORKSPACE_ROLES as readonly string[]).includes(value);
+
+export function hasPermission(role: WorkspaceRole | null, permission: WorkspacePermission): boolean {
+  if (!role) return false;
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(PERMISSION_MIN_ROLE[permission]);
+}
+
+// Identity-level admins (the Netlify "admin" role) administer every workspace.
+export const isGlobalAdmin = (user: IdentityUser | null) => getIdentityRoles(user).includes("admin");
+
+export function getWorkspaceRole(workspace: Workspace | null, user: IdentityUser | null): WorkspaceRole | null {
+  if (!user) return null;
+  if (isGlobalAdmin(user)) return "admin";
+  const userId = getIdentityUserId(user);
+  if (!workspace || !userId) return null;
+  return workspace.members.find((member) => member.userId === userId)?.role ?? null;
+}
+
+export function getDatasetRole(
+  dataset: Pick<DatasetState, "workspaceId" | "access" | "ownerId">,
+  workspace: Workspace | null,
+  user: IdentityUser | null,
+): WorkspaceRole | null {
+  if (!user) return null;
+  if (isGlobalAdmin(user)) return "admin";
+  const userId = getIdentityUserId(user);
+  // Datasets outside any workspace are personal: only the user who created them gets in.
+  if (!dataset.workspaceId) return userId && dataset.ownerId === userId ? "admin" : null;
+
+  const workspaceRole = getWorkspaceRole(workspace, user);
+  if (!workspaceRole) return null;
+  // A per-dataset grant replaces the workspace role, so it can narrow access as well as widen it.
+  const grant = dataset.access?.find((entry) => entry.userId === userId);
+  return grant?.role ?? workspaceRole;
+}
+
+// Keeps one entry per user (the last one wins) so member and grant lists cannot drift into contradictions.
+export function normalizeMembers<T extends WorkspaceMember | DatasetAccessGrant>(members: T[]): T[] {
+  const byUser = new Map<string, T>();
+  members.forEach((member) => {
+    const userId = normalizeUserId(member.userId);
+    if (userId) byUser.set(userId, { ...member, userId });
+  });
+  return Array.from(byUser.values());
+}
+
+// A workspace must always keep someone who can manage it.
+export const hasWorkspaceAdmin = (members: WorkspaceMember[]) => members.some((member) => member.role === "admin");
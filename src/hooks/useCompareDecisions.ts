@@ -12,6 +12,7 @@ import {
 } from "@/src/lib/dnav/types";
 import type { Selection } from "./useCompareParams";
 import type { DecisionEntry } from "@/lib/calculations";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
 
 type UseCompareDecisionsResult = {
   decisionA: Decision | null;
@@ -24,7 +25,7 @@ type UseCompareDecisionsResult = {
 const logDecisionLabel = (entry: DecisionEntry, fallback?: string): string =>
   fallback || entry.name || entry.title || "Logged decision";
 
-const toDecision = (entry: DecisionEntry, label?: string): Decision => {
+const toDecision = (entry: DecisionEntry, profile: ScoringProfile, label?: string): Decision => {
   const vars: DecisionVars = {
     impact: entry.impact,
     cost: entry.cost,
@@ -38,12 +39,12 @@ const toDecision = (entry: DecisionEntry, label?: string): Decision => {
     label: logDecisionLabel(entry, label),
     source: "log",
     vars,
-    metrics: computeMetrics(vars),
+    metrics: computeMetrics(vars, profile),
   };
 };
 
-const toManualDecision = (selection: Extract<Selection, { kind: "manual" }>): Decision => {
-  const metrics = computeMetrics(selection.vars);
+const toManualDecision = (selection: Extract<Selection, { kind: "manual" }>, profile: ScoringProfile): Decision => {
+  const metrics = computeMetrics(selection.vars, profile);
   return {
     label: selection.label ?? "Manual decision",
     source: "manual",
@@ -55,7 +56,7 @@ const toManualDecision = (selection: Extract<Selection, { kind: "manual" }>): De
 const resolveDecisionKey = (entry: DecisionEntry): string | null => entry.id ?? entry.ts?.toString() ?? null;
 
 export function useCompareDecisions(params: { a: Selection; b: Selection }): UseCompareDecisionsResult {
-  const { decisions, isDatasetLoading } = useDataset();
+  const { decisions, isDatasetLoading, scoringProfile } = useDataset();
 
   const { decisionA, decisionB, errors, loading } = useMemo(() => {
     const lookup = new Map<string, DecisionEntry>();
@@ -68,13 +69,13 @@ export function useCompareDecisions(params: { a: Selection; b: Selection }): Use
 
     const resolveLog = (selection: Extract<Selection, { kind: "log" }>): Decision | null => {
       const entry = lookup.get(selection.id);
-      if (entry) return toDecision(entry, selection.label);
+      if (entry) return toDecision(entry, scoringProfile, selection.label);
       if (!isDatasetLoading) errs.push(`Log entry ${selection.id} is not available yet.`);
       return null;
     };
 
     const resolve = (selection: Selection): Decision | null => {
-      if (selection.kind === "manual") return toManualDecision(selection);
+      if (selection.kind === "manual") return toManualDecision(selection, scoringProfile);
       return resolveLog(selection);
     };
 
@@ -85,7 +86,7 @@ export function useCompareDecisions(params: { a: Selection; b: Selection }): Use
     const isLoading = requiresLog && isDatasetLoading && (!resolvedA || !resolvedB);
 
     return { decisionA: resolvedA, decisionB: resolvedB, errors: errs, loading: isLoading };
-  }, [decisions, isDatasetLoading, params.a, params.b]);
+  }, [decisions, isDatasetLoading, params.a, params.b, scoringProfile]);
 
   const result = useMemo(() => {
     if (!decisionA || !decisionB) return null;
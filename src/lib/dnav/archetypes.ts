@@ -0,0 +1,88 @@
+import { DEFAULT_SCORING_PROFILE, signWithDeadBand, type ScoringProfile } from "@/lib/scoringProfiles";
+
+import type { DecisionMetrics, RpsSignal } from "./types";
+
+export interface ArchetypeInfo {
+  name: string;
+  description: string;
+  pressureType: string;
+  stabilityType: string;
+  returnType: string;
+}
+
+// One-word archetypes (keyed by P|S|R)
+export const oneWordArchetypes: Record<string, string> = {
+  "1|1|1": "Breakthrough", "0|1|1": "Advance", "-1|1|1": "Harvest",
+  "1|0|1": "Sprint", "0|0|1": "Build", "-1|0|1": "Coast",
+  "1|-1|1": "Gamble", "0|-1|1": "Moonshot", "-1|-1|1": "Prospect",
+  "1|1|0": "Grind", "0|1|0": "Maintain", "-1|1|0": "Idle",
+  "1|0|0": "Firefight", "0|0|0": "Routine", "-1|0|0": "Drift",
+  "1|-1|0": "Strain", "0|-1|0": "Wobble", "-1|-1|0": "Teeter",
+  "1|1|-1": "Overreach", "0|1|-1": "Erode", "-1|1|-1": "Complacency",
+  "1|0|-1": "Burn", "0|0|-1": "Waste", "-1|0|-1": "Leak",
+  "1|-1|-1": "Meltdown", "0|-1|-1": "Collapse", "-1|-1|-1": "Decay"
+};
+
+const archetypeSignalsByName: Record<string, { r: RpsSignal; p: RpsSignal; s: RpsSignal }> =
+  Object.entries(oneWordArchetypes).reduce(
+    (acc, [key, name]) => {
+      const [p, s, r] = key.split("|").map((value) => Number(value) as RpsSignal);
+      acc[name] = { r, p, s };
+      return acc;
+    },
+    {} as Record<string, { r: RpsSignal; p: RpsSignal; s: RpsSignal }>
+  );
+
+export function getArchetypeSignals(archetypeName: string): { r: RpsSignal; p: RpsSignal; s: RpsSignal } | null {
+  return archetypeSignalsByName[archetypeName] ?? null;
+}
+
+// The P|S|R key into `oneWordArchetypes` once each metric has cleared the profile's dead-band.
+export function getArchetypeKey(
+  metrics: Pick<DecisionMetrics, "pressure" | "stability" | "return">,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): string {
+  const { deadBands } = profile;
+  return [
+    signWithDeadBand(metrics.pressure, deadBands.pressure),
+    signWithDeadBand(metrics.stability, deadBands.stability),
+    signWithDeadBand(metrics.return, deadBands.return),
+  ].join("|");
+}
+
+export function getArchetype(
+  metrics: DecisionMetrics,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ArchetypeInfo {
+  const key = getArchetypeKey(metrics, profile);
+  const [pS, sS, rS] = key.split("|").map(Number);
+  const name = oneWordArchetypes[key] || "Unclassified";
+
+  const returnLine =
+    rS > 0
+      ? "Return is leading."
+      : rS < 0
+      ? "Return is dragging."
+      : "Return is neutral.";
+  const stabilityLine =
+    sS > 0
+      ? "Stability is steady."
+      : sS < 0
+      ? "Stability is fragile."
+      : "Stability is mixed.";
+  const pressureLine =
+    pS > 0
+      ? "Pressure is driving the pace."
+      : pS < 0
+      ? "Pressure is light."
+      : "Pressure is balanced.";
+  const description = `${returnLine} ${stabilityLine} ${pressureLine}`;
+
+  return {
+    name,
+    description,
+    pressureType: pS > 0 ? "Urgency > Confidence" : pS < 0 ? "Confidence > Urgency" : "Urgency = Confidence",
+    stabilityType: sS > 0 ? "Confidence > Risk" : sS < 0 ? "Risk > Confidence" : "Confidence = Risk",
+    returnType: rS > 0 ? "Impact > Cost" : rS < 0 ? "Cost > Impact" : "Impact = Cost",
+  };
+}
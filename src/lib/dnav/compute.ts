@@ -1,13 +1,28 @@
-import { clampVars, type DecisionMetrics, type DecisionVars } from "./types";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "@/lib/scoringProfiles";
 
-export function computeMetrics(vars: DecisionVars): DecisionMetrics {
+import { clampVars, type DecisionMetrics, type DecisionVars, type EnergyTier } from "./types";
+
+// The one place D-NAV metrics are computed. Variables are clamped to the 1–10 scale first, so the log,
+// compare and stress test always agree on the same inputs.
+
+export function energyTier(urgency: number, confidence: number): EnergyTier {
+  const e = (urgency || 0) * (confidence || 0);
+  if (e >= 71) return { e, name: "Overdrive energy", short: "overdrive" };
+  if (e >= 41) return { e, name: "High energy", short: "high" };
+  if (e >= 16) return { e, name: "Moderate energy", short: "moderate" };
+  return { e, name: "Low energy", short: "low" };
+}
+
+export function computeMetrics(vars: DecisionVars, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): DecisionMetrics {
   const normalized = clampVars(vars);
+  const { coefficients } = profile;
   const ret = normalized.impact - normalized.cost;
   const stability = normalized.confidence - normalized.risk;
   const pressure = normalized.urgency - normalized.confidence;
-  const merit = normalized.impact - normalized.cost - normalized.risk;
-  const energy = normalized.urgency * normalized.confidence;
-  const dnav = merit + energy;
+  const merit =
+    coefficients.impact * normalized.impact - coefficients.cost * normalized.cost - coefficients.risk * normalized.risk;
+  const energy = energyTier(normalized.urgency, normalized.confidence).e;
+  const dnav = merit + coefficients.energy * energy;
 
   return {
     return: ret,
@@ -138,9 +138,9 @@ function computeScore(settings: NudgeSettings, before: DecisionMetrics, after: D
 }
 
 function createCandidate(baseVars: DecisionVars, steps: NudgeStep[], settings: NudgeSettings): NudgeCandidate {
-  const beforeMetrics = computeMetrics(baseVars);
+  const beforeMetrics = computeMetrics(baseVars, settings.profile);
   const afterVars = applySteps(baseVars, steps);
-  const afterMetrics = computeMetrics(afterVars);
+  const afterMetrics = computeMetrics(afterVars, settings.profile);
   const goalImprovement = calculateGoalImprovement(settings.goal, beforeMetrics, afterMetrics);
   const violates = violatesConstraints(settings, beforeMetrics, afterMetrics);
 
@@ -265,6 +265,11 @@ function chooseBestCandidate(candidates: NudgeCandidate[], minImprovement: numbe
   }, feasible[0]);
 }
 
+// Every single- and two-step move the policy allows, feasible or not; callers filter on constraints and improvement.
+export function generateNudgeCandidates(vars: DecisionVars, settings: NudgeSettings): NudgeCandidate[] {
+  return [...generateSingleStepCandidates(vars, settings), ...generateTwoStepCandidates(vars, settings)];
+}
+
 export function computeBestNudge(_baselineVars: DecisionVars, candidateVars: DecisionVars, settings: NudgeSettings): NudgeResult | null {
   // We apply the nudge to the candidate decision (side B) while using the baseline for context only.
   // This keeps the compare selection URL-driven while letting the nudge engine remain pure.
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { DecisionEntry } from "../../../../lib/calculations";
+import { getScoringProfile } from "../../../../lib/scoringProfiles";
+import { computeMetrics } from "../compute";
+import type { DecisionVars } from "../types";
+import { buildPortfolioPlan } from "./portfolio";
+import type { PortfolioSettings } from "./types";
+
+const baseSettings: PortfolioSettings = {
+  goal: "increase-dnav",
+  minGoalImprovement: 1,
+  constraints: {
+    preventPressureIncrease: false,
+    preventReturnDecrease: false,
+    preventStabilityDecrease: false,
+  },
+  policy: {
+    allowUrgencyIncrease: false,
+  },
+  budget: { kind: "urgency", limit: 0 },
+};
+
+function withSettings(overrides: Partial<PortfolioSettings>): PortfolioSettings {
+  return { ...baseSettings, ...overrides };
+}
+
+function makeDecision(ts: number, name: string, vars: DecisionVars): DecisionEntry {
+  return { ts, name, category: "Ops", ...vars, ...computeMetrics(vars) };
+}
+
+const portfolio: DecisionEntry[] = [
+  makeDecision(1, "Vendor switch", { impact: 6, cost: 4, risk: 5, urgency: 7, confidence: 4 }),
+  makeDecision(2, "Pricing test", { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 6 }),
+  makeDecision(3, "Hiring plan", { impact: 5, cost: 6, risk: 3, urgency: 4, confidence: 8 }),
+];
+
+test("a zero urgency budget never absorbs extra urgency", () => {
+  const plan = buildPortfolioPlan(portfolio, baseSettings);
+
+  assert.equal(plan.budgetUsed, 0);
+  assert.ok(plan.items.length > 0);
+  plan.items.forEach((item) => {
+    assert.ok(item.steps.every((step) => step.key !== "urgency" || step.delta < 0));
+  });
+});
+
+test("the urgency budget caps total urgency increases and more budget never lowers the gain", () => {
+  const tight = buildPortfolioPlan(portfolio, withSettings({ budget: { kind: "urgency", limit: 1 } }));
+  const loose = buildPortfolioPlan(portfolio, withSettings({ budget: { kind: "urgency", limit: 4 } }));
+  const free = buildPortfolioPlan(portfolio, baseSettings);
+
+  const urgencyAdded = tight.items
+    .flatMap((item) => item.steps)
+    .reduce((total, step) => (step.key === "urgency" && step.delta > 0 ? total + step.delta : total), 0);
+
+  assert.ok(tight.budgetUsed <= 1);
+  assert.equal(urgencyAdded, tight.budgetUsed);
+  assert.ok(tight.totalGoalImprovement >= free.totalGoalImprovement);
+  assert.ok(loose.totalGoalImprovement >= tight.totalGoalImprovement);
+  assert.ok(loose.budgetUsed <= 4);
+});
+
+test("the cost budget rations cost cuts when they beat the free levers", () => {
+  const profile = getScoringProfile("cost-disciplined");
+  const plan = (limit: number) =>
+    buildPortfolioPlan(portfolio, withSettings({ profile, budget: { kind: "cost", limit } }));
+  const none = plan(0);
+  const tight = plan(1);
+  const loose = plan(10);
+
+  const costMoved = (items: typeof tight.items) =>
+    items.flatMap((item) => item.steps).reduce((total, step) => (step.key === "cost" ? total + Math.abs(step.delta) : total), 0);
+
+  assert.equal(none.budgetUsed, 0);
+  assert.equal(costMoved(none.items), 0);
+  assert.equal(tight.budgetUsed, 1);
+  assert.equal(costMoved(tight.items), 1);
+  assert.ok(tight.totalGoalImprovement > none.totalGoalImprovement);
+  assert.ok(loose.totalGoalImprovement > tight.totalGoalImprovement);
+  assert.ok(loose.budgetUsed < 10);
+});
+
+test("each decision gets at most one nudge and items are ranked by goal improvement", () => {
+  const plan = buildPortfolioPlan(portfolio, withSettings({ budget: { kind: "urgency", limit: 3 } }));
+
+  const keys = plan.items.map((item) => item.decisionKey);
+  assert.equal(new Set(keys).size, keys.length);
+  assert.equal(plan.untouchedDecisions, portfolio.length - plan.items.length);
+  plan.items.forEach((item, index) => {
+    assert.equal(item.rank, index + 1);
+    if (index > 0) assert.ok(plan.items[index - 1].goalImprovement >= item.goalImprovement);
+  });
+});
+
+test("cohort deltas match the summed per-decision changes", () => {
+  const plan = buildPortfolioPlan(portfolio, withSettings({ budget: { kind: "urgency", limit: 2 } }));
+  const dnavGain = plan.items.reduce((total, item) => total + item.deltas.dnav, 0);
+
+  assert.equal(plan.before.totalDecisions, portfolio.length);
+  assert.equal(plan.after.totalDecisions, portfolio.length);
+  assert.ok(Math.abs(plan.deltas.totalDnav - dnavGain) < 1e-9);
+  assert.ok(Math.abs(plan.deltas.avgDnav - dnavGain / portfolio.length) < 1e-9);
+  assert.ok(Math.abs(plan.totalGoalImprovement - dnavGain) < 1e-9);
+});
+
+test("minimizing pressure lowers aggregate pressure and respects constraints", () => {
+  const plan = buildPortfolioPlan(
+    portfolio,
+    withSettings({
+      goal: "reduce-pressure",
+      budget: { kind: "cost", limit: 0 },
+      constraints: { ...baseSettings.constraints, preventReturnDecrease: true, preventStabilityDecrease: true },
+    }),
+  );
+
+  assert.ok(plan.items.length > 0);
+  assert.ok(plan.deltas.totalPressure < 0);
+  assert.ok(plan.after.avgPressure < plan.before.avgPressure);
+  plan.items.forEach((item) => {
+    assert.ok(item.deltas.return >= 0);
+    assert.ok(item.deltas.stability >= 0);
+  });
+});
+
+test("an empty log produces an empty plan", () => {
+  const plan = buildPortfolioPlan([], withSettings({ budget: { kind: "cost", limit: 5 } }));
+
+  assert.equal(plan.items.length, 0);
+  assert.equal(plan.budgetUsed, 0);
+  assert.equal(plan.deltas.totalDnav, 0);
+});
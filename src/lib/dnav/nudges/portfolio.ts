@@ -0,0 +1,216 @@
+import type { DecisionEntry } from "@/lib/calculations";
+import { buildCohortSummary } from "@/lib/compare/engine";
+import type { CohortSummary } from "@/lib/compare/types";
+import { getDecisionKey } from "@/lib/datasetSync";
+
+import { computeMetrics } from "../compute";
+import { clampVars, type DecisionVars } from "../types";
+import { generateNudgeCandidates } from "./engine";
+import type {
+  NudgeCandidate,
+  NudgeSettings,
+  NudgeStep,
+  PortfolioBudgetKind,
+  PortfolioPlan,
+  PortfolioPlanItem,
+  PortfolioSettings,
+} from "./types";
+
+type PortfolioOption = {
+  candidate: NudgeCandidate;
+  spend: number;
+};
+
+type PortfolioCell = {
+  value: number;
+  score: number;
+  spend: number;
+};
+
+const EPSILON = 1e-9;
+
+function toVars(decision: DecisionEntry): DecisionVars {
+  return clampVars({
+    impact: decision.impact,
+    cost: decision.cost,
+    risk: decision.risk,
+    urgency: decision.urgency,
+    confidence: decision.confidence,
+  });
+}
+
+// Urgency spend is the extra urgency a plan asks the team to absorb. Cost spend is every cost point moved, since
+// the cuts that lift D-NAV are exactly the renegotiation and scoping work a cost budget has to ration.
+export function measureBudgetSpend(steps: NudgeStep[], kind: PortfolioBudgetKind): number {
+  return steps.reduce((total, step) => {
+    if (step.key !== kind) return total;
+    if (kind === "cost") return total + Math.abs(step.delta);
+    return step.delta > 0 ? total + step.delta : total;
+  }, 0);
+}
+
+// An urgency budget is the urgency the team can absorb, so increases are rationed by the budget instead of the policy.
+function toNudgeSettings(settings: PortfolioSettings): NudgeSettings {
+  return {
+    goal: settings.goal,
+    minGoalImprovement: settings.minGoalImprovement,
+    constraints: settings.constraints,
+    profile: settings.profile,
+    policy: {
+      allowUrgencyIncrease: settings.policy.allowUrgencyIncrease || settings.budget.kind === "urgency",
+    },
+  };
+}
+
+function listOptions(vars: DecisionVars, settings: PortfolioSettings): PortfolioOption[] {
+  const nudgeSettings = toNudgeSettings(settings);
+  const minImprovement = Math.max(settings.minGoalImprovement, EPSILON);
+
+  return generateNudgeCandidates(vars, nudgeSettings)
+    .filter((candidate) => !candidate.violatesConstraints && candidate.goalImprovement >= minImprovement)
+    .map((candidate) => ({ candidate, spend: measureBudgetSpend(candidate.steps, settings.budget.kind) }));
+}
+
+function isBetter(next: PortfolioCell, current: PortfolioCell): boolean {
+  if (next.value > current.value + EPSILON) return true;
+  if (next.value < current.value - EPSILON) return false;
+  if (next.score > current.score + EPSILON) return true;
+  if (next.score < current.score - EPSILON) return false;
+  return next.spend < current.spend;
+}
+
+// Multiple-choice knapsack: each decision takes at most one nudge and spends are whole slider points.
+function selectOptions(optionsByDecision: PortfolioOption[][], limit: number): Array<PortfolioOption | null> {
+  let cells: PortfolioCell[] = Array.from({ length: limit + 1 }, () => ({ value: 0, score: 0, spend: 0 }));
+  const choices: number[][] = [];
+
+  optionsByDecision.forEach((options) => {
+    const next = cells.map((cell) => ({ ...cell }));
+    const picked = new Array<number>(limit + 1).fill(-1);
+
+    for (let budget = 0; budget <= limit; budget += 1) {
+      options.forEach((option, index) => {
+        if (option.spend > budget) return;
+        const base = cells[budget - option.spend];
+        const candidate = {
+          value: base.value + option.candidate.goalImprovement,
+          score: base.score + option.candidate.score,
+          spend: base.spend + option.spend,
+        };
+        if (isBetter(candidate, next[budget])) {
+          next[budget] = candidate;
+          picked[budget] = index;
+        }
+      });
+    }
+
+    choices.push(picked);
+    cells = next;
+  });
+
+  const selected: Array<PortfolioOption | null> = new Array(optionsByDecision.length).fill(null);
+  let remaining = limit;
+  for (let index = optionsByDecision.length - 1; index >= 0; index -= 1) {
+    const choice = choices[index][remaining];
+    if (choice === -1) continue;
+    const option = optionsByDecision[index][choice];
+    selected[index] = option;
+    remaining -= option.spend;
+  }
+
+  return selected;
+}
+
+function summarize(decisions: DecisionEntry[], label: string, timeframeLabel: string): CohortSummary {
+  return buildCohortSummary({
+    decisions,
+    request: { label, timeframeLabel, normalizationBasis: "shared_timeframe", totalAvailableDecisions: decisions.length },
+  });
+}
+
+const sumBy = (decisions: DecisionEntry[], key: "dnav" | "pressure") =>
+  decisions.reduce((total, decision) => total + decision[key], 0);
+
+export function buildPortfolioPlan(
+  decisions: DecisionEntry[],
+  settings: PortfolioSettings,
+  options: { timeframeLabel?: string } = {},
+): PortfolioPlan {
+  const timeframeLabel = options.timeframeLabel ?? "Current log";
+  const varsByDecision = decisions.map(toVars);
+  const optionsByDecision = varsByDecision.map((vars) => listOptions(vars, settings));
+
+  // The budget never needs to exceed what every decision's most expensive nudge would spend together.
+  const ceiling = optionsByDecision.reduce(
+    (total, options) => total + options.reduce((max, option) => Math.max(max, option.spend), 0),
+    0,
+  );
+  const limit = Math.min(Math.max(0, Math.floor(settings.budget.limit)), ceiling);
+  const selected = selectOptions(
+    optionsByDecision.map((options) => options.filter((option) => option.spend <= limit)),
+    limit,
+  );
+
+  const afterDecisions = decisions.map((decision, index) => {
+    const option = selected[index];
+    if (!option) return decision;
+    const vars = { ...varsByDecision[index] };
+    option.candidate.steps.forEach((step) => {
+      vars[step.key] = step.to;
+    });
+    return { ...decision, ...vars, ...computeMetrics(vars, settings.profile) };
+  });
+
+  const ranked = selected
+    .flatMap((option, index) => (option ? [{ option, decision: decisions[index] }] : []))
+    .sort(
+      (a, b) =>
+        b.option.candidate.goalImprovement - a.option.candidate.goalImprovement ||
+        b.option.candidate.score - a.option.candidate.score ||
+        a.option.spend - b.option.spend,
+    );
+
+  const items: PortfolioPlanItem[] = ranked.map(({ option, decision }, index) => {
+    const { candidate } = option;
+    return {
+      rank: index + 1,
+      decisionKey: getDecisionKey(decision),
+      name: decision.name,
+      category: decision.category,
+      steps: candidate.steps,
+      spend: option.spend,
+      beforeMetrics: candidate.beforeMetrics,
+      afterMetrics: candidate.afterMetrics,
+      deltas: {
+        dnav: candidate.afterMetrics.dnav - candidate.beforeMetrics.dnav,
+        return: candidate.afterMetrics.return - candidate.beforeMetrics.return,
+        pressure: candidate.afterMetrics.pressure - candidate.beforeMetrics.pressure,
+        stability: candidate.afterMetrics.stability - candidate.beforeMetrics.stability,
+      },
+      goalImprovement: candidate.goalImprovement,
+      rationale: candidate.rationale,
+    };
+  });
+
+  const before = summarize(decisions, "Before", timeframeLabel);
+  const after = summarize(afterDecisions, "After", timeframeLabel);
+
+  return {
+    goal: settings.goal,
+    budget: settings.budget,
+    budgetUsed: items.reduce((total, item) => total + item.spend, 0),
+    items,
+    untouchedDecisions: decisions.length - items.length,
+    totalGoalImprovement: items.reduce((total, item) => total + item.goalImprovement, 0),
+    before,
+    after,
+    deltas: {
+      avgDnav: after.avgDnav - before.avgDnav,
+      avgReturn: after.avgReturn - before.avgReturn,
+      avgPressure: after.avgPressure - before.avgPressure,
+      avgStability: after.avgStability - before.avgStability,
+      totalDnav: sumBy(afterDecisions, "dnav") - sumBy(decisions, "dnav"),
+      totalPressure: sumBy(afterDecisions, "pressure") - sumBy(decisions, "pressure"),
+    },
+  };
+}
@@ -1,3 +1,6 @@
+import type { CohortSummary } from "@/lib/compare/types";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+
 import type { DecisionMetrics, DecisionVarKey } from "../types";
 
 export type NudgeGoal = "increase-dnav" | "increase-return" | "reduce-pressure" | "increase-stability";
@@ -18,6 +21,7 @@ export type NudgeSettings = {
   minGoalImprovement: number;
   constraints: NudgeConstraints;
   policy: NudgePolicy;
+  profile?: ScoringProfile;
 };
 
 export type NudgeStep = {
@@ -52,3 +56,50 @@ export type NudgeResult = {
   usedTwoSteps: boolean;
   rationale: string[];
 };
+
+export type PortfolioGoal = Extract<NudgeGoal, "increase-dnav" | "reduce-pressure">;
+
+export type PortfolioBudgetKind = "cost" | "urgency";
+
+export type PortfolioBudget = {
+  kind: PortfolioBudgetKind;
+  limit: number;
+};
+
+export type PortfolioSettings = Omit<NudgeSettings, "goal"> & {
+  goal: PortfolioGoal;
+  budget: PortfolioBudget;
+};
+
+export type PortfolioPlanItem = {
+  rank: number;
+  decisionKey: string;
+  name: string;
+  category: string;
+  steps: NudgeStep[];
+  spend: number;
+  beforeMetrics: DecisionMetrics;
+  afterMetrics: DecisionMetrics;
+  deltas: NudgeResult["deltas"];
+  goalImprovement: number;
+  rationale: string[];
+};
+
+export type PortfolioPlan = {
+  goal: PortfolioGoal;
+  budget: PortfolioBudget;
+  budgetUsed: number;
+  items: PortfolioPlanItem[];
+  untouchedDecisions: number;
+  totalGoalImprovement: number;
+  before: CohortSummary;
+  after: CohortSummary;
+  deltas: {
+    avgDnav: number;
+    avgReturn: number;
+    avgPressure: number;
+    avgStability: number;
+    totalDnav: number;
+    totalPressure: number;
+  };
+};
@@ -15,6 +15,15 @@ export type DecisionMetrics = {
   dnav: number;
 };
 
+export type EnergyTier = {
+  e: number;
+  name: string;
+  short: "low" | "moderate" | "high" | "overdrive";
+};
+
+// -1, 0 or +1 once a metric has cleared the profile's dead-band.
+export type RpsSignal = -1 | 0 | 1;
+
 export type DecisionSource = "manual" | "log";
 
 export const DECISION_VAR_KEYS = ["impact", "cost", "risk", "urgency", "confidence"] as const;
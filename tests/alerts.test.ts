@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  acknowledgeAlert,
+  createEmptyAlertState,
+  evaluateAlertCondition,
+  evaluateAlertRules,
+  isAlertOpen,
+  snoozeAlert,
+  upsertAlertRule,
+  type AlertCondition,
+} from "../lib/alerts";
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import type { DecisionVars } from "../src/lib/dnav/types";
+
+const makeDecision = (ts: number, vars: DecisionVars): DecisionEntry => ({
+  ts,
+  name: `Decision ${ts}`,
+  category: "Ops",
+  ...vars,
+  ...computeMetrics(vars),
+});
+
+// Urgency well above Confidence keeps Pressure at +4 with Stability and Return negative (Meltdown).
+const strained = (ts: number) => makeDecision(ts, { impact: 5, cost: 7, risk: 6, urgency: 8, confidence: 4 });
+const calm = (ts: number) => makeDecision(ts, { impact: 7, cost: 3, risk: 3, urgency: 4, confidence: 7 });
+
+const pressureRule: AlertCondition = { kind: "rolling_mean", metric: "pressure", window: 3, comparator: ">", threshold: 1.5 };
+
+test("rolling mean rules wait for a full window before matching", () => {
+  assert.equal(evaluateAlertCondition(pressureRule, [strained(1), strained(2)]).triggered, false);
+  assert.equal(evaluateAlertCondition(pressureRule, [strained(1), strained(2), strained(3)]).triggered, true);
+  assert.equal(evaluateAlertCondition(pressureRule, [strained(1), strained(2), strained(3), calm(4), calm(5)]).triggered, false);
+});
+
+test("archetype streaks only count the most recent decisions", () => {
+  const condition: AlertCondition = { kind: "archetype_streak", archetypes: ["Meltdown", "Collapse"], count: 3 };
+  assert.equal(evaluateAlertCondition(condition, [calm(1), strained(2), strained(3), strained(4)]).triggered, true);
+  assert.equal(evaluateAlertCondition(condition, [strained(1), strained(2), calm(3), strained(4)]).triggered, false);
+});
+
+test("rules fire once per activation and record history", () => {
+  let state = upsertAlertRule(
+    createEmptyAlertState(),
+    { id: "rule-1", name: "Pressure creep", condition: pressureRule, enabled: true },
+    { now: 1 },
+  );
+  const decisions = [strained(1), strained(2), strained(3)];
+
+  state = evaluateAlertRules(state, decisions, { now: 10 });
+  assert.equal(state.notifications.length, 1);
+  assert.deepEqual(state.activeRuleIds, ["rule-1"]);
+
+  state = evaluateAlertRules(state, [...decisions, strained(4)], { now: 20 });
+  assert.equal(state.notifications.length, 1);
+
+  state = evaluateAlertRules(state, [...decisions, calm(4), calm(5), calm(6)], { now: 30 });
+  assert.equal(state.activeRuleIds.length, 0);
+  assert.equal(state.notifications[0].clearedAt, 30);
+
+  state = evaluateAlertRules(state, [strained(7), strained(8), strained(9)], { now: 40 });
+  assert.equal(state.notifications.length, 2);
+  assert.deepEqual(
+    state.history.map((event) => event.type),
+    ["created", "fired", "cleared", "fired"],
+  );
+});
+
+test("acknowledged and snoozed notifications leave the open list", () => {
+  let state = upsertAlertRule(
+    createEmptyAlertState(),
+    { id: "rule-1", name: "Pressure creep", condition: pressureRule, enabled: true },
+    { now: 1 },
+  );
+  state = evaluateAlertRules(state, [strained(1), strained(2), strained(3)], { now: 10 });
+  const [notification] = state.notifications;
+
+  const snoozed = snoozeAlert(state, notification.id, { now: 20, durationMs: 100 });
+  assert.equal(isAlertOpen(snoozed.notifications[0], 50), false);
+  assert.equal(isAlertOpen(snoozed.notifications[0], 121), true);
+
+  const acknowledged = acknowledgeAlert(snoozed, notification.id, { now: 130, actor: "Ana" });
+  assert.equal(isAlertOpen(acknowledged.notifications[0], 200), false);
+  assert.equal(acknowledged.history.at(-1)?.actor, "Ana");
+});
@@ -0,0 +1,132 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import {
+  applyBundleImport,
+  createBundle,
+  decodeBundle,
+  encodeBundle,
+  parseBundle,
+  planBundleImport,
+  readSessionDecisions,
+} from "../lib/bundle";
+import { getDatasetScoringProfile } from "../lib/scoringProfiles";
+import { getEmptyDatasetMeta, type DatasetState } from "../types/dataset";
+
+const buildDecision = (ts: number, overrides: Partial<DecisionEntry> = {}): DecisionEntry => {
+  const vars = { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 6 };
+  return { ts, name: `Decision ${ts}`, category: "Product", ...vars, ...computeMetrics(vars), ...overrides };
+};
+
+const buildDataset = (id: string, decisions: DecisionEntry[], companyName = ""): DatasetState => ({
+  id,
+  label: id,
+  meta: { ...getEmptyDatasetMeta(), companyName },
+  decisions,
+});
+
+const buildBundle = (datasets: DatasetState[]) =>
+  createBundle(
+    {
+      activeDatasetId: datasets[0]?.id ?? null,
+      datasets,
+      companyContext: { companyName: "Acme", timeframeLabel: "2025" },
+      companySummary: null,
+      archetypeSummaries: {},
+      stressTestSession: [],
+    },
+    1_700_000_000_000,
+  );
+
+test("bundles survive a gzip round trip and validate", async () => {
+  const bundle = buildBundle([buildDataset("dataset-1", [buildDecision(1)], "Acme")]);
+  const decoded = await decodeBundle(await encodeBundle(bundle, { compress: true }));
+  const parsed = parseBundle(decoded);
+
+  assert.ok(parsed.ok);
+  assert.deepEqual(parsed.bundle.datasets[0].decisions, bundle.datasets[0].decisions);
+  assert.equal(parsed.bundle.companyContext?.companyName, "Acme");
+});
+
+test("parseBundle rejects foreign and future files", () => {
+  assert.deepEqual(parseBundle({ format: "other" }), { ok: false, error: "This file is not a D-NAV bundle." });
+  const future = { ...buildBundle([]), version: 99 };
+  assert.equal(parseBundle(future).ok, false);
+});
+
+test("readSessionDecisions drops stored session rows that would fail validation", () => {
+  const valid = {
+    id: "s1",
+    decisionTitle: "Open a second site",
+    category: "Ops",
+    impact: 7,
+    cost: 3,
+    risk: 4,
+    urgency: 5,
+    confidence: 6,
+    r: 4,
+    p: -1,
+    s: 2,
+    dnav: 30,
+    createdAt: 1,
+  };
+  const rows = readSessionDecisions([valid, { ...valid, id: "s2", impact: "7" }, null, "junk"]);
+
+  assert.deepEqual(rows.map((row) => row.id), ["s1"]);
+  assert.ok(parseBundle({ ...buildBundle([]), stressTestSession: rows }).ok);
+});
+
+test("applyBundleImport merges, replaces and adds per dataset", () => {
+  const current = [buildDataset("a", [buildDecision(1)]), buildDataset("b", [buildDecision(2)])];
+  const bundle = buildBundle([
+    buildDataset("a", [buildDecision(1, { name: "Incoming copy" }), buildDecision(3)], "Acme"),
+    buildDataset("b", [buildDecision(4)]),
+    buildDataset("c", [buildDecision(5)]),
+  ]);
+
+  assert.deepEqual(
+    planBundleImport(current, bundle).map((item) => item.defaultMode),
+    ["merge", "merge", "add"],
+  );
+
+  const result = applyBundleImport(current, bundle, { a: "merge", b: "replace", c: "add" });
+  const [a, b, c] = result.datasets;
+
+  assert.deepEqual(
+    a.decisions.map((decision) => decision.name),
+    ["Decision 3", "Decision 1"],
+  );
+  assert.equal(a.meta.companyName, "Acme");
+  assert.deepEqual(
+    b.decisions.map((decision) => decision.ts),
+    [4],
+  );
+  assert.equal(c.id, "c");
+  assert.equal(result.summary.length, 3);
+
+  const again = applyBundleImport(result.datasets, bundle, { a: "skip", b: "skip", c: "add" });
+  assert.equal(again.datasets.at(-1)?.id, "c-2");
+});
+
+test("applyBundleImport registers embedded profiles that differ from the local ones", () => {
+  const bundle = buildBundle([
+    { ...buildDataset("a", [buildDecision(1)]), meta: { ...getEmptyDatasetMeta(), scoringProfileId: "growth" } },
+    { ...buildDataset("b", [buildDecision(2)]), meta: { ...getEmptyDatasetMeta(), scoringProfileId: "risk-averse" } },
+  ]);
+  // The exporting build weighed impact differently under the same preset id.
+  bundle.scoringProfiles = bundle.scoringProfiles.map((profile) =>
+    profile.id === "growth" ? { ...profile, coefficients: { ...profile.coefficients, impact: 1.25 } } : profile,
+  );
+
+  const result = applyBundleImport([], bundle, {});
+  const [a, b] = result.datasets;
+
+  assert.equal(a.meta.scoringProfileId, "growth-2");
+  assert.equal(getDatasetScoringProfile(a.meta).coefficients.impact, 1.25);
+  assert.equal(b.meta.scoringProfileId, "risk-averse");
+  assert.equal(b.meta.scoringProfiles, undefined);
+  assert.ok(result.summary.includes("Registered scoring profile Growth."));
+  assert.ok(parseBundle(JSON.parse(JSON.stringify(buildBundle(result.datasets)))).ok);
+});
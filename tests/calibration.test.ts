@@ -0,0 +1,47 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { classifyCalibration, computeCalibrationReport, type CalibrationInput } from "../lib/calibration";
+
+const resolved = (confidence: number, realizedRisk: number, overrides: Partial<CalibrationInput> = {}): CalibrationInput => ({
+  category: "Product",
+  archetype: "Build",
+  confidence0: confidence,
+  stability0: confidence - 4,
+  outcome: { impact: 6, cost: 4, risk: realizedRisk, recordedAt: 1 },
+  ...overrides,
+});
+
+test("computeCalibrationReport flags inflated confidence", () => {
+  const report = computeCalibrationReport([resolved(9, 10), resolved(9, 9), resolved(8, 9), resolved(9, 3)]);
+
+  assert.equal(report.resolvedCount, 4);
+  assert.equal(report.classification, "Overconfident");
+  assert.equal(report.bins.find((bin) => bin.confidence === 9)?.count, 3);
+  assert.ok((report.brierScore ?? 0) > 0.4);
+});
+
+test("computeCalibrationReport ignores unresolved decisions and groups by category", () => {
+  const report = computeCalibrationReport(
+    [
+      resolved(5, 4, { category: "Ops" }),
+      resolved(5, 6, { category: "Ops" }),
+      resolved(6, 2, { category: "Product" }),
+      { ...resolved(9, 1), outcome: null },
+    ],
+    { categoryOrder: ["Product", "Ops"] },
+  );
+
+  assert.equal(report.resolvedCount, 3);
+  assert.deepEqual(
+    report.byCategory.map((row) => row.label),
+    ["Product", "Ops"],
+  );
+  assert.equal(report.byCategory[1].classification, "Insufficient data");
+});
+
+test("classifyCalibration needs a minimum sample", () => {
+  assert.equal(classifyCalibration(0.3, 2), "Insufficient data");
+  assert.equal(classifyCalibration(-0.3, 5), "Underconfident");
+  assert.equal(classifyCalibration(0.02, 5), "Calibrated");
+});
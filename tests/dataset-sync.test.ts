@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import {
+  applyDatasetDecisionChanges,
+  createDataset,
+  createMemoryDatasetAdapter,
+  replaceDatasetDecisions,
+} from "../lib/datasetStore";
+import {
+  applyDecisionChanges,
+  diffDecisions,
+  getDecisionKey,
+  mergeHydratedDatasets,
+  rebaseDecisionChanges,
+} from "../lib/datasetSync";
+import { getEmptyDatasetMeta, type DatasetState } from "../types/dataset";
+
+const buildDecision = (ts: number, overrides: Partial<DecisionEntry> = {}): DecisionEntry => {
+  const vars = { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 6 };
+  return { ts, name: `Decision ${ts}`, category: "Product", ...vars, ...computeMetrics(vars), ...overrides };
+};
+
+test("getDecisionKey prefers ids and falls back to timestamps", () => {
+  assert.equal(getDecisionKey(buildDecision(1, { id: "abc" })), "id:abc");
+  assert.equal(getDecisionKey(buildDecision(42)), "ts:42");
+});
+
+test("diffDecisions captures inserts, edits and deletes", () => {
+  const a = buildDecision(1);
+  const b = buildDecision(2);
+  const c = buildDecision(3);
+  const changes = diffDecisions([a, b], [c, { ...a, name: "Renamed" }]);
+
+  assert.deepEqual(
+    changes.map((change) => [change.key, Boolean(change.previous), Boolean(change.next)]),
+    [
+      ["ts:3", false, true],
+      ["ts:1", true, true],
+      ["ts:2", true, false],
+    ],
+  );
+
+  const applied = applyDecisionChanges([a, b], changes);
+  assert.equal(applied.conflicts.length, 0);
+  assert.deepEqual(
+    applied.decisions.map((decision) => decision.name),
+    ["Decision 3", "Renamed"],
+  );
+});
+
+test("applyDecisionChanges rejects edits made against a stale copy", () => {
+  const base = buildDecision(1);
+  const server = [{ ...base, name: "Edited elsewhere" }, buildDecision(2)];
+  const local = diffDecisions([base, buildDecision(2)], [{ ...base, name: "Edited here" }, buildDecision(2), buildDecision(5)]);
+
+  const result = applyDecisionChanges(server, local);
+  assert.equal(result.conflicts.length, 1);
+  assert.equal(result.conflicts[0].reason, "modified");
+  assert.equal(result.decisions, server);
+
+  const rebased = rebaseDecisionChanges(server, local, result.conflicts);
+  assert.deepEqual(
+    rebased.map((decision) => decision.name),
+    ["Decision 5", "Edited elsewhere", "Decision 2"],
+  );
+});
+
+const buildDataset = (id: string, decisions: DecisionEntry[], companyName = ""): DatasetState => ({
+  id,
+  label: id,
+  meta: { ...getEmptyDatasetMeta(), companyName },
+  decisions,
+});
+
+test("mergeHydratedDatasets takes the server copy when nothing was synced from this browser", () => {
+  const local = [
+    buildDataset("dataset-1", [buildDecision(1, { name: "Unpushed edit" }), buildDecision(3)], "Acme"),
+    buildDataset("dataset-abc", [buildDecision(4)], "Stale local"),
+  ];
+  const remote = [
+    buildDataset("dataset-abc", [buildDecision(4, { name: "Server copy" }), buildDecision(5)], "Server"),
+    buildDataset("dataset-xyz", [buildDecision(6)], "Other device"),
+  ];
+
+  const { datasets, renamed, conflicts } = mergeHydratedDatasets(local, remote, new Map(), () => "dataset-fresh");
+
+  assert.deepEqual(Object.fromEntries(renamed), { "dataset-1": "dataset-fresh" });
+  assert.deepEqual(
+    datasets.map((dataset) => dataset.id),
+    ["dataset-fresh", "dataset-abc", "dataset-xyz"],
+  );
+  assert.equal(datasets[0].decisions[0].name, "Unpushed edit");
+  assert.equal(datasets[1], remote[0]);
+  assert.equal(conflicts, 0);
+});
+
+test("mergeHydratedDatasets replays local changes made since the last sync onto the server copy", () => {
+  const snapshot = buildDataset("dataset-abc", [buildDecision(1), buildDecision(2), buildDecision(3)], "Synced");
+  const local = buildDataset(
+    "dataset-abc",
+    [buildDecision(1, { name: "Edited here" }), buildDecision(2), buildDecision(7)],
+    "Renamed here",
+  );
+  const remote = buildDataset("dataset-abc", [buildDecision(1), buildDecision(3), buildDecision(8)], "Synced");
+
+  const { datasets, conflicts } = mergeHydratedDatasets([local], [remote], new Map([[snapshot.id, snapshot]]));
+
+  assert.equal(conflicts, 0);
+  assert.equal(datasets[0].meta.companyName, "Renamed here");
+  assert.deepEqual(
+    datasets[0].decisions.map((decision) => decision.name),
+    ["Decision 7", "Edited here", "Decision 8"],
+  );
+  assert.deepEqual(
+    diffDecisions(remote.decisions, datasets[0].decisions).map((change) => change.key).sort(),
+    ["ts:1", "ts:3", "ts:7"],
+  );
+});
+
+test("mergeHydratedDatasets keeps the server version of edits that overlap", () => {
+  const snapshot = buildDataset("dataset-abc", [buildDecision(1), buildDecision(2)], "Synced");
+  const local = buildDataset("dataset-abc", [buildDecision(1, { name: "Edited here" })], "Local name");
+  const remote = buildDataset(
+    "dataset-abc",
+    [buildDecision(1, { name: "Edited elsewhere" }), buildDecision(2, { name: "Also edited elsewhere" })],
+    "Server name",
+  );
+  const gone = buildDataset("dataset-old", [buildDecision(9)]);
+
+  const { datasets, conflicts } = mergeHydratedDatasets(
+    [local, gone],
+    [remote],
+    new Map([
+      [snapshot.id, snapshot],
+      [gone.id, gone],
+    ]),
+  );
+
+  assert.equal(conflicts, 3);
+  assert.deepEqual(
+    datasets.map((dataset) => dataset.id),
+    ["dataset-abc"],
+  );
+  assert.deepEqual(datasets[0], remote);
+});
+
+test("mergeHydratedDatasets drops the untouched starter dataset when the server has data", () => {
+  const starter = buildDataset("dataset-1", []);
+  const remote = [buildDataset("dataset-xyz", [buildDecision(6)])];
+
+  assert.deepEqual(
+    mergeHydratedDatasets([starter], remote).datasets.map((dataset) => dataset.id),
+    ["dataset-xyz"],
+  );
+  assert.equal(mergeHydratedDatasets([starter], [], new Map(), () => "dataset-fresh").datasets[0].id, "dataset-fresh");
+});
+
+test("dataset store bumps revisions and reports conflicts", async () => {
+  const adapter = createMemoryDatasetAdapter();
+  const created = await createDataset(adapter, { id: "team", label: "Team", decisions: [buildDecision(1)] }, 10);
+  assert.ok(created.ok);
+  assert.equal(created.dataset.revision, 1);
+
+  const duplicate = await createDataset(adapter, { id: "team", label: "Again" }, 11);
+  assert.deepEqual(duplicate, { ok: false, reason: "exists" });
+
+  const insert = await applyDatasetDecisionChanges(
+    adapter,
+    "team",
+    [{ key: "ts:2", previous: null, next: buildDecision(2) }],
+    12,
+  );
+  assert.ok(insert.ok);
+  assert.equal(insert.dataset.revision, 2);
+  assert.equal(insert.dataset.decisions.length, 2);
+
+  const clash = await applyDatasetDecisionChanges(
+    adapter,
+    "team",
+    [{ key: "ts:2", previous: null, next: buildDecision(2, { name: "Other" }) }],
+    13,
+  );
+  assert.equal(clash.ok, false);
+  assert.equal(clash.ok === false && clash.reason, "conflict");
+
+  const stale = await replaceDatasetDecisions(adapter, "team", [], 1, 14);
+  assert.equal(stale.ok === false && stale.reason, "stale");
+
+  const missing = await applyDatasetDecisionChanges(adapter, "nope", [], 15);
+  assert.deepEqual(missing, { ok: false, reason: "not_found" });
+});
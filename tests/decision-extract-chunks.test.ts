@@ -0,0 +1,184 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { POST as extractDecisions } from "../app/api/decision-extract/route";
+import type { DecisionExtractResponse } from "../app/api/decision-extract/schema";
+import { setExtractionCache } from "../lib/extractionCache";
+import { buildExtractionChunks } from "../lib/intake/extractionChunks";
+import { setLlmProvider } from "../lib/llm/provider";
+import type { LlmProvider } from "../lib/llm/types";
+
+// These tests need every request to reach the extractor; caching is covered in extraction-cache.test.ts.
+setExtractionCache(null);
+
+const FILLER = "Revenue commentary only, nothing committed here. ";
+const filler = (chars: number) => FILLER.repeat(Math.ceil(chars / FILLER.length)).slice(0, chars);
+
+test("chunks break at section headings and only split a section when it cannot fit", () => {
+  const pages = [
+    { page: 1, text: `HIGHLIGHTS\n${filler(300)}` },
+    { page: 2, text: filler(300) },
+    { page: 3, text: `OUTLOOK\n${filler(500)}` },
+    { page: 4, text: `RISK FACTORS\n${filler(500)}` },
+    { page: 5, text: filler(500) },
+    { page: 6, text: filler(500) },
+  ];
+  const chunks = buildExtractionChunks(pages, 1000);
+
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.pages.map((page) => page.page)),
+    [[1, 2], [3], [4], [5, 6]],
+  );
+  assert.deepEqual(chunks[0].sections, ["Highlights"]);
+  assert.deepEqual(chunks[3].sections, ["Risk Factors"]);
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.index),
+    [0, 1, 2, 3],
+  );
+
+  const whole = buildExtractionChunks(pages, Number.POSITIVE_INFINITY);
+  assert.equal(whole.length, 1);
+  assert.deepEqual(whole[0].sections, ["Highlights", "Outlook", "Risk Factors"]);
+});
+
+const commitment =
+  "Tesla will begin building the Cybercab at Gigafactory Texas in 2026, with half of capacity planned for the first half.";
+
+// 320k characters across 40 pages; the same commitment is repeated in the first and last section.
+const largeDocument = Array.from({ length: 40 }, (_, index) => {
+  const page = index + 1;
+  const heading = page === 1 ? "HIGHLIGHTS\n" : page === 21 ? "OUTLOOK\n" : "";
+  const statement =
+    page === 1 || page === 40
+      ? commitment
+      : `Project Alpha${page} Omega${page} will launch in 2026 as planned by the board.`;
+  return { page, text: `${heading}${statement}\n${filler(8000)}` };
+});
+
+const postExtract = (docName: string, pages: Array<{ page: number; text: string }>) =>
+  extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName, pages }),
+    }),
+  );
+
+const postLarge = async () => (await (await postExtract("Annual report", largeDocument)).json()) as DecisionExtractResponse;
+
+test("oversized documents are refined chunk by chunk with bounded concurrency and reconciled afterwards", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let calls = 0;
+  const slowFailing: LlmProvider = {
+    name: "fixture",
+    model: "fixture",
+    async chat() {
+      calls += 1;
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return { ok: false, reason: "timeout", message: "Replayed timeout", durationMs: 5 };
+    },
+  };
+  setLlmProvider(slowFailing);
+
+  const body = await postLarge();
+  const chunks = body.meta.chunks ?? [];
+  assert.ok(chunks.length > 3, `expected several chunks, got ${chunks.length}`);
+  assert.equal(calls, chunks.length);
+  assert.equal(maxInFlight, 3);
+  assert.equal(body.meta.warnings?.[0], `Input too large; extracted in ${chunks.length} section-aware chunks.`);
+  assert.ok(body.meta.warnings?.includes("Model timeout"));
+
+  assert.equal(chunks[0].firstPage, 1);
+  assert.equal(chunks.at(-1)?.lastPage, 40);
+  chunks.slice(1).forEach((chunk, index) => assert.equal(chunk.firstPage, chunks[index].lastPage + 1));
+  assert.ok(chunks.every((chunk) => !chunk.refined && chunk.warnings?.includes("Model timeout")));
+
+  // Every page's statement survives, and the repeated commitment is merged across chunks.
+  const perChunk = chunks.reduce((total, chunk) => total + chunk.candidates, 0);
+  assert.equal(perChunk, 40);
+  assert.equal(body.candidates.length, 39);
+  assert.equal(body.candidates.filter((candidate) => candidate.decision.includes("Cybercab")).length, 1);
+});
+
+test("documents under the limit stay a single chunk", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  setLlmProvider(null);
+  const response = await extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName: "Memo", pages: largeDocument.slice(0, 3) }),
+    }),
+  );
+  const body = (await response.json()) as DecisionExtractResponse;
+  assert.equal(body.meta.chunks?.length, 1);
+  assert.deepEqual(body.meta.chunks?.[0], {
+    chunk: 1,
+    firstPage: 1,
+    lastPage: 3,
+    sections: ["Highlights"],
+    chars: largeDocument.slice(0, 3).reduce((total, page) => total + page.text.length, 0),
+    localCandidates: 3,
+    candidates: 3,
+    refined: false,
+    warnings: ["Refine unavailable — showing local results"],
+  });
+  assert.deepEqual(body.meta.warnings, ["Refine unavailable — showing local results"]);
+});
+
+test("every chunk is extracted and refine calls past the budget keep local candidates", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  let calls = 0;
+  setLlmProvider({
+    name: "fixture",
+    model: "fixture",
+    async chat() {
+      calls += 1;
+      return { ok: false, reason: "timeout", message: "Replayed timeout", durationMs: 1 };
+    },
+  });
+  // Two 60k pages never share a 90k chunk, so ten pages plan ten chunks.
+  const pages = Array.from({ length: 10 }, (_, index) => ({
+    page: index + 1,
+    text: `Project Alpha${index + 1} Omega${index + 1} will launch in 2026 as planned by the board.\n${filler(60_000)}`,
+  }));
+  const budgetWarning = "Refine budget reached — showing local results for later sections";
+
+  const body = (await (await postExtract("Filing", pages)).json()) as DecisionExtractResponse;
+  const chunks = body.meta.chunks ?? [];
+  assert.equal(chunks.length, 10);
+  assert.equal(chunks.at(-1)?.lastPage, 10);
+  assert.equal(calls, 8);
+  assert.equal(body.candidates.length, 10);
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.warnings?.includes(budgetWarning) ?? false),
+    [false, false, false, false, false, false, false, false, true, true],
+  );
+  assert.ok(body.meta.warnings?.includes(budgetWarning));
+
+  calls = 0;
+  const streamed = await extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName: "Filing", pages, options: { stream: true } }),
+    }),
+  );
+  const events = (await streamed.text())
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as { type: string; warning?: string; meta?: DecisionExtractResponse["meta"] });
+  const refines = events.filter((event) => event.type === "refine");
+  assert.equal(calls, 8);
+  assert.equal(refines.length, 10);
+  assert.deepEqual(
+    refines.slice(8).map((event) => event.warning),
+    [budgetWarning, budgetWarning],
+  );
+  assert.equal(events.at(-1)?.meta?.chunks?.length, 10);
+});
@@ -0,0 +1,151 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { POST as extractDecisions } from "../app/api/decision-extract/route";
+import type { DecisionExtractStreamEvent } from "../app/api/decision-extract/schema";
+import { setExtractionCache } from "../lib/extractionCache";
+import { applyStreamEvent, readNdjson, streamDecisionExtraction } from "../lib/intake/decisionExtractStream";
+import { createFixtureReplayProvider } from "../lib/llm/fixtureReplay";
+import { setLlmProvider } from "../lib/llm/provider";
+
+// These tests need every request to reach the extractor; caching is covered in extraction-cache.test.ts.
+setExtractionCache(null);
+
+const pages = [
+  {
+    page: 1,
+    text: "Tesla will begin volume production of the Cybercab at Gigafactory Texas in 2026, with 50% of capacity planned for the first half.",
+  },
+  { page: 2, text: "Revenue commentary only, nothing committed here." },
+  {
+    page: 3,
+    text: "We expect Megapack deployments to expand to 40 GWh in 2025 as the Shanghai Megafactory ramps production.",
+  },
+];
+
+const postStream = () =>
+  extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName: "Q4 letter", pages, options: { stream: true } }),
+    }),
+  );
+
+const collectEvents = async (response: Response) => {
+  const events: DecisionExtractStreamEvent[] = [];
+  for await (const event of readNdjson<DecisionExtractStreamEvent>(response.body!)) events.push(event);
+  return events;
+};
+
+test("streaming emits start, per-page candidates, refine batches and the merged body in order", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  const provider = createFixtureReplayProvider({
+    fixtures: [
+      {
+        match: "Candidates JSON:",
+        content: JSON.stringify({
+          candidates: [
+            {
+              id: "refined-1",
+              title: "Start Cybercab volume production",
+              strength: "hard",
+              category: "Operations",
+              decision: "Begin Cybercab volume production at Gigafactory Texas in 2026.",
+              rationale: "Dated commitment.",
+              page: 1,
+              evidence: { page: 1, quote: pages[0].text },
+              tags: ["cybercab"],
+            },
+            {
+              id: "refined-2",
+              title: "Expand Megapack deployments to 40 GWh",
+              strength: "soft",
+              category: "Product",
+              decision: "Grow Megapack deployments to 40 GWh in 2025.",
+              rationale: "Expected ramp.",
+              page: 3,
+              evidence: { page: 3, quote: pages[2].text },
+              tags: ["energy"],
+            },
+          ],
+        }),
+        usage: { promptTokens: 400, completionTokens: 60 },
+      },
+    ],
+  });
+  setLlmProvider(provider);
+
+  const response = await postStream();
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type") ?? "", /application\/x-ndjson/);
+
+  const events = await collectEvents(response);
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ["start", "page", "page", "refine", "merged"],
+  );
+  const [start, first, second, refine, merged] = events;
+  assert.equal(start.type === "start" && start.pagesReceived, 3);
+  assert.equal(first.type === "page" && first.page, 1);
+  assert.equal(second.type === "page" && second.page, 3);
+  assert.ok(refine.type === "refine");
+  assert.deepEqual([refine.batch, refine.batchCount], [1, 1]);
+  assert.equal(refine.replaces.length, 2);
+  assert.equal(refine.warning, undefined);
+  assert.ok(merged.type === "merged");
+  assert.deepEqual(
+    merged.candidates.map((candidate) => candidate.id),
+    ["refined-1", "refined-2"],
+  );
+  assert.equal(merged.meta.llm?.usage.totalTokens, 460);
+  assert.equal(provider.calls.length, 1);
+
+  const shown = events.reduce(applyStreamEvent, []);
+  assert.deepEqual(
+    shown.map((candidate) => candidate.id),
+    ["refined-1", "refined-2"],
+  );
+  assert.equal(shown[0].strength, "committed");
+  assert.equal(shown[1].strength, "indicative");
+  assert.equal(shown[0].evidence.quote, pages[0].text);
+});
+
+test("a failed refine batch keeps its local candidates and says why", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  setLlmProvider(createFixtureReplayProvider({ fixtures: [{ match: "Candidates JSON:", failure: "timeout" }] }));
+
+  const events = await collectEvents(await postStream());
+  const refine = events.find((event) => event.type === "refine");
+  const merged = events.at(-1);
+  assert.ok(refine?.type === "refine" && merged?.type === "merged");
+  assert.equal(refine.warning, "Model timeout");
+  assert.deepEqual(
+    refine.candidates.map((candidate) => candidate.id),
+    refine.replaces,
+  );
+  assert.deepEqual(merged.meta.warnings, ["Refine unavailable — showing local results", "Model timeout"]);
+
+  const shown = events.reduce(applyStreamEvent, []);
+  assert.ok(shown.length > 0 && shown.every((candidate) => candidate.id.startsWith("local-")));
+});
+
+test("the client helper resolves with the merged body and reports every event", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  setLlmProvider(null);
+
+  const seen: string[] = [];
+  const fetchRoute = (async (_url: string, init: RequestInit) =>
+    extractDecisions(new Request("http://localhost/api/decision-extract", init))) as typeof fetch;
+  const result = await streamDecisionExtraction(
+    { docName: "Q4 letter", pages },
+    (event) => seen.push(event.type),
+    { fetch: fetchRoute },
+  );
+
+  assert.deepEqual(seen, ["start", "page", "page", "merged"]);
+  assert.equal(result.doc.name, "Q4 letter");
+  assert.ok(result.candidates.length > 0);
+  assert.deepEqual(result.meta.warnings, ["Refine unavailable — showing local results"]);
+  assert.equal("type" in result, false);
+});
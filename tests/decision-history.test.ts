@@ -0,0 +1,161 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { getDecisionKey } from "../lib/datasetSync";
+import {
+  DECISION_ENTRY_DERIVED_FIELDS,
+  EMPTY_DECISION_HISTORY,
+  MAX_DECISION_HISTORY_EVENTS,
+  appendHistoryEvents,
+  buildHistoryEvents,
+  canRebuildAsOf,
+  getDecisionLogAsOf,
+  getHistoryStart,
+  getRecordTimeline,
+  reconstructRecords,
+  revertRecord,
+  type DecisionHistoryEvent,
+} from "../lib/decisionHistory";
+import { getScoringProfile } from "../lib/scoringProfiles";
+
+const buildDecision = (ts: number, overrides: Partial<DecisionEntry> = {}): DecisionEntry => {
+  const vars = { impact: 6, cost: 3, risk: 4, urgency: 5, confidence: 6, ...overrides };
+  return { ts, name: `Decision ${ts}`, category: "Product", ...vars, ...computeMetrics(vars), ...overrides };
+};
+
+const record = (previous: DecisionEntry[], next: DecisionEntry[], at: number, actor: string | null = "ana@example.com") =>
+  buildHistoryEvents(previous, next, {
+    scope: "dataset-1",
+    at,
+    actor,
+    getKey: getDecisionKey,
+    getLabel: (decision) => decision.name,
+    ignoreFields: DECISION_ENTRY_DERIVED_FIELDS,
+  });
+
+// Three days of edits: two decisions logged, one re-weighted, then the second deleted.
+const buildLog = () => {
+  const day1 = [buildDecision(1), buildDecision(2)];
+  const day2 = day1.map((decision) => (decision.ts === 1 ? buildDecision(1, { impact: 9, category: "Ops" }) : decision));
+  const day3 = day2.filter((decision) => decision.ts !== 2);
+  const events: DecisionHistoryEvent[] = [...record([], day1, 100), ...record(day1, day2, 200), ...record(day2, day3, 300)];
+  return { day1, day2, day3, events };
+};
+
+test("events record who changed which field from what to what", () => {
+  const { events } = buildLog();
+
+  assert.deepEqual(
+    events.map((event) => [event.action, event.recordKey, event.at]),
+    [
+      ["created", "ts:1", 100],
+      ["created", "ts:2", 100],
+      ["updated", "ts:1", 200],
+      ["deleted", "ts:2", 300],
+    ],
+  );
+  assert.deepEqual(events[2].changes, [
+    { field: "category", from: "Product", to: "Ops" },
+    { field: "impact", from: 6, to: 9 },
+  ]);
+  assert.equal(events[2].actor, "ana@example.com");
+  assert.ok(events.every((event) => event.changes.every((change) => change.field !== "dnav")));
+  assert.deepEqual(record(buildLog().day3, buildLog().day3, 400), []);
+});
+
+test("reconstruction rolls the log back to any earlier point", () => {
+  const { day1, day2, day3, events } = buildLog();
+  const key = (decision: DecisionEntry) => getDecisionKey(decision);
+
+  const atDay2 = reconstructRecords(day3, events, { scope: "dataset-1", asOf: 250, getKey: key });
+  assert.deepEqual(
+    atDay2.map((decision) => [decision.ts, decision.impact, decision.category]),
+    day2.map((decision) => [decision.ts, decision.impact, decision.category]),
+  );
+
+  const atDay1 = reconstructRecords(day3, events, { scope: "dataset-1", asOf: 150, getKey: key });
+  assert.deepEqual(atDay1.map((decision) => decision.impact).sort(), day1.map((decision) => decision.impact).sort());
+  assert.deepEqual(reconstructRecords(day3, events, { scope: "dataset-1", asOf: 50, getKey: key }), []);
+  assert.deepEqual(reconstructRecords(day3, events, { scope: "other", asOf: 50, getKey: key }), day3);
+});
+
+test("the as-of log recomputes metrics for the restored sliders", () => {
+  const { day3, events } = buildLog();
+  const history = { events, startsAt: {} };
+  const log = getDecisionLogAsOf(day3, history, { scope: "dataset-1", asOf: 150, profile: getScoringProfile() });
+
+  assert.ok(log);
+  assert.deepEqual(
+    log.map((decision) => decision.ts),
+    [2, 1],
+  );
+  assert.equal(log[1].impact, 6);
+  assert.equal(log[1].dnav, computeMetrics(buildDecision(1)).dnav);
+});
+
+test("reverting restores one record and the next diff records it as a new event", () => {
+  const { day3, events } = buildLog();
+  const options = { scope: "dataset-1", getKey: getDecisionKey };
+
+  const restored = revertRecord(day3, events, { ...options, asOf: 250, recordKey: "ts:2" });
+  assert.deepEqual(
+    restored.map((decision) => decision.ts),
+    [2, 1],
+  );
+
+  const undone = revertRecord(day3, events, { ...options, asOf: 150, recordKey: "ts:1" });
+  assert.equal(undone[0].impact, 6);
+  assert.equal(undone[0].category, "Product");
+
+  const revertEvents = buildHistoryEvents(day3, undone, {
+    scope: "dataset-1",
+    at: 400,
+    actor: null,
+    getKey: getDecisionKey,
+    getLabel: (decision) => decision.name,
+    ignoreFields: DECISION_ENTRY_DERIVED_FIELDS,
+    revertedTo: 150,
+  });
+  assert.equal(revertEvents.length, 1);
+  assert.equal(revertEvents[0].revertedTo, 150);
+  assert.equal(getRecordTimeline([...events, ...revertEvents], "dataset-1", "ts:1").length, 3);
+});
+
+test("each scope keeps its own newest events and records where its history now starts", () => {
+  const imported = Array.from({ length: MAX_DECISION_HISTORY_EVENTS + 10 }, (_, index) => buildDecision(index + 1));
+  const { events } = buildLog();
+  const other = buildHistoryEvents([], [buildDecision(1)], {
+    scope: "dataset-2",
+    at: 50,
+    actor: null,
+    getKey: getDecisionKey,
+    getLabel: (decision) => decision.name,
+  });
+  const history = { ...EMPTY_DECISION_HISTORY, events: [...other, ...events] };
+  const log = appendHistoryEvents(history, record([], imported, 400));
+
+  const kept = log.events.filter((event) => event.scope === "dataset-1");
+  assert.equal(kept.length, MAX_DECISION_HISTORY_EVENTS);
+  assert.ok(kept.every((event) => event.at === 400));
+  assert.deepEqual(log.events[0], other[0]);
+  assert.deepEqual(log.startsAt, { "dataset-1": 400 });
+  assert.equal(getHistoryStart(log, "dataset-1"), 400);
+  assert.equal(getHistoryStart(log, "dataset-2"), null);
+  assert.equal(appendHistoryEvents(log, []), log);
+});
+
+test("as-of views before the retained history are refused", () => {
+  const { day3, events } = buildLog();
+  const history = { events: events.filter((event) => event.at >= 200), startsAt: { "dataset-1": 200 } };
+  const options = { scope: "dataset-1", profile: getScoringProfile() };
+
+  assert.equal(getDecisionLogAsOf(day3, history, { ...options, asOf: 150 }), null);
+  assert.equal(canRebuildAsOf(history, "dataset-1", 199), false);
+  assert.deepEqual(
+    getDecisionLogAsOf(day3, history, { ...options, asOf: 250 })?.map((decision) => decision.ts),
+    [2, 1],
+  );
+  assert.ok(canRebuildAsOf(history, "dataset-2", 0));
+});
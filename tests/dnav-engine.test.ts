@@ -0,0 +1,99 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { SCORING_PROFILES } from "../lib/scoringProfiles";
+import { createSeededRandom } from "../lib/uncertainty";
+import { getArchetype, getArchetypeKey, getArchetypeSignals, oneWordArchetypes } from "../src/lib/dnav/archetypes";
+import { computeMetrics, energyTier } from "../src/lib/dnav/compute";
+import { DECISION_VAR_KEYS, clampVars, type DecisionVars } from "../src/lib/dnav/types";
+
+// Every integer slider position: 10^5 decisions, small enough to check exhaustively rather than by sampling.
+function* everyDecision(): Generator<DecisionVars> {
+  for (let impact = 1; impact <= 10; impact += 1)
+    for (let cost = 1; cost <= 10; cost += 1)
+      for (let risk = 1; risk <= 10; risk += 1)
+        for (let urgency = 1; urgency <= 10; urgency += 1)
+          for (let confidence = 1; confidence <= 10; confidence += 1) yield { impact, cost, risk, urgency, confidence };
+}
+
+// Arbitrary inputs, including fractions, out-of-scale values and non-finite numbers from bad imports.
+const arbitraryDecisions = (count: number, seed: number): DecisionVars[] => {
+  const random = createSeededRandom(seed);
+  const pick = () => {
+    const roll = random();
+    if (roll < 0.05) return Number.NaN;
+    if (roll < 0.1) return Number.POSITIVE_INFINITY;
+    return random() * 30 - 10;
+  };
+  return Array.from({ length: count }, () => ({
+    impact: pick(),
+    cost: pick(),
+    risk: pick(),
+    urgency: pick(),
+    confidence: pick(),
+  }));
+};
+
+test("dnav is merit plus weighted energy and R/P/S are plain differences for every slider position", () => {
+  for (const profile of SCORING_PROFILES) {
+    for (const vars of everyDecision()) {
+      const metrics = computeMetrics(vars, profile);
+      assert.equal(metrics.dnav, metrics.merit + profile.coefficients.energy * metrics.energy);
+      assert.equal(metrics.return, vars.impact - vars.cost);
+      assert.equal(metrics.stability, vars.confidence - vars.risk);
+      assert.equal(metrics.pressure, vars.urgency - vars.confidence);
+      assert.equal(metrics.energy, energyTier(vars.urgency, vars.confidence).e);
+    }
+  }
+});
+
+test("out-of-scale inputs score exactly like their clamped values and stay finite", () => {
+  for (const vars of arbitraryDecisions(5000, 19)) {
+    const metrics = computeMetrics(vars);
+    assert.deepEqual(metrics, computeMetrics(clampVars(vars)));
+    for (const value of Object.values(metrics)) assert.ok(Number.isFinite(value));
+    assert.ok(Math.abs(metrics.return) <= 9 && Math.abs(metrics.stability) <= 9 && Math.abs(metrics.pressure) <= 9);
+    assert.ok(metrics.energy >= 1 && metrics.energy <= 100);
+  }
+});
+
+test("raising impact never lowers D-NAV and raising cost or risk never raises it", () => {
+  for (const profile of SCORING_PROFILES) {
+    for (const vars of arbitraryDecisions(2000, 7).map(clampVars)) {
+      const base = computeMetrics(vars, profile).dnav;
+      const bump = (key: (typeof DECISION_VAR_KEYS)[number]) =>
+        computeMetrics({ ...vars, [key]: Math.min(10, vars[key] + 1) }, profile).dnav;
+      assert.ok(bump("impact") >= base);
+      assert.ok(bump("cost") <= base);
+      assert.ok(bump("risk") <= base);
+    }
+  }
+});
+
+test("archetype keys cover all 27 sign combinations with distinct names", () => {
+  const signs = [-1, 0, 1];
+  const keys = signs.flatMap((p) => signs.flatMap((s) => signs.map((r) => `${p}|${s}|${r}`)));
+  assert.deepEqual([...keys].sort(), Object.keys(oneWordArchetypes).sort());
+  assert.equal(new Set(Object.values(oneWordArchetypes)).size, 27);
+
+  for (const key of keys) {
+    const [p, s, r] = key.split("|").map(Number);
+    assert.deepEqual(getArchetypeSignals(oneWordArchetypes[key]), { p, s, r });
+  }
+});
+
+test("every decision lands in a named archetype whose signals match its metrics", () => {
+  for (const profile of SCORING_PROFILES) {
+    for (const vars of everyDecision()) {
+      const metrics = computeMetrics(vars, profile);
+      const { name } = getArchetype(metrics, profile);
+      assert.equal(name, oneWordArchetypes[getArchetypeKey(metrics, profile)]);
+
+      const signals = getArchetypeSignals(name)!;
+      const band = profile.deadBands;
+      assert.equal(signals.r, metrics.return > band.return ? 1 : metrics.return < -band.return ? -1 : 0);
+      assert.equal(signals.p, metrics.pressure > band.pressure ? 1 : metrics.pressure < -band.pressure ? -1 : 0);
+      assert.equal(signals.s, metrics.stability > band.stability ? 1 : metrics.stability < -band.stability ? -1 : 0);
+    }
+  }
+});
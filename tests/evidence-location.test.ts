@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { POST as extractDecisions } from "../app/api/decision-extract/route";
+import type { DecisionExtractResponse } from "../app/api/decision-extract/schema";
+import { setExtractionCache } from "../lib/extractionCache";
+import { toIntakeCandidate } from "../lib/intake/decisionExtractStream";
+import { findQuoteSpan, itemsInSpan, locateQuote } from "../lib/intake/evidenceLocation";
+import { createFixtureReplayProvider } from "../lib/llm/fixtureReplay";
+import { setLlmProvider } from "../lib/llm/provider";
+
+// These tests need every request to reach the extractor; caching is covered in extraction-cache.test.ts.
+setExtractionCache(null);
+
+test("quotes are found ignoring case, line breaks, typographic quotes and a clamped ellipsis", () => {
+  const text = "Risk factors\nWe “expect”   capital\nspending of $10 billion in 2026.";
+  const span = findQuoteSpan(text, 'we "expect" capital spending of $10 BILLION...');
+  assert.ok(span);
+  assert.equal(text.slice(span.start, span.end), "We “expect”   capital\nspending of $10 billion");
+  assert.equal(findQuoteSpan(text, "capital spending of $12 billion"), null);
+  assert.equal(findQuoteSpan(text, "  …"), null);
+});
+
+test("locateQuote prefers the candidate's page and itemsInSpan maps a span onto text items", () => {
+  const pages = [
+    { page: 1, text: "We will hire 200 engineers." },
+    { page: 2, text: "As noted, we will hire 200 engineers." },
+  ];
+  assert.deepEqual(locateQuote(pages, "will hire 200 engineers", 2), { page: 2, start: 13, end: 36 });
+  assert.deepEqual(locateQuote(pages, "will hire 200 engineers"), { page: 1, start: 3, end: 26 });
+  assert.equal(locateQuote(pages, "will hire 300 engineers", 2), null);
+
+  const items = ["As noted, we", "will hire", "200 engineers."];
+  const span = findQuoteSpan(items.join(" "), "we will hire 200");
+  assert.ok(span);
+  assert.deepEqual(itemsInSpan(items, span), [
+    { index: 0, from: 10 / 12, to: 1 },
+    { index: 1, from: 0, to: 1 },
+    { index: 2, from: 0, to: 3 / 14 },
+  ]);
+});
+
+test("refined scores keep a location only when their evidence is in the document", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  const pageText =
+    "Tesla will begin volume production of the Cybercab at Gigafactory Texas in 2026, with 50% of capacity planned for the first half.";
+  const refined = {
+    candidates: [
+      {
+        id: "c1",
+        title: "Start Cybercab volume production",
+        strength: "hard",
+        category: "Operations",
+        decision: "Begin Cybercab volume production at Gigafactory Texas in 2026.",
+        rationale: "Stated commitment with a date.",
+        page: 1,
+        evidence: { page: 1, quote: pageText },
+        tags: ["cybercab"],
+        constraints: {
+          impact: { score: 8, evidence: "volume production of the Cybercab" },
+          cost: { score: 6, evidence: "a $5 billion capital plan" },
+          risk: { score: 5 },
+          urgency: { score: 7, evidence: "50% of capacity planned for the first half" },
+          confidence: { score: 8, evidence: "Tesla will begin" },
+        },
+      },
+    ],
+  };
+  setLlmProvider(createFixtureReplayProvider({ fixtures: [{ match: "Candidates JSON:", content: JSON.stringify(refined) }] }));
+
+  const response = await extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName: "Q4 letter", pages: [{ page: 1, text: pageText }] }),
+    }),
+  );
+  const body = (await response.json()) as DecisionExtractResponse;
+  const { constraints } = body.candidates[0];
+  assert.deepEqual(constraints.impact.location, { page: 1 });
+  assert.equal(constraints.cost.location, undefined);
+  assert.deepEqual(constraints.risk, { score: 5, evidence: pageText });
+
+  const intake = toIntakeCandidate(body.candidates[0]);
+  assert.deepEqual(Object.keys(intake.scoreEvidence ?? {}), ["impact", "urgency", "confidence"]);
+  assert.deepEqual(intake.scoreEvidence?.urgency, { quote: "50% of capacity planned for the first half", page: 1 });
+});
@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+
+import { PDFDocument } from "pdf-lib";
+
+import { GET } from "../app/api/reports/pdf/route";
+import type { DecisionEntry } from "../lib/calculations";
+import { buildExecutiveReportForDataset } from "../lib/executiveReport";
+import { renderExecutiveReportPdf } from "../lib/executiveReportPdf";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import type { DecisionVars } from "../src/lib/dnav/types";
+import type { DatasetState } from "../types/dataset";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 30);
+
+const makeDecision = (daysAgo: number, category: string, vars: DecisionVars): DecisionEntry => ({
+  ts: NOW - daysAgo * DAY,
+  name: `${category} decision ${daysAgo}`,
+  category,
+  ...vars,
+  ...computeMetrics(vars),
+});
+
+const decisions = [
+  makeDecision(1, "Pricing", { impact: 7, cost: 3, risk: 3, urgency: 4, confidence: 7 }),
+  makeDecision(3, "Pricing", { impact: 6, cost: 4, risk: 7, urgency: 9, confidence: 4 }),
+  makeDecision(10, "Hiring", { impact: 5, cost: 7, risk: 6, urgency: 8, confidence: 4 }),
+  makeDecision(20, "Product", { impact: 8, cost: 5, risk: 4, urgency: 6, confidence: 6 }),
+  makeDecision(60, "Product", { impact: 4, cost: 6, risk: 5, urgency: 5, confidence: 5 }),
+];
+
+// The minus sign falls outside WinAnsi and must not stop the standard fonts from encoding the title.
+const dataset: DatasetState = {
+  id: "acme",
+  label: "Acme",
+  meta: { companyName: "Acme − Holdings", periodLabel: "H1 2026 – review", scoringProfileId: "risk-averse" },
+  decisions: [...decisions].reverse(),
+};
+
+const sha = (bytes: Uint8Array) => createHash("sha256").update(bytes).digest("hex");
+
+test("the dataset report filters by window from the newest decision and uses the dataset's profile", () => {
+  const all = buildExecutiveReportForDataset(dataset, "all");
+  const recent = buildExecutiveReportForDataset(dataset, "7");
+  assert.equal(all.snapshot.rpsBaseline.totalDecisions, 5);
+  assert.equal(recent.snapshot.rpsBaseline.totalDecisions, 2);
+  assert.equal(recent.timeframeLabel, "Last 7 Days");
+  assert.deepEqual(
+    all.topCategories.map((category) => category.name),
+    ["Pricing", "Product", "Hiring"],
+  );
+  assert.deepEqual(
+    all.sortedArchetypes.map((entry) => entry.count),
+    [...all.sortedArchetypes.map((entry) => entry.count)].sort((a, b) => b - a),
+  );
+  assert.ok(all.systemDirective.length > 0);
+});
+
+test("rendering the same report twice produces identical single-page bytes", async () => {
+  const report = buildExecutiveReportForDataset(dataset, "30");
+  const first = await renderExecutiveReportPdf(report, { generatedAt: NOW });
+  const second = await renderExecutiveReportPdf(buildExecutiveReportForDataset(dataset, "30"), { generatedAt: NOW });
+  assert.equal(sha(first), sha(second));
+
+  const document = await PDFDocument.load(first, { updateMetadata: false });
+  assert.equal(document.getPageCount(), 1);
+  assert.deepEqual(document.getPage(0).getSize(), { width: 612, height: 792 });
+  assert.equal(document.getTitle(), "Acme − Holdings - Decision Orbit H1 2026 – review");
+  assert.equal(document.getCreationDate()?.getTime(), NOW);
+  assert.equal(document.getProducer(), "D-NAV");
+});
+
+test("output changes with the data and the stamp, and an empty window still renders one page", async () => {
+  const report = buildExecutiveReportForDataset(dataset, "all");
+  const baseline = sha(await renderExecutiveReportPdf(report, { generatedAt: NOW }));
+  assert.notEqual(sha(await renderExecutiveReportPdf(report, { generatedAt: NOW + DAY })), baseline);
+  assert.notEqual(
+    sha(await renderExecutiveReportPdf(buildExecutiveReportForDataset(dataset, "7"), { generatedAt: NOW })),
+    baseline,
+  );
+
+  const empty = buildExecutiveReportForDataset({ ...dataset, decisions: [] }, "all");
+  const document = await PDFDocument.load(await renderExecutiveReportPdf(empty, { generatedAt: NOW }));
+  assert.equal(document.getPageCount(), 1);
+});
+
+test("the pdf route rejects unknown windows before touching the store", async () => {
+  const response = await GET(new Request("http://localhost/api/reports/pdf?dataset=acme&window=365"));
+  assert.equal(response.status, 400);
+  assert.equal((await GET(new Request("http://localhost/api/reports/pdf?window=30"))).status, 400);
+});
@@ -0,0 +1,198 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { POST as extractDecisions } from "../app/api/decision-extract/route";
+import type { DecisionExtractResponse, DecisionExtractStreamEvent } from "../app/api/decision-extract/schema";
+import {
+  createFileExtractionCache,
+  createMemoryExtractionCache,
+  getExtractionCacheKey,
+  setExtractionCache,
+  type CachedExtraction,
+} from "../lib/extractionCache";
+import { readNdjson } from "../lib/intake/decisionExtractStream";
+import { createFixtureReplayProvider } from "../lib/llm/fixtureReplay";
+import { setLlmProvider } from "../lib/llm/provider";
+
+const pageText =
+  "Tesla will begin volume production of the Cybercab at Gigafactory Texas in 2026, with 50% of capacity planned for the first half.";
+
+const refined = {
+  candidates: [
+    {
+      id: "c1",
+      title: "Start Cybercab volume production",
+      strength: "hard",
+      category: "Operations",
+      decision: "Begin Cybercab volume production at Gigafactory Texas in 2026.",
+      rationale: "Stated commitment with a date.",
+      page: 1,
+      evidence: { page: 1, quote: pageText },
+      tags: ["cybercab"],
+    },
+  ],
+};
+
+const post = (docName: string, text: string, options: Record<string, unknown> = {}) =>
+  extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName, pages: [{ page: 1, text }], options }),
+    }),
+  );
+
+const postJson = async (docName: string, text: string, options?: Record<string, unknown>) =>
+  (await (await post(docName, text, options)).json()) as DecisionExtractResponse;
+
+test("cache keys ignore whitespace but change with the extractor version, options and model", () => {
+  const base = {
+    extractorVersion: "1",
+    pages: [{ page: 1, text: "We will open a plant." }],
+    maxCandidatesPerPage: 12,
+    provider: "openai",
+    model: "gpt-4o-mini",
+  };
+  const key = getExtractionCacheKey(base);
+  assert.equal(getExtractionCacheKey({ ...base, pages: [{ page: 1, text: "  We will open\na plant. " }] }), key);
+  assert.notEqual(getExtractionCacheKey({ ...base, extractorVersion: "2" }), key);
+  assert.notEqual(getExtractionCacheKey({ ...base, maxCandidatesPerPage: 6 }), key);
+  assert.notEqual(getExtractionCacheKey({ ...base, model: "gpt-4.1" }), key);
+  assert.notEqual(getExtractionCacheKey({ ...base, pages: [{ page: 2, text: "We will open a plant." }] }), key);
+});
+
+test("a re-upload is served from the cache until a refresh is forced", async (t) => {
+  t.after(() => {
+    setLlmProvider(undefined);
+    setExtractionCache(undefined);
+  });
+  const cache = createMemoryExtractionCache();
+  setExtractionCache(cache);
+  const provider = createFixtureReplayProvider({
+    fixtures: [{ match: "Candidates JSON:", content: JSON.stringify(refined), usage: { promptTokens: 900, completionTokens: 120 } }],
+  });
+  setLlmProvider(provider);
+
+  const first = await postJson("10-K.pdf", pageText);
+  assert.equal(first.meta.cache?.status, "miss");
+  assert.equal(typeof first.meta.cache?.cachedAt, "number");
+  assert.equal(first.meta.llm?.usage.totalTokens, 1020);
+
+  const second = await postJson("10-K (1).pdf", `  ${pageText}\n`);
+  assert.equal(provider.calls.length, 1);
+  assert.deepEqual(second.meta.cache, first.meta.cache && { ...first.meta.cache, status: "hit" });
+  assert.equal(second.doc.name, "10-K (1).pdf");
+  assert.deepEqual(second.candidates, first.candidates);
+  assert.equal(second.meta.llm, undefined);
+
+  const streamed: DecisionExtractStreamEvent[] = [];
+  for await (const event of readNdjson<DecisionExtractStreamEvent>((await post("10-K.pdf", pageText, { stream: true })).body!)) {
+    streamed.push(event);
+  }
+  assert.deepEqual(
+    streamed.map((event) => event.type),
+    ["start", "merged"],
+  );
+  assert.equal(streamed[1].type === "merged" && streamed[1].meta.cache?.status, "hit");
+
+  const refreshed = await postJson("10-K.pdf", pageText, { refresh: true });
+  assert.equal(provider.calls.length, 2);
+  assert.equal(refreshed.meta.cache?.status, "refresh");
+  assert.ok((refreshed.meta.cache?.cachedAt ?? 0) >= (first.meta.cache?.cachedAt ?? 0));
+});
+
+test("fallback results are not cached and a different model misses", async (t) => {
+  t.after(() => {
+    setLlmProvider(undefined);
+    setExtractionCache(undefined);
+  });
+  setExtractionCache(createMemoryExtractionCache());
+  setLlmProvider(createFixtureReplayProvider({ fixtures: [{ match: "Candidates JSON:", failure: "timeout" }] }));
+
+  const failed = await postJson("Q4 letter", pageText);
+  assert.equal(failed.meta.cache?.status, "miss");
+  assert.equal(failed.meta.cache?.cachedAt, undefined);
+
+  const provider = createFixtureReplayProvider({ fixtures: [{ match: "Candidates JSON:", content: JSON.stringify(refined) }] });
+  setLlmProvider(provider);
+  const retried = await postJson("Q4 letter", pageText);
+  assert.equal(retried.meta.cache?.status, "miss");
+  assert.equal(retried.candidates[0].id, "c1");
+
+  const otherModel = await postJson("Q4 letter", pageText, { model: "bigger-model" });
+  assert.equal(otherModel.meta.cache?.status, "miss");
+  assert.equal(provider.calls.length, 2);
+});
+
+test("the file cache survives a new adapter", async (t) => {
+  const directory = await mkdtemp(path.join(tmpdir(), "dnav-extract-cache-"));
+  t.after(async () => {
+    setLlmProvider(undefined);
+    setExtractionCache(undefined);
+    await rm(directory, { recursive: true, force: true });
+  });
+  setLlmProvider(null);
+  setExtractionCache(createFileExtractionCache(directory));
+
+  const first = await postJson("Q4 letter", pageText);
+  assert.equal(first.meta.cache?.status, "miss");
+  assert.deepEqual(await readdir(directory), [`${first.meta.cache?.key}.json`]);
+
+  const reopened = createFileExtractionCache(directory);
+  setExtractionCache(reopened);
+  assert.equal((await postJson("Q4 letter", pageText)).meta.cache?.status, "hit");
+});
+
+const cachedEntry = (key: string, cachedAt: number): CachedExtraction => ({
+  key,
+  extractorVersion: "2",
+  cachedAt,
+  body: { doc: { name: "Memo", pageCount: 1 }, candidates: [], meta: { pagesReceived: 1, totalChars: 0 } },
+});
+
+test("the memory cache evicts the least recently used entries and expired ones", async () => {
+  let clock = 1_000;
+  const cache = createMemoryExtractionCache({ maxEntries: 2, maxAgeMs: 500, now: () => clock });
+  await cache.put(cachedEntry("a", 1_000));
+  await cache.put(cachedEntry("b", 1_000));
+  assert.equal((await cache.get("a"))?.key, "a");
+  await cache.put(cachedEntry("c", 1_200));
+
+  assert.equal(await cache.get("b"), null);
+  assert.equal((await cache.get("a"))?.key, "a");
+  clock = 1_600;
+  assert.equal(await cache.get("a"), null);
+  assert.equal((await cache.get("c"))?.key, "c");
+});
+
+test("the file cache prunes least recently used files and drops expired entries on read", async (t) => {
+  const directory = await mkdtemp(path.join(tmpdir(), "dnav-extract-cache-"));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const start = Date.now();
+  let clock = start;
+  const cache = createFileExtractionCache(directory, { maxEntries: 2, maxAgeMs: 60_000, now: () => clock });
+
+  // Written a second apart so the pruning order does not depend on file system timestamp resolution.
+  for (const [index, key] of ["a", "b", "c"].entries()) {
+    await cache.put(cachedEntry(key, start));
+    const writtenAt = new Date(start - (2 - index) * 1_000);
+    await utimes(path.join(directory, `${key}.json`), writtenAt, writtenAt);
+  }
+  await cache.put(cachedEntry("d", start));
+  assert.deepEqual((await readdir(directory)).sort(), ["c.json", "d.json"]);
+
+  // A hit touches the file, so the entry read last outlives one written before it.
+  clock = start + 5_000;
+  assert.equal((await cache.get("c"))?.key, "c");
+  await cache.put(cachedEntry("e", start));
+  const kept = await readdir(directory);
+  assert.equal(kept.length, 2);
+  assert.ok(kept.includes("c.json"));
+
+  clock = start + 61_000;
+  assert.equal(await cache.get("c"), null);
+  assert.equal((await readdir(directory)).includes("c.json"), false);
+});
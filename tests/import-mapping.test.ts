@@ -0,0 +1,71 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  applyImportMapping,
+  detectColumnScale,
+  parseDateCell,
+  rescaleToScale,
+  suggestColumnMapping,
+  suggestMappingConfig,
+  toSheetPreview,
+} from "../lib/importMapping";
+
+test("suggestColumnMapping matches template and foreign headers", () => {
+  assert.deepEqual(suggestColumnMapping(["Date", "Decision Name", "Category", "Impact", "Cost", "Risk", "Urgency", "Confidence"]), {
+    date: "Date",
+    decisionName: "Decision Name",
+    category: "Category",
+    impact: "Impact",
+    cost: "Cost",
+    risk: "Risk",
+    urgency: "Urgency",
+    confidence: "Confidence",
+  });
+
+  const foreign = suggestColumnMapping(["Initiative", "Business Value (%)", "Effort", "Risk score", "Priority", "Certainty", "Created at"]);
+  assert.equal(foreign.decisionName, "Initiative");
+  assert.equal(foreign.impact, "Business Value (%)");
+  assert.equal(foreign.risk, "Risk score");
+  assert.equal(foreign.urgency, "Priority");
+  assert.equal(foreign.date, "Created at");
+});
+
+test("detectColumnScale and rescaleToScale map alternative scales onto 1-10", () => {
+  assert.equal(detectColumnScale([1, 5, 10]), null);
+  assert.deepEqual(detectColumnScale(["20", "85", 100]), { min: 0, max: 100 });
+  assert.equal(rescaleToScale(100, { min: 0, max: 100 }), 10);
+  assert.equal(rescaleToScale(0, { min: 0, max: 100 }), 1);
+  assert.equal(rescaleToScale(50, { min: 0, max: 100 }), 6);
+  assert.equal(rescaleToScale(14, null), 10);
+});
+
+test("parseDateCell honours the chosen day/month order", () => {
+  assert.equal(parseDateCell("03/04/2024", "dmy"), Date.UTC(2024, 3, 3));
+  assert.equal(parseDateCell("03/04/2024", "mdy"), Date.UTC(2024, 2, 4));
+  assert.equal(parseDateCell("25/12/2024"), Date.UTC(2024, 11, 25));
+  assert.equal(parseDateCell("Q3 2024"), Date.UTC(2024, 6, 1));
+  assert.equal(parseDateCell(45292), Date.UTC(2024, 0, 1));
+  assert.equal(parseDateCell("someday"), null);
+});
+
+test("applyImportMapping reports per-row errors and rescales scores", () => {
+  const preview = toSheetPreview([
+    ["Initiative", "Value", "Effort", "Risk", "Priority", "Certainty", "When"],
+    ["Open Berlin office", "80", "40", "30", "90", "70", "2024-05-01"],
+    ["", "10", "10", "10", "10", "10", ""],
+    ["Rebrand", "n/a", "20", "20", "20", "20", "soon"],
+    ["", "", "", "", "", "", ""],
+  ]);
+  const config = suggestMappingConfig(preview);
+  const rows = applyImportMapping(preview, config, 1_000);
+
+  assert.equal(rows.length, 3);
+  assert.equal(rows[0].decision?.impact, 8);
+  assert.equal(rows[0].decision?.ts, Date.UTC(2024, 4, 1));
+  assert.equal(rows[0].decision?.category, "General");
+  assert.deepEqual(rows[1].errors, ["Decision name is empty."]);
+  assert.equal(rows[2].decision, null);
+  assert.match(rows[2].errors[0], /Impact "n\/a" is not a number/);
+  assert.match(rows[2].warnings[0], /Date "soon" was not recognized/);
+});
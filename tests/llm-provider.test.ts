@@ -0,0 +1,206 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { POST as extractDecisions } from "../app/api/decision-extract/route";
+import { setExtractionCache } from "../lib/extractionCache";
+import { generateArchetypeSummary, generateCompanySummary } from "../lib/judgmentSummaryLLM";
+import { createFixtureReplayProvider, getFixtureKey } from "../lib/llm/fixtureReplay";
+import { createLocalHttpProvider, type LlmFetch } from "../lib/llm/localHttp";
+import { resolveLlmConfig, setLlmProvider } from "../lib/llm/provider";
+import type { LlmChatRequest } from "../lib/llm/types";
+import type { CompanySummaryInput } from "../types/company";
+
+// These tests need every request to reach the extractor; caching is covered in extraction-cache.test.ts.
+setExtractionCache(null);
+
+const request: LlmChatRequest = {
+  json: true,
+  messages: [
+    { role: "system", content: "You are terse." },
+    { role: "user", content: "Summarize: pricing moved twice this quarter." },
+  ],
+};
+
+test("config picks the backend from LLM_PROVIDER and keeps OpenAI env names as fallbacks", () => {
+  assert.equal(resolveLlmConfig({}).provider, "none");
+
+  const openai = resolveLlmConfig({ OPENAI_API_KEY: "sk-test", OPENAI_MODEL: "gpt-4.1-mini" });
+  assert.equal(openai.provider, "openai");
+  assert.equal(openai.model, "gpt-4.1-mini");
+  assert.equal(openai.timeoutMs, 35_000);
+
+  const local = resolveLlmConfig({ LLM_PROVIDER: "Local", OPENAI_MODEL: "gpt-4o", LLM_TIMEOUT_MS: "5000" });
+  assert.deepEqual(local, {
+    provider: "local",
+    model: "llama3.1",
+    apiKey: undefined,
+    baseUrl: "http://localhost:11434",
+    timeoutMs: 5000,
+    fixturesPath: undefined,
+  });
+
+  assert.equal(resolveLlmConfig({ LLM_PROVIDER: "anthropic-ish" }).provider, "none");
+  assert.equal(resolveLlmConfig({ LLM_PROVIDER: "none", OPENAI_API_KEY: "sk-test" }).provider, "none");
+});
+
+test("fixture replay answers exact keys before substring matches and is repeatable", async () => {
+  const provider = createFixtureReplayProvider({
+    fixtures: [
+      { match: "pricing", content: '{"summary":"by match"}' },
+      { key: getFixtureKey(request), content: '{"summary":"by key"}', usage: { promptTokens: 12, completionTokens: 4 } },
+      { match: "timeout please", failure: "timeout" },
+    ],
+  });
+
+  const first = await provider.chat(request);
+  const second = await provider.chat({ ...request, model: "other", timeoutMs: 1 });
+  assert.deepEqual(first, second.ok ? { ...second, model: "fixture" } : second);
+  assert.ok(first.ok);
+  assert.equal(first.content, '{"summary":"by key"}');
+  assert.deepEqual(first.usage, { promptTokens: 12, completionTokens: 4, totalTokens: 16, estimated: false });
+
+  const byMatch = await provider.chat({ ...request, json: false });
+  assert.ok(byMatch.ok);
+  assert.equal(byMatch.content, '{"summary":"by match"}');
+  assert.equal(byMatch.usage.estimated, true);
+
+  const failed = await provider.chat({ messages: [{ role: "user", content: "timeout please" }] });
+  assert.equal(failed.ok ? null : failed.reason, "timeout");
+  const missing = await provider.chat({ messages: [{ role: "user", content: "unrelated" }] });
+  assert.equal(missing.ok ? null : missing.reason, "no_fixture");
+  assert.equal(provider.calls.length, 5);
+});
+
+test("the local adapter speaks the Ollama chat API and reports its token counts", async () => {
+  const sent: Array<{ url: string; body: Record<string, unknown> }> = [];
+  const fetchStub: LlmFetch = async (url, init) => {
+    sent.push({ url, body: JSON.parse(String(init.body)) });
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({ model: "llama3.1:8b", message: { content: "{}" }, prompt_eval_count: 30, eval_count: 2 }),
+    };
+  };
+  const provider = createLocalHttpProvider({ baseUrl: "http://gpu-box:11434/", model: "llama3.1", fetch: fetchStub });
+  const result = await provider.chat({ ...request, temperature: 0.1, maxTokens: 64 });
+
+  assert.equal(sent[0].url, "http://gpu-box:11434/api/chat");
+  assert.equal(sent[0].body.format, "json");
+  assert.equal(sent[0].body.stream, false);
+  assert.deepEqual(sent[0].body.options, { temperature: 0.1, num_predict: 64 });
+  assert.ok(result.ok);
+  assert.equal(result.model, "llama3.1:8b");
+  assert.deepEqual(result.usage, { promptTokens: 30, completionTokens: 2, totalTokens: 32, estimated: false });
+
+  const failing = createLocalHttpProvider({
+    baseUrl: "http://gpu-box:11434",
+    model: "llama3.1",
+    fetch: async () => ({ ok: false, status: 503, json: async () => ({}) }),
+  });
+  const unavailable = await failing.chat(request);
+  assert.equal(unavailable.ok ? null : unavailable.reason, "http_error");
+});
+
+test("a backend that outlives the timeout is reported as a timeout", async () => {
+  const hanging: LlmFetch = (_url, init) =>
+    new Promise((_resolve, reject) => {
+      // AbortSignal.timeout does not keep the event loop alive, so the stub holds it open until the abort lands.
+      const pending = setTimeout(() => undefined, 60_000);
+      init.signal?.addEventListener("abort", () => {
+        clearTimeout(pending);
+        reject(init.signal?.reason);
+      });
+    });
+  const provider = createLocalHttpProvider({ baseUrl: "http://localhost:11434", model: "llama3.1", fetch: hanging });
+  const result = await provider.chat({ ...request, timeoutMs: 5 });
+  assert.equal(result.ok ? null : result.reason, "timeout");
+});
+
+const pageText =
+  "Tesla will begin volume production of the Cybercab at Gigafactory Texas in 2026, with 50% of capacity planned for the first half.";
+
+const postExtract = () =>
+  extractDecisions(
+    new Request("http://localhost/api/decision-extract", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ docName: "Q4 letter", pages: [{ page: 1, text: pageText }] }),
+    }),
+  );
+
+test("the refine step runs through the configured provider and reports token usage", async (t) => {
+  t.after(() => setLlmProvider(undefined));
+  const refined = {
+    candidates: [
+      {
+        id: "c1",
+        title: "Start Cybercab volume production",
+        strength: "hard",
+        category: "Operations",
+        decision: "Begin Cybercab volume production at Gigafactory Texas in 2026.",
+        rationale: "Stated commitment with a date.",
+        page: 1,
+        evidence: { page: 1, quote: pageText },
+        tags: ["cybercab"],
+      },
+    ],
+  };
+  const provider = createFixtureReplayProvider({
+    fixtures: [{ match: "Candidates JSON:", content: JSON.stringify(refined), usage: { promptTokens: 900, completionTokens: 120 } }],
+  });
+  setLlmProvider(provider);
+
+  const body = await (await postExtract()).json();
+  assert.equal(provider.calls.length, 1);
+  assert.equal(provider.calls[0].json, true);
+  assert.equal(body.candidates[0].title, "Start Cybercab volume production");
+  assert.deepEqual(body.meta.llm, {
+    provider: "fixture",
+    model: "fixture",
+    usage: { promptTokens: 900, completionTokens: 120, totalTokens: 1020, estimated: false },
+  });
+  assert.equal(body.meta.warnings, undefined);
+
+  setLlmProvider(createFixtureReplayProvider({ fixtures: [{ match: "Candidates JSON:", failure: "timeout" }] }));
+  const fallback = await (await postExtract()).json();
+  assert.ok(fallback.candidates.length > 0);
+  assert.ok(fallback.candidates[0].id.startsWith("local-"));
+  assert.deepEqual(fallback.meta.warnings, ["Refine unavailable — showing local results", "Model timeout"]);
+
+  setLlmProvider(null);
+  const offline = await (await postExtract()).json();
+  assert.deepEqual(offline.meta.warnings, ["Refine unavailable — showing local results"]);
+});
+
+const companyInput: CompanySummaryInput = {
+  company: { companyName: "Acme", timeframeLabel: "FY26", totalDecisions: 12, avgReturn: 1.5, avgPressure: -0.5, avgStability: 2 },
+  topCategories: [{ name: "Pricing", count: 6, share: 50, avgDNAV: 31 }],
+  archetypes: [{ name: "Advance", count: 5, avgR: 2, avgP: 0, avgS: 3, avgDNAV: 33, topCategories: ["Pricing"] }],
+};
+
+test("summaries use the provider's JSON when it validates and fall back to templated copy otherwise", async () => {
+  const good = createFixtureReplayProvider({
+    fixtures: [
+      {
+        match: '"companyName": "Acme"',
+        content: '```json\n{"summary":"Acme plans calmly.","strengths":["Pricing"],"vulnerabilities":[]}\n```',
+      },
+    ],
+  });
+  assert.deepEqual(await generateCompanySummary(companyInput, good), {
+    summary: "Acme plans calmly.",
+    strengths: ["Pricing"],
+    vulnerabilities: [],
+  });
+
+  const malformed = createFixtureReplayProvider({ fixtures: [{ match: "Acme", content: '{"summary":42}' }] });
+  const fallback = await generateCompanySummary(companyInput, malformed);
+  assert.match(fallback.summary, /^Acme \(FY26\) shows an average Return of 1\.50/);
+
+  const archetype = await generateArchetypeSummary(
+    { company: companyInput.company, archetype: companyInput.archetypes[0], sampleTitles: [] },
+    null,
+  );
+  assert.equal(archetype.title, "Advance – portfolio signal");
+  assert.equal(archetype.isStrength, true);
+});
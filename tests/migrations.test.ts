@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  DATASETS_SCHEMA_VERSION,
+  detectDatasetsSchemaVersion,
+  migrateStoredDatasets,
+  normalizeDecisionAliases,
+} from "../lib/migrations";
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+
+const legacyEntry = (ts: number) =>
+  ({ ts, name: `Legacy ${ts}`, category: "Ops", impact: 6, cost: 2, risk: 3, urgency: 4, confidence: 5 }) as DecisionEntry;
+
+test("detectDatasetsSchemaVersion treats unversioned payloads as version 1", () => {
+  assert.equal(detectDatasetsSchemaVersion({ datasetsState: null, legacyLog: [] }), null);
+  assert.equal(detectDatasetsSchemaVersion({ datasetsState: null, legacyLog: [legacyEntry(1)] }), 1);
+  assert.equal(detectDatasetsSchemaVersion({ datasetsState: { datasets: [] }, legacyLog: [] }), 1);
+  assert.equal(detectDatasetsSchemaVersion({ datasetsState: { schemaVersion: 3, datasets: [] }, legacyLog: [] }), 3);
+});
+
+test("migrateStoredDatasets folds the legacy log into an empty dataset and reports it", () => {
+  const { state, report } = migrateStoredDatasets(
+    {
+      datasetsState: {
+        datasets: [{ id: "dataset-1", label: "Dataset 1", meta: { companyName: "Acme" }, decisions: [] }],
+        activeDatasetId: "dataset-1",
+      },
+      legacyLog: [legacyEntry(1), legacyEntry(2)],
+    },
+    100,
+  );
+
+  assert.ok(state && report);
+  assert.equal(state.schemaVersion, DATASETS_SCHEMA_VERSION);
+  assert.equal(state.datasets[0].decisions.length, 2);
+  assert.equal(state.datasets[0].meta.periodLabel, "");
+  assert.equal(state.datasets[0].decisions[0].return, 4);
+  assert.deepEqual(
+    report.steps.map((step) => [step.from, step.to]),
+    [
+      [1, 2],
+      [2, 3],
+    ],
+  );
+  assert.match(report.steps[0].changes[0], /Moved 2 legacy log decisions/);
+});
+
+test("migrateStoredDatasets leaves current payloads alone", () => {
+  const payload = { schemaVersion: DATASETS_SCHEMA_VERSION, datasets: [], activeDatasetId: null };
+  const { report } = migrateStoredDatasets({ datasetsState: payload, legacyLog: [legacyEntry(1)] });
+  assert.equal(report, null);
+});
+
+test("normalizeDecisionAliases recomputes metrics from the variables and drops aliases", () => {
+  const raw = {
+    ts: 1,
+    name: "Alias",
+    category: "Ops",
+    impact: "7",
+    cost: 3,
+    risk: 2,
+    urgency: 5,
+    confidence: 6,
+    R: 9,
+    "D-NAV": "31",
+    DNAV: 30,
+  } as unknown as DecisionEntry;
+
+  const { decision, fixes } = normalizeDecisionAliases(raw);
+  assert.ok(fixes > 0);
+  assert.equal(decision.impact, 7);
+  assert.equal(decision.return, 4);
+  assert.equal(decision.dnav, computeMetrics({ impact: 7, cost: 3, risk: 2, urgency: 5, confidence: 6 }).dnav);
+  assert.equal(decision.stability, 4);
+  assert.equal("R" in decision, false);
+  assert.equal("DNAV" in decision, false);
+});
+
+test("normalizeDecisionAliases keeps alias metrics when variables are missing", () => {
+  const raw = { ts: 1, name: "Partial", category: "Ops", impact: 7, R: 9, "D-NAV": "31" } as unknown as DecisionEntry;
+
+  const { decision } = normalizeDecisionAliases(raw);
+  assert.equal(decision.return, 9);
+  assert.equal(decision.dnav, 31);
+});
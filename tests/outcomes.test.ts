@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import {
+  getDueResolutions,
+  parseResolutionWindowDays,
+  resolveDecisionOutcome,
+  summarizeForecastErrors,
+} from "../lib/outcomes";
+import { buildJudgmentDashboard } from "../utils/judgmentDashboard";
+
+const msInDay = 24 * 60 * 60 * 1000;
+
+const buildDecision = (ts: number, overrides: Partial<DecisionEntry> = {}): DecisionEntry => {
+  const vars = { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 6 };
+  return { ts, name: `Decision ${ts}`, category: "Product", ...vars, ...computeMetrics(vars), ...overrides };
+};
+
+test("parseResolutionWindowDays understands numbers and unit labels", () => {
+  assert.equal(parseResolutionWindowDays(30), 30);
+  assert.equal(parseResolutionWindowDays("2w"), 14);
+  assert.equal(parseResolutionWindowDays("3 months"), 90);
+  assert.equal(parseResolutionWindowDays("soon"), null);
+  assert.equal(parseResolutionWindowDays(undefined), null);
+});
+
+test("getDueResolutions returns unresolved decisions past their window", () => {
+  const now = 100 * msInDay;
+  const due = buildDecision(10 * msInDay, { resolutionWindow: 30 });
+  const notYet = buildDecision(90 * msInDay, { resolutionWindow: 30 });
+  const resolved = resolveDecisionOutcome(buildDecision(5 * msInDay, { resolutionWindow: 30 }), {
+    impact: 6,
+    cost: 4,
+    risk: 4,
+  });
+
+  assert.deepEqual(
+    getDueResolutions([notYet, due, resolved], now).map((d) => d.ts),
+    [due.ts],
+  );
+});
+
+test("summarizeForecastErrors reports realized minus forecast per variable and archetype", () => {
+  const summary = summarizeForecastErrors([
+    {
+      archetype: "Build",
+      impact0: 8,
+      cost0: 3,
+      risk0: 4,
+      confidence0: 6,
+      outcome: { impact: 5, cost: 4, risk: 6, recordedAt: 1 },
+    },
+    { archetype: "Build", impact0: 6, cost0: 2, risk0: 3, confidence0: 5, outcome: null },
+  ]);
+
+  assert.equal(summary.resolvedCount, 1);
+  const byKey = Object.fromEntries(summary.variables.map((v) => [v.key, v.bias]));
+  assert.equal(byKey.impact, -3);
+  assert.equal(byKey.cost, 1);
+  assert.equal(byKey.return, -4);
+  assert.equal(byKey.stability, -2);
+  assert.equal(summary.archetypes[0].archetype, "Build");
+  assert.equal(summary.archetypes[0].mae, 4);
+});
+
+test("learning and hygiene metrics pick up realized outcomes", () => {
+  const resolved = resolveDecisionOutcome(buildDecision(2 * msInDay), { impact: 3, cost: 6, risk: 4 }, 3 * msInDay);
+  const dashboard = buildJudgmentDashboard([resolved, buildDecision(msInDay)]);
+
+  assert.equal(dashboard.learning.resolvedCount, 1);
+  assert.equal(dashboard.learning.realizedWinRate, 0);
+  assert.equal(dashboard.learning.returnForecastBias, -7);
+  assert.equal(dashboard.hygiene.realizedReturnDebt, 3);
+  assert.equal(dashboard.learning.winRate, 100);
+});
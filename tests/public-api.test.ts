@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { buildOpenApiDocument } from "../app/api/v1/openapi";
+import { POST as postMetrics } from "../app/api/v1/metrics/route";
+import {
+  compareRequestSchema,
+  compareResponseSchema,
+  metricsResponseSchema,
+  nudgeRequestSchema,
+  nudgeResponseSchema,
+} from "../app/api/v1/schema";
+import { getArchetype } from "../src/lib/dnav/archetypes";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { buildCompareReport, buildMetricsReport, buildNudgeReport, runPublicApiRequest } from "../lib/publicApi";
+import { getScoringProfile } from "../lib/scoringProfiles";
+
+const fragile = { impact: 6, cost: 4, risk: 7, urgency: 9, confidence: 4 };
+const steady = { impact: 7, cost: 3, risk: 3, urgency: 5, confidence: 7 };
+
+const post = (body: unknown) =>
+  postMetrics(
+    new Request("http://localhost/api/v1/metrics", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+
+test("metrics route scores one decision or a batch in request order", async () => {
+  const single = await post({ vars: fragile });
+  assert.equal(single.status, 200);
+  const { profileId, result } = await single.json();
+  assert.equal(profileId, "standard");
+  assert.deepEqual(result.metrics, computeMetrics(fragile));
+  assert.equal(result.archetype.name, getArchetype(computeMetrics(fragile)).name);
+  assert.equal(result.energyTier.short, "moderate");
+  assert.equal(result.judgmentSignal.key, "fragileExecution");
+  assert.equal(result.readout.condition, result.judgmentSignal.label);
+  assert.ok(metricsResponseSchema.safeParse({ profileId, result }).success);
+
+  const batch = await post({ profileId: "risk-averse", items: [{ id: "a", vars: steady }, { id: "b", vars: fragile }] });
+  const body = await batch.json();
+  assert.deepEqual(
+    body.results.map((item: { id: string }) => item.id),
+    ["a", "b"],
+  );
+  assert.deepEqual(body.results[0].metrics, computeMetrics(steady, getScoringProfile("risk-averse")));
+  assert.ok(metricsResponseSchema.safeParse(body).success);
+});
+
+test("metrics route rejects out-of-scale variables, unknown profiles and oversized batches", async () => {
+  assert.equal((await post({ vars: { ...steady, risk: 11 } })).status, 400);
+  assert.equal((await post({ profileId: "aggressive", vars: steady })).status, 400);
+  assert.equal((await post({ items: Array.from({ length: 101 }, () => ({ vars: steady })) })).status, 400);
+  assert.equal((await post({ items: [] })).status, 400);
+});
+
+test("compare and nudge wrap the D-NAV engines with the requested profile", () => {
+  const compareRequest = compareRequestSchema.parse({
+    profileId: "cost-disciplined",
+    items: [{ baseline: { vars: fragile }, candidate: { label: "Revised", vars: steady } }],
+  });
+  const compared = runPublicApiRequest(compareRequest, buildCompareReport);
+  assert.ok("results" in compared);
+  const [comparison] = compared.results;
+  assert.equal(comparison.candidate.label, "Revised");
+  assert.equal(comparison.baseline.label, "Baseline");
+  assert.equal(comparison.deltas.find((delta) => delta.metric === "pressure")?.delta, -7);
+  assert.equal(comparison.candidate.metrics.merit, buildMetricsReport({ vars: steady }, getScoringProfile("cost-disciplined")).metrics.merit);
+  assert.ok(compareResponseSchema.safeParse(compared).success);
+
+  const nudgeRequest = nudgeRequestSchema.parse({ vars: fragile, goal: "reduce-pressure" });
+  const nudged = runPublicApiRequest(nudgeRequest, buildNudgeReport);
+  assert.ok("result" in nudged);
+  assert.ok(nudged.result.nudge);
+  assert.ok(nudged.result.nudge.afterMetrics.pressure < nudged.result.nudge.beforeMetrics.pressure);
+  assert.equal(nudged.result.copy?.title, "Best feasible nudge");
+  assert.ok(nudgeResponseSchema.safeParse(nudged).success);
+});
+
+test("the OpenAPI document lists every endpoint and resolves its schema references", () => {
+  const document = buildOpenApiDocument();
+  assert.deepEqual(Object.keys(document.paths), ["/api/v1/metrics", "/api/v1/compare", "/api/v1/nudge"]);
+
+  const refs = JSON.stringify(document).match(/#\/components\/schemas\/[A-Za-z]+/g) ?? [];
+  assert.ok(refs.length > 0);
+  for (const ref of new Set(refs)) {
+    assert.ok(ref.split("/").at(-1)! in document.components.schemas, `${ref} is missing`);
+  }
+  assert.deepEqual(document.components.schemas.DecisionVars.required, ["impact", "cost", "risk", "urgency", "confidence"]);
+});
@@ -0,0 +1,110 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry, DecisionRating } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { analyzeRaterDisagreement, getDecisionRatings } from "../lib/judgment/raterDisagreement";
+
+const base = { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 6 };
+
+const rating = (rater: string, ratedAt: number, overrides: Partial<DecisionRating> = {}): DecisionRating => ({
+  rater,
+  ratedAt,
+  ...base,
+  ...overrides,
+});
+
+const buildDecision = (ts: number, ratings: DecisionRating[]): DecisionEntry => ({
+  ts,
+  name: `Decision ${ts}`,
+  category: "Product",
+  ...base,
+  ...computeMetrics(base),
+  ratings,
+});
+
+test("a rater who keeps rating risk low is flagged with a negative bias", () => {
+  const decisions = [1, 2, 3, 4].map((ts) =>
+    buildDecision(ts, [
+      rating("Ana", ts * 10, { risk: 6 }),
+      rating("Ben", ts * 10, { risk: 6 }),
+      rating("Cy", ts * 10, { risk: 4 }),
+    ]),
+  );
+  const report = analyzeRaterDisagreement(decisions);
+  const cy = report.raters.find((rater) => rater.rater === "Cy");
+  const ana = report.raters.find((rater) => rater.rater === "Ana");
+
+  assert.equal(report.ratedDecisionCount, 4);
+  assert.deepEqual(cy?.biases.find((bias) => bias.variable === "risk"), {
+    variable: "risk",
+    bias: -2,
+    count: 4,
+    flagged: true,
+  });
+  assert.equal(ana?.biases.find((bias) => bias.variable === "risk")?.bias, 1);
+  assert.equal(ana?.biases.find((bias) => bias.variable === "impact")?.flagged, false);
+  assert.equal(report.spreads.find((spread) => spread.variable === "risk")?.meanRange, 2);
+  assert.equal(report.spreads.find((spread) => spread.variable === "impact")?.meanRange, 0);
+});
+
+test("the variable that splits the archetype is ranked as the main driver", () => {
+  // Raters agree on everything except cost, which decides whether Return is positive or negative.
+  const decisions = [1, 2].map((ts) =>
+    buildDecision(ts, [rating("Ana", ts, { impact: 6, cost: 2 }), rating("Ben", ts, { impact: 6, cost: 9 })]),
+  );
+  const report = analyzeRaterDisagreement(decisions);
+
+  assert.equal(report.splitDecisionCount, 2);
+  assert.equal(report.drivers[0].variable, "cost");
+  assert.equal(report.drivers[0].decisionsResolved, 2);
+  assert.ok(report.drivers[0].agreementGain > 0);
+  assert.equal(report.drivers.find((driver) => driver.variable === "urgency")?.agreementGain, 0);
+});
+
+test("bias trend tracks a rater drifting away from the group", () => {
+  const decisions = [1, 2, 3, 4].map((ts) =>
+    buildDecision(ts, [rating("Ana", ts, { confidence: 5 + ts }), rating("Ben", ts, { confidence: 5 })]),
+  );
+  const ana = analyzeRaterDisagreement(decisions).raters.find((rater) => rater.rater === "Ana");
+
+  assert.deepEqual(
+    ana?.series.map((point) => point.deviations.confidence),
+    [1, 2, 3, 4],
+  );
+  assert.equal(ana?.trend.confidence, 1);
+  assert.equal(ana?.trend.risk, 0);
+});
+
+test("single-rater decisions are ignored and repeat ratings keep the latest", () => {
+  const decision = buildDecision(1, [rating("Ana", 1, { impact: 2 }), rating(" Ana ", 5, { impact: 9 })]);
+  assert.deepEqual(
+    getDecisionRatings(decision).map((entry) => [entry.rater, entry.impact]),
+    [["Ana", 9]],
+  );
+  const report = analyzeRaterDisagreement([decision, buildDecision(2, [])]);
+  assert.equal(report.ratedDecisionCount, 0);
+  assert.deepEqual(report.raters, []);
+  assert.equal(report.spreads[0].meanStdDev, 0);
+});
+
+test("raters are keyed on their id so renames merge and namesakes stay apart", () => {
+  const decisions = [1, 2].map((ts) =>
+    buildDecision(ts, [
+      rating(ts === 1 ? "Ana" : "Ana K.", ts, { raterId: "ana@example.com", risk: 2 }),
+      rating("Sam", ts, { raterId: "guest:1", risk: 6 }),
+      rating("Sam", ts, { raterId: "guest:2", risk: 7 }),
+    ]),
+  );
+  const report = analyzeRaterDisagreement(decisions);
+
+  assert.deepEqual(
+    report.raters.map((rater) => [rater.raterId, rater.rater, rater.decisionCount]),
+    [
+      ["ana@example.com", "Ana K.", 2],
+      ["guest:1", "Sam", 2],
+      ["guest:2", "Sam", 2],
+    ],
+  );
+  assert.equal(report.raters[0].biases.find((bias) => bias.variable === "risk")?.bias, -4.5);
+});
@@ -0,0 +1,73 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { clearDecisionRescores, getLatestRescore, rescoreDecision } from "../lib/rescore";
+import { buildJudgmentDashboard } from "../utils/judgmentDashboard";
+
+const buildDecision = (ts: number, overrides: Partial<DecisionEntry> = {}): DecisionEntry => {
+  const vars = { impact: 7, cost: 3, risk: 4, urgency: 5, confidence: 8 };
+  return { ts, name: `Decision ${ts}`, category: "Product", ...vars, ...computeMetrics(vars), ...overrides };
+};
+
+test("re-scoring pins the original sliders in *0 and the latest sliders in *1", () => {
+  const first = rescoreDecision(
+    buildDecision(1),
+    { impact: 6, cost: 4, risk: 6, urgency: 5, confidence: 5, note: "  Vendor slipped  " },
+    10,
+  );
+  const second = rescoreDecision(first, { impact: 5, cost: 4, risk: 7, urgency: 6, confidence: 4 }, 20);
+
+  assert.equal(second.impact, 7);
+  assert.equal(second.dnav, buildDecision(1).dnav);
+  assert.deepEqual(
+    [second.impact0, second.cost0, second.risk0, second.urgency0, second.confidence0],
+    [7, 3, 4, 5, 8],
+  );
+  assert.deepEqual([second.return0, second.pressure0, second.stability0], [4, -3, 4]);
+  assert.deepEqual(
+    [second.impact1, second.cost1, second.risk1, second.urgency1, second.confidence1],
+    [5, 4, 7, 6, 4],
+  );
+  assert.deepEqual([second.return1, second.pressure1, second.stability1], [1, 2, -3]);
+  assert.deepEqual(
+    second.rescores?.map((entry) => [entry.recordedAt, entry.note]),
+    [
+      [10, "Vendor slipped"],
+      [20, undefined],
+    ],
+  );
+  assert.equal(getLatestRescore(second)?.recordedAt, 20);
+});
+
+test("imported baseline columns win over the live sliders and inputs are clamped", () => {
+  const rescored = rescoreDecision(buildDecision(1, { confidence0: 9 }), {
+    impact: 14,
+    cost: 0,
+    risk: 3.6,
+    urgency: 5,
+    confidence: 5,
+  });
+
+  assert.equal(rescored.confidence0, 9);
+  assert.deepEqual([rescored.impact1, rescored.cost1, rescored.risk1], [10, 1, 4]);
+});
+
+test("re-scores feed the drift insights and clearing switches them off again", () => {
+  const decisions = [
+    rescoreDecision(buildDecision(1), { impact: 7, cost: 3, risk: 6, urgency: 5, confidence: 6 }),
+    rescoreDecision(buildDecision(2), { impact: 8, cost: 3, risk: 4, urgency: 5, confidence: 8 }),
+    buildDecision(3),
+  ];
+
+  const { drift } = buildJudgmentDashboard(decisions);
+  assert.equal(drift.hasData, true);
+  assert.equal(drift.biasIndices.overconfidence, 2);
+  assert.equal(drift.biasIndices.riskUnder, 2);
+  assert.deepEqual(drift.positiveDrifts, ["Decision 2"]);
+
+  const cleared = decisions.map(clearDecisionRescores);
+  assert.equal(cleared[0].rescores, undefined);
+  assert.equal(buildJudgmentDashboard(cleared).drift.hasData, false);
+});
@@ -0,0 +1,160 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import {
+  createFileReviewSessionStore,
+  createMemoryReviewSessionStore,
+  updateReviewSession,
+} from "../lib/reviewSessionStore";
+import {
+  MAX_REVIEW_PARTICIPANTS,
+  analyzeReviewScores,
+  createReviewSession,
+  joinReviewSession,
+  setReviewSessionStatus,
+  submitReviewScore,
+  toReviewSessionView,
+  type ReviewSession,
+} from "../lib/reviewSessions";
+
+const join = (session: ReviewSession, id: string, name: string, now: number) => {
+  const result = joinReviewSession(session, { id, raterId: `rater-${id}`, name }, now);
+  assert.ok(result.ok);
+  return result.session;
+};
+
+const open = () => {
+  let session = createReviewSession({ title: " Expand to Berlin " }, "fac@example.com", "s1", 1);
+  session = join(session, "p-ana", "Ana", 2);
+  session = join(session, "p-ben", "", 3);
+  return session;
+};
+
+const score = (session: ReviewSession, participantId: string, vars: Partial<Record<string, number>>) => {
+  const result = submitReviewScore(
+    session,
+    participantId,
+    { impact: 5, cost: 5, risk: 5, urgency: 5, confidence: 5, ...vars },
+    10,
+  );
+  assert.ok(result.ok);
+  return result.session;
+};
+
+test("scores stay blind until the facilitator reveals them", () => {
+  let session = score(open(), "p-ana", { impact: 9 });
+  const anaView = toReviewSessionView(session, { participantId: "p-ana" });
+
+  assert.equal(session.title, "Expand to Berlin");
+  assert.deepEqual(
+    anaView.participants.map((participant) => [participant.name, participant.submitted, participant.isYou]),
+    [
+      ["Ana", true, true],
+      ["Participant 2", false, false],
+    ],
+  );
+  assert.equal(anaView.ownScore?.impact, 9);
+  assert.equal(anaView.analysis, null);
+  assert.equal(toReviewSessionView(session, { participantId: "p-ben" }).ownScore, null);
+
+  assert.deepEqual(setReviewSessionStatus(session, "fac@example.com", "revealed", 11), {
+    ok: false,
+    reason: "too_few_scores",
+  });
+  session = score(session, "p-ben", { impact: 3 });
+  assert.deepEqual(setReviewSessionStatus(session, "p-ana", "revealed", 11), { ok: false, reason: "forbidden" });
+
+  const revealed = setReviewSessionStatus(session, "fac@example.com", "revealed", 12);
+  assert.ok(revealed.ok);
+  const view = toReviewSessionView(revealed.session, { userId: "fac@example.com" });
+  assert.equal(view.isFacilitator, true);
+  assert.deepEqual(view.analysis?.spreads[0], { variable: "impact", min: 3, max: 9, mean: 6, stdDev: 3, values: [9, 3] });
+  assert.deepEqual(
+    view.analysis?.participants.map((participant) => [participant.name, participant.raterId, participant.submittedAt]),
+    [
+      ["Ana", "rater-p-ana", 10],
+      ["Participant 2", "rater-p-ben", 10],
+    ],
+  );
+  assert.deepEqual(submitReviewScore(revealed.session, "p-ana", { impact: 1, cost: 1, risk: 1, urgency: 1, confidence: 1 }, 13), {
+    ok: false,
+    reason: "closed",
+  });
+});
+
+test("only joined participants can score and scores are clamped to the slider range", () => {
+  const session = open();
+  assert.deepEqual(submitReviewScore(session, "p-stranger", { impact: 5, cost: 5, risk: 5, urgency: 5, confidence: 5 }, 5), {
+    ok: false,
+    reason: "not_participant",
+  });
+  const scored = score(session, "p-ana", { impact: 14, cost: -2, risk: 4.6 });
+  assert.deepEqual(
+    [scored.scores["p-ana"].impact, scored.scores["p-ana"].cost, scored.scores["p-ana"].risk],
+    [10, 1, 5],
+  );
+});
+
+test("analysis compares each participant with the consensus reading", () => {
+  const identical = analyzeReviewScores([
+    { name: "A", raterId: "a", submittedAt: 1, impact: 8, cost: 3, risk: 3, urgency: 4, confidence: 7 },
+    { name: "B", raterId: "b", submittedAt: 1, impact: 8, cost: 3, risk: 3, urgency: 4, confidence: 7 },
+  ]);
+  assert.equal(identical?.disagreementIndex, 0);
+  assert.equal(identical?.archetypeAgreement, 1);
+
+  const split = analyzeReviewScores([
+    { name: "A", raterId: "a", submittedAt: 1, impact: 10, cost: 1, risk: 1, urgency: 1, confidence: 10 },
+    { name: "B", raterId: "b", submittedAt: 1, impact: 1, cost: 10, risk: 10, urgency: 10, confidence: 1 },
+  ]);
+  assert.equal(split?.disagreementIndex, 1);
+  assert.equal(split?.consensus.impact, 5.5);
+  assert.deepEqual(
+    split?.participants.map((participant) => participant.matchesConsensus),
+    [false, false],
+  );
+  assert.equal(analyzeReviewScores([]), null);
+});
+
+test("store updates are serialized so concurrent joins are all kept", async () => {
+  const store = createMemoryReviewSessionStore();
+  await store.put(createReviewSession({ title: "Workshop" }, "fac@example.com", "s2", 1));
+
+  await Promise.all(
+    ["a", "b", "c"].map((id) =>
+      updateReviewSession(store, "s2", (session) => joinReviewSession(session, { id, raterId: id, name: id }, 2)),
+    ),
+  );
+  const session = await store.get("s2");
+  assert.equal(session?.participants.length, 3);
+  assert.equal(session?.revision, 4);
+  assert.deepEqual(await updateReviewSession(store, "missing", (current) => ({ ok: true, session: current })), {
+    ok: false,
+    reason: "not_found",
+  });
+});
+
+test("a session stops accepting participants at the cap", () => {
+  let session = createReviewSession({ title: "Town hall" }, "fac@example.com", "s3", 1);
+  for (let index = 0; index < MAX_REVIEW_PARTICIPANTS; index += 1) {
+    session = join(session, `p-${index}`, "", 2);
+  }
+
+  assert.deepEqual(joinReviewSession(session, { id: "late", raterId: "late", name: "Late" }, 3), { ok: false, reason: "full" });
+});
+
+test("the file store shares sessions between store instances", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "dnav-review-sessions-"));
+  try {
+    await createFileReviewSessionStore(directory).put(open());
+    const session = await createFileReviewSessionStore(directory).get("s1");
+
+    assert.equal(session?.participants.length, 2);
+    assert.equal(await createFileReviewSessionStore(directory).get("missing"), null);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,108 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { rescoreDecisions, type DecisionEntry } from "../lib/calculations";
+import { getArchetype } from "../src/lib/dnav/archetypes";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { createBundle, parseBundle } from "../lib/bundle";
+import {
+  getDatasetScoringProfile,
+  getScoringProfile,
+  registerScoringProfile,
+  signWithDeadBand,
+  DEFAULT_SCORING_PROFILE_ID,
+} from "../lib/scoringProfiles";
+import { getEmptyDatasetMeta } from "../types/dataset";
+
+const vars = { impact: 7, cost: 3, risk: 4, urgency: 6, confidence: 5 };
+
+test("the standard profile keeps the original D-NAV formula", () => {
+  const metrics = computeMetrics(vars, getScoringProfile(DEFAULT_SCORING_PROFILE_ID));
+  assert.equal(metrics.merit, 7 - 3 - 4);
+  assert.equal(metrics.dnav, 7 - 3 - 4 + 6 * 5);
+  assert.deepEqual(metrics, computeMetrics(vars));
+});
+
+test("the risk-averse profile penalizes risk twice", () => {
+  const profile = getScoringProfile("risk-averse");
+  const metrics = computeMetrics(vars, profile);
+
+  assert.equal(metrics.merit, 7 - 3 - 2 * 4);
+  assert.equal(metrics.dnav, 7 - 3 - 2 * 4 + 30);
+  assert.equal(metrics.return, 4);
+});
+
+test("unknown profile ids fall back to the standard profile", () => {
+  assert.equal(getScoringProfile("missing").id, DEFAULT_SCORING_PROFILE_ID);
+  assert.equal(getScoringProfile(undefined).id, DEFAULT_SCORING_PROFILE_ID);
+});
+
+test("dead-bands hold small R/P/S values at neutral when classifying archetypes", () => {
+  assert.equal(signWithDeadBand(1, 1), 0);
+  assert.equal(signWithDeadBand(1.5, 1), 1);
+  assert.equal(signWithDeadBand(-1.5, 1), -1);
+
+  const metrics = { return: 2, pressure: 1, stability: 1, merit: 0, energy: 0, dnav: 0 };
+  assert.equal(getArchetype(metrics).name, "Breakthrough");
+  assert.equal(getArchetype(metrics, getScoringProfile("risk-averse")).name, "Sprint");
+  assert.equal(getArchetype(metrics, getScoringProfile("growth")).name, "Advance");
+});
+
+test("rescoring recomputes stored metrics and keeps other fields", () => {
+  const decision: DecisionEntry = { ts: 1, name: "Launch", category: "Product", ...vars, ...computeMetrics(vars) };
+  const [rescored] = rescoreDecisions([decision], getScoringProfile("cost-disciplined"));
+
+  assert.equal(rescored.name, "Launch");
+  assert.equal(rescored.merit, 7 - 1.5 * 3 - 4);
+  assert.equal(rescored.dnav, rescored.merit + 30);
+});
+
+test("bundles record the definition of every profile in use", () => {
+  const bundle = createBundle(
+    {
+      activeDatasetId: "a",
+      datasets: [
+        { id: "a", label: "A", meta: { ...getEmptyDatasetMeta(), scoringProfileId: "risk-averse" }, decisions: [] },
+        { id: "b", label: "B", meta: getEmptyDatasetMeta(), decisions: [] },
+      ],
+      companyContext: null,
+      companySummary: null,
+      archetypeSummaries: {},
+      stressTestSession: [],
+    },
+    1,
+  );
+
+  assert.deepEqual(
+    bundle.scoringProfiles.map((profile) => profile.id),
+    ["risk-averse", DEFAULT_SCORING_PROFILE_ID],
+  );
+  const parsed = parseBundle(JSON.parse(JSON.stringify(bundle)));
+  assert.ok(parsed.ok);
+  if (parsed.ok) assert.equal(parsed.bundle.scoringProfiles[0].coefficients.risk, 2);
+});
+
+test("datasets resolve their own profiles and imported profiles are matched before they are registered", () => {
+  const custom = {
+    ...getScoringProfile("growth"),
+    id: "custom-bold",
+    name: "Bold",
+    coefficients: { impact: 2, cost: 1, risk: 1, energy: 1 },
+  };
+  assert.equal(getDatasetScoringProfile({ scoringProfileId: "custom-bold", scoringProfiles: [custom] }), custom);
+  assert.equal(getDatasetScoringProfile({ scoringProfileId: "custom-bold" }).id, DEFAULT_SCORING_PROFILE_ID);
+
+  const renamedPreset = { ...getScoringProfile("risk-averse"), id: "cautious", name: "Cautious" };
+  assert.deepEqual(registerScoringProfile([], renamedPreset), { id: "risk-averse", profiles: [], added: false });
+
+  // An older build's "growth" that weighs impact differently must not be read as today's preset.
+  const oldGrowth = { ...getScoringProfile("growth"), coefficients: { impact: 1.25, cost: 1, risk: 1, energy: 1 } };
+  const registered = registerScoringProfile([custom], oldGrowth);
+  assert.equal(registered.id, "growth-2");
+  assert.equal(registered.added, true);
+  assert.deepEqual(
+    registered.profiles.map((profile) => profile.id),
+    ["custom-bold", "growth-2"],
+  );
+  assert.equal(registerScoringProfile(registered.profiles, oldGrowth).id, "growth-2");
+});
@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { getArchetype } from "../src/lib/dnav/archetypes";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { getScoringProfile } from "../lib/scoringProfiles";
+import { analyzeSensitivity, sweepVariable } from "../lib/sensitivity";
+
+const vars = { impact: 7, cost: 4, risk: 3, urgency: 6, confidence: 5 };
+
+const archetypeFor = (overrides: Partial<typeof vars>, profile = getScoringProfile()) =>
+  getArchetype(computeMetrics({ ...vars, ...overrides }, profile), profile).name;
+
+test("sweeps cover the full slider scale and rank variables by D-NAV swing", () => {
+  const result = analyzeSensitivity(vars);
+
+  assert.equal(result.baseline.dnav, computeMetrics(vars).dnav);
+  assert.deepEqual(
+    result.variables.map((item) => item.variable),
+    ["confidence", "urgency", "impact", "cost", "risk"],
+  );
+  assert.equal(result.variables[0].swing, 6 * 9);
+  assert.equal(result.variables[1].swing, 5 * 9);
+  assert.ok(result.variables.every((item) => item.points.length === 10));
+  assert.deepEqual(
+    result.variables[0].points.map((point) => point.value),
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  );
+});
+
+test("flip points record where the archetype changes on either side of the current value", () => {
+  const cost = sweepVariable(vars, "cost");
+
+  assert.deepEqual(cost.flips, [
+    { variable: "cost", direction: "increase", threshold: 7, steps: 3, from: archetypeFor({}), to: archetypeFor({ cost: 7 }) },
+    {
+      variable: "cost",
+      direction: "increase",
+      threshold: 8,
+      steps: 4,
+      from: archetypeFor({ cost: 7 }),
+      to: archetypeFor({ cost: 8 }),
+    },
+  ]);
+
+  const confidence = sweepVariable(vars, "confidence");
+  const lower = confidence.flips.filter((flip) => flip.direction === "decrease");
+  assert.ok(lower.length > 0);
+  assert.ok(lower.every((flip) => flip.threshold < vars.confidence));
+  assert.equal(lower[0].from, archetypeFor({ confidence: lower[0].threshold + 1 }));
+  assert.equal(lower[0].to, archetypeFor({ confidence: lower[0].threshold }));
+});
+
+test("decision-level flips are ordered by how few steps they need", () => {
+  const { flips } = analyzeSensitivity(vars);
+
+  assert.ok(flips.length > 0);
+  for (let index = 1; index < flips.length; index += 1) {
+    assert.ok(flips[index - 1].steps <= flips[index].steps);
+  }
+});
+
+test("dead-bands in the scoring profile move the flip thresholds", () => {
+  const standard = sweepVariable(vars, "cost");
+  const costDisciplined = sweepVariable(vars, "cost", getScoringProfile("cost-disciplined"));
+
+  assert.equal(standard.flips[0].threshold, 7);
+  assert.equal(costDisciplined.flips[0].threshold, 6);
+  assert.equal(costDisciplined.minDnav, computeMetrics({ ...vars, cost: 10 }, getScoringProfile("cost-disciplined")).dnav);
+});
@@ -0,0 +1,84 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { getArchetype } from "../src/lib/dnav/archetypes";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import { getScoringProfile } from "../lib/scoringProfiles";
+import {
+  buildHistogram,
+  createSeededRandom,
+  normalizeRange,
+  sampleTriangular,
+  simulateDecision,
+} from "../lib/uncertainty";
+
+const vars = { impact: 7, cost: 4, risk: 3, urgency: 6, confidence: 5 };
+
+test("without ranges every draw reproduces the point estimate", () => {
+  const result = simulateDecision(vars, {}, { draws: 200 });
+  const metrics = computeMetrics(vars);
+
+  assert.equal(result.draws, 200);
+  assert.equal(result.metrics.dnav.mean, metrics.dnav);
+  assert.equal(result.metrics.dnav.stdev, 0);
+  assert.deepEqual(result.metrics.dnav.histogram, [{ start: metrics.dnav, end: metrics.dnav, count: 200, share: 1 }]);
+  assert.equal(result.archetypes[0].name, getArchetype(metrics).name);
+  assert.equal(result.archetypes[0].probability, 1);
+});
+
+test("archetype probabilities cover all 27 archetypes and sum to one", () => {
+  const result = simulateDecision(
+    vars,
+    { impact: { min: 3, likely: 7, max: 9 }, confidence: { min: 2, likely: 5, max: 9 } },
+    { draws: 2000, seed: 7 },
+  );
+  const total = result.archetypes.reduce((sum, item) => sum + item.probability, 0);
+
+  assert.equal(result.archetypes.length, 27);
+  assert.ok(Math.abs(total - 1) < 1e-9);
+  assert.ok(result.archetypes.filter((item) => item.probability > 0).length > 1);
+  for (let index = 1; index < result.archetypes.length; index += 1) {
+    assert.ok(result.archetypes[index - 1].probability >= result.archetypes[index].probability);
+  }
+});
+
+test("simulations are repeatable for a seed and stay inside the ranged bounds", () => {
+  const ranges = { urgency: { min: 4, likely: 6, max: 10 } };
+  const first = simulateDecision(vars, ranges, { draws: 1000, seed: 42 });
+  const second = simulateDecision(vars, ranges, { draws: 1000, seed: 42 });
+
+  assert.deepEqual(first, second);
+  assert.ok(first.metrics.pressure.min >= 4 - 5);
+  assert.ok(first.metrics.pressure.max <= 10 - 5);
+  assert.ok(first.metrics.pressure.p5 <= first.metrics.pressure.p50);
+  assert.ok(first.metrics.pressure.p50 <= first.metrics.pressure.p95);
+  assert.equal(
+    first.metrics.pressure.histogram.reduce((sum, bin) => sum + bin.count, 0),
+    1000,
+  );
+});
+
+test("triangular samples match the distribution mean", () => {
+  const range = { min: 2, likely: 4, max: 9 };
+  const random = createSeededRandom(3);
+  const samples = Array.from({ length: 20000 }, () => sampleTriangular(range, random()));
+  const average = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+
+  assert.ok(samples.every((value) => value >= 2 && value <= 9));
+  assert.ok(Math.abs(average - 5) < 0.05);
+});
+
+test("ranges are clamped to the slider scale and ordered around the likely value", () => {
+  assert.deepEqual(normalizeRange({ min: 0, likely: 5, max: 14 }), { min: 1, likely: 5, max: 10 });
+  assert.deepEqual(normalizeRange({ min: 6, likely: 4, max: 3 }), { min: 4, likely: 4, max: 4 });
+});
+
+test("histograms bucket every value and honour the profile in use", () => {
+  const bins = buildHistogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+  assert.equal(bins.length, 5);
+  assert.equal(bins[4].count, 2);
+
+  const profile = getScoringProfile("risk-averse");
+  const result = simulateDecision(vars, {}, { draws: 10, profile });
+  assert.equal(result.metrics.dnav.mean, computeMetrics(vars, profile).dnav);
+});
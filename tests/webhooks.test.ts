@@ -0,0 +1,270 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { AlertRule } from "../lib/alerts";
+import type { DecisionEntry } from "../lib/calculations";
+import { computeMetrics } from "../src/lib/dnav/compute";
+import type { DecisionVars } from "../src/lib/dnav/types";
+import { webhookUrlSchema } from "../app/api/datasets/[id]/webhooks/schema";
+import { checkWebhookTarget, verifyWebhookSignature } from "../lib/webhookDelivery";
+import {
+  ALERT_DISPATCH_COOLDOWN_MS,
+  claimWebhookDispatch,
+  createMemoryWebhookAdapter,
+  createWebhookEndpoint,
+  dispatchWebhookTriggers,
+  listWebhookDeliveries,
+} from "../lib/webhookStore";
+import {
+  collectAlertRuleTrigger,
+  collectDatasetTriggers,
+  getAlertDispatchKey,
+  type WebhookPayload,
+} from "../lib/webhooks";
+
+const makeDecision = (ts: number, vars: DecisionVars): DecisionEntry => ({
+  ts,
+  name: `Decision ${ts}`,
+  category: "Ops",
+  ...vars,
+  ...computeMetrics(vars),
+});
+
+// The stand-in receivers below listen on loopback, which deliveries refuse unless allowlisted.
+const allowedHosts = ["127.0.0.1"];
+
+// High Pressure on fragile Stability raises the fragileExecution judgment signal.
+const fragile = makeDecision(2, { impact: 6, cost: 4, risk: 7, urgency: 9, confidence: 4 });
+const steady = makeDecision(1, { impact: 5, cost: 5, risk: 5, urgency: 5, confidence: 5 });
+
+// Local stand-in receiver: answers with the queued status codes in order, then 200.
+async function startReceiver(statuses: number[]) {
+  const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode = statuses.shift() ?? 200;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test("a redirect to a private address is not followed", async () => {
+  const internal = await startReceiver([]);
+  const redirecting = createServer((request, response) => {
+    request.resume();
+    // "localhost" is not allowlisted, so this is the loopback target the saved URL never revealed.
+    response.writeHead(302, { Location: internal.url.replace("127.0.0.1", "localhost") });
+    response.end();
+  });
+  await new Promise<void>((resolve) => redirecting.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = redirecting.address() as AddressInfo;
+    const adapter = createMemoryWebhookAdapter();
+    await createWebhookEndpoint(adapter, "dataset-1", { url: `http://127.0.0.1:${port}/hook`, events: ["judgment_signal"] });
+
+    const triggers = collectDatasetTriggers([steady], [steady, fragile]);
+    const [delivery] = await dispatchWebhookTriggers(adapter, "dataset-1", triggers, { allowedHosts });
+
+    assert.equal(delivery.status, "failed");
+    assert.deepEqual(
+      delivery.attempts.map((attempt) => [attempt.statusCode, attempt.error]),
+      [[302, "Redirects are not followed."]],
+    );
+    assert.equal(internal.received.length, 0);
+  } finally {
+    await new Promise<void>((resolve) => redirecting.close(() => resolve()));
+    await internal.close();
+  }
+});
+
+test("new decisions that raise a judgment signal become webhook triggers", () => {
+  const triggers = collectDatasetTriggers([steady], [steady, fragile]);
+  assert.deepEqual(
+    triggers.map(({ trigger, decision }) => [trigger.type, trigger.key, decision?.ts]),
+    [["judgment_signal", "fragileExecution", 2]],
+  );
+  assert.deepEqual(collectDatasetTriggers([steady, fragile], [steady, fragile]), []);
+});
+
+test("deliveries are signed and retried until the receiver accepts them", async () => {
+  const receiver = await startReceiver([503, 500]);
+  try {
+    const adapter = createMemoryWebhookAdapter();
+    const endpoint = await createWebhookEndpoint(adapter, "dataset-1", { url: receiver.url, events: ["judgment_signal"] });
+    const delays: number[] = [];
+
+    const [delivery] = await dispatchWebhookTriggers(adapter, "dataset-1", collectDatasetTriggers([steady], [steady, fragile]), {
+      baseDelayMs: 10,
+      allowedHosts,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    assert.equal(delivery.status, "delivered");
+    assert.deepEqual(
+      delivery.attempts.map((attempt) => attempt.statusCode),
+      [503, 500, 200],
+    );
+    assert.deepEqual(delays, [10, 20]);
+
+    const last = receiver.received.at(-1)!;
+    const timestamp = Number(last.headers["x-dnav-timestamp"]);
+    assert.ok(verifyWebhookSignature(endpoint.secret, timestamp, last.body, String(last.headers["x-dnav-signature"])));
+    assert.equal(verifyWebhookSignature("wrong", timestamp, last.body, String(last.headers["x-dnav-signature"])), false);
+
+    const payload = JSON.parse(last.body) as WebhookPayload;
+    assert.equal(payload.trigger.key, "fragileExecution");
+    assert.equal(payload.decision?.name, "Decision 2");
+    assert.equal(payload.metrics?.pressure, fragile.pressure);
+    assert.ok(payload.archetype);
+
+    const log = await listWebhookDeliveries(adapter, "dataset-1");
+    assert.equal(log.length, 1);
+    assert.equal(log[0].attempts.length, 3);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test("client errors are not retried and disabled or unsubscribed endpoints are skipped", async () => {
+  const receiver = await startReceiver([410]);
+  try {
+    const adapter = createMemoryWebhookAdapter();
+    await createWebhookEndpoint(adapter, "dataset-1", { url: receiver.url, events: ["judgment_signal"] });
+    await createWebhookEndpoint(adapter, "dataset-1", { url: receiver.url, events: ["alert_rule"] });
+    await createWebhookEndpoint(adapter, "dataset-1", { url: receiver.url, events: ["judgment_signal"], enabled: false });
+
+    const deliveries = await dispatchWebhookTriggers(
+      adapter,
+      "dataset-1",
+      collectDatasetTriggers([steady], [steady, fragile]),
+      { allowedHosts, sleep: async () => undefined },
+    );
+
+    assert.equal(deliveries.length, 1);
+    assert.equal(deliveries[0].status, "failed");
+    assert.equal(deliveries[0].attempts.length, 1);
+    assert.equal(receiver.received.length, 1);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test("webhook targets must resolve to public addresses unless allowlisted", async () => {
+  const lookup = async (hostname: string) =>
+    hostname === "hooks.example.com" ? ["93.184.216.34"] : ["93.184.216.34", "10.0.0.8"];
+
+  assert.deepEqual(await checkWebhookTarget("https://hooks.example.com/in", { lookup, allowedHosts: [] }), { ok: true });
+  assert.deepEqual(await checkWebhookTarget("https://split.example.com/in", { lookup, allowedHosts: [] }), {
+    ok: false,
+    reason: "private_address",
+  });
+  const privateUrls = ["http://127.0.0.1/hook", "http://169.254.169.254/latest", "http://[::1]/", "http://[::ffff:192.168.0.1]/"];
+  for (const url of privateUrls) {
+    assert.equal((await checkWebhookTarget(url, { lookup, allowedHosts: [] })).ok, false, url);
+  }
+  assert.deepEqual(await checkWebhookTarget("http://127.0.0.1/hook", { lookup, allowedHosts }), { ok: true });
+
+  assert.equal((await webhookUrlSchema.safeParseAsync("http://127.0.0.1:3000/hook")).success, false);
+  process.env.DNAV_WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+  try {
+    assert.equal((await webhookUrlSchema.safeParseAsync("http://127.0.0.1:3000/hook")).success, true);
+  } finally {
+    delete process.env.DNAV_WEBHOOK_ALLOWED_HOSTS;
+  }
+});
+
+test("deliveries to private addresses are refused without a request", async () => {
+  const adapter = createMemoryWebhookAdapter();
+  await createWebhookEndpoint(adapter, "dataset-1", { url: "http://127.0.0.1:9/hook", events: ["judgment_signal"] });
+  let sent = 0;
+
+  const triggers = collectDatasetTriggers([steady], [steady, fragile]);
+  const [delivery] = await dispatchWebhookTriggers(adapter, "dataset-1", triggers, {
+    allowedHosts: [],
+    fetch: async () => {
+      sent += 1;
+      return { status: 200 };
+    },
+  });
+
+  assert.equal(delivery.status, "failed");
+  assert.equal(sent, 0);
+  assert.match(delivery.attempts[0].error ?? "", /private_address/);
+});
+
+test("deliveries are logged as pending before sending and stop retrying at the deadline", async () => {
+  const adapter = createMemoryWebhookAdapter();
+  await createWebhookEndpoint(adapter, "dataset-1", { url: "https://hooks.example.com/in", events: ["judgment_signal"] });
+  let clock = 0;
+  const seen: string[] = [];
+
+  const triggers = collectDatasetTriggers([steady], [steady, fragile]);
+  const [delivery] = await dispatchWebhookTriggers(adapter, "dataset-1", triggers, {
+    allowedHosts: ["hooks.example.com"],
+    now: () => clock,
+    deadlineMs: 5_000,
+    baseDelayMs: 1_000,
+    sleep: async (ms) => {
+      clock += ms;
+    },
+    fetch: async () => {
+      const [logged] = await listWebhookDeliveries(adapter, "dataset-1");
+      seen.push(`${logged.status}:${logged.attempts.length}`);
+      clock += 500;
+      return { status: 503 };
+    },
+  });
+
+  // Attempts start at 0, 1.5s and 3.5s; the next one would be due after the 5s deadline.
+  assert.deepEqual(seen, ["pending:0", "pending:1", "pending:2"]);
+  assert.equal(delivery.status, "failed");
+  assert.equal(delivery.attempts.length, 3);
+  assert.deepEqual(await listWebhookDeliveries(adapter, "dataset-1"), [delivery]);
+});
+
+test("reported alert rules only become triggers when they hold on the stored decisions", () => {
+  const rule: Pick<AlertRule, "id" | "name" | "condition"> = {
+    id: "rule-1",
+    name: "",
+    condition: { kind: "rolling_mean", metric: "pressure", window: 1, comparator: ">", threshold: 0 },
+  };
+
+  const triggered = collectAlertRuleTrigger(rule, [steady, fragile]);
+  assert.equal(triggered?.trigger.type, "alert_rule");
+  assert.equal(triggered?.trigger.label, "Rolling-1 Pressure mean > 0");
+  assert.match(triggered?.trigger.detail ?? "", /mean is/);
+  assert.equal(triggered?.decision?.ts, 2);
+  assert.equal(collectAlertRuleTrigger(rule, [steady]), null);
+});
+
+test("a repeated alert firing is only claimed once per cooldown", async () => {
+  const adapter = createMemoryWebhookAdapter();
+  const rule: Pick<AlertRule, "id" | "condition"> = {
+    id: "rule-1",
+    condition: { kind: "rolling_mean", metric: "pressure", window: 1, comparator: ">", threshold: 0 },
+  };
+  const key = getAlertDispatchKey(rule, fragile, 3);
+
+  const claims = await Promise.all([1, 2, 3].map(() => claimWebhookDispatch(adapter, "dataset-1", key, 1000)));
+  assert.deepEqual(claims, [true, false, false]);
+  assert.equal(await claimWebhookDispatch(adapter, "dataset-1", getAlertDispatchKey(rule, fragile, 4), 1000), true);
+  assert.equal(await claimWebhookDispatch(adapter, "dataset-1", getAlertDispatchKey(rule, steady, 3), 1000), true);
+  assert.equal(await claimWebhookDispatch(adapter, "dataset-1", key, 1000 + ALERT_DISPATCH_COOLDOWN_MS - 1), false);
+  assert.equal(await claimWebhookDispatch(adapter, "dataset-1", key, 1000 + ALERT_DISPATCH_COOLDOWN_MS), true);
+});
@@ -0,0 +1,142 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { createDataset, createMemoryDatasetAdapter } from "../lib/datasetStore";
+import type { IdentityUser } from "../lib/identity";
+import { createLocalIdentityResolver, getServerIdentityProvider } from "../lib/requestIdentity";
+import {
+  authorizeDataset,
+  createMemoryWorkspaceAdapter,
+  createWorkspace,
+  filterReadableDatasets,
+  hasWorkspacePermission,
+  updateWorkspace,
+} from "../lib/workspaceStore";
+import { getDatasetRole, hasPermission, type Workspace } from "../lib/workspaces";
+
+const user = (email: string, roles: string[] = []): IdentityUser => ({ email, app_metadata: { roles } });
+
+const workspace: Workspace = {
+  id: "team",
+  name: "Team",
+  members: [
+    { userId: "ana@example.com", role: "admin" },
+    { userId: "ben@example.com", role: "contributor" },
+    { userId: "cy@example.com", role: "viewer" },
+  ],
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+test("roles stack from viewer up to admin", () => {
+  assert.equal(hasPermission("viewer", "read"), true);
+  assert.equal(hasPermission("viewer", "write"), false);
+  assert.equal(hasPermission("contributor", "write"), true);
+  assert.equal(hasPermission("contributor", "facilitate"), false);
+  assert.equal(hasPermission("facilitator", "facilitate"), true);
+  assert.equal(hasPermission("facilitator", "manage"), false);
+  assert.equal(hasPermission("admin", "manage"), true);
+  assert.equal(hasPermission(null, "read"), false);
+});
+
+test("dataset grants override the workspace role in both directions", () => {
+  const dataset = {
+    workspaceId: "team",
+    access: [
+      { userId: "ben@example.com", role: "viewer" as const },
+      { userId: "cy@example.com", role: "facilitator" as const },
+    ],
+  };
+
+  assert.equal(getDatasetRole(dataset, workspace, user("Ben@Example.com")), "viewer");
+  assert.equal(getDatasetRole(dataset, workspace, user("cy@example.com")), "facilitator");
+  assert.equal(getDatasetRole(dataset, workspace, user("ana@example.com")), "admin");
+  assert.equal(getDatasetRole(dataset, workspace, user("dee@example.com")), null);
+  assert.equal(getDatasetRole(dataset, workspace, user("dee@example.com", ["admin"])), "admin");
+  assert.equal(getDatasetRole({ ownerId: "dee@example.com" }, null, user("Dee@example.com")), "admin");
+  assert.equal(getDatasetRole({ ownerId: "dee@example.com" }, null, user("ana@example.com")), null);
+  assert.equal(getDatasetRole({}, null, user("dee@example.com")), null);
+  assert.equal(getDatasetRole({}, null, user("ana@example.com", ["admin"])), "admin");
+  assert.equal(getDatasetRole({}, null, null), null);
+});
+
+test("dataset access hides datasets outside the caller's workspaces", async () => {
+  const datasets = createMemoryDatasetAdapter();
+  const workspaces = createMemoryWorkspaceAdapter([workspace]);
+  await createDataset(datasets, { id: "shared", label: "Shared", workspaceId: "team" }, 10);
+  await createDataset(datasets, { id: "personal", label: "Personal", ownerId: "dee@example.com" }, 10);
+  const adapters = { datasets, workspaces };
+
+  assert.deepEqual(await authorizeDataset(adapters, "shared", null, "read"), { ok: false, reason: "unauthenticated" });
+  assert.equal((await authorizeDataset(adapters, "shared", user("cy@example.com"), "read")).ok, true);
+  assert.deepEqual(await authorizeDataset(adapters, "shared", user("cy@example.com"), "write"), {
+    ok: false,
+    reason: "forbidden",
+  });
+  assert.equal((await authorizeDataset(adapters, "shared", user("ben@example.com"), "write")).ok, true);
+  assert.deepEqual(await authorizeDataset(adapters, "shared", user("dee@example.com"), "read"), {
+    ok: false,
+    reason: "not_found",
+  });
+
+  const visible = await filterReadableDatasets(workspaces, await datasets.list(), user("dee@example.com"));
+  assert.deepEqual(
+    visible.map((dataset) => dataset.id),
+    ["personal"],
+  );
+  assert.deepEqual(await authorizeDataset(adapters, "personal", user("ben@example.com"), "read"), {
+    ok: false,
+    reason: "not_found",
+  });
+  assert.equal(await hasWorkspacePermission(workspaces, "team", user("ben@example.com"), "write"), true);
+  assert.equal(await hasWorkspacePermission(workspaces, "team", user("ben@example.com"), "manage"), false);
+  assert.equal(await hasWorkspacePermission(workspaces, "missing", user("x@example.com", ["admin"]), "write"), false);
+});
+
+test("only admins edit members and a workspace always keeps an admin", async () => {
+  const workspaces = createMemoryWorkspaceAdapter();
+  const created = await createWorkspace(workspaces, { id: "ops", name: " Ops " }, user("Ana@Example.com"), 5);
+  assert.ok(created.ok);
+  assert.deepEqual(created.workspace.members, [{ userId: "ana@example.com", role: "admin" }]);
+  assert.equal(created.workspace.name, "Ops");
+
+  const members = [
+    { userId: "ana@example.com", role: "admin" as const },
+    { userId: " Ben@example.com", role: "contributor" as const },
+  ];
+  assert.deepEqual(await updateWorkspace(workspaces, "ops", { members }, user("ben@example.com")), {
+    ok: false,
+    reason: "forbidden",
+  });
+
+  const updated = await updateWorkspace(workspaces, "ops", { members }, user("ana@example.com"), 6);
+  assert.ok(updated.ok);
+  assert.deepEqual(
+    updated.workspace.members.map((member) => member.userId),
+    ["ana@example.com", "ben@example.com"],
+  );
+
+  const demoted = await updateWorkspace(
+    workspaces,
+    "ops",
+    { members: [{ userId: "ana@example.com", role: "viewer" }] },
+    user("ana@example.com"),
+  );
+  assert.deepEqual(demoted, { ok: false, reason: "no_admin" });
+});
+
+test("the local resolver reads the stub identity headers", async () => {
+  const resolve = createLocalIdentityResolver();
+  const resolved = await resolve(
+    new Request("http://localhost/api/datasets", { headers: { "x-dnav-user": "ana@example.com", "x-dnav-roles": "admin" } }),
+  );
+  assert.equal(resolved?.email, "ana@example.com");
+  assert.deepEqual(resolved?.app_metadata?.roles, ["admin"]);
+  assert.equal(await resolve(new Request("http://localhost/api/datasets")), null);
+});
+
+test("the header stub is only enabled by the server variable and never in production", () => {
+  assert.equal(getServerIdentityProvider({ NODE_ENV: "development", DNAV_IDENTITY_PROVIDER: "local" }), "local");
+  assert.equal(getServerIdentityProvider({ NODE_ENV: "development", NEXT_PUBLIC_DNAV_IDENTITY_PROVIDER: "local" }), "netlify");
+  assert.equal(getServerIdentityProvider({ NODE_ENV: "production", DNAV_IDENTITY_PROVIDER: "local" }), "netlify");
+});
@@ -1,5 +1,7 @@
 import { type DecisionEntry } from "@/lib/calculations";
 import { type CompanyContext } from "@/types/company";
+import { type ScoringProfile } from "@/lib/scoringProfiles";
+import { type DatasetAccessGrant } from "@/lib/workspaces";
 
 export type DatasetId = string;
 
@@ -15,6 +17,9 @@ export interface DatasetMeta {
   type?: CompanyContext["type"];
   contextNote?: string;
   path?: string;
+  scoringProfileId?: string;
+  // User-defined profiles for this dataset; `scoringProfileId` may name one of them.
+  scoringProfiles?: ScoringProfile[];
 }
 
 export interface DatasetState {
@@ -22,6 +27,10 @@ export interface DatasetState {
   label: string;
   meta: DatasetMeta;
   decisions: DecisionEntry[];
+  workspaceId?: string;
+  access?: DatasetAccessGrant[];
+  // Set by the server to the creator's user id; personal datasets (no workspace) are only visible to their owner.
+  ownerId?: string;
 }
 
 const EMPTY_DATASET_META: DatasetMeta = {
@@ -42,6 +51,11 @@ export function getEmptyDatasetMeta(): DatasetMeta {
   return { ...EMPTY_DATASET_META };
 }
 
+// Ids are random so datasets created in different browsers never collide once they sync to the server.
+export function createDatasetId(): DatasetId {
+  return `dataset-${crypto.randomUUID()}`;
+}
+
 export function datasetMetaToCompanyContext(meta: DatasetMeta): CompanyContext {
   return {
     companyName: meta.companyName ?? "",
@@ -1,4 +1,6 @@
-import { DecisionEntry, ema, getArchetype, stdev } from "@/lib/calculations";
+import { DecisionEntry, ema, stdev } from "@/lib/calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
 
 export interface DashboardStats {
   totalDecisions: number;
@@ -30,6 +32,7 @@ export interface DistributionInsight {
 
 export interface ComputeDashboardStatsOptions {
   timeframeDays?: number | null;
+  scoringProfile?: ScoringProfile;
 }
 
 export const formatValue = (value: number, digits = 1) =>
@@ -212,7 +215,7 @@ export const buildPortfolioNarrative = (
 
 export const computeDashboardStats = (
   decisions: DecisionEntry[],
-  { timeframeDays = null }: ComputeDashboardStatsOptions = {},
+  { timeframeDays = null, scoringProfile }: ComputeDashboardStatsOptions = {},
 ): DashboardStats => {
   if (decisions.length === 0) {
     return {
@@ -295,14 +298,17 @@ export const computeDashboardStats = (
   const avgStability = avg(stabilityScores);
   const avgPressure = avg(pressureScores);
 
-  const archetypeInfo = getArchetype({
-    return: avgReturn,
-    stability: avgStability,
-    pressure: avgPressure,
-    merit: 0,
-    energy: 0,
-    dnav: 0,
-  });
+  const archetypeInfo = getArchetype(
+    {
+      return: avgReturn,
+      stability: avgStability,
+      pressure: avgPressure,
+      merit: 0,
+      energy: 0,
+      dnav: 0,
+    },
+    scoringProfile,
+  );
 
   const totalEnergy = energyScores.reduce((a, b) => a + b, 0);
   const totalReturn = returnScores.reduce((a, b) => a + b, 0);
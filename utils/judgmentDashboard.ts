@@ -1,4 +1,8 @@
-import { DecisionEntry, getArchetype } from "@/lib/calculations";
+import { DecisionEntry, type DecisionOutcome } from "@/lib/calculations";
+import { getArchetype } from "@/src/lib/dnav/archetypes";
+import { computeCalibrationReport, type CalibrationReport } from "@/lib/calibration";
+import { getRealizedReturn, summarizeForecastErrors, type ForecastErrorSummary } from "@/lib/outcomes";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "@/lib/scoringProfiles";
 import { type CompanyContext } from "@/types/company";
 import { computeLCI } from "./lci";
 import { mean, stdev } from "./stats";
@@ -30,6 +34,7 @@ export interface JudgmentDecision {
   return1?: number;
   pressure1?: number;
   stability1?: number;
+  outcome?: DecisionOutcome | null;
 }
 
 export interface RpsBaseline {
@@ -59,6 +64,10 @@ export interface LearningMetrics {
   winRate: number;
   longestWin: number;
   longestLoss: number;
+  resolvedCount: number;
+  realizedWinRate: number | null;
+  returnForecastBias: number | null;
+  returnForecastMae: number | null;
 }
 
 export interface ReturnHygiene {
@@ -71,6 +80,7 @@ export interface ReturnHygiene {
   averageWin: number;
   averageLoss: number;
   hitRate: number;
+  realizedReturnDebt: number | null;
 }
 
 export interface CategoryHeatmapRow {
@@ -148,6 +158,9 @@ export interface JudgmentDashboardData {
   archetypes: ArchetypePatterns;
   drift: DriftInsights;
   signals: JudgmentSignals;
+  forecast: ForecastErrorSummary;
+  calibration: CalibrationReport;
+  scoringProfile: ScoringProfile;
   companyContext?: CompanyContext;
 }
 
@@ -206,7 +219,10 @@ export const filterPreviousDecisionsByTimeframe = (
   );
 };
 
-export const normalizeDecision = (decision: DecisionEntry): JudgmentDecision => {
+export const normalizeDecision = (
+  decision: DecisionEntry,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): JudgmentDecision => {
   const createdAt = decision.createdAt ?? decision.ts;
   const baseReturn = (decision as unknown as { return0?: number }).return0 ?? decision.return;
   const basePressure = (decision as unknown as { pressure0?: number }).pressure0 ?? decision.pressure;
@@ -232,14 +248,17 @@ export const normalizeDecision = (decision: DecisionEntry): JudgmentDecision =>
     pressure0: basePressure,
     stability0: baseStability,
     dnavScore: (decision as unknown as { dnavScore?: number }).dnavScore ?? decision.dnav,
-    archetype: decision.archetype ?? getArchetype({
-      return: baseReturn,
-      pressure: basePressure,
-      stability: baseStability,
-      merit: 0,
-      energy: 0,
-      dnav: 0,
-    }).name,
+    archetype: decision.archetype ?? getArchetype(
+      {
+        return: baseReturn,
+        pressure: basePressure,
+        stability: baseStability,
+        merit: 0,
+        energy: 0,
+        dnav: 0,
+      },
+      profile,
+    ).name,
     resolutionWindow: decision.resolutionWindow,
     resolvedAt: decision.resolvedAt ?? null,
     impact1: (decision as unknown as { impact1?: number }).impact1,
@@ -250,6 +269,7 @@ export const normalizeDecision = (decision: DecisionEntry): JudgmentDecision =>
     return1: (decision as unknown as { return1?: number }).return1,
     pressure1: (decision as unknown as { pressure1?: number }).pressure1,
     stability1: (decision as unknown as { stability1?: number }).stability1,
+    outcome: decision.outcome ?? null,
   };
 };
 
@@ -385,6 +405,10 @@ export const computeLearningMetrics = (chronologicalDecisions: JudgmentDecision[
 
   const { longestWin, longestLoss } = computeLongestStreaks(chronologicalDecisions);
 
+  const resolved = chronologicalDecisions.filter((d) => d.outcome);
+  const realizedReturns = resolved.map(getRealizedReturn);
+  const returnErrors = resolved.map((d) => getRealizedReturn(d) - d.return0);
+
   return {
     lci,
     decisionsToRecover: computeRecoveryDecisions(chronologicalDecisions),
@@ -394,6 +418,12 @@ export const computeLearningMetrics = (chronologicalDecisions: JudgmentDecision[
     winRate: returns.length ? (returns.filter((r) => r > 0).length / returns.length) * 100 : 0,
     longestWin,
     longestLoss,
+    resolvedCount: resolved.length,
+    realizedWinRate: resolved.length
+      ? (realizedReturns.filter((r) => r > 0).length / resolved.length) * 100
+      : null,
+    returnForecastBias: resolved.length ? mean(returnErrors) : null,
+    returnForecastMae: resolved.length ? mean(returnErrors.map(Math.abs)) : null,
   };
 };
 
@@ -426,6 +456,17 @@ export const computeReturnHygiene = (chronologicalDecisions: JudgmentDecision[])
 
   const paybackRatio = avgWin !== 0 ? Math.abs(avgLoss) / Math.abs(avgWin) : 0; // avg loss versus avg win
 
+  // Realized figures only cover decisions with a recorded outcome.
+  const realizedReturns = chronologicalDecisions.filter((d) => d.outcome).map(getRealizedReturn);
+  let realizedReturnDebt = 0;
+  for (const value of realizedReturns) {
+    if (value < 0) {
+      realizedReturnDebt += Math.abs(value);
+    } else if (realizedReturnDebt > 0) {
+      realizedReturnDebt = Math.max(0, realizedReturnDebt - value);
+    }
+  }
+
   return {
     currentLossStreak: currentLoss,
     worstLossStreak: longestLoss,
@@ -436,6 +477,7 @@ export const computeReturnHygiene = (chronologicalDecisions: JudgmentDecision[])
     averageWin: avgWin,
     averageLoss: avgLoss,
     hitRate: returns.length ? (wins.length / returns.length) * 100 : 0,
+    realizedReturnDebt: realizedReturns.length ? realizedReturnDebt : null,
   };
 };
 
@@ -677,8 +719,9 @@ export const computeJudgmentSignals = (
 export const buildJudgmentDashboard = (
   decisions: DecisionEntry[],
   companyContext?: CompanyContext,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
 ): JudgmentDashboardData => {
-  const normalized = decisions.map(normalizeDecision);
+  const normalized = decisions.map((decision) => normalizeDecision(decision, scoringProfile));
   const chronological = [...normalized].sort((a, b) => a.createdAt - b.createdAt);
   const baseline = computeRpsBaseline(normalized);
   const learning = computeLearningMetrics(chronological);
@@ -687,6 +730,10 @@ export const buildJudgmentDashboard = (
   const archetypes = computeArchetypePatterns(chronological, categories);
   const drift = computeDriftInsights(normalized);
   const signals = computeJudgmentSignals(categories, drift);
+  const forecast = summarizeForecastErrors(normalized);
+  const calibration = computeCalibrationReport(normalized, {
+    categoryOrder: [...categories].sort((a, b) => b.decisionCount - a.decisionCount).map((row) => row.category),
+  });
 
   return {
     normalized,
@@ -698,6 +745,9 @@ export const buildJudgmentDashboard = (
     archetypes,
     drift,
     signals,
+    forecast,
+    calibration,
+    scoringProfile,
     companyContext,
   };
 };
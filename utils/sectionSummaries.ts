@@ -30,7 +30,12 @@ export const getLearningRecoverySummary = (learning: LearningMetrics, hygiene: R
   const lciTone = describeDirection((learning.lci ?? 0) - 0.6, "LCI trends strong", "LCI trends softer", "LCI holds steady");
   const winTone = describeDirection(learning.winRate - 50, "win rate above midline", "win rate below midline", "win rate near even");
 
-  return `${lciTone} with ${winTone}; recoveries average ${formatNumber(learning.decisionsToRecover, 1)} decisions and ${formatNumber(hygiene.decisionDebt)}% of calls produced negative return.`;
+  const calibrationNote =
+    learning.resolvedCount > 0
+      ? ` ${learning.resolvedCount} resolved outcomes land ${formatNumber(learning.returnForecastBias ?? 0)} Return vs forecast.`
+      : "";
+
+  return `${lciTone} with ${winTone}; recoveries average ${formatNumber(learning.decisionsToRecover, 1)} decisions and ${formatNumber(hygiene.decisionDebt)}% of calls produced negative return.${calibrationNote}`;
 };
 
 export const getCategorySummary = (categories: CategoryHeatmapRow[]): string => {